@@ -0,0 +1,24 @@
+CREATE TABLE "login_failures" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"email" varchar(255) NOT NULL,
+	"ip_address" varchar(64),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "login_lockouts" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"scope" varchar(20) NOT NULL,
+	"email" varchar(255),
+	"user_id" uuid,
+	"ip_address" varchar(64),
+	"failed_attempts" integer NOT NULL,
+	"locked_until" timestamp with time zone NOT NULL,
+	"released_at" timestamp with time zone,
+	"released_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "login_lockouts" ADD CONSTRAINT "login_lockouts_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "login_lockouts" ADD CONSTRAINT "login_lockouts_released_by_users_id_fk" FOREIGN KEY ("released_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "login_failures_email_created_at_index" ON "login_failures" USING btree ("email","created_at");--> statement-breakpoint
+CREATE INDEX "login_failures_ip_address_created_at_index" ON "login_failures" USING btree ("ip_address","created_at");
\ No newline at end of file
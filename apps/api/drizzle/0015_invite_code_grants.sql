@@ -0,0 +1,15 @@
+CREATE TABLE "invite_code_services" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invite_code_id" uuid NOT NULL,
+	"service_id" uuid NOT NULL,
+	CONSTRAINT "invite_code_services_invite_code_id_service_id_unique" UNIQUE("invite_code_id","service_id")
+);
+--> statement-breakpoint
+ALTER TABLE "invite_codes" ADD COLUMN "use_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "invite_codes" ADD COLUMN "max_uses" integer DEFAULT 1 NOT NULL;--> statement-breakpoint
+ALTER TABLE "invite_codes" ADD COLUMN "email" varchar(255);--> statement-breakpoint
+ALTER TABLE "invite_codes" ADD COLUMN "role" varchar(20) DEFAULT 'user' NOT NULL;--> statement-breakpoint
+ALTER TABLE "invite_codes" ADD COLUMN "note" text;--> statement-breakpoint
+ALTER TABLE "invite_code_services" ADD CONSTRAINT "invite_code_services_invite_code_id_invite_codes_id_fk" FOREIGN KEY ("invite_code_id") REFERENCES "public"."invite_codes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invite_code_services" ADD CONSTRAINT "invite_code_services_service_id_services_id_fk" FOREIGN KEY ("service_id") REFERENCES "public"."services"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+UPDATE "invite_codes" SET "use_count" = 1 WHERE "used_by" IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE "audit_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"action" varchar(100) NOT NULL,
+	"actor_id" uuid,
+	"actor_email" varchar(255),
+	"target_type" varchar(50),
+	"target_id" varchar(255),
+	"target_label" varchar(255),
+	"metadata" jsonb,
+	"ip_address" varchar(64),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "audit_events" ADD CONSTRAINT "audit_events_actor_id_users_id_fk" FOREIGN KEY ("actor_id") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "audit_events_created_at_index" ON "audit_events" USING btree ("created_at");--> statement-breakpoint
+CREATE INDEX "audit_events_action_created_at_index" ON "audit_events" USING btree ("action","created_at");--> statement-breakpoint
+CREATE INDEX "audit_events_actor_id_created_at_index" ON "audit_events" USING btree ("actor_id","created_at");--> statement-breakpoint
+CREATE INDEX "audit_events_target_id_index" ON "audit_events" USING btree ("target_id");
\ No newline at end of file
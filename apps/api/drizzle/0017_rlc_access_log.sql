@@ -0,0 +1,17 @@
+CREATE TABLE "rlc_access_log" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"user_id" uuid,
+	"user_email" varchar(255) NOT NULL,
+	"action" varchar(30) NOT NULL,
+	"document_id" uuid,
+	"query" text,
+	"filters" jsonb,
+	"result_count" integer,
+	"api_token_id" uuid,
+	"ip_address" varchar(64),
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "rlc_access_log" ADD CONSTRAINT "rlc_access_log_document_id_rlc_documents_id_fk" FOREIGN KEY ("document_id") REFERENCES "public"."rlc_documents"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "rlc_access_log_document_id_created_at_index" ON "rlc_access_log" USING btree ("document_id","created_at");--> statement-breakpoint
+CREATE INDEX "rlc_access_log_user_id_created_at_index" ON "rlc_access_log" USING btree ("user_id","created_at");
\ No newline at end of file
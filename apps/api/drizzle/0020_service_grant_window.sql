@@ -0,0 +1,3 @@
+ALTER TABLE "user_services" ADD COLUMN "starts_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "user_services" ADD COLUMN "expires_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "user_services_expires_at_index" ON "user_services" USING btree ("expires_at");
\ No newline at end of file
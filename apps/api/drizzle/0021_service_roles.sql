@@ -0,0 +1,3 @@
+ALTER TABLE "organization_services" ADD COLUMN "role" varchar(20) DEFAULT 'analyst' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_group_services" ADD COLUMN "role" varchar(20) DEFAULT 'analyst' NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_services" ADD COLUMN "role" varchar(20) DEFAULT 'analyst' NOT NULL;
\ No newline at end of file
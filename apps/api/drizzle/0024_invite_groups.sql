@@ -0,0 +1,2 @@
+ALTER TABLE "invite_codes" ADD COLUMN "group_id" uuid;--> statement-breakpoint
+ALTER TABLE "invite_codes" ADD CONSTRAINT "invite_codes_group_id_user_groups_id_fk" FOREIGN KEY ("group_id") REFERENCES "public"."user_groups"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
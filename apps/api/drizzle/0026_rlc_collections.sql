@@ -0,0 +1,52 @@
+CREATE TABLE "rlc_collection_grants" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"collection_id" uuid NOT NULL,
+	"principal_type" varchar(20) NOT NULL,
+	"principal_id" uuid NOT NULL,
+	"granted_by" uuid,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "rlc_collection_grants_collection_id_principal_type_principal_id_unique" UNIQUE("collection_id","principal_type","principal_id")
+);
+--> statement-breakpoint
+CREATE TABLE "rlc_collections" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"slug" varchar(100) NOT NULL,
+	"name" varchar(255) NOT NULL,
+	"description" text,
+	"source_root" text NOT NULL,
+	"system_prompt" text,
+	"restricted" boolean DEFAULT false NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "rlc_collections_slug_unique" UNIQUE("slug")
+);
+--> statement-breakpoint
+CREATE TABLE "rlc_ingestion_runs" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"collection_id" uuid NOT NULL,
+	"status" varchar(20) DEFAULT 'running' NOT NULL,
+	"files_in_manifest" integer,
+	"documents_added" integer,
+	"documents_completed" integer,
+	"documents_failed" integer,
+	"error_message" text,
+	"started_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"finished_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "rlc_documents" DROP CONSTRAINT "rlc_documents_dropbox_path_unique";--> statement-breakpoint
+ALTER TABLE "rlc_documents" ADD COLUMN "collection_id" uuid;--> statement-breakpoint
+INSERT INTO "rlc_collections" ("slug", "name", "source_root")
+SELECT 'hitachi-rail', 'Hitachi Rail collaboration', coalesce(
+	(SELECT "value" #>> '{}' FROM "service_settings" WHERE "key" = 'rootPrefix' AND "service_id" = (SELECT "id" FROM "services" WHERE "slug" = 'rlc-controls')),
+	'/HITACHI RAIL COLLABORATION at RLC'
+)
+WHERE EXISTS (SELECT 1 FROM "rlc_documents");--> statement-breakpoint
+UPDATE "rlc_documents" SET "collection_id" = (SELECT "id" FROM "rlc_collections" WHERE "slug" = 'hitachi-rail');--> statement-breakpoint
+ALTER TABLE "rlc_documents" ALTER COLUMN "collection_id" SET NOT NULL;--> statement-breakpoint
+DELETE FROM "service_settings" WHERE "key" = 'rootPrefix' AND "service_id" = (SELECT "id" FROM "services" WHERE "slug" = 'rlc-controls');--> statement-breakpoint
+ALTER TABLE "rlc_collection_grants" ADD CONSTRAINT "rlc_collection_grants_collection_id_rlc_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."rlc_collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rlc_ingestion_runs" ADD CONSTRAINT "rlc_ingestion_runs_collection_id_rlc_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."rlc_collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "rlc_collection_grants_principal_id_index" ON "rlc_collection_grants" USING btree ("principal_id");--> statement-breakpoint
+CREATE INDEX "rlc_ingestion_runs_collection_id_started_at_index" ON "rlc_ingestion_runs" USING btree ("collection_id","started_at");--> statement-breakpoint
+ALTER TABLE "rlc_documents" ADD CONSTRAINT "rlc_documents_collection_id_rlc_collections_id_fk" FOREIGN KEY ("collection_id") REFERENCES "public"."rlc_collections"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "rlc_documents" ADD CONSTRAINT "rlc_documents_collection_id_dropbox_path_unique" UNIQUE("collection_id","dropbox_path");
\ No newline at end of file
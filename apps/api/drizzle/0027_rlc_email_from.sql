@@ -0,0 +1,4 @@
+ALTER TABLE "rlc_documents" ADD COLUMN "email_from" text;--> statement-breakpoint
+-- Emails ingested so far carry their sender only in the "From:" header line of the extracted text
+UPDATE "rlc_documents" SET "email_from" = substring("extracted_text" from '(?:^|\n)From: ([^\n]+)')
+WHERE "file_type" IN ('msg', 'eml') AND "extracted_text" IS NOT NULL;
@@ -0,0 +1,4 @@
+ALTER TABLE "organization_services" DROP CONSTRAINT "organization_services_granted_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "organization_services" ALTER COLUMN "granted_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "organization_services" ADD CONSTRAINT "organization_services_granted_by_users_id_fk" FOREIGN KEY ("granted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
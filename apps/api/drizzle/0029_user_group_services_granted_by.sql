@@ -0,0 +1,4 @@
+ALTER TABLE "user_group_services" DROP CONSTRAINT "user_group_services_granted_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "user_group_services" ALTER COLUMN "granted_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "user_group_services" ADD CONSTRAINT "user_group_services_granted_by_users_id_fk" FOREIGN KEY ("granted_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "sso_domain_rules" DROP CONSTRAINT "sso_domain_rules_created_by_users_id_fk";
+--> statement-breakpoint
+ALTER TABLE "sso_domain_rules" ALTER COLUMN "created_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "sso_domain_rules" ADD CONSTRAINT "sso_domain_rules_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
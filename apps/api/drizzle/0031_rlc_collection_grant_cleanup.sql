@@ -0,0 +1,20 @@
+-- Collection grants name their user, group or organization without a foreign key
+-- (services don't reference the platform's tables), so deleting one of those
+-- removes its grants here instead
+CREATE FUNCTION "rlc_delete_principal_grants"() RETURNS trigger AS $$
+BEGIN
+  DELETE FROM "rlc_collection_grants" WHERE "principal_type" = TG_ARGV[0] AND "principal_id" = OLD."id";
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "rlc_collection_grants_user_deleted" AFTER DELETE ON "users"
+FOR EACH ROW EXECUTE FUNCTION "rlc_delete_principal_grants"('user');--> statement-breakpoint
+CREATE TRIGGER "rlc_collection_grants_group_deleted" AFTER DELETE ON "user_groups"
+FOR EACH ROW EXECUTE FUNCTION "rlc_delete_principal_grants"('group');--> statement-breakpoint
+CREATE TRIGGER "rlc_collection_grants_organization_deleted" AFTER DELETE ON "organizations"
+FOR EACH ROW EXECUTE FUNCTION "rlc_delete_principal_grants"('organization');--> statement-breakpoint
+-- Grants left behind by deletions before this migration
+DELETE FROM "rlc_collection_grants"
+WHERE ("rlc_collection_grants"."principal_type" = 'user' AND NOT EXISTS (SELECT 1 FROM "users" WHERE "users"."id" = "rlc_collection_grants"."principal_id"))
+   OR ("rlc_collection_grants"."principal_type" = 'group' AND NOT EXISTS (SELECT 1 FROM "user_groups" WHERE "user_groups"."id" = "rlc_collection_grants"."principal_id"))
+   OR ("rlc_collection_grants"."principal_type" = 'organization' AND NOT EXISTS (SELECT 1 FROM "organizations" WHERE "organizations"."id" = "rlc_collection_grants"."principal_id"));
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+
+// Queue to control what db queries return
+let selectResults: any[][] = [];
+let deleteResults: any[][] = [];
+let auditLog: any[] = [];
+
+vi.mock('./db.js', () => {
+  function chain(queue: () => any[][]): any {
+    let rows: Promise<any[]> | undefined;
+    const query: any = {
+      then: (resolve: any, reject: any) => (rows ??= Promise.resolve(queue().shift() ?? [])).then(resolve, reject),
+    };
+    for (const method of ['from', 'innerJoin', 'where', 'orderBy', 'returning']) {
+      query[method] = () => query;
+    }
+    return query;
+  }
+  return {
+    db: {
+      select: () => chain(() => selectResults),
+      delete: () => chain(() => deleteResults),
+    },
+  };
+});
+
+vi.mock('./audit.js', () => ({
+  recordAuditEvent: async (_c: unknown, event: any) => {
+    auditLog.push(event);
+  },
+}));
+
+const { sweepExpiredGrants } = await import('./access-expiry.js');
+const { currentGrant } = await import('./service-access.js');
+
+const now = new Date('2024-06-01T00:00:00Z');
+
+beforeEach(() => {
+  selectResults = [];
+  deleteResults = [];
+  auditLog = [];
+});
+
+describe('sweepExpiredGrants', () => {
+  it('removes lapsed grants and records each one as expired', async () => {
+    const lapsed = {
+      userId: 'user-ana',
+      serviceId: 'service-rlc',
+      grantedBy: 'admin-id',
+      startsAt: null,
+      expiresAt: new Date('2024-05-31T23:59:59Z'),
+    };
+    deleteResults.push([lapsed, { ...lapsed, userId: 'user-gone' }]);
+    selectResults.push([{ id: 'user-ana', email: 'ana@example.com' }], [{ id: 'service-rlc', slug: 'rlc-controls' }]);
+
+    expect(await sweepExpiredGrants(now)).toBe(2);
+    expect(auditLog).toEqual([
+      {
+        action: 'service.expired',
+        actorId: null,
+        actorEmail: null,
+        targetType: 'user',
+        targetId: 'user-ana',
+        targetLabel: 'ana@example.com',
+        metadata: { serviceId: 'service-rlc', service: 'rlc-controls', grantedBy: 'admin-id', startsAt: null, expiresAt: lapsed.expiresAt },
+      },
+      // A user deleted since still gets a record, just without their email
+      expect.objectContaining({ targetId: 'user-gone', targetLabel: null }),
+    ]);
+  });
+
+  it('does nothing when no grant has lapsed', async () => {
+    deleteResults.push([]);
+
+    expect(await sweepExpiredGrants(now)).toBe(0);
+    expect(selectResults).toEqual([]);
+    expect(auditLog).toEqual([]);
+  });
+});
+
+describe('currentGrant', () => {
+  it('stops a grant at its expiry without waiting for the sweep', () => {
+    const query = new PgDialect().sqlToQuery(currentGrant(now)!);
+    expect(query.sql).toBe(
+      '(("user_services"."starts_at" is null or "user_services"."starts_at" <= $1) and ' +
+        '("user_services"."expires_at" is null or "user_services"."expires_at" > $2))',
+    );
+    expect(query.params).toEqual([now.toISOString(), now.toISOString()]);
+  });
+});
@@ -0,0 +1,80 @@
+import { asc, eq, lte, inArray } from 'drizzle-orm';
+import { db } from './db.js';
+import { users, services, userServices } from './schema.js';
+import { recordAuditEvent } from './audit.js';
+
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000;
+
+/**
+ * Remove time-boxed grants whose window has closed and record each in the
+ * audit trail. Lapsed grants already stop working at expiresAt (see
+ * currentGrant); the sweep just cleans them up so they show as expired.
+ */
+export async function sweepExpiredGrants(now = new Date()) {
+  // Deleting with RETURNING means concurrent sweeps never record the same grant twice
+  const expired = await db
+    .delete(userServices)
+    .where(lte(userServices.expiresAt, now))
+    .returning();
+
+  if (expired.length === 0) return 0;
+
+  const [userRows, serviceRows] = await Promise.all([
+    db.select({ id: users.id, email: users.email }).from(users).where(inArray(users.id, expired.map((g) => g.userId))),
+    db.select({ id: services.id, slug: services.slug }).from(services).where(inArray(services.id, expired.map((g) => g.serviceId))),
+  ]);
+  const emails = new Map(userRows.map((u) => [u.id, u.email]));
+  const slugs = new Map(serviceRows.map((s) => [s.id, s.slug]));
+
+  for (const grant of expired) {
+    await recordAuditEvent(null, {
+      action: 'service.expired',
+      actorId: null,
+      actorEmail: null,
+      targetType: 'user',
+      targetId: grant.userId,
+      targetLabel: emails.get(grant.userId) ?? null,
+      metadata: {
+        serviceId: grant.serviceId,
+        service: slugs.get(grant.serviceId) ?? null,
+        grantedBy: grant.grantedBy,
+        startsAt: grant.startsAt,
+        expiresAt: grant.expiresAt,
+      },
+    });
+  }
+
+  return expired.length;
+}
+
+/**
+ * Grants that lapse before `before`, soonest first, for the admin warning list.
+ */
+export async function listExpiringGrants(before: Date) {
+  return db
+    .select({
+      userId: users.id,
+      userEmail: users.email,
+      serviceId: services.id,
+      serviceName: services.name,
+      role: userServices.role,
+      startsAt: userServices.startsAt,
+      expiresAt: userServices.expiresAt,
+    })
+    .from(userServices)
+    .innerJoin(users, eq(userServices.userId, users.id))
+    .innerJoin(services, eq(userServices.serviceId, services.id))
+    .where(lte(userServices.expiresAt, before))
+    .orderBy(asc(userServices.expiresAt));
+}
+
+/**
+ * Run the sweep now and every few minutes for the life of the process.
+ */
+export function startExpirySweep() {
+  const sweep = () =>
+    sweepExpiredGrants().catch((err) => console.error('Failed to sweep expired service grants:', err));
+
+  void sweep();
+  setInterval(sweep, SWEEP_INTERVAL_MS).unref();
+}
@@ -0,0 +1,112 @@
+import { eq, and, isNull, gt, lt, or, desc } from 'drizzle-orm';
+import { db } from './db.js';
+import { apiTokens, users, rolePolicies } from './schema.js';
+import { accessibleServices } from './service-access.js';
+import { generateToken, hashToken } from './tokens.js';
+
+// Recognisable prefix so leaked tokens are easy to grep for
+const TOKEN_PREFIX = 'vai_';
+const LAST_USED_RESOLUTION_MS = 60 * 1000; // don't write lastUsedAt on every request
+
+const tokenColumns = {
+  id: apiTokens.id,
+  name: apiTokens.name,
+  tokenPrefix: apiTokens.tokenPrefix,
+  scopes: apiTokens.scopes,
+  expiresAt: apiTokens.expiresAt,
+  lastUsedAt: apiTokens.lastUsedAt,
+  createdAt: apiTokens.createdAt,
+};
+
+/**
+ * Slugs of the enabled services this user may use — what a new token can be scoped to.
+ */
+export async function accessibleServiceSlugs(userId: string, role: string) {
+  const rows = await accessibleServices(userId, role);
+  return rows.map((r) => r.slug).sort();
+}
+
+/**
+ * Create a token and return its secret. Only the hash is stored, so this is
+ * the one chance to show it to the user.
+ */
+export async function createApiToken(userId: string, input: { name: string; scopes: string[]; expiresAt: Date }) {
+  const token = `${TOKEN_PREFIX}${generateToken()}`;
+
+  const [apiToken] = await db
+    .insert(apiTokens)
+    .values({
+      userId,
+      name: input.name,
+      tokenHash: hashToken(token),
+      tokenPrefix: token.slice(0, TOKEN_PREFIX.length + 6),
+      scopes: input.scopes,
+      expiresAt: input.expiresAt,
+    })
+    .returning(tokenColumns);
+
+  return { token, apiToken };
+}
+
+export async function listApiTokens(userId: string) {
+  return db
+    .select(tokenColumns)
+    .from(apiTokens)
+    .where(and(eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+    .orderBy(desc(apiTokens.createdAt));
+}
+
+/**
+ * Revoke one of the user's tokens. Returns false if it isn't theirs or is already revoked.
+ */
+export async function revokeApiToken(userId: string, tokenId: string) {
+  const [revoked] = await db
+    .update(apiTokens)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(apiTokens.id, tokenId), eq(apiTokens.userId, userId), isNull(apiTokens.revokedAt)))
+    .returning({ id: apiTokens.id });
+  return !!revoked;
+}
+
+/**
+ * Look up a live token (not revoked, not expired) together with its owner.
+ */
+export async function authenticateApiToken(token: string) {
+  if (!token.startsWith(TOKEN_PREFIX)) return null;
+
+  const [row] = await db
+    .select({
+      tokenId: apiTokens.id,
+      scopes: apiTokens.scopes,
+      lastUsedAt: apiTokens.lastUsedAt,
+      userId: users.id,
+      email: users.email,
+      role: users.role,
+      totpEnabledAt: users.totpEnabledAt,
+      suspendedAt: users.suspendedAt,
+      roleRequiresTwoFactor: rolePolicies.requireTwoFactor,
+    })
+    .from(apiTokens)
+    .innerJoin(users, eq(apiTokens.userId, users.id))
+    .leftJoin(rolePolicies, eq(rolePolicies.role, users.role))
+    .where(
+      and(
+        eq(apiTokens.tokenHash, hashToken(token)),
+        isNull(apiTokens.revokedAt),
+        gt(apiTokens.expiresAt, new Date()),
+      ),
+    )
+    .limit(1);
+
+  if (!row) return null;
+
+  const staleBefore = new Date(Date.now() - LAST_USED_RESOLUTION_MS);
+  if (!row.lastUsedAt || row.lastUsedAt < staleBefore) {
+    await db
+      .update(apiTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(and(eq(apiTokens.id, row.tokenId), or(isNull(apiTokens.lastUsedAt), lt(apiTokens.lastUsedAt, staleBefore))));
+  }
+
+  return row;
+}
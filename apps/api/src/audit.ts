@@ -0,0 +1,123 @@
+import type { Context } from 'hono';
+import { and, eq, gte, lt, ilike, or, desc, sql, type SQL } from 'drizzle-orm';
+import { db } from './db.js';
+import { auditEvents } from './schema.js';
+import { clientIp } from './sessions.js';
+import { escapeLike } from './pagination.js';
+import { csvCell } from './csv.js';
+
+export type AuditEvent = {
+  action: string;
+  // Defaults to the signed-in user from the request
+  actorId?: string | null;
+  actorEmail?: string | null;
+  targetType?: 'user' | 'service' | 'invite_code' | 'session' | 'api_token' | 'lockout' | 'role' | 'sso_connection' | 'sso_domain_rule' | 'organization' | 'group' | 'collection';
+  targetId?: string | null;
+  targetLabel?: string | null;
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Append an audit event. A failed write is logged rather than thrown so that an
+ * audit outage never blocks a sign-in or an admin action that already happened.
+ */
+export async function recordAuditEvent(c: Context | null, event: AuditEvent) {
+  const payload = c?.get('jwtPayload') as { sub?: string; email?: string; impersonator?: { id: string; email: string } } | undefined;
+  // Actions taken while viewing as another user name the admin behind them
+  const metadata = payload?.impersonator
+    ? { ...event.metadata, impersonatedBy: payload.impersonator.email }
+    : event.metadata;
+
+  try {
+    await db.insert(auditEvents).values({
+      action: event.action,
+      actorId: event.actorId !== undefined ? event.actorId : payload?.sub ?? null,
+      actorEmail: event.actorEmail !== undefined ? event.actorEmail : payload?.email ?? null,
+      targetType: event.targetType ?? null,
+      targetId: event.targetId ?? null,
+      targetLabel: event.targetLabel ?? null,
+      metadata: metadata ?? null,
+      ipAddress: c ? clientIp(c) : null,
+    });
+  } catch (err) {
+    console.error(`Failed to record audit event ${event.action}:`, err);
+  }
+}
+
+// --- Querying ---
+
+export type AuditFilters = {
+  // Exact action, or a prefix ending in '.' (e.g. 'user.')
+  action?: string;
+  actor?: string;
+  target?: string;
+  from?: Date;
+  to?: Date;
+};
+
+function auditConditions(filters: AuditFilters) {
+  const conditions: SQL[] = [];
+  if (filters.action) {
+    conditions.push(
+      filters.action.endsWith('.')
+        ? ilike(auditEvents.action, `${escapeLike(filters.action)}%`)
+        : eq(auditEvents.action, filters.action),
+    );
+  }
+  if (filters.actor) {
+    conditions.push(ilike(auditEvents.actorEmail, `%${escapeLike(filters.actor)}%`));
+  }
+  if (filters.target) {
+    conditions.push(
+      or(eq(auditEvents.targetId, filters.target), ilike(auditEvents.targetLabel, `%${escapeLike(filters.target)}%`))!,
+    );
+  }
+  if (filters.from) conditions.push(gte(auditEvents.createdAt, filters.from));
+  if (filters.to) conditions.push(lt(auditEvents.createdAt, filters.to));
+  return conditions.length > 0 ? and(...conditions) : undefined;
+}
+
+/**
+ * One page of events, newest first, with the total count for the filter.
+ */
+export async function listAuditEvents(filters: AuditFilters, page: { limit: number; offset: number }) {
+  const where = auditConditions(filters);
+
+  const events = await db
+    .select()
+    .from(auditEvents)
+    .where(where)
+    .orderBy(desc(auditEvents.createdAt))
+    .limit(page.limit)
+    .offset(page.offset);
+
+  const [{ total }] = await db
+    .select({ total: sql<number>`count(*)::int` })
+    .from(auditEvents)
+    .where(where);
+
+  return { events, total };
+}
+
+/**
+ * Distinct action names seen so far, for the filter dropdown.
+ */
+export async function listAuditActions() {
+  const rows = await db
+    .selectDistinct({ action: auditEvents.action })
+    .from(auditEvents)
+    .orderBy(auditEvents.action);
+  return rows.map((r) => r.action);
+}
+
+// --- CSV export ---
+
+const CSV_COLUMNS = ['createdAt', 'action', 'actorEmail', 'actorId', 'targetType', 'targetLabel', 'targetId', 'ipAddress', 'metadata'] as const;
+
+export function auditEventsToCsv(events: Array<typeof auditEvents.$inferSelect>) {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const event of events) {
+    lines.push(CSV_COLUMNS.map((column) => csvCell(event[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
@@ -0,0 +1,11 @@
+// CSV cells for the files admins download (audit log, document export, invite
+// import results). These get opened in spreadsheets, so text that would run as
+// a formula is prefixed with a quote.
+
+export function csvCell(value: unknown) {
+  if (value === null || value === undefined) return '';
+  const text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  // Quote everything that could break a row, and defuse spreadsheet formulas
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\n\r]/.test(safe) || safe !== text ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
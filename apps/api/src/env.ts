@@ -3,10 +3,23 @@ import { z } from 'zod';
 const envSchema = z.object({
   DATABASE_URL: z.string().min(1, 'DATABASE_URL is required'),
   JWT_SECRET: z.string().min(32, 'JWT_SECRET must be at least 32 characters'),
-  ANTHROPIC_API_KEY: z.string().min(1, 'ANTHROPIC_API_KEY is required'),
+  // Only RL Controls chat needs it; without it POST /api/documents/chat answers 503
+  ANTHROPIC_API_KEY: z.string().optional(),
   E2B_API_KEY: z.string().optional(),
   CORS_ORIGIN: z.string().default('http://localhost:5173'),
   PORT: z.coerce.number().default(3000),
+  // Reverse proxies in front of the API whose X-Forwarded-For is believed:
+  // either their comma-separated addresses, or how many there always are
+  // (e.g. "1" behind a single load balancer whose address changes)
+  TRUSTED_PROXIES: z.string().optional(),
+  APP_URL: z.string().default('http://localhost:5173'),
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).default('console'),
+  MAIL_FROM: z.string().default('vogt-ai <no-reply@vogt.ai>'),
+  MAIL_FILE_DIR: z.string().default('./data/mail'),
+  SMTP_URL: z.string().optional(),
+}).refine((e) => e.MAIL_TRANSPORT !== 'smtp' || !!e.SMTP_URL, {
+  message: 'SMTP_URL is required when MAIL_TRANSPORT=smtp',
+  path: ['SMTP_URL'],
 });
 
 export const env = envSchema.parse(process.env);
@@ -0,0 +1,52 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { eq, and, isNull, isNotNull } from 'drizzle-orm';
+import { db } from './db.js';
+import { sessions } from './schema.js';
+
+// Viewing as another user lapses on its own after this long
+export const IMPERSONATION_TTL_MS = 60 * 60 * 1000;
+
+// Account endpoints an admin may still reach while viewing as someone else
+const ALLOWED_AUTH_PATHS = new Set(['/api/auth/me', '/api/auth/logout', '/api/auth/impersonation']);
+
+/**
+ * Point the admin's session at another user. Every request on the session then
+ * runs as that user until endImpersonation or the TTL. Returns false if the
+ * session is gone.
+ */
+export async function startImpersonation(sessionId: string, targetUserId: string) {
+  const [updated] = await db
+    .update(sessions)
+    .set({ impersonatedUserId: targetUserId, impersonationStartedAt: new Date() })
+    .where(and(eq(sessions.id, sessionId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+  return !!updated;
+}
+
+/**
+ * Return the session to its owner. Returns false if it wasn't impersonating.
+ */
+export async function endImpersonation(sessionId: string) {
+  const [updated] = await db
+    .update(sessions)
+    .set({ impersonatedUserId: null, impersonationStartedAt: null })
+    .where(and(eq(sessions.id, sessionId), isNotNull(sessions.impersonatedUserId)))
+    .returning({ id: sessions.id });
+  return !!updated;
+}
+
+/**
+ * While impersonating, the admin sees what the user sees but can't change the
+ * user's account (password, 2FA, tokens, sessions) or their organizations.
+ */
+export function checkImpersonationScope(c: Context) {
+  const path = c.req.path;
+  const blocked = path.startsWith('/api/auth/')
+    ? !ALLOWED_AUTH_PATHS.has(path)
+    : path.startsWith('/api/orgs') && c.req.method !== 'GET';
+
+  if (blocked) {
+    throw new HTTPException(403, { message: 'Not available while viewing as another user' });
+  }
+}
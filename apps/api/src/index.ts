@@ -1,6 +1,5 @@
 import { Hono } from 'hono';
 import { cors } from 'hono/cors';
-import { jwt } from 'hono/jwt';
 import { serveStatic } from '@hono/node-server/serve-static';
 import { serve } from '@hono/node-server';
 import { HTTPException } from 'hono/http-exception';
@@ -12,9 +11,10 @@ import { db } from './db.js';
 import { authRoutes } from './routes/auth-routes.js';
 import { adminRoutes } from './routes/admin-routes.js';
 import { serviceRoutes } from './routes/service-routes.js';
-import { rlcRoutes } from './services/rlc/routes.js';
-import { rlcChatRoutes } from './services/rlc/chat-routes.js';
-import { requireService } from './middleware/require-service.js';
+import { orgRoutes } from './routes/org-routes.js';
+import { requireSession } from './middleware/require-session.js';
+import { startExpirySweep } from './access-expiry.js';
+import { mountServices, runServiceMigrations, syncServiceRegistry } from './service-registry.js';
 
 const app = new Hono();
 
@@ -33,24 +33,24 @@ app.onError((err, c) => {
   return c.json({ error: 'Internal server error' }, 500);
 });
 
-// JWT middleware — protect ALL /api/* by default, skip only public whitelist
+// Session middleware — protect ALL /api/* by default, skip only public whitelist
 const PUBLIC_PATHS = new Set([
   '/api/health',
   '/api/auth/register',
   '/api/auth/login',
+  '/api/auth/login/2fa',
+  '/api/auth/refresh',
   '/api/auth/logout',
+  '/api/auth/forgot-password',
+  '/api/auth/reset-password',
 ]);
+const PUBLIC_PREFIXES = ['/api/auth/sso/'];
 
 app.use('/api/*', async (c, next) => {
-  if (PUBLIC_PATHS.has(c.req.path)) {
+  if (PUBLIC_PATHS.has(c.req.path) || PUBLIC_PREFIXES.some((prefix) => c.req.path.startsWith(prefix))) {
     return next();
   }
-  const jwtMiddleware = jwt({
-    secret: env.JWT_SECRET,
-    alg: 'HS256',
-    cookie: 'auth_token',
-  });
-  return jwtMiddleware(c, next);
+  return requireSession(c, next);
 });
 
 // Routes (all protected by default — only PUBLIC_PATHS above are exempt)
@@ -58,12 +58,10 @@ app.get('/api/health', (c) => c.json({ status: 'ok' }));
 app.route('/api/auth', authRoutes);
 app.route('/api/admin', adminRoutes);
 app.route('/api/services', serviceRoutes);
+app.route('/api/orgs', orgRoutes);
 
-// Service routes — each service is access-controlled via requireService
-app.use('/api/documents', requireService('rlc-controls'));
-app.use('/api/documents/*', requireService('rlc-controls'));
-app.route('/api/documents', rlcRoutes);
-app.route('/api/documents', rlcChatRoutes);
+// Service routes — every manifest in services/registry.ts, each behind requireService
+await mountServices(app);
 
 // React SPA at /app/*
 app.use(
@@ -82,6 +80,9 @@ app.get('*', serveStatic({ root: './static/marketing', path: 'index.html' }));
 
 // Run migrations and start server
 await migrate(db, { migrationsFolder: './drizzle' });
+await runServiceMigrations();
+await syncServiceRegistry();
+startExpirySweep();
 
 serve({ fetch: app.fetch, port: env.PORT }, (info) => {
   console.log(`Server running on http://localhost:${info.port}`);
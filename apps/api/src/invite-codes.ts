@@ -0,0 +1,69 @@
+import crypto from 'crypto';
+import { eq, and, lt, type SQL } from 'drizzle-orm';
+import { db } from './db.js';
+import { inviteCodes, inviteCodeServices } from './schema.js';
+
+export type InviteCodeInput = {
+  email?: string;
+  role: 'admin' | 'user';
+  serviceIds: string[];
+  maxUses: number;
+  note?: string;
+  expiresInDays?: number;
+  organizationId?: string | null;
+  groupId?: string | null;
+};
+
+/**
+ * Generate a code and attach the services it grants on registration.
+ * Callers check that the services, organization and group exist.
+ */
+export async function createInviteCode(createdBy: string, input: InviteCodeInput) {
+  const code = crypto.randomBytes(6).toString('hex').toUpperCase(); // 12 chars like "A3B9F2E1C4D7"
+  const expiresAt = input.expiresInDays
+    ? new Date(Date.now() + input.expiresInDays * 24 * 60 * 60 * 1000)
+    : null;
+
+  const [invite] = await db
+    .insert(inviteCodes)
+    .values({
+      code,
+      createdBy,
+      email: input.email?.toLowerCase() ?? null,
+      role: input.role,
+      maxUses: input.maxUses,
+      note: input.note || null,
+      organizationId: input.organizationId ?? null,
+      groupId: input.groupId ?? null,
+      expiresAt,
+    })
+    .returning();
+
+  if (input.serviceIds.length > 0) {
+    await db
+      .insert(inviteCodeServices)
+      .values(input.serviceIds.map((serviceId) => ({ inviteCodeId: invite.id, serviceId })));
+  }
+
+  return invite;
+}
+
+/**
+ * Stop a code accepting further sign-ups. Never-used codes are removed outright;
+ * partly used cohort codes keep their history. `scope` restricts which codes may
+ * be revoked (e.g. an organization's own). Returns null if nothing was revoked.
+ */
+export async function revokeInviteCode(id: string, scope?: SQL) {
+  const [deleted] = await db
+    .delete(inviteCodes)
+    .where(and(eq(inviteCodes.id, id), eq(inviteCodes.useCount, 0), scope))
+    .returning({ id: inviteCodes.id, code: inviteCodes.code });
+  if (deleted) return { code: deleted.code, deleted: true };
+
+  const [closed] = await db
+    .update(inviteCodes)
+    .set({ maxUses: inviteCodes.useCount })
+    .where(and(eq(inviteCodes.id, id), lt(inviteCodes.useCount, inviteCodes.maxUses), scope))
+    .returning({ id: inviteCodes.id, code: inviteCodes.code });
+  return closed ? { code: closed.code, deleted: false } : null;
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('./db.js', () => ({ db: {} }));
+
+const { parseCsv, parseInviteCsv, inviteImportResultsToCsv, MAX_IMPORT_ROWS } = await import('./invite-import.js');
+
+describe('parseCsv', () => {
+  it('handles quoted fields, escaped quotes and CRLF line endings', () => {
+    const text = '\uFEFFemail,services\r\n"a@example.com","rlc-controls; ""beta"", x"\r\n\r\nb@example.com,\n';
+    expect(parseCsv(text)).toEqual([
+      { line: 1, cells: ['email', 'services'] },
+      { line: 2, cells: ['a@example.com', 'rlc-controls; "beta", x'] },
+      { line: 4, cells: ['b@example.com', ''] },
+    ]);
+  });
+});
+
+describe('parseInviteCsv', () => {
+  it('maps columns by header name in any order and numbers rows by file line', () => {
+    const rows = parseInviteCsv('Group,EMAIL,role\nAudit team, Ana@Example.com ,admin\n,bo@example.com,\n');
+    expect(rows).toEqual([
+      { line: 2, email: 'Ana@Example.com', role: 'admin', services: '', group: 'Audit team' },
+      { line: 3, email: 'bo@example.com', role: '', services: '', group: '' },
+    ]);
+  });
+
+  it('points at the file line when blank lines or multiline fields come before a row', () => {
+    const text = 'email,group\r\n\r\nana@example.com,"Audit\r\nteam"\n\nbo@example.com,"a\nb\nc"\ncy@example.com,\n';
+    expect(parseInviteCsv(text).map((row) => [row.line, row.email])).toEqual([
+      [3, 'ana@example.com'],
+      [6, 'bo@example.com'],
+      [9, 'cy@example.com'],
+    ]);
+  });
+
+  it('rejects a sheet without an email column or with unknown columns', () => {
+    expect(() => parseInviteCsv('name,role\nAna,user\n')).toThrow('needs an "email" column');
+    expect(() => parseInviteCsv('email,team\na@example.com,x\n')).toThrow('Unknown column "team"');
+  });
+
+  it('caps the number of rows per import', () => {
+    const text = `email\n${Array.from({ length: MAX_IMPORT_ROWS + 1 }, (_, i) => `u${i}@example.com`).join('\n')}`;
+    expect(() => parseInviteCsv(text)).toThrow(`at most ${MAX_IMPORT_ROWS} rows`);
+  });
+});
+
+describe('inviteImportResultsToCsv', () => {
+  it('quotes fields and defuses spreadsheet formulas', () => {
+    const csv = inviteImportResultsToCsv([
+      { line: 2, email: 'ana@example.com', role: 'user', services: [], group: null, errors: [], code: 'ABC123' },
+      { line: 3, email: '=HYPERLINK("x")', role: 'user', services: [], group: null, errors: ['Email is not valid'], code: null },
+    ]);
+    expect(csv).toBe(
+      'line,email,role,services,group,status,code,errors\r\n' +
+        '2,ana@example.com,user,,,created,ABC123,\r\n' +
+        '3,"\'=HYPERLINK(""x"")",user,,,skipped,,Email is not valid\r\n',
+    );
+  });
+});
@@ -0,0 +1,227 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { and, gt, inArray, isNull, lt, or, sql } from 'drizzle-orm';
+import { db } from './db.js';
+import { users, inviteCodes, services, userGroups } from './schema.js';
+import { csvCell } from './csv.js';
+
+export const MAX_IMPORT_ROWS = 500;
+
+const IMPORT_COLUMNS = ['email', 'role', 'services', 'group'] as const;
+
+type ImportColumn = (typeof IMPORT_COLUMNS)[number];
+
+export type InviteCsvRow = { line: number } & Record<ImportColumn, string>;
+
+export type InviteImportRow = {
+  line: number;
+  email: string;
+  role: 'admin' | 'user';
+  services: Array<{ id: string; slug: string; name: string }>;
+  group: { id: string; name: string } | null;
+  errors: string[];
+};
+
+export type InviteImportResult = InviteImportRow & { code: string | null };
+
+// One record, with the file line it starts on (1-based). A quoted field may
+// span lines, so the next record can start more than one line further down.
+export type CsvRecord = { line: number; cells: string[] };
+
+/**
+ * Split CSV text into records. Handles quoted fields (with embedded commas,
+ * quotes and newlines), CRLF line endings and a leading byte-order mark.
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+        // A CRLF is one line break, counted at its \n
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ line: recordLine, cells: record });
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ line: recordLine, cells: record });
+  }
+
+  // Blank lines carry no row
+  return records.filter((r) => r.cells.some((cell) => cell.trim() !== ''));
+}
+
+/**
+ * Read an onboarding sheet with an `email, role, services, group` header.
+ * Only `email` is required; columns may come in any order. `line` is the
+ * file line the row starts on, so the header is usually line 1.
+ */
+export function parseInviteCsv(text: string): InviteCsvRow[] {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new HTTPException(400, { message: 'The file is empty' });
+  }
+
+  const columns = header.cells.map((name) => name.trim().toLowerCase());
+  if (!columns.includes('email')) {
+    throw new HTTPException(400, { message: 'The header row needs an "email" column' });
+  }
+  const unknown = columns.filter((name) => name && !(IMPORT_COLUMNS as readonly string[]).includes(name));
+  if (unknown.length > 0) {
+    throw new HTTPException(400, {
+      message: `Unknown column "${unknown[0]}" (expected ${IMPORT_COLUMNS.join(', ')})`,
+    });
+  }
+  if (records.length === 0) {
+    throw new HTTPException(400, { message: 'The file has no rows below the header' });
+  }
+  if (records.length > MAX_IMPORT_ROWS) {
+    throw new HTTPException(400, { message: `Import at most ${MAX_IMPORT_ROWS} rows at a time` });
+  }
+
+  return records.map((record) => {
+    const row: InviteCsvRow = { line: record.line, email: '', role: '', services: '', group: '' };
+    columns.forEach((name, i) => {
+      if ((IMPORT_COLUMNS as readonly string[]).includes(name)) {
+        row[name as ImportColumn] = (record.cells[i] ?? '').trim();
+      }
+    });
+    return row;
+  });
+}
+
+const emailSchema = z.string().email();
+
+/**
+ * Check each row against the database without changing anything: the email
+ * must be new (no account and no open invite), services are matched by slug
+ * or name (separated by `;`), and the group by name.
+ */
+export async function validateInviteRows(rows: InviteCsvRow[]): Promise<InviteImportRow[]> {
+  const emails = [...new Set(rows.map((row) => row.email.toLowerCase()).filter(Boolean))];
+
+  const [serviceRows, groupRows, existingUsers, openInvites] = await Promise.all([
+    db.select({ id: services.id, slug: services.slug, name: services.name }).from(services),
+    db.select({ id: userGroups.id, name: userGroups.name }).from(userGroups),
+    emails.length > 0
+      ? db.select({ email: users.email }).from(users).where(inArray(sql`lower(${users.email})`, emails))
+      : [],
+    emails.length > 0
+      ? db
+          .select({ email: inviteCodes.email })
+          .from(inviteCodes)
+          .where(and(
+            inArray(sql`lower(${inviteCodes.email})`, emails),
+            lt(inviteCodes.useCount, inviteCodes.maxUses),
+            or(isNull(inviteCodes.expiresAt), gt(inviteCodes.expiresAt, new Date())),
+          ))
+      : [],
+  ]);
+
+  const serviceByKey = new Map<string, (typeof serviceRows)[number]>();
+  for (const service of serviceRows) {
+    serviceByKey.set(service.slug.toLowerCase(), service);
+    serviceByKey.set(service.name.toLowerCase(), service);
+  }
+  const groupByName = new Map(groupRows.map((group) => [group.name.toLowerCase(), group]));
+  const registered = new Set(existingUsers.map((u) => u.email.toLowerCase()));
+  const invited = new Set(openInvites.map((i) => i.email!.toLowerCase()));
+  const seen = new Map<string, number>();
+
+  return rows.map((row) => {
+    const errors: string[] = [];
+    const email = row.email.toLowerCase();
+
+    if (!email) {
+      errors.push('Email is missing');
+    } else if (!emailSchema.safeParse(email).success) {
+      errors.push('Email is not valid');
+    } else if (seen.has(email)) {
+      errors.push(`Duplicate of line ${seen.get(email)}`);
+    } else if (registered.has(email)) {
+      errors.push('Already has an account');
+    } else if (invited.has(email)) {
+      errors.push('Already has an open invite');
+    }
+    if (email && !seen.has(email)) seen.set(email, row.line);
+
+    const role = row.role.toLowerCase() || 'user';
+    if (role !== 'admin' && role !== 'user') {
+      errors.push(`Role must be "user" or "admin", not "${row.role}"`);
+    }
+
+    const matched = new Map<string, (typeof serviceRows)[number]>();
+    for (const key of row.services.split(';').map((s) => s.trim()).filter(Boolean)) {
+      const service = serviceByKey.get(key.toLowerCase());
+      if (service) matched.set(service.id, service);
+      else errors.push(`Unknown service "${key}"`);
+    }
+
+    let group: InviteImportRow['group'] = null;
+    if (row.group) {
+      group = groupByName.get(row.group.toLowerCase()) ?? null;
+      if (!group) errors.push(`Unknown group "${row.group}"`);
+    }
+
+    return {
+      line: row.line,
+      email,
+      role: role === 'admin' ? 'admin' : 'user',
+      services: [...matched.values()],
+      group,
+      errors,
+    };
+  });
+}
+
+const RESULT_COLUMNS = ['line', 'email', 'role', 'services', 'group', 'status', 'code', 'errors'];
+
+/**
+ * The import outcome as a CSV for the admin to download, one row per input
+ * line with the invite code it got or why it was skipped.
+ */
+export function inviteImportResultsToCsv(results: InviteImportResult[]) {
+  const lines = [RESULT_COLUMNS.join(',')];
+  for (const row of results) {
+    lines.push([
+      row.line,
+      row.email,
+      row.role,
+      row.services.map((s) => s.slug).join(';'),
+      row.group?.name,
+      row.code ? 'created' : 'skipped',
+      row.code,
+      row.errors.join('; '),
+    ].map(csvCell).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
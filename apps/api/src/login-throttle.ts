@@ -0,0 +1,244 @@
+import type { Context } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { eq, and, or, gt, isNull, desc, sql } from 'drizzle-orm';
+import { db } from './db.js';
+import { loginFailures, loginLockouts, users } from './schema.js';
+import { clientIp } from './sessions.js';
+
+// Failures are counted over a sliding window. After a few free attempts each further
+// try has to wait twice as long as the last; past the threshold the account (or IP)
+// is locked out. The window matches the lockout so old failures have aged out by the
+// time a lockout ends. Emails are lowercased so case variations share one counter.
+const WINDOW_MS = 15 * 60 * 1000;
+const LOCKOUT_MS = 15 * 60 * 1000;
+const MAX_DELAY_SECONDS = 60;
+
+const ACCOUNT_FREE_ATTEMPTS = 3;
+const ACCOUNT_LOCKOUT_THRESHOLD = 10;
+const IP_FREE_ATTEMPTS = 10;
+const IP_LOCKOUT_THRESHOLD = 50;
+
+// Attempts whose address can't be determined share one IP counter rather
+// than escaping the per-IP limit
+const UNKNOWN_IP = 'unknown';
+
+export type ThrottleState = {
+  email: string;
+  ipAddress: string;
+  // This attempt's row in login_failures, recorded before the password is checked
+  attemptId: string;
+  accountFailures: number;
+  ipFailures: number;
+};
+
+function delaySeconds(failures: number, freeAttempts: number) {
+  return failures < freeAttempts ? 0 : Math.min(2 ** (failures - freeAttempts), MAX_DELAY_SECONDS);
+}
+
+function tooManyAttempts(c: Context, retryAt: Date, message: string): never {
+  const seconds = Math.max(1, Math.ceil((retryAt.getTime() - Date.now()) / 1000));
+  c.header('Retry-After', String(seconds));
+  throw new HTTPException(429, { message });
+}
+
+/**
+ * Refuse the attempt (429 + Retry-After) if the email or IP is locked out or still
+ * inside its progressive delay; otherwise count it as a failure straight away.
+ * Call before checking the password, then either `recordLoginFailure` or
+ * `forgetLoginAttempt` / `clearLoginFailures` once the outcome is known.
+ *
+ * The check and the count run under per-email and per-IP locks, so parallel
+ * attempts queue up and each one sees the attempts before it.
+ */
+export async function checkLoginThrottle(c: Context, rawEmail: string): Promise<ThrottleState> {
+  const email = rawEmail.toLowerCase();
+  const ipAddress = clientIp(c) ?? UNKNOWN_IP;
+
+  return db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`login:account:${email}`}))`);
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`login:ip:${ipAddress}`}))`);
+    const now = new Date();
+
+    const [lockout] = await tx
+      .select({ lockedUntil: loginLockouts.lockedUntil })
+      .from(loginLockouts)
+      .where(
+        and(
+          isNull(loginLockouts.releasedAt),
+          gt(loginLockouts.lockedUntil, now),
+          or(
+            and(eq(loginLockouts.scope, 'account'), eq(loginLockouts.email, email)),
+            and(eq(loginLockouts.scope, 'ip'), eq(loginLockouts.ipAddress, ipAddress)),
+          ),
+        ),
+      )
+      .orderBy(desc(loginLockouts.lockedUntil))
+      .limit(1);
+
+    if (lockout) {
+      const minutes = Math.ceil((lockout.lockedUntil.getTime() - now.getTime()) / 60000);
+      tooManyAttempts(c, lockout.lockedUntil, `Too many failed sign-in attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`);
+    }
+
+    const isAccount = eq(loginFailures.email, email);
+    const isIp = eq(loginFailures.ipAddress, ipAddress);
+    const [stats] = await tx
+      .select({
+        accountFailures: sql<number>`count(*) filter (where ${isAccount})`.mapWith(Number),
+        accountLast: sql`max(${loginFailures.createdAt}) filter (where ${isAccount})`.mapWith(loginFailures.createdAt),
+        ipFailures: sql<number>`count(*) filter (where ${isIp})`.mapWith(Number),
+        ipLast: sql`max(${loginFailures.createdAt}) filter (where ${isIp})`.mapWith(loginFailures.createdAt),
+      })
+      .from(loginFailures)
+      .where(and(gt(loginFailures.createdAt, new Date(now.getTime() - WINDOW_MS)), or(isAccount, isIp)));
+
+    const retryAts = [
+      stats.accountLast && new Date(stats.accountLast.getTime() + delaySeconds(stats.accountFailures, ACCOUNT_FREE_ATTEMPTS) * 1000),
+      stats.ipLast && new Date(stats.ipLast.getTime() + delaySeconds(stats.ipFailures, IP_FREE_ATTEMPTS) * 1000),
+    ].filter((d): d is Date => !!d && d > now);
+
+    if (retryAts.length > 0) {
+      const retryAt = new Date(Math.max(...retryAts.map((d) => d.getTime())));
+      tooManyAttempts(c, retryAt, 'Too many failed sign-in attempts. Please wait a moment and try again.');
+    }
+
+    // Counted now rather than after the password check, so a burst of parallel
+    // guesses can't all slip through before any of them is recorded
+    const [attempt] = await tx
+      .insert(loginFailures)
+      .values({ email, ipAddress })
+      .returning({ id: loginFailures.id });
+
+    return {
+      email,
+      ipAddress,
+      attemptId: attempt.id,
+      accountFailures: stats.accountFailures + 1,
+      ipFailures: stats.ipFailures + 1,
+    };
+  });
+}
+
+/**
+ * The attempt failed: lock the account and/or IP if it crossed the threshold.
+ * Returns which lockouts this failure started.
+ */
+export async function recordLoginFailure(state: ThrottleState, userId: string | null) {
+  const { accountFailures, ipFailures } = state;
+  const lockedUntil = new Date(Date.now() + LOCKOUT_MS);
+  const accountLocked = accountFailures >= ACCOUNT_LOCKOUT_THRESHOLD;
+  const ipLocked = ipFailures >= IP_LOCKOUT_THRESHOLD;
+
+  if (accountLocked) {
+    await db.insert(loginLockouts).values({
+      scope: 'account',
+      email: state.email,
+      userId,
+      ipAddress: state.ipAddress,
+      failedAttempts: accountFailures,
+      lockedUntil,
+    });
+  }
+  if (ipLocked) {
+    await db.insert(loginLockouts).values({
+      scope: 'ip',
+      ipAddress: state.ipAddress,
+      failedAttempts: ipFailures,
+      lockedUntil,
+    });
+  }
+
+  return { accountLocked, ipLocked };
+}
+
+/**
+ * The password was right but sign-in goes no further yet (a second factor is
+ * due, or the account is suspended): don't count the attempt as a failure.
+ */
+export async function forgetLoginAttempt(state: ThrottleState) {
+  await db.delete(loginFailures).where(eq(loginFailures.id, state.attemptId));
+}
+
+/**
+ * Successful sign-in: forget the account's earlier failures.
+ */
+export async function clearLoginFailures(email: string) {
+  await db.delete(loginFailures).where(eq(loginFailures.email, email.toLowerCase()));
+}
+
+// --- Admin ---
+
+const lockoutColumns = {
+  id: loginLockouts.id,
+  scope: loginLockouts.scope,
+  email: loginLockouts.email,
+  userId: loginLockouts.userId,
+  ipAddress: loginLockouts.ipAddress,
+  failedAttempts: loginLockouts.failedAttempts,
+  lockedUntil: loginLockouts.lockedUntil,
+  releasedAt: loginLockouts.releasedAt,
+  releasedByEmail: users.email,
+  createdAt: loginLockouts.createdAt,
+};
+
+export async function listLockouts(limit = 100) {
+  return db
+    .select(lockoutColumns)
+    .from(loginLockouts)
+    .leftJoin(users, eq(loginLockouts.releasedBy, users.id))
+    .orderBy(desc(loginLockouts.createdAt))
+    .limit(limit);
+}
+
+/**
+ * Emails (lowercased) currently locked out, with when the lockout ends.
+ */
+export async function activeAccountLockouts() {
+  const rows = await db
+    .select({ email: loginLockouts.email, lockedUntil: loginLockouts.lockedUntil })
+    .from(loginLockouts)
+    .where(and(eq(loginLockouts.scope, 'account'), isNull(loginLockouts.releasedAt), gt(loginLockouts.lockedUntil, new Date())))
+    .orderBy(loginLockouts.lockedUntil);
+  return new Map(rows.map((r) => [r.email!, r.lockedUntil]));
+}
+
+/**
+ * Lift an account lockout early and reset its failure count. Returns false if it wasn't locked.
+ */
+export async function unlockAccount(email: string, adminId: string) {
+  const released = await db
+    .update(loginLockouts)
+    .set({ releasedAt: new Date(), releasedBy: adminId })
+    .where(
+      and(
+        eq(loginLockouts.scope, 'account'),
+        eq(loginLockouts.email, email.toLowerCase()),
+        isNull(loginLockouts.releasedAt),
+        gt(loginLockouts.lockedUntil, new Date()),
+      ),
+    )
+    .returning({ id: loginLockouts.id });
+
+  await clearLoginFailures(email);
+  return released.length > 0;
+}
+
+/**
+ * Lift any single lockout (account or IP) by id. Returns false if it was already over.
+ */
+export async function releaseLockout(id: string, adminId: string) {
+  const [released] = await db
+    .update(loginLockouts)
+    .set({ releasedAt: new Date(), releasedBy: adminId })
+    .where(and(eq(loginLockouts.id, id), isNull(loginLockouts.releasedAt), gt(loginLockouts.lockedUntil, new Date())))
+    .returning({ scope: loginLockouts.scope, email: loginLockouts.email, ipAddress: loginLockouts.ipAddress });
+
+  if (!released) return false;
+
+  if (released.scope === 'account' && released.email) {
+    await clearLoginFailures(released.email);
+  } else if (released.ipAddress) {
+    await db.delete(loginFailures).where(eq(loginFailures.ipAddress, released.ipAddress));
+  }
+  return true;
+}
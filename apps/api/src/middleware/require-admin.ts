@@ -1,10 +1,15 @@
 import { HTTPException } from 'hono/http-exception';
 import type { Context, Next } from 'hono';
 
+// API tokens never carry admin rights, even an admin's: a leaked token must not
+// be able to change access, wherever the admin route happens to be mounted
 export async function requireAdmin(c: Context, next: Next) {
   const payload = c.get('jwtPayload');
   if (!payload || payload.role !== 'admin') {
     throw new HTTPException(403, { message: 'Admin access required' });
   }
+  if (payload.apiTokenId) {
+    throw new HTTPException(403, { message: 'Admin endpoints cannot be used with an API token' });
+  }
   return next();
 }
@@ -0,0 +1,25 @@
+import { HTTPException } from 'hono/http-exception';
+import type { Context, Next } from 'hono';
+import { z } from 'zod';
+import { membershipRole } from '../organizations.js';
+
+/**
+ * Guards /:orgId routes: platform admins and the organization's own admins only.
+ */
+export async function requireOrgAdmin(c: Context, next: Next) {
+  const payload = c.get('jwtPayload');
+  if (!payload) {
+    throw new HTTPException(401, { message: 'Authentication required' });
+  }
+
+  const orgId = z.string().uuid().parse(c.req.param('orgId'));
+  if (payload.role === 'admin') {
+    return next();
+  }
+
+  const role = await membershipRole(orgId, payload.sub);
+  if (role !== 'admin') {
+    throw new HTTPException(403, { message: 'Organization admin access required' });
+  }
+  return next();
+}
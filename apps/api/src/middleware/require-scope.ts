@@ -0,0 +1,17 @@
+import { HTTPException } from 'hono/http-exception';
+import type { Context, Next } from 'hono';
+import { scopesForRole, type ServiceRole, type ServiceScope } from '../service-roles.js';
+
+/**
+ * Allow the request only if the user's role on the service (set by
+ * requireService) includes the scope.
+ */
+export function requireScope(scope: ServiceScope) {
+  return async (c: Context, next: Next) => {
+    const role = c.get('serviceRole') as ServiceRole | undefined;
+    if (!role || !scopesForRole(role).includes(scope)) {
+      throw new HTTPException(403, { message: "Your role for this service doesn't allow this" });
+    }
+    return next();
+  };
+}
@@ -1,8 +1,9 @@
 import { HTTPException } from 'hono/http-exception';
 import type { Context, Next } from 'hono';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
 import { db } from '../db.js';
-import { services, userServices } from '../schema.js';
+import { services } from '../schema.js';
+import { serviceRole } from '../service-access.js';
 
 export function requireService(serviceSlug: string) {
   return async (c: Context, next: Next) => {
@@ -11,30 +12,36 @@ export function requireService(serviceSlug: string) {
       throw new HTTPException(401, { message: 'Authentication required' });
     }
 
-    // Admins bypass service access checks
-    if (payload.role === 'admin') {
-      return next();
+    // API tokens only work for the services they were scoped to
+    if (payload.scopes && !payload.scopes.includes(serviceSlug)) {
+      throw new HTTPException(403, { message: 'API token is not scoped to this service' });
     }
 
-    const userId = payload.sub;
-
-    const rows = await db
-      .select({ id: userServices.id })
-      .from(userServices)
-      .innerJoin(services, eq(userServices.serviceId, services.id))
-      .where(
-        and(
-          eq(userServices.userId, userId),
-          eq(services.slug, serviceSlug),
-          eq(services.enabled, true),
-        ),
-      )
+    // 2FA-mandatory services apply to everyone, admins included
+    const [service] = await db
+      .select({ requireTwoFactor: services.requireTwoFactor })
+      .from(services)
+      .where(eq(services.slug, serviceSlug))
       .limit(1);
 
-    if (rows.length === 0) {
+    if (service?.requireTwoFactor && !payload.twoFactor) {
+      throw new HTTPException(403, { message: 'Two-factor authentication is required for this service' });
+    }
+
+    // Admins bypass service access checks and get every scope
+    if (payload.role === 'admin') {
+      c.set('serviceRole', 'analyst');
+      return next();
+    }
+
+    // Granted directly, through one of the user's organizations or through a group
+    const role = await serviceRole(payload.sub, serviceSlug);
+    if (!role) {
       throw new HTTPException(403, { message: 'Service access required' });
     }
 
+    // Read by requireScope on the service's routes
+    c.set('serviceRole', role);
     return next();
   };
 }
@@ -0,0 +1,152 @@
+import { HTTPException } from 'hono/http-exception';
+import { jwt } from 'hono/jwt';
+import type { Context, Next } from 'hono';
+import { eq, and, isNull, gt } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
+import { db } from '../db.js';
+import { env } from '../env.js';
+import { sessions, users, rolePolicies } from '../schema.js';
+import { ACCESS_TOKEN_COOKIE } from '../sessions.js';
+import { authenticateApiToken } from '../api-tokens.js';
+import { assertNotSuspended } from '../suspensions.js';
+import { IMPERSONATION_TTL_MS, checkImpersonationScope } from '../impersonation.js';
+
+// The user an admin's session is viewing the app as
+const impersonatedUsers = alias(users, 'impersonated_users');
+
+const verifyAccessToken = jwt({
+  secret: env.JWT_SECRET,
+  alg: 'HS256',
+  cookie: ACCESS_TOKEN_COOKIE,
+});
+
+/**
+ * If the user's role requires 2FA and they haven't enrolled yet, everything
+ * outside /api/auth (where enrollment happens) is refused.
+ */
+function checkTwoFactorPolicy(c: Context, totpEnabledAt: Date | null, roleRequiresTwoFactor: boolean | null) {
+  const twoFactor = totpEnabledAt !== null;
+  const twoFactorRequired = roleRequiresTwoFactor ?? false;
+
+  if (twoFactorRequired && !twoFactor && !c.req.path.startsWith('/api/auth/')) {
+    throw new HTTPException(403, { message: 'Two-factor authentication setup required' });
+  }
+
+  return { twoFactor, twoFactorRequired };
+}
+
+/**
+ * Personal API tokens (`Authorization: Bearer vai_...`). They only reach service
+ * APIs, where requireService also checks the token's scopes — never account or
+ * platform admin endpoints, so a leaked token can't mint more tokens. Admin
+ * routes inside services are closed to tokens by requireAdmin.
+ */
+async function requireApiToken(c: Context, next: Next, token: string) {
+  const row = await authenticateApiToken(token);
+  if (!row) {
+    throw new HTTPException(401, { message: 'Invalid or expired API token' });
+  }
+  assertNotSuspended(row);
+
+  if (['/api/auth', '/api/admin', '/api/orgs'].some((prefix) => c.req.path.startsWith(prefix))) {
+    throw new HTTPException(403, { message: 'API tokens can only be used with service APIs' });
+  }
+
+  c.set('jwtPayload', {
+    sub: row.userId,
+    email: row.email,
+    role: row.role,
+    ...checkTwoFactorPolicy(c, row.totpEnabledAt, row.roleRequiresTwoFactor),
+    apiTokenId: row.tokenId,
+    scopes: row.scopes,
+  });
+  await next();
+}
+
+/**
+ * Verifies the access token, then checks its session is still live so that
+ * logout, user deletion, suspension and revocation take effect immediately. The role and
+ * email on jwtPayload are refreshed from the users row for the same reason.
+ * While an admin is impersonating, sub/email/role are the impersonated user's
+ * and `impersonator` holds the admin.
+ */
+export async function requireSession(c: Context, next: Next) {
+  const authorization = c.req.header('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return requireApiToken(c, next, authorization.slice('Bearer '.length).trim());
+  }
+
+  return verifyAccessToken(c, async () => {
+    const payload = c.get('jwtPayload');
+
+    const [session] = payload.sid
+      ? await db
+          .select({
+            email: users.email,
+            role: users.role,
+            totpEnabledAt: users.totpEnabledAt,
+            suspendedAt: users.suspendedAt,
+            roleRequiresTwoFactor: rolePolicies.requireTwoFactor,
+            impersonated: {
+              id: impersonatedUsers.id,
+              email: impersonatedUsers.email,
+              role: impersonatedUsers.role,
+              totpEnabledAt: impersonatedUsers.totpEnabledAt,
+              suspendedAt: impersonatedUsers.suspendedAt,
+            },
+          })
+          .from(sessions)
+          .innerJoin(users, eq(sessions.userId, users.id))
+          .leftJoin(rolePolicies, eq(rolePolicies.role, users.role))
+          .leftJoin(
+            impersonatedUsers,
+            and(
+              eq(sessions.impersonatedUserId, impersonatedUsers.id),
+              gt(sessions.impersonationStartedAt, new Date(Date.now() - IMPERSONATION_TTL_MS)),
+            ),
+          )
+          .where(
+            and(
+              eq(sessions.id, payload.sid),
+              eq(sessions.userId, payload.sub),
+              isNull(sessions.revokedAt),
+              gt(sessions.expiresAt, new Date()),
+            ),
+          )
+          .limit(1)
+      : [];
+
+    if (!session) {
+      throw new HTTPException(401, { message: 'Session expired' });
+    }
+    // Suspending revokes sessions too; this covers any request already in flight
+    assertNotSuspended(session);
+
+    // An admin viewing as another user acts as them, within checkImpersonationScope.
+    // It lapses if the user has since been made an admin or suspended.
+    const impersonated = session.impersonated;
+    if (session.role === 'admin' && impersonated && impersonated.role !== 'admin' && !impersonated.suspendedAt) {
+      checkImpersonationScope(c);
+      c.set('jwtPayload', {
+        ...payload,
+        sub: impersonated.id,
+        email: impersonated.email,
+        role: impersonated.role,
+        // 2FA-only services follow the user's own enrollment; their role's 2FA
+        // policy isn't enforced since the admin can't enroll on their behalf
+        twoFactor: impersonated.totpEnabledAt !== null,
+        twoFactorRequired: false,
+        impersonator: { id: payload.sub, email: session.email },
+      });
+      return next();
+    }
+
+    c.set('jwtPayload', {
+      ...payload,
+      email: session.email,
+      role: session.role,
+      ...checkTwoFactorPolicy(c, session.totpEnabledAt, session.roleRequiresTwoFactor),
+    });
+    await next();
+  });
+}
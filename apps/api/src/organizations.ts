@@ -0,0 +1,84 @@
+import { eq, and } from 'drizzle-orm';
+import { db } from './db.js';
+import { users, services, organizations, organizationMembers, organizationServices } from './schema.js';
+
+export type OrganizationRole = 'admin' | 'member';
+
+/**
+ * Organizations the user belongs to, with their role in each.
+ */
+export async function listMemberships(userId: string) {
+  return db
+    .select({
+      id: organizations.id,
+      slug: organizations.slug,
+      name: organizations.name,
+      role: organizationMembers.role,
+    })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+    .where(eq(organizationMembers.userId, userId))
+    .orderBy(organizations.name);
+}
+
+export async function membershipRole(organizationId: string, userId: string) {
+  const [row] = await db
+    .select({ role: organizationMembers.role })
+    .from(organizationMembers)
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+    .limit(1);
+  return (row?.role as OrganizationRole | undefined) ?? null;
+}
+
+export async function listMembers(organizationId: string) {
+  return db
+    .select({
+      userId: users.id,
+      email: users.email,
+      role: organizationMembers.role,
+      joinedAt: organizationMembers.createdAt,
+    })
+    .from(organizationMembers)
+    .innerJoin(users, eq(organizationMembers.userId, users.id))
+    .where(eq(organizationMembers.organizationId, organizationId))
+    .orderBy(users.email);
+}
+
+export async function listOrganizationServices(organizationId: string) {
+  return db
+    .select({ id: services.id, slug: services.slug, name: services.name, enabled: services.enabled, role: organizationServices.role })
+    .from(organizationServices)
+    .innerJoin(services, eq(organizationServices.serviceId, services.id))
+    .where(eq(organizationServices.organizationId, organizationId))
+    .orderBy(services.name);
+}
+
+/**
+ * Change a member's role. Returns the member's email, or null if they aren't a member.
+ */
+export async function setMemberRole(organizationId: string, userId: string, role: OrganizationRole) {
+  const [updated] = await db
+    .update(organizationMembers)
+    .set({ role })
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+    .returning({ id: organizationMembers.id });
+  if (!updated) return null;
+
+  const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+  return user?.email ?? null;
+}
+
+/**
+ * Remove someone from an organization (their account stays). Returns their
+ * email, or null if they weren't a member.
+ */
+export async function removeMember(organizationId: string, userId: string) {
+  const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+
+  const [removed] = await db
+    .delete(organizationMembers)
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+    .returning({ id: organizationMembers.id });
+
+  return removed ? user?.email ?? userId : null;
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { users } from './schema.js';
+import { afterCursor, toPage, type SortKey } from './pagination.js';
+
+const dialect = new PgDialect();
+const byCreatedAt: SortKey = { expr: users.createdAt, type: 'timestamptz' };
+
+const rows = [
+  { id: '00000000-0000-4000-8000-000000000001', cursorKey: '2026-01-01 09:00:00.123456+00', email: 'a@example.com' },
+  { id: '00000000-0000-4000-8000-000000000002', cursorKey: '2026-01-02 09:00:00+00', email: 'b@example.com' },
+  { id: '00000000-0000-4000-8000-000000000003', cursorKey: '2026-01-03 09:00:00+00', email: 'c@example.com' },
+];
+
+describe('cursor pagination', () => {
+  it('returns one page and a cursor only when more rows follow', () => {
+    const first = toPage(rows, 2);
+    expect(first.items).toEqual([
+      { id: rows[0].id, email: 'a@example.com' },
+      { id: rows[1].id, email: 'b@example.com' },
+    ]);
+    expect(first.nextCursor).toEqual(expect.any(String));
+    expect(toPage(rows, 3).nextCursor).toBeNull();
+  });
+
+  it('continues after the last row with the key at full precision and the id as tie-breaker', () => {
+    const { nextCursor } = toPage(rows, 1);
+    const query = dialect.sqlToQuery(afterCursor(byCreatedAt, users.id, 'desc', nextCursor!));
+    expect(query.sql).toBe('("users"."created_at", "users"."id") < ($1::timestamptz, $2::uuid)');
+    expect(query.params).toEqual(['2026-01-01 09:00:00.123456+00', rows[0].id]);
+  });
+
+  it('rejects a cursor that was not issued by the server', () => {
+    expect(() => afterCursor(byCreatedAt, users.id, 'asc', 'not-a-cursor')).toThrow('Invalid cursor');
+  });
+
+  it('rejects a cursor whose key is not a timestamp when sorting by one', () => {
+    const forged = (key: string) => Buffer.from(JSON.stringify([key, rows[0].id])).toString('base64url');
+    for (const key of ['yesterday', '2026-13-01 09:00:00+00', '2026-02-30 09:00:00+00', "2026-01-01 09:00:00+00'"]) {
+      expect(() => afterCursor(byCreatedAt, users.id, 'asc', forged(key))).toThrow('Invalid cursor');
+    }
+    expect(() => afterCursor(byCreatedAt, users.id, 'asc', forged('infinity'))).not.toThrow();
+    const byEmail: SortKey = { expr: users.email, type: 'text' };
+    expect(() => afterCursor(byEmail, users.id, 'asc', forged('yesterday'))).not.toThrow();
+  });
+});
@@ -0,0 +1,101 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { sql, type AnyColumn, type SQL } from 'drizzle-orm';
+
+export const pageQuerySchema = z.object({
+  cursor: z.string().max(500).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+export type SortOrder = 'asc' | 'desc';
+
+/**
+ * A sortable expression and the Postgres type its cursor value is cast back to.
+ * Keys must not be null; coalesce nullable columns in `expr`.
+ */
+export type SortKey = { expr: SQL | AnyColumn; type: 'text' | 'timestamptz' };
+
+type Cursor = { key: string; id: string };
+
+/**
+ * The sort key as text, selected alongside each row so the cursor keeps the
+ * database's full precision (JS dates drop the microseconds of a timestamp).
+ */
+export function cursorKey(sort: SortKey) {
+  return sql<string>`(${sort.expr})::text`;
+}
+
+export function keysetOrder(sort: SortKey, id: AnyColumn, order: SortOrder) {
+  const direction = sql.raw(order);
+  return [sql`${sort.expr} ${direction}`, sql`${id} ${direction}`];
+}
+
+/**
+ * Rows strictly after the cursor in the given order, with the id breaking ties.
+ */
+export function afterCursor(sort: SortKey, id: AnyColumn, order: SortOrder, encoded: string): SQL {
+  const cursor = decodeCursor(encoded, sort.type);
+  const op = sql.raw(order === 'asc' ? '>' : '<');
+  return sql`(${sort.expr}, ${id}) ${op} (${cursor.key}::${sql.raw(sort.type)}, ${cursor.id}::uuid)`;
+}
+
+/**
+ * Trim a query fetched with `limit + 1` rows down to one page, and point the
+ * next cursor at its last row (null on the final page).
+ */
+export function toPage<T extends { id: string; cursorKey: string }>(rows: T[], limit: number) {
+  const items = rows.slice(0, limit);
+  const last = items[items.length - 1];
+  return {
+    items: items.map(({ cursorKey: _key, ...item }) => item),
+    nextCursor: rows.length > limit && last ? encodeCursor({ key: last.cursorKey, id: last.id }) : null,
+  };
+}
+
+function encodeCursor(cursor: Cursor) {
+  return Buffer.from(JSON.stringify([cursor.key, cursor.id])).toString('base64url');
+}
+
+const cursorSchema = z.tuple([z.string(), z.string().uuid()]);
+
+// A timestamptz as Postgres writes it as text, e.g. 2026-01-01 09:00:00.123456+00
+const TIMESTAMPTZ_TEXT = /^(\d{4})-(\d{2})-(\d{2}) (\d{2}):(\d{2}):(\d{2})(\.\d{1,6})?[+-]\d{2}(:\d{2}){0,2}$/;
+
+function isTimestamptzText(value: string) {
+  // Sort keys may coalesce a missing date to infinity
+  if (value === 'infinity' || value === '-infinity') return true;
+  const match = TIMESTAMPTZ_TEXT.exec(value);
+  if (!match) return false;
+  // Out-of-range parts (month 13, Feb 30, 25:00) roll over instead of round-tripping
+  const [year, month, day, hour, minute, second] = match.slice(1, 7).map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  return (
+    date.getUTCFullYear() === year &&
+    date.getUTCMonth() === month - 1 &&
+    date.getUTCDate() === day &&
+    date.getUTCHours() === hour &&
+    date.getUTCMinutes() === minute &&
+    date.getUTCSeconds() === second
+  );
+}
+
+// The key is cast to the sort's type in SQL, so it's checked here first: a
+// tampered cursor gets a 400 rather than failing the cast
+function decodeCursor(encoded: string, type: SortKey['type']): Cursor {
+  try {
+    const [key, id] = cursorSchema.parse(JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')));
+    if (type === 'timestamptz' && !isTimestamptzText(key)) {
+      throw new Error('Not a timestamp');
+    }
+    return { key, id };
+  } catch {
+    throw new HTTPException(400, { message: 'Invalid cursor' });
+  }
+}
+
+/**
+ * Escape `%`, `_` and `\` so user input matches literally inside ILIKE.
+ */
+export function escapeLike(value: string) {
+  return value.replace(/[\\%_]/g, (ch) => `\\${ch}`);
+}
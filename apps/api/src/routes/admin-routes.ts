@@ -1,11 +1,41 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
-import { eq, and, sql } from 'drizzle-orm';
+import { eq, ne, and, or, lt, lte, gt, gte, isNull, ilike, exists, inArray, sql } from 'drizzle-orm';
+import { alias } from 'drizzle-orm/pg-core';
 import { HTTPException } from 'hono/http-exception';
-import crypto from 'crypto';
 import { db } from '../db.js';
-import { users, inviteCodes, services, userServices } from '../schema.js';
+import {
+  users,
+  inviteCodes,
+  inviteCodeServices,
+  services,
+  userServices,
+  rolePolicies,
+  ssoConnections,
+  ssoDomainRules,
+  organizations,
+  organizationMembers,
+  organizationServices,
+  userGroups,
+  userGroupMembers,
+  userGroupServices,
+} from '../schema.js';
 import { requireAdmin } from '../middleware/require-admin.js';
+import { listActiveSessions, revokeSession, revokeUserSessions } from '../sessions.js';
+import { clearTwoFactor } from '../two-factor.js';
+import { listLockouts, activeAccountLockouts, unlockAccount, releaseLockout } from '../login-throttle.js';
+import { recordAuditEvent, listAuditEvents, listAuditActions, auditEventsToCsv } from '../audit.js';
+import { pageQuerySchema, cursorKey, keysetOrder, afterCursor, toPage, escapeLike, type SortKey } from '../pagination.js';
+import { createInviteCode, revokeInviteCode } from '../invite-codes.js';
+import { parseInviteCsv, validateInviteRows, inviteImportResultsToCsv, type InviteImportResult } from '../invite-import.js';
+import { removeMember } from '../organizations.js';
+import { suspendUser, reactivateUser, assertNotLastActiveAdmin } from '../suspensions.js';
+import { startImpersonation } from '../impersonation.js';
+import { listEffectiveAccess, canReachService } from '../service-access.js';
+import { listExpiringGrants } from '../access-expiry.js';
+import { findManifest } from '../services/registry.js';
+import { describeServiceSettings, updateServiceSettings } from '../service-settings.js';
+import { SERVICE_ROLES } from '../service-roles.js';
 
 export const adminRoutes = new Hono();
 
@@ -14,17 +44,56 @@ adminRoutes.use('*', requireAdmin);
 
 // ===================== USERS =====================
 
-// GET /users — list all users with their service assignments
+// GET /users — one page of users with their direct service assignments and the
+// effective access they get once organization and group grants are included.
+// Filters: q (email substring), role, serviceId (any route to the service).
+const userSortKeys = {
+  createdAt: { expr: users.createdAt, type: 'timestamptz' },
+  email: { expr: sql`lower(${users.email})`, type: 'text' },
+} satisfies Record<string, SortKey>;
+
+const userListSchema = pageQuerySchema.extend({
+  q: z.string().trim().max(255).optional(),
+  role: z.enum(['admin', 'user']).optional(),
+  serviceId: z.string().uuid().optional(),
+  sort: z.enum(['createdAt', 'email']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+});
+
 adminRoutes.get('/users', async (c) => {
-  const allUsers = await db
-    .select({
-      id: users.id,
-      email: users.email,
-      role: users.role,
-      createdAt: users.createdAt,
-    })
-    .from(users)
-    .orderBy(users.createdAt);
+  const query = userListSchema.parse(c.req.query());
+  const sortKey = userSortKeys[query.sort];
+
+  const filter = and(
+    query.q ? ilike(users.email, `%${escapeLike(query.q)}%`) : undefined,
+    query.role ? eq(users.role, query.role) : undefined,
+    query.serviceId ? canReachService(users.id, query.serviceId) : undefined,
+  );
+
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: users.id,
+        email: users.email,
+        role: users.role,
+        totpEnabledAt: users.totpEnabledAt,
+        suspendedAt: users.suspendedAt,
+        suspendedReason: users.suspendedReason,
+        createdAt: users.createdAt,
+        cursorKey: cursorKey(sortKey),
+      })
+      .from(users)
+      .where(and(filter, query.cursor ? afterCursor(sortKey, users.id, query.order, query.cursor) : undefined))
+      .orderBy(...keysetOrder(sortKey, users.id, query.order))
+      .limit(query.limit + 1),
+    db.select({ total: sql<number>`count(*)::int` }).from(users).where(filter),
+  ]);
+
+  const { items: pageUsers, nextCursor } = toPage(rows, query.limit);
+  if (pageUsers.length === 0) {
+    return c.json({ users: [], nextCursor, total });
+  }
+  const userIds = pageUsers.map((u) => u.id);
 
   // Get service assignments for each user
   const assignments = await db
@@ -33,24 +102,91 @@ adminRoutes.get('/users', async (c) => {
       serviceId: services.id,
       serviceName: services.name,
       serviceSlug: services.slug,
+      role: userServices.role,
+      startsAt: userServices.startsAt,
+      expiresAt: userServices.expiresAt,
     })
     .from(userServices)
-    .innerJoin(services, eq(userServices.serviceId, services.id));
+    .innerJoin(services, eq(userServices.serviceId, services.id))
+    .where(inArray(userServices.userId, userIds));
 
-  const assignmentMap = new Map<string, Array<{ id: string; name: string; slug: string }>>();
+  type Assignment = { id: string; name: string; slug: string; role: string; startsAt: Date | null; expiresAt: Date | null };
+  const assignmentMap = new Map<string, Assignment[]>();
   for (const a of assignments) {
     if (!assignmentMap.has(a.userId)) assignmentMap.set(a.userId, []);
-    assignmentMap.get(a.userId)!.push({ id: a.serviceId, name: a.serviceName, slug: a.serviceSlug });
+    assignmentMap.get(a.userId)!.push({
+      id: a.serviceId,
+      name: a.serviceName,
+      slug: a.serviceSlug,
+      role: a.role,
+      startsAt: a.startsAt,
+      expiresAt: a.expiresAt,
+    });
+  }
+
+  const memberships = await db
+    .select({
+      userId: organizationMembers.userId,
+      id: organizations.id,
+      name: organizations.name,
+      role: organizationMembers.role,
+    })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+    .where(inArray(organizationMembers.userId, userIds))
+    .orderBy(organizations.name);
+
+  const membershipMap = new Map<string, Array<{ id: string; name: string; role: string }>>();
+  for (const { userId, ...m } of memberships) {
+    if (!membershipMap.has(userId)) membershipMap.set(userId, []);
+    membershipMap.get(userId)!.push(m);
+  }
+
+  const groupRows = await db
+    .select({ userId: userGroupMembers.userId, id: userGroups.id, name: userGroups.name })
+    .from(userGroupMembers)
+    .innerJoin(userGroups, eq(userGroupMembers.groupId, userGroups.id))
+    .where(inArray(userGroupMembers.userId, userIds))
+    .orderBy(userGroups.name);
+
+  const groupMap = new Map<string, Array<{ id: string; name: string }>>();
+  for (const { userId, ...g } of groupRows) {
+    if (!groupMap.has(userId)) groupMap.set(userId, []);
+    groupMap.get(userId)!.push(g);
   }
 
+  // Direct grants plus everything inherited from organizations and groups
+  const effectiveAccess = await listEffectiveAccess(userIds);
+
+  const lockouts = await activeAccountLockouts();
+
   return c.json({
-    users: allUsers.map((u) => ({
+    nextCursor,
+    total,
+    users: pageUsers.map(({ totpEnabledAt, ...u }) => ({
       ...u,
+      twoFactorEnabled: totpEnabledAt !== null,
+      lockedUntil: lockouts.get(u.email.toLowerCase()) ?? null,
       services: assignmentMap.get(u.id) ?? [],
+      organizations: membershipMap.get(u.id) ?? [],
+      groups: groupMap.get(u.id) ?? [],
+      effectiveServices: effectiveAccess.get(u.id) ?? [],
     })),
   });
 });
 
+// GET /users/expiring-grants — direct grants lapsing within `days` (default 14),
+// across all users, for the warning list above the user table
+const expiringGrantsSchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(14),
+});
+
+adminRoutes.get('/users/expiring-grants', async (c) => {
+  const { days } = expiringGrantsSchema.parse(c.req.query());
+  const grants = await listExpiringGrants(new Date(Date.now() + days * 24 * 60 * 60 * 1000));
+  return c.json({ grants });
+});
+
 // DELETE /users/:id — delete a user and their service assignments
 adminRoutes.delete('/users/:id', async (c) => {
   const id = c.req.param('id');
@@ -60,7 +196,7 @@ adminRoutes.delete('/users/:id', async (c) => {
     throw new HTTPException(400, { message: 'Cannot delete your own account' });
   }
 
-  const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.id, id)).limit(1);
+  const [existing] = await db.select({ id: users.id, email: users.email }).from(users).where(eq(users.id, id)).limit(1);
   if (!existing) {
     throw new HTTPException(404, { message: 'User not found' });
   }
@@ -68,6 +204,7 @@ adminRoutes.delete('/users/:id', async (c) => {
   await db.delete(userServices).where(eq(userServices.userId, id));
   await db.delete(users).where(eq(users.id, id));
 
+  await recordAuditEvent(c, { action: 'user.deleted', targetType: 'user', targetId: id, targetLabel: existing.email });
   return c.json({ success: true });
 });
 
@@ -80,141 +217,752 @@ adminRoutes.patch('/users/:id/role', async (c) => {
   const id = c.req.param('id');
   const body = roleSchema.parse(await c.req.json());
 
-  // Last-admin guard: prevent demoting the only admin
-  if (body.role === 'user') {
-    const [{ adminCount }] = await db
-      .select({ adminCount: sql<number>`count(*)::int` })
-      .from(users)
-      .where(eq(users.role, 'admin'));
-
-    if (adminCount <= 1) {
-      throw new HTTPException(400, { message: 'Cannot demote the last admin' });
+  const updated = await db.transaction(async (tx) => {
+    // Last-admin guard: suspended admins can't sign in, so they don't count
+    if (body.role === 'user') {
+      await assertNotLastActiveAdmin(tx, id, 'Cannot demote the last admin');
     }
-  }
 
-  const [updated] = await db
-    .update(users)
-    .set({ role: body.role })
-    .where(eq(users.id, id))
-    .returning({ id: users.id, email: users.email, role: users.role });
+    const [row] = await tx
+      .update(users)
+      .set({ role: body.role })
+      .where(eq(users.id, id))
+      .returning({ id: users.id, email: users.email, role: users.role });
+    return row;
+  });
 
   if (!updated) {
     throw new HTTPException(404, { message: 'User not found' });
   }
 
+  await recordAuditEvent(c, {
+    action: 'user.role_changed',
+    targetType: 'user',
+    targetId: id,
+    targetLabel: updated.email,
+    metadata: { role: body.role },
+  });
   return c.json({ user: updated });
 });
 
+// GET /users/:id/sessions — a user's active logins
+adminRoutes.get('/users/:id/sessions', async (c) => {
+  const id = c.req.param('id');
+  return c.json({ sessions: await listActiveSessions(id) });
+});
+
+// DELETE /users/:id/sessions/:sessionId — force-logout one device
+adminRoutes.delete('/users/:id/sessions/:sessionId', async (c) => {
+  const id = c.req.param('id');
+  const sessionId = c.req.param('sessionId');
+
+  if (!(await revokeSession(id, sessionId))) {
+    throw new HTTPException(404, { message: 'Session not found' });
+  }
+
+  await recordAuditEvent(c, { action: 'user.session_revoked', targetType: 'user', targetId: id, metadata: { sessionId } });
+  return c.json({ success: true });
+});
+
+// DELETE /users/:id/sessions — force-logout everywhere
+adminRoutes.delete('/users/:id/sessions', async (c) => {
+  const id = c.req.param('id');
+  await revokeUserSessions(id);
+  await recordAuditEvent(c, { action: 'user.sessions_revoked', targetType: 'user', targetId: id });
+  return c.json({ success: true });
+});
+
+// DELETE /users/:id/two-factor — reset 2FA for a user who lost their device
+adminRoutes.delete('/users/:id/two-factor', async (c) => {
+  const id = c.req.param('id');
+
+  const [existing] = await db.select({ id: users.id, email: users.email }).from(users).where(eq(users.id, id)).limit(1);
+  if (!existing) {
+    throw new HTTPException(404, { message: 'User not found' });
+  }
+
+  await clearTwoFactor(id);
+  await recordAuditEvent(c, { action: 'user.two_factor_reset', targetType: 'user', targetId: id, targetLabel: existing.email });
+  return c.json({ success: true });
+});
+
+// POST /users/:id/unlock — lift a login lockout and reset the user's failed attempts
+adminRoutes.post('/users/:id/unlock', async (c) => {
+  const id = c.req.param('id');
+  const payload = c.get('jwtPayload');
+
+  const [user] = await db.select({ email: users.email }).from(users).where(eq(users.id, id)).limit(1);
+  if (!user) {
+    throw new HTTPException(404, { message: 'User not found' });
+  }
+
+  const wasLocked = await unlockAccount(user.email, payload.sub);
+  await recordAuditEvent(c, { action: 'user.unlocked', targetType: 'user', targetId: id, targetLabel: user.email, metadata: { wasLocked } });
+  return c.json({ success: true, wasLocked });
+});
+
+// POST /users/:id/suspend — block sign-in and all requests without deleting the account
+const suspendSchema = z.object({
+  reason: z.string().trim().min(1, 'Give a reason for the suspension').max(500),
+});
+
+adminRoutes.post('/users/:id/suspend', async (c) => {
+  const id = c.req.param('id');
+  const payload = c.get('jwtPayload');
+  const { reason } = suspendSchema.parse(await c.req.json());
+
+  if (id === payload.sub) {
+    throw new HTTPException(400, { message: 'Cannot suspend your own account' });
+  }
+
+  const suspended = await suspendUser(id, payload.sub, reason);
+  if (!suspended) {
+    const [existing] = await db.select({ id: users.id }).from(users).where(eq(users.id, id)).limit(1);
+    if (!existing) throw new HTTPException(404, { message: 'User not found' });
+    throw new HTTPException(409, { message: 'User is already suspended' });
+  }
+
+  await recordAuditEvent(c, { action: 'user.suspended', targetType: 'user', targetId: id, targetLabel: suspended.email, metadata: { reason } });
+  return c.json({ success: true, suspendedAt: suspended.suspendedAt });
+});
+
+// POST /users/:id/reactivate — lift a suspension; the user signs in again as normal
+adminRoutes.post('/users/:id/reactivate', async (c) => {
+  const id = c.req.param('id');
+
+  const previous = await reactivateUser(id);
+  if (!previous) {
+    throw new HTTPException(404, { message: 'User not found or not suspended' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'user.reactivated',
+    targetType: 'user',
+    targetId: id,
+    targetLabel: previous.email,
+    metadata: { suspendedAt: previous.suspendedAt, reason: previous.suspendedReason },
+  });
+  return c.json({ success: true });
+});
+
+// POST /users/:id/impersonate — view the app as this user (support); this session
+// acts as them until DELETE /api/auth/impersonation or the hour is up
+adminRoutes.post('/users/:id/impersonate', async (c) => {
+  const id = c.req.param('id');
+  const payload = c.get('jwtPayload');
+
+  if (id === payload.sub) {
+    throw new HTTPException(400, { message: 'You are already signed in as yourself' });
+  }
+
+  const [target] = await db
+    .select({ id: users.id, email: users.email, role: users.role, suspendedAt: users.suspendedAt })
+    .from(users)
+    .where(eq(users.id, id))
+    .limit(1);
+  if (!target) {
+    throw new HTTPException(404, { message: 'User not found' });
+  }
+  if (target.role === 'admin') {
+    throw new HTTPException(403, { message: 'Admins cannot be impersonated' });
+  }
+  if (target.suspendedAt) {
+    throw new HTTPException(400, { message: 'Reactivate the user before viewing as them' });
+  }
+
+  if (!payload.sid || !(await startImpersonation(payload.sid, target.id))) {
+    throw new HTTPException(401, { message: 'Session expired' });
+  }
+
+  await recordAuditEvent(c, { action: 'user.impersonation_started', targetType: 'user', targetId: target.id, targetLabel: target.email });
+  return c.json({ success: true });
+});
+
+// ===================== LOGIN LOCKOUTS =====================
+
+// GET /lockouts — recent account and IP lockouts, newest first
+adminRoutes.get('/lockouts', async (c) => {
+  return c.json({ lockouts: await listLockouts() });
+});
+
+// POST /lockouts/:id/release — end an account or IP lockout early
+adminRoutes.post('/lockouts/:id/release', async (c) => {
+  const payload = c.get('jwtPayload');
+
+  const id = c.req.param('id');
+
+  if (!(await releaseLockout(id, payload.sub))) {
+    throw new HTTPException(404, { message: 'Lockout not found or already over' });
+  }
+
+  await recordAuditEvent(c, { action: 'lockout.released', targetType: 'lockout', targetId: id });
+  return c.json({ success: true });
+});
+
+// ===================== SECURITY POLICY =====================
+
+const ROLES = ['admin', 'user'] as const;
+
+// GET /security-policy — which roles and services require 2FA
+adminRoutes.get('/security-policy', async (c) => {
+  const policies = await db.select().from(rolePolicies);
+  const policyMap = new Map(policies.map((p) => [p.role, p.requireTwoFactor]));
+
+  const serviceRows = await db
+    .select({ id: services.id, name: services.name, slug: services.slug, requireTwoFactor: services.requireTwoFactor })
+    .from(services)
+    .orderBy(services.name);
+
+  return c.json({
+    roles: ROLES.map((role) => ({ role, requireTwoFactor: policyMap.get(role) ?? false })),
+    services: serviceRows,
+  });
+});
+
+const twoFactorPolicySchema = z.object({
+  required: z.boolean(),
+});
+
+// PUT /roles/:role/two-factor — make 2FA mandatory (or optional) for a role
+adminRoutes.put('/roles/:role/two-factor', async (c) => {
+  const role = z.enum(ROLES).parse(c.req.param('role'));
+  const body = twoFactorPolicySchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+
+  await db
+    .insert(rolePolicies)
+    .values({ role, requireTwoFactor: body.required, updatedBy: payload.sub })
+    .onConflictDoUpdate({
+      target: rolePolicies.role,
+      set: { requireTwoFactor: body.required, updatedBy: payload.sub, updatedAt: new Date() },
+    });
+
+  await recordAuditEvent(c, {
+    action: 'policy.role_two_factor',
+    targetType: 'role',
+    targetId: role,
+    targetLabel: role,
+    metadata: { required: body.required },
+  });
+  return c.json({ role, requireTwoFactor: body.required });
+});
+
+// PATCH /services/:id/two-factor — make 2FA mandatory (or optional) for a service
+adminRoutes.patch('/services/:id/two-factor', async (c) => {
+  const id = c.req.param('id');
+  const body = twoFactorPolicySchema.parse(await c.req.json());
+
+  const [updated] = await db
+    .update(services)
+    .set({ requireTwoFactor: body.required })
+    .where(eq(services.id, id))
+    .returning({ id: services.id, slug: services.slug, requireTwoFactor: services.requireTwoFactor });
+
+  if (!updated) {
+    throw new HTTPException(404, { message: 'Service not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'policy.service_two_factor',
+    targetType: 'service',
+    targetId: id,
+    targetLabel: updated.slug,
+    metadata: { required: body.required },
+  });
+  return c.json({ service: { id: updated.id, requireTwoFactor: updated.requireTwoFactor } });
+});
+
 // ===================== INVITE CODES =====================
 
-// POST /invite-codes — generate a new invite code
+// POST /invite-codes — generate a new invite code, optionally bound to an email
+// and pre-provisioned with a role and services
 const inviteCodeSchema = z.object({
   expiresInDays: z.number().int().min(1).max(365).optional(),
+  email: z.string().email().optional(),
+  role: z.enum(['admin', 'user']).default('user'),
+  serviceIds: z.array(z.string().uuid()).default([]),
+  maxUses: z.number().int().min(1).max(1000).default(1),
+  note: z.string().trim().max(500).optional(),
+  organizationId: z.string().uuid().optional(),
+}).refine((body) => !body.email || body.maxUses === 1, {
+  message: 'An email-bound invite code can only be used once',
+  path: ['maxUses'],
 });
 
 adminRoutes.post('/invite-codes', async (c) => {
   const body = inviteCodeSchema.parse(await c.req.json().catch(() => ({})));
   const payload = c.get('jwtPayload');
 
-  const code = crypto.randomBytes(6).toString('hex').toUpperCase(); // 12 chars like "A3B9F2E1C4D7"
-  const expiresAt = body.expiresInDays
-    ? new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000)
-    : null;
-
-  const [invite] = await db
-    .insert(inviteCodes)
-    .values({
-      code,
-      createdBy: payload.sub,
-      expiresAt,
-    })
-    .returning();
+  const serviceIds = [...new Set(body.serviceIds)];
+  if (serviceIds.length > 0) {
+    const found = await db
+      .select({ id: services.id })
+      .from(services)
+      .where(inArray(services.id, serviceIds));
+    if (found.length !== serviceIds.length) {
+      throw new HTTPException(404, { message: 'Service not found' });
+    }
+  }
 
+  if (body.organizationId) {
+    const [org] = await db
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, body.organizationId))
+      .limit(1);
+    if (!org) throw new HTTPException(404, { message: 'Organization not found' });
+  }
+
+  const invite = await createInviteCode(payload.sub, { ...body, serviceIds });
+
+  await recordAuditEvent(c, {
+    action: 'invite.created',
+    targetType: 'invite_code',
+    targetId: invite.id,
+    targetLabel: invite.code,
+    metadata: {
+      email: invite.email,
+      role: invite.role,
+      maxUses: invite.maxUses,
+      serviceIds,
+      organizationId: invite.organizationId,
+      note: invite.note,
+      expiresAt: invite.expiresAt,
+    },
+  });
   return c.json({ inviteCode: invite }, 201);
 });
 
-// GET /invite-codes — list all invite codes
+// GET /invite-codes — one page of invite codes. Filters: q (bound or redeeming
+// email substring), role, serviceId, status (unused, used or expired).
+const inviteSortKeys = {
+  createdAt: { expr: inviteCodes.createdAt, type: 'timestamptz' },
+  // Codes without an expiry sort after every dated one
+  expiresAt: { expr: sql`coalesce(${inviteCodes.expiresAt}, 'infinity'::timestamptz)`, type: 'timestamptz' },
+} satisfies Record<string, SortKey>;
+
+const inviteListSchema = pageQuerySchema.extend({
+  q: z.string().trim().max(255).optional(),
+  role: z.enum(['admin', 'user']).optional(),
+  serviceId: z.string().uuid().optional(),
+  status: z.enum(['unused', 'used', 'expired']).optional(),
+  sort: z.enum(['createdAt', 'expiresAt']).default('createdAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+const creators = alias(users, 'invite_creators');
+const redeemers = alias(users, 'invite_redeemers');
+
+function inviteStatusCondition(status: 'unused' | 'used' | 'expired') {
+  const open = lt(inviteCodes.useCount, inviteCodes.maxUses);
+  const now = new Date();
+  if (status === 'used') return gte(inviteCodes.useCount, inviteCodes.maxUses);
+  if (status === 'expired') return and(open, lte(inviteCodes.expiresAt, now));
+  return and(open, or(isNull(inviteCodes.expiresAt), gt(inviteCodes.expiresAt, now)));
+}
+
 adminRoutes.get('/invite-codes', async (c) => {
-  const codes = await db
-    .select({
-      id: inviteCodes.id,
-      code: inviteCodes.code,
-      createdBy: inviteCodes.createdBy,
-      usedBy: inviteCodes.usedBy,
-      usedAt: inviteCodes.usedAt,
-      expiresAt: inviteCodes.expiresAt,
-      createdAt: inviteCodes.createdAt,
-    })
-    .from(inviteCodes)
-    .orderBy(sql`${inviteCodes.createdAt} DESC`);
+  const query = inviteListSchema.parse(c.req.query());
+  const sortKey = inviteSortKeys[query.sort];
+
+  const pattern = query.q ? `%${escapeLike(query.q)}%` : null;
+  const filter = and(
+    pattern ? or(ilike(inviteCodes.email, pattern), ilike(redeemers.email, pattern)) : undefined,
+    query.role ? eq(inviteCodes.role, query.role) : undefined,
+    query.serviceId
+      ? exists(
+          db
+            .select({ id: inviteCodeServices.id })
+            .from(inviteCodeServices)
+            .where(and(eq(inviteCodeServices.inviteCodeId, inviteCodes.id), eq(inviteCodeServices.serviceId, query.serviceId))),
+        )
+      : undefined,
+    query.status ? inviteStatusCondition(query.status) : undefined,
+  );
 
-  // Enrich with user emails
-  const userIds = new Set([
-    ...codes.map((c) => c.createdBy),
-    ...codes.filter((c) => c.usedBy).map((c) => c.usedBy!),
+  const [rows, [{ total }]] = await Promise.all([
+    db
+      .select({
+        id: inviteCodes.id,
+        code: inviteCodes.code,
+        createdBy: inviteCodes.createdBy,
+        createdByEmail: creators.email,
+        usedBy: inviteCodes.usedBy,
+        usedByEmail: redeemers.email,
+        usedAt: inviteCodes.usedAt,
+        useCount: inviteCodes.useCount,
+        maxUses: inviteCodes.maxUses,
+        email: inviteCodes.email,
+        role: inviteCodes.role,
+        note: inviteCodes.note,
+        organizationId: inviteCodes.organizationId,
+        organizationName: organizations.name,
+        groupId: inviteCodes.groupId,
+        groupName: userGroups.name,
+        expiresAt: inviteCodes.expiresAt,
+        createdAt: inviteCodes.createdAt,
+        cursorKey: cursorKey(sortKey),
+      })
+      .from(inviteCodes)
+      .leftJoin(creators, eq(inviteCodes.createdBy, creators.id))
+      .leftJoin(redeemers, eq(inviteCodes.usedBy, redeemers.id))
+      .leftJoin(organizations, eq(inviteCodes.organizationId, organizations.id))
+      .leftJoin(userGroups, eq(inviteCodes.groupId, userGroups.id))
+      .where(and(filter, query.cursor ? afterCursor(sortKey, inviteCodes.id, query.order, query.cursor) : undefined))
+      .orderBy(...keysetOrder(sortKey, inviteCodes.id, query.order))
+      .limit(query.limit + 1),
+    db
+      .select({ total: sql<number>`count(*)::int` })
+      .from(inviteCodes)
+      .leftJoin(redeemers, eq(inviteCodes.usedBy, redeemers.id))
+      .where(filter),
   ]);
 
-  const userRows = userIds.size > 0
+  const { items: codes, nextCursor } = toPage(rows, query.limit);
+
+  // Services each code grants on registration
+  const grantRows = codes.length > 0
     ? await db
-        .select({ id: users.id, email: users.email })
-        .from(users)
-        .where(sql`${users.id} = ANY(${sql.raw(`ARRAY[${[...userIds].map((id) => `'${id}'`).join(',')}]::uuid[]`)})`)
+        .select({
+          inviteCodeId: inviteCodeServices.inviteCodeId,
+          serviceId: services.id,
+          serviceName: services.name,
+          serviceSlug: services.slug,
+        })
+        .from(inviteCodeServices)
+        .innerJoin(services, eq(inviteCodeServices.serviceId, services.id))
+        .where(inArray(inviteCodeServices.inviteCodeId, codes.map((code) => code.id)))
     : [];
 
-  const emailMap = new Map(userRows.map((u) => [u.id, u.email]));
+  const grantMap = new Map<string, Array<{ id: string; name: string; slug: string }>>();
+  for (const row of grantRows) {
+    const list = grantMap.get(row.inviteCodeId) ?? [];
+    list.push({ id: row.serviceId, name: row.serviceName, slug: row.serviceSlug });
+    grantMap.set(row.inviteCodeId, list);
+  }
 
   return c.json({
-    inviteCodes: codes.map((code) => ({
-      ...code,
-      createdByEmail: emailMap.get(code.createdBy) ?? null,
-      usedByEmail: code.usedBy ? emailMap.get(code.usedBy) ?? null : null,
-    })),
+    nextCursor,
+    total,
+    inviteCodes: codes.map((code) => ({ ...code, services: grantMap.get(code.id) ?? [] })),
   });
 });
 
-// DELETE /invite-codes/:id — revoke an unused invite code
+// DELETE /invite-codes/:id — revoke an invite code's remaining uses
 adminRoutes.delete('/invite-codes/:id', async (c) => {
   const id = c.req.param('id');
 
-  // Only delete if unused
-  const [deleted] = await db
-    .delete(inviteCodes)
-    .where(and(eq(inviteCodes.id, id), sql`${inviteCodes.usedBy} IS NULL`))
-    .returning({ id: inviteCodes.id });
-
-  if (!deleted) {
+  const revoked = await revokeInviteCode(id);
+  if (!revoked) {
     throw new HTTPException(404, { message: 'Invite code not found or already used' });
   }
 
+  await recordAuditEvent(c, {
+    action: 'invite.revoked',
+    targetType: 'invite_code',
+    targetId: id,
+    targetLabel: revoked.code,
+    metadata: { deleted: revoked.deleted },
+  });
   return c.json({ success: true });
 });
 
+// POST /invite-codes/import/preview — validate an onboarding CSV
+// (email, role, services, group) without creating anything
+const inviteImportPreviewSchema = z.object({
+  csv: z.string().min(1, 'Upload a CSV file').max(1_000_000),
+});
+
+adminRoutes.post('/invite-codes/import/preview', async (c) => {
+  const body = inviteImportPreviewSchema.parse(await c.req.json());
+  const rows = await validateInviteRows(parseInviteCsv(body.csv));
+  return c.json({ rows });
+});
+
+// POST /invite-codes/import — create a single-use, email-bound invite code for
+// every valid row of the CSV. Rows with errors are skipped and reported back,
+// along with the results as a CSV for the admin to download.
+const inviteImportSchema = inviteImportPreviewSchema.extend({
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+  note: z.string().trim().max(500).optional(),
+});
+
+adminRoutes.post('/invite-codes/import', async (c) => {
+  const body = inviteImportSchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+
+  // Validate again: accounts or invites may have appeared since the preview
+  const rows = await validateInviteRows(parseInviteCsv(body.csv));
+
+  const results: InviteImportResult[] = [];
+  for (const row of rows) {
+    if (row.errors.length > 0) {
+      results.push({ ...row, code: null });
+      continue;
+    }
+
+    const serviceIds = row.services.map((s) => s.id);
+    const invite = await createInviteCode(payload.sub, {
+      email: row.email,
+      role: row.role,
+      serviceIds,
+      maxUses: 1,
+      note: body.note,
+      expiresInDays: body.expiresInDays,
+      groupId: row.group?.id ?? null,
+    });
+
+    await recordAuditEvent(c, {
+      action: 'invite.created',
+      targetType: 'invite_code',
+      targetId: invite.id,
+      targetLabel: invite.code,
+      metadata: {
+        email: invite.email,
+        role: invite.role,
+        maxUses: invite.maxUses,
+        serviceIds,
+        groupId: invite.groupId,
+        note: invite.note,
+        expiresAt: invite.expiresAt,
+        imported: true,
+      },
+    });
+    results.push({ ...row, code: invite.code });
+  }
+
+  return c.json({
+    results,
+    created: results.filter((r) => r.code).length,
+    skipped: results.filter((r) => !r.code).length,
+    csv: inviteImportResultsToCsv(results),
+  }, 201);
+});
+
 // ===================== SERVICES =====================
 
-// GET /services — list all services
+// GET /services — list all services with how many users are assigned to each.
+// `registered` services come from a manifest in services/registry.ts; those
+// with `hasSettings` can be configured under /services/:id/settings.
 adminRoutes.get('/services', async (c) => {
   const allServices = await db
     .select()
     .from(services)
     .orderBy(services.name);
 
-  return c.json({ services: allServices });
+  const counts = await db
+    .select({ serviceId: userServices.serviceId, userCount: sql<number>`count(*)::int` })
+    .from(userServices)
+    .groupBy(userServices.serviceId);
+  const countMap = new Map(counts.map((r) => [r.serviceId, r.userCount]));
+
+  return c.json({
+    services: allServices.map((s) => {
+      const manifest = findManifest(s.slug);
+      return {
+        ...s,
+        registered: !!manifest,
+        hasSettings: !!manifest?.settings,
+        userCount: countMap.get(s.id) ?? 0,
+      };
+    }),
+  });
+});
+
+const serviceSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Slug may only contain lowercase letters, digits and dashes').max(100),
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().trim().max(2000).nullable().optional(),
+  icon: z.string().trim().max(50).nullable().optional(),
+  route: z.string().regex(/^\/[A-Za-z0-9\-_/]*$/, 'Route must be an app path like /rlc').max(255),
+  enabled: z.boolean().default(true),
+});
+
+// POST /services — register a new service
+adminRoutes.post('/services', async (c) => {
+  const body = serviceSchema.parse(await c.req.json());
+
+  const [service] = await db
+    .insert(services)
+    .values({ ...body, description: body.description || null, icon: body.icon || null })
+    .onConflictDoNothing({ target: services.slug })
+    .returning();
+
+  if (!service) {
+    throw new HTTPException(409, { message: 'A service with this slug already exists' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'service.created',
+    targetType: 'service',
+    targetId: service.id,
+    targetLabel: service.slug,
+    metadata: { name: service.name, route: service.route, enabled: service.enabled },
+  });
+  return c.json({ service }, 201);
+});
+
+// The details of registered services are synced from their manifest at startup,
+// so edits here would be undone; they can only be enabled or disabled
+async function assertNotRegistered(id: string, message: string) {
+  const [service] = await db.select({ slug: services.slug }).from(services).where(eq(services.id, id)).limit(1);
+  if (!service) {
+    throw new HTTPException(404, { message: 'Service not found' });
+  }
+  if (findManifest(service.slug)) {
+    throw new HTTPException(400, { message });
+  }
+}
+
+// PATCH /services/:id — edit name, description, icon and route, or enable/disable.
+// The slug is what service APIs check access against, so it can't change.
+adminRoutes.patch('/services/:id', async (c) => {
+  const id = c.req.param('id');
+  const body = serviceSchema.omit({ slug: true }).partial().parse(await c.req.json());
+
+  if (Object.keys(body).some((key) => key !== 'enabled')) {
+    await assertNotRegistered(id, 'This service is defined in code; change its manifest instead');
+  }
+
+  const changes = {
+    ...body,
+    ...(body.description !== undefined && { description: body.description || null }),
+    ...(body.icon !== undefined && { icon: body.icon || null }),
+  };
+  if (Object.keys(changes).length === 0) {
+    throw new HTTPException(400, { message: 'Nothing to update' });
+  }
+
+  const [service] = await db
+    .update(services)
+    .set(changes)
+    .where(eq(services.id, id))
+    .returning();
+
+  if (!service) {
+    throw new HTTPException(404, { message: 'Service not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: body.enabled === undefined ? 'service.updated' : body.enabled ? 'service.enabled' : 'service.disabled',
+    targetType: 'service',
+    targetId: id,
+    targetLabel: service.slug,
+    metadata: { changes },
+  });
+  return c.json({ service });
+});
+
+// DELETE /services/:id — remove a service along with its user assignments and grants
+adminRoutes.delete('/services/:id', async (c) => {
+  const id = c.req.param('id');
+  await assertNotRegistered(id, "Services defined in code can't be deleted; disable it instead");
+
+  const [{ userCount }] = await db
+    .select({ userCount: sql<number>`count(*)::int` })
+    .from(userServices)
+    .where(eq(userServices.serviceId, id));
+
+  const [deleted] = await db
+    .delete(services)
+    .where(eq(services.id, id))
+    .returning({ id: services.id, slug: services.slug, name: services.name });
+
+  if (!deleted) {
+    throw new HTTPException(404, { message: 'Service not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'service.deleted',
+    targetType: 'service',
+    targetId: id,
+    targetLabel: deleted.slug,
+    metadata: { name: deleted.name, removedAssignments: userCount },
+  });
+  return c.json({ success: true });
+});
+
+// The service's row and the settings its manifest declares
+async function serviceWithSettings(id: string) {
+  const [service] = await db.select({ id: services.id, slug: services.slug }).from(services).where(eq(services.id, id)).limit(1);
+  if (!service) {
+    throw new HTTPException(404, { message: 'Service not found' });
+  }
+  const definitions = findManifest(service.slug)?.settings;
+  if (!definitions) {
+    throw new HTTPException(404, { message: 'This service has no settings' });
+  }
+  return { service, definitions };
+}
+
+// GET /services/:id/settings — each setting with its current value and default
+adminRoutes.get('/services/:id/settings', async (c) => {
+  const { service, definitions } = await serviceWithSettings(c.req.param('id'));
+  return c.json({ settings: await describeServiceSettings(db, service.id, definitions) });
+});
+
+const serviceSettingsSchema = z.object({
+  // null resets a setting to its default
+  values: z.record(z.union([z.string(), z.number(), z.null()])),
+});
+
+// PUT /services/:id/settings — change some settings; the others keep their values
+adminRoutes.put('/services/:id/settings', async (c) => {
+  const { service, definitions } = await serviceWithSettings(c.req.param('id'));
+  const { values } = serviceSettingsSchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+
+  const changed = await updateServiceSettings(db, service.id, definitions, values, payload.sub);
+  if (changed.length > 0) {
+    await recordAuditEvent(c, {
+      action: 'service.settings_changed',
+      targetType: 'service',
+      targetId: service.id,
+      targetLabel: service.slug,
+      metadata: { keys: changed },
+    });
+  }
+  return c.json({ settings: await describeServiceSettings(db, service.id, definitions), changed });
 });
 
 // ===================== USER SERVICE ACCESS =====================
 
-// POST /users/:userId/services/:serviceId — grant service access
+// Role on the service for a new grant (see service-roles.ts); analysts can do everything
+const grantRoleSchema = z.object({
+  role: z.enum(SERVICE_ROLES).default('analyst'),
+});
+
+const serviceRoleSchema = z.object({
+  role: z.enum(SERVICE_ROLES),
+});
+
+// Optional access window for a direct grant; either end may be left open
+const grantWindowSchema = z.object({
+  startsAt: z.coerce.date().nullable().optional(),
+  expiresAt: z.coerce.date().nullable().optional(),
+}).refine((body) => !body.startsAt || !body.expiresAt || body.startsAt < body.expiresAt, {
+  message: 'Access must start before it expires',
+  path: ['expiresAt'],
+}).refine((body) => !body.expiresAt || body.expiresAt > new Date(), {
+  message: 'Expiry must be in the future',
+  path: ['expiresAt'],
+});
+
+// POST /users/:userId/services/:serviceId — grant service access with a role, optionally time-boxed
 adminRoutes.post('/users/:userId/services/:serviceId', async (c) => {
   const userId = c.req.param('userId');
   const serviceId = c.req.param('serviceId');
   const payload = c.get('jwtPayload');
+  const body = await c.req.json().catch(() => ({}));
+  const window = grantWindowSchema.parse(body);
+  const { role } = grantRoleSchema.parse(body);
 
   // Check user exists
-  const [user] = await db.select({ id: users.id }).from(users).where(eq(users.id, userId)).limit(1);
+  const [user] = await db.select({ id: users.id, email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
   if (!user) throw new HTTPException(404, { message: 'User not found' });
 
   // Check service exists
-  const [service] = await db.select({ id: services.id }).from(services).where(eq(services.id, serviceId)).limit(1);
+  const [service] = await db.select({ id: services.id, slug: services.slug }).from(services).where(eq(services.id, serviceId)).limit(1);
   if (!service) throw new HTTPException(404, { message: 'Service not found' });
 
   // Check not already assigned
@@ -232,24 +980,911 @@ adminRoutes.post('/users/:userId/services/:serviceId', async (c) => {
     userId,
     serviceId,
     grantedBy: payload.sub,
+    role,
+    startsAt: window.startsAt ?? null,
+    expiresAt: window.expiresAt ?? null,
   });
 
+  await recordAuditEvent(c, {
+    action: 'service.granted',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: user.email,
+    metadata: { serviceId, service: service.slug, role, startsAt: window.startsAt ?? null, expiresAt: window.expiresAt ?? null },
+  });
   return c.json({ success: true }, 201);
 });
 
-// DELETE /users/:userId/services/:serviceId — revoke service access
-adminRoutes.delete('/users/:userId/services/:serviceId', async (c) => {
+// PUT /users/:userId/services/:serviceId/window — replace a grant's access window;
+// an omitted end is left open, so {} makes the grant permanent
+adminRoutes.put('/users/:userId/services/:serviceId/window', async (c) => {
   const userId = c.req.param('userId');
   const serviceId = c.req.param('serviceId');
+  const window = grantWindowSchema.parse(await c.req.json());
 
-  const [deleted] = await db
-    .delete(userServices)
+  const [updated] = await db
+    .update(userServices)
+    .set({ startsAt: window.startsAt ?? null, expiresAt: window.expiresAt ?? null })
     .where(and(eq(userServices.userId, userId), eq(userServices.serviceId, serviceId)))
-    .returning({ id: userServices.id });
+    .returning({ startsAt: userServices.startsAt, expiresAt: userServices.expiresAt });
 
-  if (!deleted) {
+  if (!updated) {
     throw new HTTPException(404, { message: 'Service assignment not found' });
   }
 
-  return c.json({ success: true });
+  const [assignment] = await db
+    .select({ email: users.email, slug: services.slug })
+    .from(users)
+    .innerJoin(services, eq(services.id, serviceId))
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  await recordAuditEvent(c, {
+    action: 'service.grant_updated',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: assignment?.email ?? null,
+    metadata: { serviceId, service: assignment?.slug ?? null, ...updated },
+  });
+  return c.json({ grant: updated });
+});
+
+// PUT /users/:userId/services/:serviceId/role — change the role a direct grant gives
+adminRoutes.put('/users/:userId/services/:serviceId/role', async (c) => {
+  const userId = c.req.param('userId');
+  const serviceId = c.req.param('serviceId');
+  const { role } = serviceRoleSchema.parse(await c.req.json());
+
+  const [assignment] = await db
+    .select({ id: userServices.id, role: userServices.role, email: users.email, slug: services.slug })
+    .from(userServices)
+    .innerJoin(users, eq(userServices.userId, users.id))
+    .innerJoin(services, eq(userServices.serviceId, services.id))
+    .where(and(eq(userServices.userId, userId), eq(userServices.serviceId, serviceId)))
+    .limit(1);
+
+  if (!assignment) {
+    throw new HTTPException(404, { message: 'Service assignment not found' });
+  }
+
+  await db.update(userServices).set({ role }).where(eq(userServices.id, assignment.id));
+
+  await recordAuditEvent(c, {
+    action: 'service.role_changed',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: assignment.email,
+    metadata: { serviceId, service: assignment.slug, from: assignment.role, to: role },
+  });
+  return c.json({ success: true });
+});
+
+// DELETE /users/:userId/services/:serviceId — revoke service access
+adminRoutes.delete('/users/:userId/services/:serviceId', async (c) => {
+  const userId = c.req.param('userId');
+  const serviceId = c.req.param('serviceId');
+
+  const [assignment] = await db
+    .select({ id: userServices.id, email: users.email, slug: services.slug })
+    .from(userServices)
+    .innerJoin(users, eq(userServices.userId, users.id))
+    .innerJoin(services, eq(userServices.serviceId, services.id))
+    .where(and(eq(userServices.userId, userId), eq(userServices.serviceId, serviceId)))
+    .limit(1);
+
+  if (!assignment) {
+    throw new HTTPException(404, { message: 'Service assignment not found' });
+  }
+
+  await db.delete(userServices).where(eq(userServices.id, assignment.id));
+
+  await recordAuditEvent(c, {
+    action: 'service.revoked',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: assignment.email,
+    metadata: { serviceId, service: assignment.slug },
+  });
+  return c.json({ success: true });
+});
+
+// ===================== ORGANIZATIONS =====================
+
+// GET /organizations — list organizations with their members and services
+adminRoutes.get('/organizations', async (c) => {
+  const orgs = await db.select().from(organizations).orderBy(organizations.name);
+
+  const memberRows = await db
+    .select({
+      organizationId: organizationMembers.organizationId,
+      userId: users.id,
+      email: users.email,
+      role: organizationMembers.role,
+      joinedAt: organizationMembers.createdAt,
+    })
+    .from(organizationMembers)
+    .innerJoin(users, eq(organizationMembers.userId, users.id))
+    .orderBy(users.email);
+
+  const serviceRows = await db
+    .select({
+      organizationId: organizationServices.organizationId,
+      id: services.id,
+      slug: services.slug,
+      name: services.name,
+      enabled: services.enabled,
+      role: organizationServices.role,
+    })
+    .from(organizationServices)
+    .innerJoin(services, eq(organizationServices.serviceId, services.id))
+    .orderBy(services.name);
+
+  return c.json({
+    organizations: orgs.map((org) => ({
+      ...org,
+      members: memberRows.filter((m) => m.organizationId === org.id).map(({ organizationId: _, ...m }) => m),
+      services: serviceRows.filter((s) => s.organizationId === org.id).map(({ organizationId: _, ...s }) => s),
+    })),
+  });
+});
+
+const organizationSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Slug may only contain lowercase letters, digits and dashes').max(100),
+  name: z.string().trim().min(1, 'Name is required').max(255),
+});
+
+// POST /organizations — create an organization
+adminRoutes.post('/organizations', async (c) => {
+  const body = organizationSchema.parse(await c.req.json());
+
+  const [organization] = await db
+    .insert(organizations)
+    .values(body)
+    .onConflictDoNothing({ target: organizations.slug })
+    .returning();
+
+  if (!organization) {
+    throw new HTTPException(409, { message: 'An organization with this slug already exists' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.created',
+    targetType: 'organization',
+    targetId: organization.id,
+    targetLabel: organization.slug,
+    metadata: { name: organization.name },
+  });
+  return c.json({ organization }, 201);
+});
+
+// PATCH /organizations/:id — rename an organization
+adminRoutes.patch('/organizations/:id', async (c) => {
+  const id = c.req.param('id');
+  const body = organizationSchema.pick({ name: true }).parse(await c.req.json());
+
+  const [organization] = await db
+    .update(organizations)
+    .set({ name: body.name })
+    .where(eq(organizations.id, id))
+    .returning();
+
+  if (!organization) {
+    throw new HTTPException(404, { message: 'Organization not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.updated',
+    targetType: 'organization',
+    targetId: id,
+    targetLabel: organization.slug,
+    metadata: { name: organization.name },
+  });
+  return c.json({ organization });
+});
+
+// DELETE /organizations/:id — delete an organization. Members keep their accounts
+// and direct grants but lose the organization's services; its invite codes go too.
+adminRoutes.delete('/organizations/:id', async (c) => {
+  const id = c.req.param('id');
+
+  const [{ memberCount }] = await db
+    .select({ memberCount: sql<number>`count(*)::int` })
+    .from(organizationMembers)
+    .where(eq(organizationMembers.organizationId, id));
+
+  const [deleted] = await db
+    .delete(organizations)
+    .where(eq(organizations.id, id))
+    .returning({ id: organizations.id, slug: organizations.slug, name: organizations.name });
+
+  if (!deleted) {
+    throw new HTTPException(404, { message: 'Organization not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.deleted',
+    targetType: 'organization',
+    targetId: id,
+    targetLabel: deleted.slug,
+    metadata: { name: deleted.name, removedMembers: memberCount },
+  });
+  return c.json({ success: true });
+});
+
+// PUT /organizations/:id/members/:userId — add an existing user, or change their org role
+const memberSchema = z.object({
+  role: z.enum(['admin', 'member']).default('member'),
+});
+
+adminRoutes.put('/organizations/:id/members/:userId', async (c) => {
+  const organizationId = c.req.param('id');
+  const userId = c.req.param('userId');
+  const body = memberSchema.parse(await c.req.json().catch(() => ({})));
+
+  const [organization] = await db
+    .select({ id: organizations.id, slug: organizations.slug })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+  if (!organization) throw new HTTPException(404, { message: 'Organization not found' });
+
+  const [user] = await db.select({ id: users.id, email: users.email }).from(users).where(eq(users.id, userId)).limit(1);
+  if (!user) throw new HTTPException(404, { message: 'User not found' });
+
+  await db
+    .insert(organizationMembers)
+    .values({ organizationId, userId, role: body.role })
+    .onConflictDoUpdate({
+      target: [organizationMembers.organizationId, organizationMembers.userId],
+      set: { role: body.role },
+    });
+
+  await recordAuditEvent(c, {
+    action: 'organization.member_added',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: user.email,
+    metadata: { organizationId, organization: organization.slug, role: body.role },
+  });
+  return c.json({ success: true });
+});
+
+// DELETE /organizations/:id/members/:userId — remove a user from an organization
+adminRoutes.delete('/organizations/:id/members/:userId', async (c) => {
+  const organizationId = c.req.param('id');
+  const userId = c.req.param('userId');
+
+  const email = await removeMember(organizationId, userId);
+  if (!email) {
+    throw new HTTPException(404, { message: 'Membership not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.member_removed',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: email,
+    metadata: { organizationId },
+  });
+  return c.json({ success: true });
+});
+
+// POST /organizations/:id/services/:serviceId — grant a service, with a role, to every member
+adminRoutes.post('/organizations/:id/services/:serviceId', async (c) => {
+  const organizationId = c.req.param('id');
+  const serviceId = c.req.param('serviceId');
+  const payload = c.get('jwtPayload');
+  const { role } = grantRoleSchema.parse(await c.req.json().catch(() => ({})));
+
+  const [organization] = await db
+    .select({ id: organizations.id, slug: organizations.slug })
+    .from(organizations)
+    .where(eq(organizations.id, organizationId))
+    .limit(1);
+  if (!organization) throw new HTTPException(404, { message: 'Organization not found' });
+
+  const [service] = await db.select({ id: services.id, slug: services.slug }).from(services).where(eq(services.id, serviceId)).limit(1);
+  if (!service) throw new HTTPException(404, { message: 'Service not found' });
+
+  const [granted] = await db
+    .insert(organizationServices)
+    .values({ organizationId, serviceId, grantedBy: payload.sub, role })
+    .onConflictDoNothing()
+    .returning({ id: organizationServices.id });
+
+  if (!granted) {
+    return c.json({ message: 'Service already assigned' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.service_granted',
+    targetType: 'organization',
+    targetId: organizationId,
+    targetLabel: organization.slug,
+    metadata: { serviceId, service: service.slug, role },
+  });
+  return c.json({ success: true }, 201);
+});
+
+// PUT /organizations/:id/services/:serviceId/role — change the role members get on the service
+adminRoutes.put('/organizations/:id/services/:serviceId/role', async (c) => {
+  const organizationId = c.req.param('id');
+  const serviceId = c.req.param('serviceId');
+  const { role } = serviceRoleSchema.parse(await c.req.json());
+
+  const [grant] = await db
+    .select({ id: organizationServices.id, role: organizationServices.role, organization: organizations.slug, service: services.slug })
+    .from(organizationServices)
+    .innerJoin(organizations, eq(organizationServices.organizationId, organizations.id))
+    .innerJoin(services, eq(organizationServices.serviceId, services.id))
+    .where(and(eq(organizationServices.organizationId, organizationId), eq(organizationServices.serviceId, serviceId)))
+    .limit(1);
+
+  if (!grant) {
+    throw new HTTPException(404, { message: 'Service assignment not found' });
+  }
+
+  await db.update(organizationServices).set({ role }).where(eq(organizationServices.id, grant.id));
+
+  await recordAuditEvent(c, {
+    action: 'organization.service_role_changed',
+    targetType: 'organization',
+    targetId: organizationId,
+    targetLabel: grant.organization,
+    metadata: { serviceId, service: grant.service, from: grant.role, to: role },
+  });
+  return c.json({ success: true });
+});
+
+// DELETE /organizations/:id/services/:serviceId — revoke a service from the organization
+adminRoutes.delete('/organizations/:id/services/:serviceId', async (c) => {
+  const organizationId = c.req.param('id');
+  const serviceId = c.req.param('serviceId');
+
+  const [grant] = await db
+    .select({ id: organizationServices.id, organization: organizations.slug, service: services.slug })
+    .from(organizationServices)
+    .innerJoin(organizations, eq(organizationServices.organizationId, organizations.id))
+    .innerJoin(services, eq(organizationServices.serviceId, services.id))
+    .where(and(eq(organizationServices.organizationId, organizationId), eq(organizationServices.serviceId, serviceId)))
+    .limit(1);
+
+  if (!grant) {
+    throw new HTTPException(404, { message: 'Service assignment not found' });
+  }
+
+  await db.delete(organizationServices).where(eq(organizationServices.id, grant.id));
+
+  await recordAuditEvent(c, {
+    action: 'organization.service_revoked',
+    targetType: 'organization',
+    targetId: organizationId,
+    targetLabel: grant.organization,
+    metadata: { serviceId, service: grant.service },
+  });
+  return c.json({ success: true });
+});
+
+// ===================== GROUPS =====================
+
+// GET /groups — list groups with their members and services
+adminRoutes.get('/groups', async (c) => {
+  const groups = await db.select().from(userGroups).orderBy(userGroups.name);
+
+  const memberRows = await db
+    .select({
+      groupId: userGroupMembers.groupId,
+      userId: users.id,
+      email: users.email,
+      addedAt: userGroupMembers.createdAt,
+    })
+    .from(userGroupMembers)
+    .innerJoin(users, eq(userGroupMembers.userId, users.id))
+    .orderBy(users.email);
+
+  const serviceRows = await db
+    .select({
+      groupId: userGroupServices.groupId,
+      id: services.id,
+      slug: services.slug,
+      name: services.name,
+      enabled: services.enabled,
+      role: userGroupServices.role,
+    })
+    .from(userGroupServices)
+    .innerJoin(services, eq(userGroupServices.serviceId, services.id))
+    .orderBy(services.name);
+
+  return c.json({
+    groups: groups.map((group) => ({
+      ...group,
+      members: memberRows.filter((m) => m.groupId === group.id).map(({ groupId: _, ...m }) => m),
+      services: serviceRows.filter((s) => s.groupId === group.id).map(({ groupId: _, ...s }) => s),
+    })),
+  });
+});
+
+const groupSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().trim().max(2000).nullable().optional(),
+});
+
+// POST /groups — create a group
+adminRoutes.post('/groups', async (c) => {
+  const body = groupSchema.parse(await c.req.json());
+
+  const [group] = await db
+    .insert(userGroups)
+    .values({ name: body.name, description: body.description || null })
+    .onConflictDoNothing({ target: userGroups.name })
+    .returning();
+
+  if (!group) {
+    throw new HTTPException(409, { message: 'A group with this name already exists' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'group.created',
+    targetType: 'group',
+    targetId: group.id,
+    targetLabel: group.name,
+  });
+  return c.json({ group }, 201);
+});
+
+// PATCH /groups/:id — rename a group or edit its description
+adminRoutes.patch('/groups/:id', async (c) => {
+  const id = c.req.param('id');
+  const body = groupSchema.partial().parse(await c.req.json());
+
+  const changes = {
+    ...body,
+    ...(body.description !== undefined && { description: body.description || null }),
+  };
+  if (Object.keys(changes).length === 0) {
+    throw new HTTPException(400, { message: 'Nothing to update' });
+  }
+
+  if (body.name) {
+    const [clash] = await db
+      .select({ id: userGroups.id })
+      .from(userGroups)
+      .where(and(eq(userGroups.name, body.name), ne(userGroups.id, id)))
+      .limit(1);
+    if (clash) throw new HTTPException(409, { message: 'A group with this name already exists' });
+  }
+
+  const [group] = await db.update(userGroups).set(changes).where(eq(userGroups.id, id)).returning();
+
+  if (!group) {
+    throw new HTTPException(404, { message: 'Group not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'group.updated',
+    targetType: 'group',
+    targetId: id,
+    targetLabel: group.name,
+    metadata: { changes },
+  });
+  return c.json({ group });
+});
+
+// DELETE /groups/:id — delete a group; members lose the access it gave them
+adminRoutes.delete('/groups/:id', async (c) => {
+  const id = c.req.param('id');
+
+  const [{ memberCount }] = await db
+    .select({ memberCount: sql<number>`count(*)::int` })
+    .from(userGroupMembers)
+    .where(eq(userGroupMembers.groupId, id));
+
+  const [deleted] = await db
+    .delete(userGroups)
+    .where(eq(userGroups.id, id))
+    .returning({ id: userGroups.id, name: userGroups.name });
+
+  if (!deleted) {
+    throw new HTTPException(404, { message: 'Group not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'group.deleted',
+    targetType: 'group',
+    targetId: id,
+    targetLabel: deleted.name,
+    metadata: { removedMembers: memberCount },
+  });
+  return c.json({ success: true });
+});
+
+// POST /groups/:id/members — add users by email (a whole team at once)
+const groupMembersSchema = z.object({
+  emails: z.array(z.string().trim().email()).min(1).max(500),
+});
+
+adminRoutes.post('/groups/:id/members', async (c) => {
+  const groupId = c.req.param('id');
+  const body = groupMembersSchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+
+  const [group] = await db.select({ id: userGroups.id, name: userGroups.name }).from(userGroups).where(eq(userGroups.id, groupId)).limit(1);
+  if (!group) throw new HTTPException(404, { message: 'Group not found' });
+
+  const emails = [...new Set(body.emails.map((e) => e.toLowerCase()))];
+  const found = await db
+    .select({ id: users.id, email: users.email })
+    .from(users)
+    .where(inArray(sql`lower(${users.email})`, emails));
+
+  const added = found.length > 0
+    ? await db
+        .insert(userGroupMembers)
+        .values(found.map((u) => ({ groupId, userId: u.id, addedBy: payload.sub })))
+        .onConflictDoNothing()
+        .returning({ userId: userGroupMembers.userId })
+    : [];
+
+  const addedIds = new Set(added.map((a) => a.userId));
+  const foundEmails = new Set(found.map((u) => u.email.toLowerCase()));
+
+  for (const user of found.filter((u) => addedIds.has(u.id))) {
+    await recordAuditEvent(c, {
+      action: 'group.member_added',
+      targetType: 'user',
+      targetId: user.id,
+      targetLabel: user.email,
+      metadata: { groupId, group: group.name },
+    });
+  }
+
+  return c.json({
+    added: found.filter((u) => addedIds.has(u.id)).map((u) => u.email),
+    alreadyMembers: found.filter((u) => !addedIds.has(u.id)).map((u) => u.email),
+    notFound: emails.filter((e) => !foundEmails.has(e)),
+  });
+});
+
+// DELETE /groups/:id/members/:userId — remove a user from a group
+adminRoutes.delete('/groups/:id/members/:userId', async (c) => {
+  const groupId = c.req.param('id');
+  const userId = c.req.param('userId');
+
+  const [membership] = await db
+    .select({ id: userGroupMembers.id, email: users.email, group: userGroups.name })
+    .from(userGroupMembers)
+    .innerJoin(users, eq(userGroupMembers.userId, users.id))
+    .innerJoin(userGroups, eq(userGroupMembers.groupId, userGroups.id))
+    .where(and(eq(userGroupMembers.groupId, groupId), eq(userGroupMembers.userId, userId)))
+    .limit(1);
+
+  if (!membership) {
+    throw new HTTPException(404, { message: 'Group membership not found' });
+  }
+
+  await db.delete(userGroupMembers).where(eq(userGroupMembers.id, membership.id));
+
+  await recordAuditEvent(c, {
+    action: 'group.member_removed',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: membership.email,
+    metadata: { groupId, group: membership.group },
+  });
+  return c.json({ success: true });
+});
+
+// POST /groups/:id/services/:serviceId — grant a service, with a role, to every member of the group
+adminRoutes.post('/groups/:id/services/:serviceId', async (c) => {
+  const groupId = c.req.param('id');
+  const serviceId = c.req.param('serviceId');
+  const payload = c.get('jwtPayload');
+  const { role } = grantRoleSchema.parse(await c.req.json().catch(() => ({})));
+
+  const [group] = await db.select({ id: userGroups.id, name: userGroups.name }).from(userGroups).where(eq(userGroups.id, groupId)).limit(1);
+  if (!group) throw new HTTPException(404, { message: 'Group not found' });
+
+  const [service] = await db.select({ id: services.id, slug: services.slug }).from(services).where(eq(services.id, serviceId)).limit(1);
+  if (!service) throw new HTTPException(404, { message: 'Service not found' });
+
+  const [granted] = await db
+    .insert(userGroupServices)
+    .values({ groupId, serviceId, grantedBy: payload.sub, role })
+    .onConflictDoNothing()
+    .returning({ id: userGroupServices.id });
+
+  if (!granted) {
+    return c.json({ message: 'Service already assigned' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'group.service_granted',
+    targetType: 'group',
+    targetId: groupId,
+    targetLabel: group.name,
+    metadata: { serviceId, service: service.slug, role },
+  });
+  return c.json({ success: true }, 201);
+});
+
+// PUT /groups/:id/services/:serviceId/role — change the role members get on the service
+adminRoutes.put('/groups/:id/services/:serviceId/role', async (c) => {
+  const groupId = c.req.param('id');
+  const serviceId = c.req.param('serviceId');
+  const { role } = serviceRoleSchema.parse(await c.req.json());
+
+  const [grant] = await db
+    .select({ id: userGroupServices.id, role: userGroupServices.role, group: userGroups.name, service: services.slug })
+    .from(userGroupServices)
+    .innerJoin(userGroups, eq(userGroupServices.groupId, userGroups.id))
+    .innerJoin(services, eq(userGroupServices.serviceId, services.id))
+    .where(and(eq(userGroupServices.groupId, groupId), eq(userGroupServices.serviceId, serviceId)))
+    .limit(1);
+
+  if (!grant) {
+    throw new HTTPException(404, { message: 'Service assignment not found' });
+  }
+
+  await db.update(userGroupServices).set({ role }).where(eq(userGroupServices.id, grant.id));
+
+  await recordAuditEvent(c, {
+    action: 'group.service_role_changed',
+    targetType: 'group',
+    targetId: groupId,
+    targetLabel: grant.group,
+    metadata: { serviceId, service: grant.service, from: grant.role, to: role },
+  });
+  return c.json({ success: true });
+});
+
+// DELETE /groups/:id/services/:serviceId — revoke a service from the group
+adminRoutes.delete('/groups/:id/services/:serviceId', async (c) => {
+  const groupId = c.req.param('id');
+  const serviceId = c.req.param('serviceId');
+
+  const [grant] = await db
+    .select({ id: userGroupServices.id, group: userGroups.name, service: services.slug })
+    .from(userGroupServices)
+    .innerJoin(userGroups, eq(userGroupServices.groupId, userGroups.id))
+    .innerJoin(services, eq(userGroupServices.serviceId, services.id))
+    .where(and(eq(userGroupServices.groupId, groupId), eq(userGroupServices.serviceId, serviceId)))
+    .limit(1);
+
+  if (!grant) {
+    throw new HTTPException(404, { message: 'Service assignment not found' });
+  }
+
+  await db.delete(userGroupServices).where(eq(userGroupServices.id, grant.id));
+
+  await recordAuditEvent(c, {
+    action: 'group.service_revoked',
+    targetType: 'group',
+    targetId: groupId,
+    targetLabel: grant.group,
+    metadata: { serviceId, service: grant.service },
+  });
+  return c.json({ success: true });
+});
+
+// ===================== SSO CONNECTIONS =====================
+
+// Client secrets are write-only; never send them back to the browser
+const ssoConnectionColumns = {
+  id: ssoConnections.id,
+  slug: ssoConnections.slug,
+  name: ssoConnections.name,
+  issuer: ssoConnections.issuer,
+  clientId: ssoConnections.clientId,
+  domains: ssoConnections.domains,
+  enabled: ssoConnections.enabled,
+  createdAt: ssoConnections.createdAt,
+};
+
+const domainSchema = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, 'Invalid domain');
+
+const ssoConnectionSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Slug may only contain lowercase letters, digits and dashes').max(100),
+  name: z.string().min(1).max(255),
+  issuer: z.string().url(),
+  clientId: z.string().min(1).max(255),
+  clientSecret: z.string().min(1),
+  domains: z.array(domainSchema).default([]),
+  enabled: z.boolean().default(true),
+});
+
+// GET /sso/connections — list configured identity providers
+adminRoutes.get('/sso/connections', async (c) => {
+  const connections = await db
+    .select(ssoConnectionColumns)
+    .from(ssoConnections)
+    .orderBy(ssoConnections.name);
+
+  return c.json({ connections });
+});
+
+// POST /sso/connections — register an OIDC identity provider
+adminRoutes.post('/sso/connections', async (c) => {
+  const body = ssoConnectionSchema.parse(await c.req.json());
+
+  const [existing] = await db
+    .select({ id: ssoConnections.id })
+    .from(ssoConnections)
+    .where(eq(ssoConnections.slug, body.slug))
+    .limit(1);
+
+  if (existing) {
+    throw new HTTPException(409, { message: 'A connection with this slug already exists' });
+  }
+
+  const [connection] = await db
+    .insert(ssoConnections)
+    .values(body)
+    .returning(ssoConnectionColumns);
+
+  await recordAuditEvent(c, {
+    action: 'sso.connection_created',
+    targetType: 'sso_connection',
+    targetId: connection.id,
+    targetLabel: connection.slug,
+    metadata: { issuer: connection.issuer, domains: connection.domains, enabled: connection.enabled },
+  });
+  return c.json({ connection }, 201);
+});
+
+// PATCH /sso/connections/:id — update a connection (omit clientSecret to keep the current one)
+adminRoutes.patch('/sso/connections/:id', async (c) => {
+  const id = c.req.param('id');
+  const body = ssoConnectionSchema.omit({ slug: true }).partial().parse(await c.req.json());
+
+  const [connection] = await db
+    .update(ssoConnections)
+    .set(body)
+    .where(eq(ssoConnections.id, id))
+    .returning(ssoConnectionColumns);
+
+  if (!connection) {
+    throw new HTTPException(404, { message: 'SSO connection not found' });
+  }
+
+  // Record which fields changed, never the secret itself
+  await recordAuditEvent(c, {
+    action: 'sso.connection_updated',
+    targetType: 'sso_connection',
+    targetId: id,
+    targetLabel: connection.slug,
+    metadata: { fields: Object.keys(body), domains: connection.domains, enabled: connection.enabled },
+  });
+  return c.json({ connection });
+});
+
+// DELETE /sso/connections/:id — remove a connection (linked identities go with it)
+adminRoutes.delete('/sso/connections/:id', async (c) => {
+  const id = c.req.param('id');
+
+  const [deleted] = await db
+    .delete(ssoConnections)
+    .where(eq(ssoConnections.id, id))
+    .returning({ id: ssoConnections.id, slug: ssoConnections.slug });
+
+  if (!deleted) {
+    throw new HTTPException(404, { message: 'SSO connection not found' });
+  }
+
+  await recordAuditEvent(c, { action: 'sso.connection_deleted', targetType: 'sso_connection', targetId: id, targetLabel: deleted.slug });
+  return c.json({ success: true });
+});
+
+// ===================== SSO DOMAIN RULES =====================
+
+const ssoDomainRuleSchema = z.object({
+  domain: domainSchema,
+  serviceId: z.string().uuid(),
+});
+
+// GET /sso/domain-rules — services auto-granted to SSO users by email domain
+adminRoutes.get('/sso/domain-rules', async (c) => {
+  const rules = await db
+    .select({
+      id: ssoDomainRules.id,
+      domain: ssoDomainRules.domain,
+      serviceId: services.id,
+      serviceName: services.name,
+      createdAt: ssoDomainRules.createdAt,
+    })
+    .from(ssoDomainRules)
+    .innerJoin(services, eq(ssoDomainRules.serviceId, services.id))
+    .orderBy(ssoDomainRules.domain, services.name);
+
+  return c.json({ rules });
+});
+
+// POST /sso/domain-rules — auto-grant a service to everyone signing in via SSO from a domain
+adminRoutes.post('/sso/domain-rules', async (c) => {
+  const body = ssoDomainRuleSchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+
+  const [service] = await db.select({ id: services.id, slug: services.slug }).from(services).where(eq(services.id, body.serviceId)).limit(1);
+  if (!service) throw new HTTPException(404, { message: 'Service not found' });
+
+  const [rule] = await db
+    .insert(ssoDomainRules)
+    .values({ domain: body.domain, serviceId: body.serviceId, createdBy: payload.sub })
+    .onConflictDoNothing()
+    .returning({ id: ssoDomainRules.id });
+
+  if (!rule) {
+    throw new HTTPException(409, { message: 'This domain already grants that service' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'sso.domain_rule_created',
+    targetType: 'sso_domain_rule',
+    targetId: rule.id,
+    targetLabel: body.domain,
+    metadata: { serviceId: body.serviceId, service: service.slug },
+  });
+  return c.json({ rule }, 201);
+});
+
+// DELETE /sso/domain-rules/:id — stop auto-granting (existing assignments are kept)
+adminRoutes.delete('/sso/domain-rules/:id', async (c) => {
+  const id = c.req.param('id');
+
+  const [deleted] = await db
+    .delete(ssoDomainRules)
+    .where(eq(ssoDomainRules.id, id))
+    .returning({ id: ssoDomainRules.id, domain: ssoDomainRules.domain, serviceId: ssoDomainRules.serviceId });
+
+  if (!deleted) {
+    throw new HTTPException(404, { message: 'Domain rule not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'sso.domain_rule_deleted',
+    targetType: 'sso_domain_rule',
+    targetId: id,
+    targetLabel: deleted.domain,
+    metadata: { serviceId: deleted.serviceId },
+  });
+  return c.json({ success: true });
+});
+
+// ===================== AUDIT LOG =====================
+
+const auditQuerySchema = z.object({
+  action: z.string().max(100).optional(),
+  actor: z.string().max(255).optional(),
+  target: z.string().max(255).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const auditPageSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const AUDIT_EXPORT_LIMIT = 10000;
+
+// GET /audit — filterable, paginated audit events, newest first
+adminRoutes.get('/audit', async (c) => {
+  const filters = auditQuerySchema.parse(c.req.query());
+  const { page, pageSize } = auditPageSchema.parse(c.req.query());
+
+  const { events, total } = await listAuditEvents(filters, { limit: pageSize, offset: (page - 1) * pageSize });
+  return c.json({ events, total, page, pageSize, actions: await listAuditActions() });
+});
+
+// GET /audit/export — the same filters as CSV (capped at AUDIT_EXPORT_LIMIT rows)
+adminRoutes.get('/audit/export', async (c) => {
+  const filters = auditQuerySchema.parse(c.req.query());
+  const { events } = await listAuditEvents(filters, { limit: AUDIT_EXPORT_LIMIT, offset: 0 });
+
+  c.header('Content-Type', 'text/csv; charset=utf-8');
+  c.header('Content-Disposition', `attachment; filename="audit-${new Date().toISOString().slice(0, 10)}.csv"`);
+  return c.body(auditEventsToCsv(events));
 });
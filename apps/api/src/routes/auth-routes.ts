@@ -1,13 +1,46 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { z } from 'zod';
-import { sign } from 'hono/jwt';
-import { setCookie, deleteCookie } from 'hono/cookie';
-import { eq, and, isNull } from 'drizzle-orm';
+import { eq, and, isNull, gt, lt, sql } from 'drizzle-orm';
 import bcrypt from 'bcryptjs';
 import { HTTPException } from 'hono/http-exception';
+import QRCode from 'qrcode';
 import { db } from '../db.js';
-import { users, inviteCodes } from '../schema.js';
+import { users, inviteCodes, inviteCodeServices, userServices, organizationMembers, userGroupMembers, passwordResetTokens } from '../schema.js';
 import { env } from '../env.js';
+import { sendMail } from '../mail.js';
+import { generateToken, hashToken } from '../tokens.js';
+import {
+  startSession,
+  refreshSession,
+  endSession,
+  listActiveSessions,
+  revokeSession,
+  revokeUserSessions,
+  clearSessionCookies,
+} from '../sessions.js';
+import { generateTotpSecret, buildOtpauthUrl, verifyTotp } from '../totp.js';
+import {
+  signTwoFactorChallenge,
+  verifyTwoFactorChallenge,
+  verifySecondFactor,
+  consumeTotp,
+  createRecoveryCodes,
+  countUnusedRecoveryCodes,
+  clearTwoFactor,
+} from '../two-factor.js';
+import {
+  checkLoginThrottle,
+  recordLoginFailure,
+  forgetLoginAttempt,
+  clearLoginFailures,
+  type ThrottleState,
+} from '../login-throttle.js';
+import { recordAuditEvent } from '../audit.js';
+import { listMemberships } from '../organizations.js';
+import { assertNotSuspended } from '../suspensions.js';
+import { endImpersonation } from '../impersonation.js';
+import { accessibleServiceSlugs, createApiToken, listApiTokens, revokeApiToken } from '../api-tokens.js';
+import { findConnection, findConnectionForEmail, beginSsoLogin, completeSsoLogin, resolveSsoUser } from '../sso.js';
 
 const registerSchema = z.object({
   email: z.string().email(),
@@ -20,26 +53,34 @@ const loginSchema = z.object({
   password: z.string().min(1),
 });
 
-export const authRoutes = new Hono();
+const twoFactorLoginSchema = z.object({
+  challengeToken: z.string().min(1),
+  code: z.string().min(1, 'Authentication code is required'),
+});
 
-async function setAuthCookie(c: any, userId: string, email: string, role: string) {
-  const now = Math.floor(Date.now() / 1000);
-  const payload = {
-    sub: userId,
-    email,
-    role,
-    iat: now,
-    exp: now + 60 * 60 * 24 * 7, // 7 days
-  };
-  const token = await sign(payload, env.JWT_SECRET, 'HS256');
-  setCookie(c, 'auth_token', token, {
-    httpOnly: true,
-    secure: process.env.NODE_ENV === 'production',
-    sameSite: 'Lax',
-    path: '/',
-    maxAge: 60 * 60 * 24 * 7,
-  });
-}
+const twoFactorCodeSchema = z.object({
+  code: z.string().min(1, 'Authentication code is required'),
+});
+
+const twoFactorDisableSchema = z.object({
+  password: z.string().min(1),
+  code: z.string().min(1, 'Authentication code is required'),
+});
+
+const forgotPasswordSchema = z.object({
+  email: z.string().email(),
+});
+
+const resetPasswordSchema = z.object({
+  token: z.string().min(1, 'Reset token is required'),
+  password: z.string().min(8, 'Password must be at least 8 characters'),
+});
+
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+// At most one reset email per account in this window, so the endpoint can't be used to flood an inbox
+const RESET_REQUEST_COOLDOWN_MS = 60 * 1000;
+
+export const authRoutes = new Hono();
 
 authRoutes.post('/register', async (c) => {
   const body = registerSchema.parse(await c.req.json());
@@ -48,10 +89,10 @@ authRoutes.post('/register', async (c) => {
   const [invite] = await db
     .select()
     .from(inviteCodes)
-    .where(and(eq(inviteCodes.code, body.inviteCode), isNull(inviteCodes.usedBy)))
+    .where(eq(inviteCodes.code, body.inviteCode))
     .limit(1);
 
-  if (!invite) {
+  if (!invite || invite.useCount >= invite.maxUses) {
     throw new HTTPException(400, { message: 'Invalid or already used invite code' });
   }
 
@@ -60,6 +101,11 @@ authRoutes.post('/register', async (c) => {
     throw new HTTPException(400, { message: 'Invite code has expired' });
   }
 
+  // Email-bound codes only work for the address they were issued to
+  if (invite.email && invite.email.toLowerCase() !== body.email.toLowerCase()) {
+    throw new HTTPException(400, { message: 'This invite code is for a different email address' });
+  }
+
   // Check if email already registered
   const existing = await db
     .select({ id: users.id })
@@ -71,25 +117,81 @@ authRoutes.post('/register', async (c) => {
     throw new HTTPException(409, { message: 'Email already registered' });
   }
 
+  // Claim one use; the guard stops concurrent registrations overdrawing a cohort code
+  const [claimed] = await db
+    .update(inviteCodes)
+    .set({ useCount: sql`${inviteCodes.useCount} + 1` })
+    .where(and(eq(inviteCodes.id, invite.id), lt(inviteCodes.useCount, inviteCodes.maxUses)))
+    .returning({ id: inviteCodes.id });
+
+  if (!claimed) {
+    throw new HTTPException(400, { message: 'Invalid or already used invite code' });
+  }
+
   const passwordHash = await bcrypt.hash(body.password, 12);
 
   const [newUser] = await db
     .insert(users)
-    .values({ email: body.email, passwordHash, role: 'user' })
+    .values({ email: body.email, passwordHash, role: invite.role })
     .returning({ id: users.id, email: users.email, role: users.role });
 
-  // Mark invite code as used
+  // Record the latest redemption
   await db
     .update(inviteCodes)
     .set({ usedBy: newUser.id, usedAt: new Date() })
     .where(eq(inviteCodes.id, invite.id));
 
-  await setAuthCookie(c, newUser.id, newUser.email, newUser.role);
+  // Pre-provisioned services, granted on behalf of the admin who issued the code
+  const grants = await db
+    .select({ serviceId: inviteCodeServices.serviceId })
+    .from(inviteCodeServices)
+    .where(eq(inviteCodeServices.inviteCodeId, invite.id));
+
+  if (grants.length > 0) {
+    await db
+      .insert(userServices)
+      .values(grants.map((g) => ({ userId: newUser.id, serviceId: g.serviceId, grantedBy: invite.createdBy })))
+      .onConflictDoNothing();
+  }
+
+  // Organization invites make the new user a member, so they inherit its services
+  if (invite.organizationId) {
+    await db
+      .insert(organizationMembers)
+      .values({ organizationId: invite.organizationId, userId: newUser.id, role: 'member' })
+      .onConflictDoNothing();
+  }
+
+  // Group invites (e.g. from a bulk import) add the new user to the project team
+  if (invite.groupId) {
+    await db
+      .insert(userGroupMembers)
+      .values({ groupId: invite.groupId, userId: newUser.id, addedBy: invite.createdBy })
+      .onConflictDoNothing();
+  }
+
+  await recordAuditEvent(c, {
+    action: 'auth.registered',
+    actorId: newUser.id,
+    actorEmail: newUser.email,
+    targetType: 'invite_code',
+    targetId: invite.id,
+    targetLabel: invite.code,
+    metadata: {
+      role: newUser.role,
+      serviceIds: grants.map((g) => g.serviceId),
+      organizationId: invite.organizationId,
+      groupId: invite.groupId,
+    },
+  });
+
+  await startSession(c, newUser);
   return c.json({ user: { id: newUser.id, email: newUser.email, role: newUser.role } }, 201);
 });
 
 authRoutes.post('/login', async (c) => {
   const body = loginSchema.parse(await c.req.json());
+  const throttle = await checkLoginThrottle(c, body.email);
 
   const [user] = await db
     .select()
@@ -97,16 +199,87 @@ authRoutes.post('/login', async (c) => {
     .where(eq(users.email, body.email))
     .limit(1);
 
-  if (!user || !(await bcrypt.compare(body.password, user.passwordHash))) {
+  // SSO-only accounts have no password and can't sign in here
+  if (!user || !user.passwordHash || !(await bcrypt.compare(body.password, user.passwordHash))) {
+    await failLogin(c, throttle, user ?? null, user ? 'wrong_password' : 'unknown_email');
     throw new HTTPException(401, { message: 'Invalid email or password' });
   }
 
-  await setAuthCookie(c, user.id, user.email, user.role);
+  if (user.suspendedAt) {
+    await forgetLoginAttempt(throttle);
+    await recordAuditEvent(c, { action: 'auth.login_failed', actorId: user.id, actorEmail: user.email, metadata: { reason: 'suspended' } });
+    assertNotSuspended(user);
+  }
+
+  // Password is right but a second factor is needed before we start a session.
+  // Earlier failures stay counted so code guesses keep adding to them.
+  if (user.totpEnabledAt) {
+    await forgetLoginAttempt(throttle);
+    const challengeToken = await signTwoFactorChallenge(user.id);
+    return c.json({ twoFactorRequired: true, challengeToken });
+  }
+
+  await clearLoginFailures(user.email);
+  await recordAuditEvent(c, { action: 'auth.login', actorId: user.id, actorEmail: user.email, metadata: { method: 'password' } });
+  await startSession(c, user);
+  return c.json({ user: { id: user.id, email: user.email, role: user.role } });
+});
+
+// POST /login/2fa — second login step: exchange the challenge + TOTP/recovery code for a session
+authRoutes.post('/login/2fa', async (c) => {
+  const body = twoFactorLoginSchema.parse(await c.req.json());
+
+  const userId = await verifyTwoFactorChallenge(body.challengeToken);
+  if (!userId) {
+    throw new HTTPException(401, { message: 'Sign-in attempt expired, please sign in again' });
+  }
+
+  const [user] = await db
+    .select()
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user || !user.totpEnabledAt) {
+    throw new HTTPException(401, { message: 'Invalid authentication code' });
+  }
+  // The account may have been suspended since the first step
+  assertNotSuspended(user);
+
+  // Codes are only 6 digits, so guesses count towards the same lockout as passwords
+  const throttle = await checkLoginThrottle(c, user.email);
+  if (!(await verifySecondFactor(user, body.code))) {
+    await failLogin(c, throttle, user, 'wrong_two_factor_code');
+    throw new HTTPException(401, { message: 'Invalid authentication code' });
+  }
+
+  await clearLoginFailures(user.email);
+  await recordAuditEvent(c, { action: 'auth.login', actorId: user.id, actorEmail: user.email, metadata: { method: 'two_factor' } });
+  await startSession(c, user);
   return c.json({ user: { id: user.id, email: user.email, role: user.role } });
 });
 
-authRoutes.post('/logout', (c) => {
-  deleteCookie(c, 'auth_token', { path: '/' });
+// Count a failed sign-in towards throttling and log it, plus any lockout it triggered
+async function failLogin(c: Context, throttle: ThrottleState, user: { id: string; email: string } | null, reason: string) {
+  const { accountLocked, ipLocked } = await recordLoginFailure(throttle, user?.id ?? null);
+  const actor = { actorId: user?.id ?? null, actorEmail: user?.email ?? throttle.email };
+
+  await recordAuditEvent(c, { action: 'auth.login_failed', ...actor, metadata: { reason } });
+  if (accountLocked || ipLocked) {
+    await recordAuditEvent(c, { action: 'auth.locked_out', ...actor, metadata: { account: accountLocked, ip: ipLocked } });
+  }
+}
+
+// POST /refresh — rotate the refresh token and issue a new short-lived access token
+authRoutes.post('/refresh', async (c) => {
+  if (!(await refreshSession(c))) {
+    throw new HTTPException(401, { message: 'Session expired' });
+  }
+  return c.json({ success: true });
+});
+
+authRoutes.post('/logout', async (c) => {
+  await endSession(c);
   return c.json({ success: true });
 });
 
@@ -123,5 +296,413 @@ authRoutes.get('/me', async (c) => {
     throw new HTTPException(404, { message: 'User not found' });
   }
 
-  return c.json({ user });
+  return c.json({
+    user: {
+      ...user,
+      twoFactorEnabled: payload.twoFactor ?? false,
+      twoFactorRequired: payload.twoFactorRequired ?? false,
+      organizations: await listMemberships(user.id),
+      // Set while an admin is viewing the app as this user
+      impersonator: payload.impersonator ?? null,
+    },
+  });
+});
+
+// DELETE /impersonation — an admin viewing as another user returns to their own account
+authRoutes.delete('/impersonation', async (c) => {
+  const payload = c.get('jwtPayload');
+  if (!payload.impersonator || !(await endImpersonation(payload.sid))) {
+    throw new HTTPException(400, { message: 'Not viewing as another user' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'user.impersonation_ended',
+    actorId: payload.impersonator.id,
+    actorEmail: payload.impersonator.email,
+    targetType: 'user',
+    targetId: payload.sub,
+    targetLabel: payload.email,
+  });
+  return c.json({ success: true });
+});
+
+// ===================== TWO-FACTOR =====================
+
+async function loadTwoFactorUser(userId: string) {
+  const [user] = await db
+    .select({
+      id: users.id,
+      email: users.email,
+      passwordHash: users.passwordHash,
+      totpSecret: users.totpSecret,
+      totpEnabledAt: users.totpEnabledAt,
+      totpLastUsedStep: users.totpLastUsedStep,
+    })
+    .from(users)
+    .where(eq(users.id, userId))
+    .limit(1);
+
+  if (!user) {
+    throw new HTTPException(404, { message: 'User not found' });
+  }
+  return user;
+}
+
+// GET /2fa — enrollment status
+authRoutes.get('/2fa', async (c) => {
+  const payload = c.get('jwtPayload');
+  const user = await loadTwoFactorUser(payload.sub);
+  return c.json({
+    enabled: user.totpEnabledAt !== null,
+    enabledAt: user.totpEnabledAt,
+    required: payload.twoFactorRequired ?? false,
+    recoveryCodesRemaining: user.totpEnabledAt ? await countUnusedRecoveryCodes(user.id) : 0,
+  });
+});
+
+// POST /2fa/setup — start enrollment: new secret + provisioning URI/QR (not active until verified)
+authRoutes.post('/2fa/setup', async (c) => {
+  const payload = c.get('jwtPayload');
+  const user = await loadTwoFactorUser(payload.sub);
+
+  if (user.totpEnabledAt) {
+    throw new HTTPException(400, { message: 'Two-factor authentication is already enabled' });
+  }
+
+  const secret = generateTotpSecret();
+  await db.update(users).set({ totpSecret: secret, totpLastUsedStep: null }).where(eq(users.id, user.id));
+
+  const otpauthUrl = buildOtpauthUrl(secret, user.email);
+  const qrCode = await QRCode.toDataURL(otpauthUrl);
+
+  return c.json({ secret, otpauthUrl, qrCode });
+});
+
+// POST /2fa/enable — confirm enrollment with a code from the app; returns recovery codes once
+authRoutes.post('/2fa/enable', async (c) => {
+  const body = twoFactorCodeSchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+  const user = await loadTwoFactorUser(payload.sub);
+
+  if (user.totpEnabledAt) {
+    throw new HTTPException(400, { message: 'Two-factor authentication is already enabled' });
+  }
+  if (!user.totpSecret) {
+    throw new HTTPException(400, { message: 'Start two-factor setup first' });
+  }
+
+  const step = verifyTotp(user.totpSecret, body.code);
+  if (step === null) {
+    throw new HTTPException(400, { message: 'Invalid authentication code' });
+  }
+
+  await db
+    .update(users)
+    .set({ totpEnabledAt: new Date(), totpLastUsedStep: step })
+    .where(eq(users.id, user.id));
+  const recoveryCodes = await createRecoveryCodes(user.id);
+
+  await recordAuditEvent(c, { action: 'auth.two_factor_enabled', targetType: 'user', targetId: user.id, targetLabel: user.email });
+  return c.json({ recoveryCodes });
+});
+
+// POST /2fa/recovery-codes — replace recovery codes (invalidates the old set)
+authRoutes.post('/2fa/recovery-codes', async (c) => {
+  const body = twoFactorCodeSchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+  const user = await loadTwoFactorUser(payload.sub);
+
+  if (!user.totpEnabledAt) {
+    throw new HTTPException(400, { message: 'Two-factor authentication is not enabled' });
+  }
+  if (!(await consumeTotp(user, body.code))) {
+    throw new HTTPException(400, { message: 'Invalid authentication code' });
+  }
+
+  const recoveryCodes = await createRecoveryCodes(user.id);
+  await recordAuditEvent(c, { action: 'auth.recovery_codes_regenerated', targetType: 'user', targetId: user.id, targetLabel: user.email });
+  return c.json({ recoveryCodes });
+});
+
+// POST /2fa/disable — turn 2FA off (needs password and a current code)
+authRoutes.post('/2fa/disable', async (c) => {
+  const body = twoFactorDisableSchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+  const user = await loadTwoFactorUser(payload.sub);
+
+  if (!user.totpEnabledAt) {
+    throw new HTTPException(400, { message: 'Two-factor authentication is not enabled' });
+  }
+  if (payload.twoFactorRequired) {
+    throw new HTTPException(400, { message: 'Two-factor authentication is required for your account' });
+  }
+  if (!user.passwordHash || !(await bcrypt.compare(body.password, user.passwordHash))) {
+    throw new HTTPException(400, { message: 'Incorrect password' });
+  }
+  if (!(await verifySecondFactor(user, body.code))) {
+    throw new HTTPException(400, { message: 'Invalid authentication code' });
+  }
+
+  await clearTwoFactor(user.id);
+  await recordAuditEvent(c, { action: 'auth.two_factor_disabled', targetType: 'user', targetId: user.id, targetLabel: user.email });
+  return c.json({ success: true });
+});
+
+// ===================== SESSIONS =====================
+
+// GET /sessions — the current user's active logins
+authRoutes.get('/sessions', async (c) => {
+  const payload = c.get('jwtPayload');
+  const rows = await listActiveSessions(payload.sub);
+  return c.json({
+    sessions: rows.map((s) => ({ ...s, current: s.id === payload.sid })),
+  });
+});
+
+// DELETE /sessions/:id — sign out one device
+authRoutes.delete('/sessions/:id', async (c) => {
+  const id = c.req.param('id');
+  const payload = c.get('jwtPayload');
+
+  if (!(await revokeSession(payload.sub, id))) {
+    throw new HTTPException(404, { message: 'Session not found' });
+  }
+  if (id === payload.sid) {
+    clearSessionCookies(c);
+  }
+
+  await recordAuditEvent(c, { action: 'auth.session_revoked', targetType: 'session', targetId: id });
+  return c.json({ success: true });
+});
+
+// DELETE /sessions — sign out everywhere, including this device
+authRoutes.delete('/sessions', async (c) => {
+  const payload = c.get('jwtPayload');
+  await revokeUserSessions(payload.sub);
+  clearSessionCookies(c);
+  await recordAuditEvent(c, { action: 'auth.sessions_revoked', targetType: 'user', targetId: payload.sub, targetLabel: payload.email });
+  return c.json({ success: true });
+});
+
+// ===================== API TOKENS =====================
+
+const apiTokenSchema = z.object({
+  name: z.string().trim().min(1, 'Name is required').max(100),
+  services: z.array(z.string()).min(1, 'Choose at least one service'),
+  expiresInDays: z.number().int().min(1).max(365).default(90),
+});
+
+// GET /tokens — list the caller's API tokens (never the secrets)
+authRoutes.get('/tokens', async (c) => {
+  const payload = c.get('jwtPayload');
+  const [tokens, availableServices] = await Promise.all([
+    listApiTokens(payload.sub),
+    accessibleServiceSlugs(payload.sub, payload.role),
+  ]);
+  return c.json({ tokens, availableServices });
+});
+
+// POST /tokens — create a token; the secret is only returned here
+authRoutes.post('/tokens', async (c) => {
+  const body = apiTokenSchema.parse(await c.req.json());
+  const payload = c.get('jwtPayload');
+
+  const allowed = await accessibleServiceSlugs(payload.sub, payload.role);
+  const denied = body.services.filter((slug) => !allowed.includes(slug));
+  if (denied.length > 0) {
+    throw new HTTPException(400, { message: `You don't have access to: ${denied.join(', ')}` });
+  }
+
+  const { token, apiToken } = await createApiToken(payload.sub, {
+    name: body.name,
+    scopes: [...new Set(body.services)],
+    expiresAt: new Date(Date.now() + body.expiresInDays * 24 * 60 * 60 * 1000),
+  });
+
+  await recordAuditEvent(c, {
+    action: 'auth.api_token_created',
+    targetType: 'api_token',
+    targetId: apiToken.id,
+    targetLabel: apiToken.name,
+    metadata: { scopes: apiToken.scopes, expiresAt: apiToken.expiresAt },
+  });
+  return c.json({ token, apiToken }, 201);
+});
+
+// DELETE /tokens/:id — revoke a token
+authRoutes.delete('/tokens/:id', async (c) => {
+  const payload = c.get('jwtPayload');
+
+  const id = c.req.param('id');
+
+  if (!(await revokeApiToken(payload.sub, id))) {
+    throw new HTTPException(404, { message: 'API token not found' });
+  }
+
+  await recordAuditEvent(c, { action: 'auth.api_token_revoked', targetType: 'api_token', targetId: id });
+  return c.json({ success: true });
+});
+
+// ===================== PASSWORD RESET =====================
+
+// POST /forgot-password — email a single-use reset link. Always succeeds so
+// the response can't be used to probe which emails are registered.
+authRoutes.post('/forgot-password', async (c) => {
+  const body = forgotPasswordSchema.parse(await c.req.json());
+
+  const [user] = await db
+    .select({ id: users.id, email: users.email, passwordHash: users.passwordHash })
+    .from(users)
+    .where(eq(users.email, body.email))
+    .limit(1);
+
+  // SSO-only accounts sign in through their identity provider, never with a password
+  if (user?.passwordHash) {
+    const token = await db.transaction(async (tx) => {
+      // Requests for the same account queue up, so a burst can't all slip past the cooldown
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`password_reset:${user.id}`}))`);
+
+      const [recent] = await tx
+        .select({ id: passwordResetTokens.id })
+        .from(passwordResetTokens)
+        .where(
+          and(
+            eq(passwordResetTokens.userId, user.id),
+            gt(passwordResetTokens.createdAt, new Date(Date.now() - RESET_REQUEST_COOLDOWN_MS)),
+          ),
+        )
+        .limit(1);
+      // Still answered with success: a refusal would reveal that the email is registered
+      if (recent) return null;
+
+      // Only the most recent link is valid
+      await tx
+        .delete(passwordResetTokens)
+        .where(and(eq(passwordResetTokens.userId, user.id), isNull(passwordResetTokens.usedAt)));
+
+      const token = generateToken();
+      await tx.insert(passwordResetTokens).values({
+        userId: user.id,
+        tokenHash: hashToken(token),
+        expiresAt: new Date(Date.now() + RESET_TOKEN_TTL_MS),
+      });
+      return token;
+    });
+    if (!token) return c.json({ success: true });
+
+    const resetUrl = `${env.APP_URL}/app/reset-password?token=${token}`;
+    await sendMail({
+      to: user.email,
+      subject: 'Reset your vogt-ai password',
+      text: [
+        'Someone (hopefully you) asked to reset the password for your vogt-ai account.',
+        '',
+        'Open this link within the next hour to choose a new password:',
+        resetUrl,
+        '',
+        "If you didn't ask for this, you can ignore this email — your password won't change.",
+      ].join('\n'),
+    });
+
+    await recordAuditEvent(c, { action: 'auth.password_reset_requested', actorId: user.id, actorEmail: user.email });
+  }
+
+  return c.json({ success: true });
+});
+
+// POST /reset-password — consume a reset token and set a new password
+authRoutes.post('/reset-password', async (c) => {
+  const body = resetPasswordSchema.parse(await c.req.json());
+
+  // Claim the token in a single statement so it can only ever be used once
+  const [claimed] = await db
+    .update(passwordResetTokens)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(passwordResetTokens.tokenHash, hashToken(body.token)),
+        isNull(passwordResetTokens.usedAt),
+        gt(passwordResetTokens.expiresAt, new Date()),
+      ),
+    )
+    .returning({ userId: passwordResetTokens.userId });
+
+  if (!claimed) {
+    throw new HTTPException(400, { message: 'Invalid or expired reset link' });
+  }
+
+  const passwordHash = await bcrypt.hash(body.password, 12);
+  await db.update(users).set({ passwordHash }).where(eq(users.id, claimed.userId));
+
+  // Whoever knew the old password shouldn't stay signed in
+  await revokeUserSessions(claimed.userId);
+
+  await recordAuditEvent(c, { action: 'auth.password_reset', actorId: claimed.userId });
+
+  return c.json({ success: true });
+});
+
+// ===================== SINGLE SIGN-ON =====================
+
+const ssoDiscoverSchema = z.object({
+  email: z.string().email(),
+});
+
+// GET /sso/discover — which identity provider (if any) handles this email's domain
+authRoutes.get('/sso/discover', async (c) => {
+  const { email } = ssoDiscoverSchema.parse({ email: c.req.query('email') });
+
+  const connection = await findConnectionForEmail(email);
+  if (!connection) {
+    throw new HTTPException(404, { message: 'Single sign-on is not set up for this email domain' });
+  }
+
+  return c.json({ connection: { slug: connection.slug, name: connection.name } });
+});
+
+// GET /sso/:slug/start — send the browser to the identity provider
+authRoutes.get('/sso/:slug/start', async (c) => {
+  const connection = await findConnection(c.req.param('slug'));
+  if (!connection) {
+    throw new HTTPException(404, { message: 'SSO connection not found' });
+  }
+
+  return c.redirect(await beginSsoLogin(c, connection));
+});
+
+// GET /sso/:slug/callback — IdP redirects back here; map the identity onto a user and sign in.
+// This is a browser navigation, so failures redirect to the login page instead of returning JSON.
+authRoutes.get('/sso/:slug/callback', async (c) => {
+  try {
+    const connection = await findConnection(c.req.param('slug'));
+    if (!connection) {
+      throw new HTTPException(404, { message: 'SSO connection not found' });
+    }
+
+    const identity = await completeSsoLogin(c, connection);
+    const user = await resolveSsoUser(connection, identity);
+    assertNotSuspended(user);
+
+    // Local 2FA still applies; the challenge goes in the fragment so it never hits server logs
+    if (user.totpEnabledAt) {
+      const challengeToken = await signTwoFactorChallenge(user.id);
+      return c.redirect(`/app/login#challenge=${challengeToken}`);
+    }
+
+    await recordAuditEvent(c, {
+      action: 'auth.login',
+      actorId: user.id,
+      actorEmail: user.email,
+      metadata: { method: 'sso', connection: connection.slug },
+    });
+    await startSession(c, user);
+    return c.redirect('/app/');
+  } catch (err) {
+    if (!(err instanceof HTTPException)) {
+      console.error('SSO callback failed:', err);
+    }
+    const message = err instanceof HTTPException ? err.message : 'Single sign-on failed';
+    await recordAuditEvent(c, { action: 'auth.sso_failed', actorId: null, actorEmail: null, metadata: { connection: c.req.param('slug'), error: message } });
+    return c.redirect(`/app/login?sso_error=${encodeURIComponent(message)}`);
+  }
 });
@@ -0,0 +1,191 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { eq, desc } from 'drizzle-orm';
+import { HTTPException } from 'hono/http-exception';
+import { db } from '../db.js';
+import { users, inviteCodes, organizations } from '../schema.js';
+import { requireOrgAdmin } from '../middleware/require-org-admin.js';
+import { recordAuditEvent } from '../audit.js';
+import { createInviteCode, revokeInviteCode } from '../invite-codes.js';
+import { listMemberships, listMembers, listOrganizationServices, setMemberRole, removeMember } from '../organizations.js';
+
+// Self-service for organization admins: they manage their own organization's
+// members and invite codes. Services are assigned to the organization by
+// platform admins (see admin-routes).
+export const orgRoutes = new Hono();
+
+// GET /mine — organizations the current user belongs to
+orgRoutes.get('/mine', async (c) => {
+  const payload = c.get('jwtPayload');
+  return c.json({ organizations: await listMemberships(payload.sub) });
+});
+
+orgRoutes.use('/:orgId', requireOrgAdmin);
+orgRoutes.use('/:orgId/*', requireOrgAdmin);
+
+// ===================== ORGANIZATION =====================
+
+// GET /:orgId — the organization with its members and services
+orgRoutes.get('/:orgId', async (c) => {
+  const orgId = z.string().uuid().parse(c.req.param('orgId'));
+
+  const [organization] = await db.select().from(organizations).where(eq(organizations.id, orgId)).limit(1);
+  if (!organization) {
+    throw new HTTPException(404, { message: 'Organization not found' });
+  }
+
+  const [members, services] = await Promise.all([listMembers(orgId), listOrganizationServices(orgId)]);
+  return c.json({ organization: { ...organization, members, services } });
+});
+
+// ===================== MEMBERS =====================
+
+// PATCH /:orgId/members/:userId — make a member an org admin, or back
+const memberRoleSchema = z.object({
+  role: z.enum(['admin', 'member']),
+});
+
+orgRoutes.patch('/:orgId/members/:userId', async (c) => {
+  const orgId = z.string().uuid().parse(c.req.param('orgId'));
+  const userId = z.string().uuid().parse(c.req.param('userId'));
+  const body = memberRoleSchema.parse(await c.req.json());
+
+  if (userId === c.get('jwtPayload').sub) {
+    throw new HTTPException(400, { message: 'You cannot change your own organization role' });
+  }
+
+  const email = await setMemberRole(orgId, userId, body.role);
+  if (!email) {
+    throw new HTTPException(404, { message: 'Member not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.member_role_changed',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: email,
+    metadata: { organizationId: orgId, role: body.role },
+  });
+  return c.json({ success: true });
+});
+
+// DELETE /:orgId/members/:userId — remove a member. Their account stays, but
+// they lose the organization's services.
+orgRoutes.delete('/:orgId/members/:userId', async (c) => {
+  const orgId = z.string().uuid().parse(c.req.param('orgId'));
+  const userId = z.string().uuid().parse(c.req.param('userId'));
+
+  if (userId === c.get('jwtPayload').sub) {
+    throw new HTTPException(400, { message: 'You cannot remove yourself from the organization' });
+  }
+
+  const email = await removeMember(orgId, userId);
+  if (!email) {
+    throw new HTTPException(404, { message: 'Member not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'organization.member_removed',
+    targetType: 'user',
+    targetId: userId,
+    targetLabel: email,
+    metadata: { organizationId: orgId },
+  });
+  return c.json({ success: true });
+});
+
+// ===================== INVITE CODES =====================
+
+// GET /:orgId/invite-codes — the organization's invite codes
+orgRoutes.get('/:orgId/invite-codes', async (c) => {
+  const orgId = z.string().uuid().parse(c.req.param('orgId'));
+
+  const codes = await db
+    .select({
+      id: inviteCodes.id,
+      code: inviteCodes.code,
+      useCount: inviteCodes.useCount,
+      maxUses: inviteCodes.maxUses,
+      email: inviteCodes.email,
+      note: inviteCodes.note,
+      usedAt: inviteCodes.usedAt,
+      expiresAt: inviteCodes.expiresAt,
+      createdAt: inviteCodes.createdAt,
+      createdByEmail: users.email,
+    })
+    .from(inviteCodes)
+    .leftJoin(users, eq(inviteCodes.createdBy, users.id))
+    .where(eq(inviteCodes.organizationId, orgId))
+    .orderBy(desc(inviteCodes.createdAt));
+
+  return c.json({ inviteCodes: codes });
+});
+
+// POST /:orgId/invite-codes — invite people into the organization. They register
+// as regular users and get the organization's services through membership.
+const orgInviteSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+  email: z.string().email().optional(),
+  maxUses: z.number().int().min(1).max(1000).default(1),
+  note: z.string().trim().max(500).optional(),
+}).refine((body) => !body.email || body.maxUses === 1, {
+  message: 'An email-bound invite code can only be used once',
+  path: ['maxUses'],
+});
+
+orgRoutes.post('/:orgId/invite-codes', async (c) => {
+  const orgId = z.string().uuid().parse(c.req.param('orgId'));
+  const body = orgInviteSchema.parse(await c.req.json().catch(() => ({})));
+
+  const [organization] = await db
+    .select({ id: organizations.id, slug: organizations.slug })
+    .from(organizations)
+    .where(eq(organizations.id, orgId))
+    .limit(1);
+  if (!organization) {
+    throw new HTTPException(404, { message: 'Organization not found' });
+  }
+
+  const invite = await createInviteCode(c.get('jwtPayload').sub, {
+    ...body,
+    role: 'user',
+    serviceIds: [],
+    organizationId: orgId,
+  });
+
+  await recordAuditEvent(c, {
+    action: 'invite.created',
+    targetType: 'invite_code',
+    targetId: invite.id,
+    targetLabel: invite.code,
+    metadata: {
+      email: invite.email,
+      maxUses: invite.maxUses,
+      organizationId: orgId,
+      organization: organization.slug,
+      note: invite.note,
+      expiresAt: invite.expiresAt,
+    },
+  });
+  return c.json({ inviteCode: invite }, 201);
+});
+
+// DELETE /:orgId/invite-codes/:id — revoke one of the organization's codes
+orgRoutes.delete('/:orgId/invite-codes/:id', async (c) => {
+  const orgId = z.string().uuid().parse(c.req.param('orgId'));
+  const id = z.string().uuid().parse(c.req.param('id'));
+
+  const revoked = await revokeInviteCode(id, eq(inviteCodes.organizationId, orgId));
+  if (!revoked) {
+    throw new HTTPException(404, { message: 'Invite code not found or already used' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'invite.revoked',
+    targetType: 'invite_code',
+    targetId: id,
+    targetLabel: revoked.code,
+    metadata: { deleted: revoked.deleted, organizationId: orgId },
+  });
+  return c.json({ success: true });
+});
@@ -1,47 +1,25 @@
 import { Hono } from 'hono';
-import { eq, and } from 'drizzle-orm';
-import { db } from '../db.js';
-import { services, userServices } from '../schema.js';
+import { accessibleServices, grantedRoles } from '../service-access.js';
+import { scopesForRole, type ServiceRole } from '../service-roles.js';
 
 export const serviceRoutes = new Hono();
 
-// GET /mine — list services the current user has access to
+// GET /mine — list services the current user has access to: every enabled
+// service for admins, otherwise direct grants plus their organizations' and
+// groups' services. Each comes with the user's role and the scopes it allows.
 serviceRoutes.get('/mine', async (c) => {
   const payload = c.get('jwtPayload');
-  const userId = payload.sub;
+  const isAdmin = payload.role === 'admin';
+  const [rows, roles] = await Promise.all([
+    accessibleServices(payload.sub, payload.role),
+    isAdmin ? null : grantedRoles(payload.sub),
+  ]);
 
-  // Admins get all enabled services
-  if (payload.role === 'admin') {
-    const allServices = await db
-      .select({
-        id: services.id,
-        slug: services.slug,
-        name: services.name,
-        description: services.description,
-        icon: services.icon,
-        route: services.route,
-      })
-      .from(services)
-      .where(eq(services.enabled, true))
-      .orderBy(services.name);
-
-    return c.json({ services: allServices });
-  }
-
-  // Regular users get only assigned services
-  const userServiceList = await db
-    .select({
-      id: services.id,
-      slug: services.slug,
-      name: services.name,
-      description: services.description,
-      icon: services.icon,
-      route: services.route,
-    })
-    .from(userServices)
-    .innerJoin(services, and(eq(userServices.serviceId, services.id), eq(services.enabled, true)))
-    .where(eq(userServices.userId, userId))
-    .orderBy(services.name);
-
-  return c.json({ services: userServiceList });
+  return c.json({
+    services: rows.map((service) => {
+      // Admins hold the top role everywhere
+      const role: ServiceRole = roles?.get(service.id) ?? 'analyst';
+      return { ...service, role, scopes: scopesForRole(role) };
+    }),
+  });
 });
@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { getTableConfig, type PgTable } from 'drizzle-orm/pg-core';
+import { organizationServices, userGroupServices, ssoDomainRules } from './schema.js';
+
+function foreignKey(table: PgTable, column: string) {
+  const keys = getTableConfig(table).foreignKeys.map((key) => ({ ...key.reference(), onDelete: key.onDelete }));
+  return keys.find((key) => key.columns.some((c) => c.name === column));
+}
+
+// Deleting an admin must not fail because of what they once granted or
+// created; the row stays and just forgets who did it
+describe('references to the admin who made a change', () => {
+  it.each([
+    ['organization_services.granted_by', organizationServices],
+    ['user_group_services.granted_by', userGroupServices],
+    ['sso_domain_rules.created_by', ssoDomainRules],
+  ])('%s is cleared when that admin is deleted', (name, table) => {
+    const column = name.split('.')[1];
+    const key = foreignKey(table, column);
+    expect(getTableConfig(key!.foreignTable).name).toBe('users');
+    expect(key!.onDelete).toBe('set null');
+    expect(key!.columns[0].notNull).toBe(false);
+  });
+});
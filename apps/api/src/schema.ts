@@ -1,10 +1,20 @@
-import { pgTable, uuid, varchar, timestamp, text, boolean, unique } from 'drizzle-orm/pg-core';
+import { sql } from 'drizzle-orm';
+import { pgTable, uuid, varchar, timestamp, text, boolean, integer, jsonb, unique, index, type AnyPgColumn } from 'drizzle-orm/pg-core';
 
 export const users = pgTable('users', {
   id: uuid('id').defaultRandom().primaryKey(),
   email: varchar('email', { length: 255 }).notNull().unique(),
-  passwordHash: varchar('password_hash', { length: 255 }).notNull(),
+  // Null for accounts provisioned through single sign-on
+  passwordHash: varchar('password_hash', { length: 255 }),
   role: varchar('role', { length: 20 }).notNull().default('user'),
+  // TOTP secret is set during enrollment; 2FA is only active once totpEnabledAt is set
+  totpSecret: varchar('totp_secret', { length: 64 }),
+  totpEnabledAt: timestamp('totp_enabled_at', { withTimezone: true }),
+  totpLastUsedStep: integer('totp_last_used_step'),
+  // Suspended accounts keep their data but can't sign in or use a session or API token
+  suspendedAt: timestamp('suspended_at', { withTimezone: true }),
+  suspendedReason: text('suspended_reason'),
+  suspendedBy: uuid('suspended_by').references((): AnyPgColumn => users.id, { onDelete: 'set null' }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
@@ -12,12 +22,32 @@ export const inviteCodes = pgTable('invite_codes', {
   id: uuid('id').defaultRandom().primaryKey(),
   code: varchar('code', { length: 50 }).notNull().unique(),
   createdBy: uuid('created_by').notNull().references(() => users.id),
+  // Most recent redemption; useCount tracks how many of maxUses are gone
   usedBy: uuid('used_by').references(() => users.id),
   usedAt: timestamp('used_at', { withTimezone: true }),
+  useCount: integer('use_count').notNull().default(0),
+  maxUses: integer('max_uses').notNull().default(1),
+  // Optional: only this email may register with the code
+  email: varchar('email', { length: 255 }),
+  role: varchar('role', { length: 20 }).notNull().default('user'),
+  note: text('note'),
+  // Optional: whoever registers joins this organization as a member
+  organizationId: uuid('organization_id').references(() => organizations.id, { onDelete: 'cascade' }),
+  // Optional: whoever registers joins this group, so they inherit its services
+  groupId: uuid('group_id').references(() => userGroups.id, { onDelete: 'cascade' }),
   expiresAt: timestamp('expires_at', { withTimezone: true }),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Services granted automatically to whoever registers with the invite code
+export const inviteCodeServices = pgTable('invite_code_services', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  inviteCodeId: uuid('invite_code_id').notNull().references(() => inviteCodes.id, { onDelete: 'cascade' }),
+  serviceId: uuid('service_id').notNull().references(() => services.id, { onDelete: 'cascade' }),
+}, (table) => [
+  unique().on(table.inviteCodeId, table.serviceId),
+]);
+
 export const services = pgTable('services', {
   id: uuid('id').defaultRandom().primaryKey(),
   slug: varchar('slug', { length: 100 }).notNull().unique(),
@@ -26,15 +56,235 @@ export const services = pgTable('services', {
   icon: varchar('icon', { length: 50 }),
   route: varchar('route', { length: 255 }).notNull(),
   enabled: boolean('enabled').notNull().default(true),
+  requireTwoFactor: boolean('require_two_factor').notNull().default(false),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
 });
 
+// Admin-edited values for the settings a service declares in its manifest
+// (see service-settings.ts). Keys without a row use the manifest's default.
+export const serviceSettings = pgTable('service_settings', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  serviceId: uuid('service_id').notNull().references(() => services.id, { onDelete: 'cascade' }),
+  key: varchar('key', { length: 100 }).notNull(),
+  value: jsonb('value').notNull(),
+  updatedBy: uuid('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.serviceId, table.key),
+]);
+
 export const userServices = pgTable('user_services', {
   id: uuid('id').defaultRandom().primaryKey(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
   serviceId: uuid('service_id').notNull().references(() => services.id, { onDelete: 'cascade' }),
   grantedBy: uuid('granted_by').notNull().references(() => users.id),
   grantedAt: timestamp('granted_at', { withTimezone: true }).defaultNow().notNull(),
+  // 'viewer' | 'reader' | 'analyst' (see service-roles.ts)
+  role: varchar('role', { length: 20 }).default('analyst').notNull(),
+  // Optional access window; lapsed grants are ignored and then swept (see access-expiry.ts)
+  startsAt: timestamp('starts_at', { withTimezone: true }),
+  expiresAt: timestamp('expires_at', { withTimezone: true }),
 }, (table) => [
   unique().on(table.userId, table.serviceId),
-]);
\ No newline at end of file
+  index().on(table.expiresAt),
+]);
+
+// Client companies. Members get every service granted to their organization;
+// org admins manage the organization's members and invite codes.
+export const organizations = pgTable('organizations', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  slug: varchar('slug', { length: 100 }).notNull().unique(),
+  name: varchar('name', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const organizationMembers = pgTable('organization_members', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  // 'admin' or 'member'
+  role: varchar('role', { length: 20 }).notNull().default('member'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.organizationId, table.userId),
+  index().on(table.userId),
+]);
+
+export const organizationServices = pgTable('organization_services', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  serviceId: uuid('service_id').notNull().references(() => services.id, { onDelete: 'cascade' }),
+  grantedBy: uuid('granted_by').references(() => users.id, { onDelete: 'set null' }),
+  grantedAt: timestamp('granted_at', { withTimezone: true }).defaultNow().notNull(),
+  role: varchar('role', { length: 20 }).default('analyst').notNull(),
+}, (table) => [
+  unique().on(table.organizationId, table.serviceId),
+]);
+
+// Named sets of users (e.g. a project team). Services granted to a group are
+// available to all of its members.
+export const userGroups = pgTable('user_groups', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  name: varchar('name', { length: 255 }).notNull().unique(),
+  description: text('description'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const userGroupMembers = pgTable('user_group_members', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  groupId: uuid('group_id').notNull().references(() => userGroups.id, { onDelete: 'cascade' }),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  addedBy: uuid('added_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.groupId, table.userId),
+  index().on(table.userId),
+]);
+
+export const userGroupServices = pgTable('user_group_services', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  groupId: uuid('group_id').notNull().references(() => userGroups.id, { onDelete: 'cascade' }),
+  serviceId: uuid('service_id').notNull().references(() => services.id, { onDelete: 'cascade' }),
+  grantedBy: uuid('granted_by').references(() => users.id, { onDelete: 'set null' }),
+  grantedAt: timestamp('granted_at', { withTimezone: true }).defaultNow().notNull(),
+  role: varchar('role', { length: 20 }).default('analyst').notNull(),
+}, (table) => [
+  unique().on(table.groupId, table.serviceId),
+]);
+
+export const passwordResetTokens = pgTable('password_reset_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+export const sessions = pgTable('sessions', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  refreshTokenHash: varchar('refresh_token_hash', { length: 64 }).notNull().unique(),
+  userAgent: text('user_agent'),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  lastSeenAt: timestamp('last_seen_at', { withTimezone: true }).defaultNow().notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  // Set while an admin is viewing the app as another user (see impersonation.ts)
+  impersonatedUserId: uuid('impersonated_user_id').references(() => users.id, { onDelete: 'set null' }),
+  impersonationStartedAt: timestamp('impersonation_started_at', { withTimezone: true }),
+});
+
+export const recoveryCodes = pgTable('recovery_codes', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  codeHash: varchar('code_hash', { length: 64 }).notNull(),
+  usedAt: timestamp('used_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Platform-wide policies keyed by role (e.g. require 2FA for every admin)
+export const rolePolicies = pgTable('role_policies', {
+  role: varchar('role', { length: 20 }).primaryKey(),
+  requireTwoFactor: boolean('require_two_factor').notNull().default(false),
+  updatedBy: uuid('updated_by').references(() => users.id, { onDelete: 'set null' }),
+  updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// OIDC identity providers; users whose email domain is listed sign in through them
+export const ssoConnections = pgTable('sso_connections', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  slug: varchar('slug', { length: 100 }).notNull().unique(),
+  name: varchar('name', { length: 255 }).notNull(),
+  issuer: varchar('issuer', { length: 500 }).notNull(),
+  clientId: varchar('client_id', { length: 255 }).notNull(),
+  clientSecret: text('client_secret').notNull(),
+  domains: text('domains').array().notNull().default(sql`'{}'::text[]`),
+  enabled: boolean('enabled').notNull().default(true),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Links an IdP subject to a local user
+export const userIdentities = pgTable('user_identities', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  connectionId: uuid('connection_id').notNull().references(() => ssoConnections.id, { onDelete: 'cascade' }),
+  subject: varchar('subject', { length: 255 }).notNull(),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+  lastLoginAt: timestamp('last_login_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.connectionId, table.subject),
+]);
+
+// Services granted automatically to anyone signing in via SSO with this email domain
+export const ssoDomainRules = pgTable('sso_domain_rules', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  domain: varchar('domain', { length: 255 }).notNull(),
+  serviceId: uuid('service_id').notNull().references(() => services.id, { onDelete: 'cascade' }),
+  createdBy: uuid('created_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.domain, table.serviceId),
+]);
+
+// Personal access tokens for scripts; scoped to service slugs and always expiring
+export const apiTokens = pgTable('api_tokens', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
+  name: varchar('name', { length: 100 }).notNull(),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  // First few characters, so users can tell their tokens apart
+  tokenPrefix: varchar('token_prefix', { length: 16 }).notNull(),
+  scopes: text('scopes').array().notNull(),
+  expiresAt: timestamp('expires_at', { withTimezone: true }).notNull(),
+  lastUsedAt: timestamp('last_used_at', { withTimezone: true }),
+  revokedAt: timestamp('revoked_at', { withTimezone: true }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Recent failed sign-ins, counted per email and per IP for throttling.
+// Cleared for an email on successful login or when an admin unlocks it.
+export const loginFailures = pgTable('login_failures', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  email: varchar('email', { length: 255 }).notNull(),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index().on(table.email, table.createdAt),
+  index().on(table.ipAddress, table.createdAt),
+]);
+
+// Lockout history: scope 'account' blocks an email, scope 'ip' blocks an address
+export const loginLockouts = pgTable('login_lockouts', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  scope: varchar('scope', { length: 20 }).notNull(),
+  email: varchar('email', { length: 255 }),
+  userId: uuid('user_id').references(() => users.id, { onDelete: 'cascade' }),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  failedAttempts: integer('failed_attempts').notNull(),
+  lockedUntil: timestamp('locked_until', { withTimezone: true }).notNull(),
+  releasedAt: timestamp('released_at', { withTimezone: true }),
+  releasedBy: uuid('released_by').references(() => users.id, { onDelete: 'set null' }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// Append-only trail of administrative and security events. Actor and target are
+// snapshotted (email/label) so entries stay readable after users are deleted.
+export const auditEvents = pgTable('audit_events', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  action: varchar('action', { length: 100 }).notNull(),
+  actorId: uuid('actor_id').references(() => users.id, { onDelete: 'set null' }),
+  actorEmail: varchar('actor_email', { length: 255 }),
+  targetType: varchar('target_type', { length: 50 }),
+  targetId: varchar('target_id', { length: 255 }),
+  targetLabel: varchar('target_label', { length: 255 }),
+  metadata: jsonb('metadata').$type<Record<string, unknown>>(),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index().on(table.createdAt),
+  index().on(table.action, table.createdAt),
+  index().on(table.actorId, table.createdAt),
+  index().on(table.targetId),
+]);
@@ -5,15 +5,16 @@
  *   pnpm --filter @vogt-ai/api seed <email>
  *   pnpm --filter @vogt-ai/api seed <email> --reset-password <newpass>
  *
- * Or with explicit DATABASE_URL:
- *   DATABASE_URL="postgresql://..." tsx src/scripts/seed.ts <email>
+ * It uses the server's db and session helpers, so it needs the server's env
+ * (DATABASE_URL, JWT_SECRET); the pnpm script loads it from the root .env.
  */
 
-import { drizzle } from 'drizzle-orm/postgres-js';
 import { eq } from 'drizzle-orm';
 import bcrypt from 'bcryptjs';
-import postgres from 'postgres';
-import { users, services, userServices } from '../schema.js';
+import { db } from '../db.js';
+import { users, services, userServices, auditEvents } from '../schema.js';
+import { revokeUserSessions } from '../sessions.js';
+import { serviceManifests } from '../services/registry.js';
 
 const args = process.argv.slice(2);
 const resetIdx = args.indexOf('--reset-password');
@@ -29,42 +30,32 @@ if (!email) {
   process.exit(1);
 }
 
-const url = process.env.DATABASE_URL;
-if (!url) {
-  console.error('Missing DATABASE_URL env var');
-  process.exit(1);
-}
-
-const client = postgres(url);
-const db = drizzle(client);
-
 // --- Service definitions ---
-// Add new services here as the platform grows.
-
-const SERVICE_DEFINITIONS = [
-  {
-    slug: 'rlc-controls',
-    name: 'RL Controls',
-    description: 'Search 12,500+ indexed documents from the Hitachi Rail Dropbox',
-    icon: '🔍',
-    route: '/rlc',
-  },
-];
+// The server syncs these from the registry at startup; the seed creates them too
+// so a fresh database works before the first start.
+
+const SERVICE_DEFINITIONS = serviceManifests.map(({ slug, name, description, icon, route }) => ({
+  slug,
+  name,
+  description,
+  icon,
+  route,
+}));
+
+// Seed changes go in the audit log too; there's no signed-in actor, so they're tagged by source
+async function audit(event: Omit<typeof auditEvents.$inferInsert, 'metadata'> & { metadata?: Record<string, unknown> }) {
+  await db.insert(auditEvents).values({ ...event, metadata: { ...event.metadata, source: 'seed' } });
+}
 
 async function seed() {
   console.log(`\nSeeding platform for ${email}...\n`);
 
   // 1. Promote user to admin (and optionally reset password)
-  const updateSet: Record<string, unknown> = { role: 'admin' };
-  if (resetPassword) {
-    updateSet.passwordHash = await bcrypt.hash(resetPassword, 12);
-  }
-
   const [user] = await db
-    .update(users)
-    .set(updateSet)
+    .select({ id: users.id, email: users.email, role: users.role })
+    .from(users)
     .where(eq(users.email, email))
-    .returning({ id: users.id, email: users.email, role: users.role });
+    .limit(1);
 
   if (!user) {
     console.error(`User not found with email: ${email}`);
@@ -72,9 +63,23 @@ async function seed() {
     process.exit(1);
   }
 
-  console.log(`Promoted ${user.email} to admin`);
+  const updateSet: Record<string, unknown> = { role: 'admin' };
+  if (resetPassword) {
+    updateSet.passwordHash = await bcrypt.hash(resetPassword, 12);
+  }
+  await db.update(users).set(updateSet).where(eq(users.id, user.id));
+
+  if (user.role === 'admin') {
+    console.log(`${user.email} is already an admin`);
+  } else {
+    console.log(`Promoted ${user.email} to admin`);
+    await audit({ action: 'user.role_changed', targetType: 'user', targetId: user.id, targetLabel: user.email, metadata: { role: 'admin' } });
+  }
   if (resetPassword) {
-    console.log(`Reset password for ${user.email}`);
+    // Same as a reset by email: whoever had the old password is signed out
+    await revokeUserSessions(user.id);
+    console.log(`Reset password for ${user.email} and signed out its sessions`);
+    await audit({ action: 'user.password_reset', targetType: 'user', targetId: user.id, targetLabel: user.email });
   }
 
   // 2. Seed services
@@ -87,6 +92,7 @@ async function seed() {
 
     if (created) {
       console.log(`Created service: ${created.name} (${created.slug})`);
+      await audit({ action: 'service.created', targetType: 'service', targetId: created.id, targetLabel: created.slug });
     } else {
       console.log(`Service already exists: ${def.slug}`);
     }
@@ -100,26 +106,34 @@ async function seed() {
 
     // 3. Grant admin access
     if (svc) {
-      await db
+      const [granted] = await db
         .insert(userServices)
         .values({
           userId: user.id,
           serviceId: svc.id,
           grantedBy: user.id,
         })
-        .onConflictDoNothing();
-
+        .onConflictDoNothing()
+        .returning({ id: userServices.id });
+
+      if (granted) {
+        await audit({
+          action: 'service.granted',
+          targetType: 'user',
+          targetId: user.id,
+          targetLabel: user.email,
+          metadata: { serviceId: svc.id, service: def.slug },
+        });
+      }
       console.log(`Granted ${user.email} access to ${svc.name}`);
     }
   }
 
   console.log('\nSeed complete!\n');
-  await client.end();
   process.exit(0);
 }
 
-seed().catch(async (err) => {
+seed().catch((err) => {
   console.error('Seed failed:', err);
-  await client.end();
   process.exit(1);
 });
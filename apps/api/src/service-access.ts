@@ -0,0 +1,220 @@
+import { eq, and, or, exists, inArray, isNull, lte, gt, type AnyColumn } from 'drizzle-orm';
+import { db } from './db.js';
+import {
+  services,
+  userServices,
+  organizations,
+  organizationMembers,
+  organizationServices,
+  userGroups,
+  userGroupMembers,
+  userGroupServices,
+} from './schema.js';
+import { highestRole, type ServiceRole } from './service-roles.js';
+
+export const serviceColumns = {
+  id: services.id,
+  slug: services.slug,
+  name: services.name,
+  description: services.description,
+  icon: services.icon,
+  route: services.route,
+  requireTwoFactor: services.requireTwoFactor,
+};
+
+/**
+ * Direct grants inside their access window (if they have one).
+ */
+export function currentGrant(now = new Date()) {
+  return and(
+    or(isNull(userServices.startsAt), lte(userServices.startsAt, now)),
+    or(isNull(userServices.expiresAt), gt(userServices.expiresAt, now)),
+  );
+}
+
+/**
+ * Matches services granted to the user directly, through any organization
+ * they belong to, or through any of their groups.
+ */
+function grantedTo(userId: string) {
+  return or(
+    inArray(
+      services.id,
+      db.select({ id: userServices.serviceId }).from(userServices).where(and(eq(userServices.userId, userId), currentGrant())),
+    ),
+    inArray(
+      services.id,
+      db
+        .select({ id: organizationServices.serviceId })
+        .from(organizationServices)
+        .innerJoin(organizationMembers, eq(organizationServices.organizationId, organizationMembers.organizationId))
+        .where(eq(organizationMembers.userId, userId)),
+    ),
+    inArray(
+      services.id,
+      db
+        .select({ id: userGroupServices.serviceId })
+        .from(userGroupServices)
+        .innerJoin(userGroupMembers, eq(userGroupServices.groupId, userGroupMembers.groupId))
+        .where(eq(userGroupMembers.userId, userId)),
+    ),
+  );
+}
+
+/**
+ * Enabled services the user can open. Admins see every enabled service.
+ */
+export async function accessibleServices(userId: string, role: string) {
+  return db
+    .select(serviceColumns)
+    .from(services)
+    .where(role === 'admin' ? eq(services.enabled, true) : and(eq(services.enabled, true), grantedTo(userId)))
+    .orderBy(services.name);
+}
+
+/**
+ * The user's role on each enabled service they've been granted, keyed by
+ * service id. A service granted more than once (say directly and through a
+ * group) gets the most capable of those roles. Pass a slug to look up one service.
+ */
+export async function grantedRoles(userId: string, serviceSlug?: string) {
+  const enabled = and(eq(services.enabled, true), serviceSlug ? eq(services.slug, serviceSlug) : undefined);
+
+  const [direct, viaOrganizations, viaGroups] = await Promise.all([
+    db
+      .select({ serviceId: services.id, role: userServices.role })
+      .from(userServices)
+      .innerJoin(services, eq(userServices.serviceId, services.id))
+      .where(and(eq(userServices.userId, userId), currentGrant(), enabled)),
+    db
+      .select({ serviceId: services.id, role: organizationServices.role })
+      .from(organizationServices)
+      .innerJoin(organizationMembers, eq(organizationServices.organizationId, organizationMembers.organizationId))
+      .innerJoin(services, eq(organizationServices.serviceId, services.id))
+      .where(and(eq(organizationMembers.userId, userId), enabled)),
+    db
+      .select({ serviceId: services.id, role: userGroupServices.role })
+      .from(userGroupServices)
+      .innerJoin(userGroupMembers, eq(userGroupServices.groupId, userGroupMembers.groupId))
+      .innerJoin(services, eq(userGroupServices.serviceId, services.id))
+      .where(and(eq(userGroupMembers.userId, userId), enabled)),
+  ]);
+
+  const byService = new Map<string, string[]>();
+  for (const row of [...direct, ...viaOrganizations, ...viaGroups]) {
+    byService.set(row.serviceId, [...(byService.get(row.serviceId) ?? []), row.role]);
+  }
+
+  const roles = new Map<string, ServiceRole>();
+  for (const [serviceId, granted] of byService) {
+    const role = highestRole(granted);
+    if (role) roles.set(serviceId, role);
+  }
+  return roles;
+}
+
+/**
+ * A (non-admin) user's role on an enabled service, by slug, or null without access.
+ */
+export async function serviceRole(userId: string, serviceSlug: string) {
+  const roles = await grantedRoles(userId, serviceSlug);
+  return highestRole(roles.values());
+}
+
+// --- Effective access, for admins ---
+
+export type AccessSource = { role: string } & (
+  | { type: 'direct' }
+  | { type: 'organization'; id: string; name: string }
+  | { type: 'group'; id: string; name: string }
+);
+
+export type EffectiveService = {
+  id: string;
+  name: string;
+  slug: string;
+  enabled: boolean;
+  // The most capable role across all sources
+  role: ServiceRole;
+  sources: AccessSource[];
+};
+
+/**
+ * Condition for a query over users: the user in `userId` can reach the service
+ * directly, through an organization or through a group.
+ */
+export function canReachService(userId: AnyColumn, serviceId: string) {
+  return or(
+    exists(
+      db
+        .select({ id: userServices.id })
+        .from(userServices)
+        .where(and(eq(userServices.userId, userId), eq(userServices.serviceId, serviceId), currentGrant())),
+    ),
+    exists(
+      db
+        .select({ id: organizationMembers.id })
+        .from(organizationMembers)
+        .innerJoin(organizationServices, eq(organizationServices.organizationId, organizationMembers.organizationId))
+        .where(and(eq(organizationMembers.userId, userId), eq(organizationServices.serviceId, serviceId))),
+    ),
+    exists(
+      db
+        .select({ id: userGroupMembers.id })
+        .from(userGroupMembers)
+        .innerJoin(userGroupServices, eq(userGroupServices.groupId, userGroupMembers.groupId))
+        .where(and(eq(userGroupMembers.userId, userId), eq(userGroupServices.serviceId, serviceId))),
+    ),
+  )!;
+}
+
+/**
+ * Every service each user can reach, with each grant that gives it to them —
+ * so an admin can see that access comes from, say, a group rather than the user.
+ * Pass `userIds` to look at one page of users only.
+ */
+export async function listEffectiveAccess(userIds?: string[]) {
+  const serviceFields = { serviceId: services.id, name: services.name, slug: services.slug, enabled: services.enabled };
+
+  const [direct, viaOrganizations, viaGroups] = await Promise.all([
+    db
+      .select({ userId: userServices.userId, ...serviceFields, role: userServices.role })
+      .from(userServices)
+      .innerJoin(services, eq(userServices.serviceId, services.id))
+      .where(and(currentGrant(), userIds && inArray(userServices.userId, userIds))),
+    db
+      .select({ userId: organizationMembers.userId, ...serviceFields, role: organizationServices.role, sourceId: organizations.id, sourceName: organizations.name })
+      .from(organizationMembers)
+      .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+      .innerJoin(organizationServices, eq(organizationServices.organizationId, organizations.id))
+      .innerJoin(services, eq(organizationServices.serviceId, services.id))
+      .where(userIds && inArray(organizationMembers.userId, userIds)),
+    db
+      .select({ userId: userGroupMembers.userId, ...serviceFields, role: userGroupServices.role, sourceId: userGroups.id, sourceName: userGroups.name })
+      .from(userGroupMembers)
+      .innerJoin(userGroups, eq(userGroupMembers.groupId, userGroups.id))
+      .innerJoin(userGroupServices, eq(userGroupServices.groupId, userGroups.id))
+      .innerJoin(services, eq(userGroupServices.serviceId, services.id))
+      .where(userIds && inArray(userGroupMembers.userId, userIds)),
+  ]);
+
+  const byUser = new Map<string, Map<string, EffectiveService>>();
+  const add = (row: { userId: string; serviceId: string; name: string; slug: string; enabled: boolean }, source: AccessSource) => {
+    if (!byUser.has(row.userId)) byUser.set(row.userId, new Map());
+    const userMap = byUser.get(row.userId)!;
+    if (!userMap.has(row.serviceId)) {
+      userMap.set(row.serviceId, { id: row.serviceId, name: row.name, slug: row.slug, enabled: row.enabled, role: 'viewer', sources: [] });
+    }
+    const service = userMap.get(row.serviceId)!;
+    service.sources.push(source);
+    service.role = highestRole([service.role, source.role]) ?? service.role;
+  };
+
+  for (const row of direct) add(row, { type: 'direct', role: row.role });
+  for (const row of viaOrganizations) add(row, { type: 'organization', id: row.sourceId, name: row.sourceName, role: row.role });
+  for (const row of viaGroups) add(row, { type: 'group', id: row.sourceId, name: row.sourceName, role: row.role });
+
+  return new Map(
+    [...byUser].map(([userId, userMap]) => [userId, [...userMap.values()].sort((a, b) => a.name.localeCompare(b.name))]),
+  );
+}
@@ -0,0 +1,102 @@
+import type { Context, Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { eq } from 'drizzle-orm';
+import { migrate } from 'drizzle-orm/postgres-js/migrator';
+import { db } from './db.js';
+import { services } from './schema.js';
+import { recordAuditEvent } from './audit.js';
+import { requireService } from './middleware/require-service.js';
+import { serviceManifests, type ServiceManifest } from './services/registry.js';
+
+export function missingEnv(manifest: ServiceManifest, environment: NodeJS.ProcessEnv = process.env) {
+  return manifest.requiredEnv.filter((name) => !environment[name]);
+}
+
+/**
+ * Mount every registered service's routers at its API path, behind
+ * requireService. A service missing required env vars still checks access but
+ * then answers 503, so a misconfigured deploy fails loudly instead of 404ing.
+ */
+export async function mountServices(app: Hono, manifests: ServiceManifest[] = serviceManifests) {
+  for (const manifest of manifests) {
+    const paths = [manifest.apiPath, `${manifest.apiPath}/*`];
+    for (const path of paths) app.use(path, requireService(manifest.slug));
+
+    const missing = missingEnv(manifest);
+    if (missing.length > 0) {
+      console.error(`${manifest.name} is unavailable: missing ${missing.join(', ')}`);
+      const unavailable = (_c: Context) => {
+        throw new HTTPException(503, { message: `${manifest.name} is not configured on this server` });
+      };
+      for (const path of paths) app.all(path, unavailable);
+      continue;
+    }
+
+    for (const router of await manifest.loadRoutes()) {
+      app.route(manifest.apiPath, router);
+    }
+  }
+}
+
+/**
+ * Apply migrations for services that ship their own folder. Each gets its own
+ * journal table so its history never mixes with the platform's.
+ */
+export async function runServiceMigrations(manifests: ServiceManifest[] = serviceManifests) {
+  for (const manifest of manifests) {
+    if (!manifest.migrationsFolder) continue;
+    await migrate(db, {
+      migrationsFolder: manifest.migrationsFolder,
+      migrationsTable: `__drizzle_migrations_${manifest.slug.replace(/-/g, '_')}`,
+    });
+  }
+}
+
+/**
+ * Create or update each registered service's row from its manifest. Admins
+ * still decide whether it's enabled and whether it requires 2FA.
+ */
+export async function syncServiceRegistry(manifests: ServiceManifest[] = serviceManifests) {
+  for (const manifest of manifests) {
+    const row = {
+      slug: manifest.slug,
+      name: manifest.name,
+      description: manifest.description,
+      icon: manifest.icon,
+      route: manifest.route,
+    };
+
+    const [existing] = await db.select().from(services).where(eq(services.slug, manifest.slug)).limit(1);
+    if (!existing) {
+      const [created] = await db.insert(services).values(row).onConflictDoNothing({ target: services.slug }).returning();
+      if (created) {
+        await recordAuditEvent(null, {
+          action: 'service.created',
+          actorId: null,
+          actorEmail: null,
+          targetType: 'service',
+          targetId: created.id,
+          targetLabel: created.slug,
+          metadata: { name: created.name, route: created.route, source: 'registry' },
+        });
+      }
+      continue;
+    }
+
+    const changes = Object.fromEntries(
+      Object.entries(row).filter(([key, value]) => existing[key as keyof typeof row] !== value),
+    );
+    if (Object.keys(changes).length === 0) continue;
+
+    await db.update(services).set(changes).where(eq(services.id, existing.id));
+    await recordAuditEvent(null, {
+      action: 'service.updated',
+      actorId: null,
+      actorEmail: null,
+      targetType: 'service',
+      targetId: existing.id,
+      targetLabel: existing.slug,
+      metadata: { changes, source: 'registry' },
+    });
+  }
+}
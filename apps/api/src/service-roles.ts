@@ -0,0 +1,32 @@
+/**
+ * Roles a user can hold on a service, from least to most capable. Each role
+ * unlocks a set of scopes that service routes check with requireScope.
+ */
+export const SERVICE_ROLES = ['viewer', 'reader', 'analyst'] as const;
+
+export type ServiceRole = (typeof SERVICE_ROLES)[number];
+
+export type ServiceScope = 'search' | 'read' | 'chat' | 'export';
+
+// viewer: search results and snippets; reader: full documents; analyst: AI chat and exports
+const ROLE_SCOPES: Record<ServiceRole, ServiceScope[]> = {
+  viewer: ['search'],
+  reader: ['search', 'read'],
+  analyst: ['search', 'read', 'chat', 'export'],
+};
+
+export function scopesForRole(role: ServiceRole): ServiceScope[] {
+  return ROLE_SCOPES[role];
+}
+
+/**
+ * The most capable of several roles, e.g. when a user is granted the same
+ * service directly and through a group. Null when there are none.
+ */
+export function highestRole(roles: Iterable<string>): ServiceRole | null {
+  let best = -1;
+  for (const role of roles) {
+    best = Math.max(best, SERVICE_ROLES.indexOf(role as ServiceRole));
+  }
+  return best >= 0 ? SERVICE_ROLES[best] : null;
+}
@@ -0,0 +1,158 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { and, eq, inArray } from 'drizzle-orm';
+import type { PostgresJsDatabase } from 'drizzle-orm/postgres-js';
+import { services, serviceSettings } from './schema.js';
+
+// Functions here take the database as a parameter so service scripts (e.g.
+// ingestion), which open their own connection, can read settings too.
+type Database = PostgresJsDatabase;
+
+type SettingBase = {
+  label: string;
+  description?: string;
+};
+
+export type TextSetting = SettingBase & {
+  type: 'text';
+  default: string;
+  multiline?: boolean;
+  maxLength?: number;
+};
+
+export type NumberSetting = SettingBase & {
+  type: 'number';
+  default: number;
+  min?: number;
+  max?: number;
+  integer?: boolean;
+  // Shown next to the input, e.g. "MB"
+  unit?: string;
+};
+
+export type SettingDefinition = TextSetting | NumberSetting;
+
+/**
+ * The settings a service declares in its manifest, keyed by setting name.
+ * Declare them with `satisfies SettingDefinitions` to keep each value's type.
+ */
+export type SettingDefinitions = Record<string, SettingDefinition>;
+
+export type SettingsValues<T extends SettingDefinitions> = { [K in keyof T]: T[K]['default'] };
+
+function settingSchema(definition: SettingDefinition) {
+  if (definition.type === 'text') {
+    return z.string().trim()
+      .min(1, `${definition.label} can't be empty`)
+      .max(definition.maxLength ?? 20000, `${definition.label} is too long`);
+  }
+
+  let schema = z.number({ invalid_type_error: `${definition.label} must be a number` });
+  if (definition.integer) schema = schema.int(`${definition.label} must be a whole number`);
+  if (definition.min !== undefined) schema = schema.min(definition.min, `${definition.label} must be at least ${definition.min}`);
+  if (definition.max !== undefined) schema = schema.max(definition.max, `${definition.label} must be at most ${definition.max}`);
+  return schema;
+}
+
+async function storedValues(database: Database, serviceId: string) {
+  const rows = await database
+    .select({ key: serviceSettings.key, value: serviceSettings.value, updatedAt: serviceSettings.updatedAt })
+    .from(serviceSettings)
+    .where(eq(serviceSettings.serviceId, serviceId));
+  return new Map(rows.map((row) => [row.key, row]));
+}
+
+/**
+ * Every setting's effective value. Keys nobody has set use the manifest's
+ * default, as do stored values that no longer pass validation (for example
+ * after a manifest tightened a limit).
+ */
+export async function readServiceSettings<T extends SettingDefinitions>(
+  database: Database,
+  slug: string,
+  definitions: T,
+): Promise<SettingsValues<T>> {
+  const [service] = await database.select({ id: services.id }).from(services).where(eq(services.slug, slug)).limit(1);
+  const stored = service ? await storedValues(database, service.id) : new Map();
+
+  return Object.fromEntries(
+    Object.entries(definitions).map(([key, definition]) => {
+      const parsed = settingSchema(definition).safeParse(stored.get(key)?.value);
+      return [key, parsed.success ? parsed.data : definition.default];
+    }),
+  ) as SettingsValues<T>;
+}
+
+/**
+ * Each setting's definition alongside its current value, for the admin editor.
+ * `updatedAt` is null while a setting is on its default.
+ */
+export async function describeServiceSettings(database: Database, serviceId: string, definitions: SettingDefinitions) {
+  const stored = await storedValues(database, serviceId);
+
+  return Object.entries(definitions).map(([key, definition]) => {
+    const row = stored.get(key);
+    const parsed = settingSchema(definition).safeParse(row?.value);
+    return {
+      key,
+      ...definition,
+      value: parsed.success ? parsed.data : definition.default,
+      updatedAt: parsed.success ? row!.updatedAt : null,
+    };
+  });
+}
+
+/**
+ * Validate and save a partial set of values. A value of null, or one equal to
+ * the default, removes the stored row so the setting follows the manifest
+ * again. Returns the keys whose effective value changed.
+ */
+export async function updateServiceSettings(
+  database: Database,
+  serviceId: string,
+  definitions: SettingDefinitions,
+  input: Record<string, unknown>,
+  updatedBy: string | null,
+) {
+  const values = new Map<string, string | number | null>();
+  for (const [key, raw] of Object.entries(input)) {
+    const definition = definitions[key];
+    if (!definition) {
+      throw new HTTPException(400, { message: `Unknown setting "${key}"` });
+    }
+    if (raw === null) {
+      values.set(key, null);
+      continue;
+    }
+    const parsed = settingSchema(definition).safeParse(raw);
+    if (!parsed.success) {
+      throw new HTTPException(400, { message: parsed.error.issues[0].message });
+    }
+    values.set(key, parsed.data === definition.default ? null : parsed.data);
+  }
+
+  const current = await describeServiceSettings(database, serviceId, definitions);
+  const changed = current
+    .filter((setting) => values.has(setting.key) && (values.get(setting.key) ?? setting.default) !== setting.value)
+    .map((setting) => setting.key);
+
+  const resets = [...values].filter(([, value]) => value === null).map(([key]) => key);
+  const updates = [...values].filter(([, value]) => value !== null);
+
+  if (resets.length > 0) {
+    await database
+      .delete(serviceSettings)
+      .where(and(eq(serviceSettings.serviceId, serviceId), inArray(serviceSettings.key, resets)));
+  }
+  for (const [key, value] of updates) {
+    await database
+      .insert(serviceSettings)
+      .values({ serviceId, key, value, updatedBy })
+      .onConflictDoUpdate({
+        target: [serviceSettings.serviceId, serviceSettings.key],
+        set: { value, updatedBy, updatedAt: new Date() },
+      });
+  }
+
+  return changed;
+}
@@ -0,0 +1,36 @@
+import type { Hono } from 'hono';
+import type { SettingDefinitions } from '../service-settings.js';
+import { rlcManifest } from './rlc/manifest.js';
+
+/**
+ * What a service under services/<name>/ declares about itself. The platform
+ * mounts its API behind requireService(slug), keeps its row in the `services`
+ * table in step with the manifest, and runs its migrations at startup.
+ */
+export type ServiceManifest = {
+  // What access checks, grants and API tokens refer to; never change it
+  slug: string;
+  name: string;
+  description: string;
+  icon: string;
+  // Frontend path under /app (see apps/web/src/services/registry.ts)
+  route: string;
+  // Where the API routers are mounted, e.g. /api/documents
+  apiPath: `/api/${string}`;
+  // Without these the API answers 503 instead of mounting the routers
+  requiredEnv: string[];
+  // Only for services that generate their own migrations. Tables declared in
+  // services/<name>/schema.ts are picked up by drizzle.config.ts and migrated
+  // with the platform's drizzle/ folder.
+  migrationsFolder?: string;
+  // Values admins can change without a deploy (see service-settings.ts)
+  settings?: SettingDefinitions;
+  // Loaded lazily so scripts can read manifests without the server's env
+  loadRoutes: () => Promise<Hono[]>;
+};
+
+export const serviceManifests: ServiceManifest[] = [rlcManifest];
+
+export function findManifest(slug: string) {
+  return serviceManifests.find((manifest) => manifest.slug === slug);
+}
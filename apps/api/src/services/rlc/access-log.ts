@@ -0,0 +1,158 @@
+import type { Context } from 'hono';
+import { and, eq, gte, lt, desc, sql } from 'drizzle-orm';
+import { db } from '../../db.js';
+import { clientIp } from '../../sessions.js';
+import { rlcAccessLog, rlcDocuments } from './schema.js';
+
+export type AccessAction = 'view' | 'search' | 'export' | 'chat_search' | 'chat_get_document';
+
+export type AccessEntry = {
+  action: AccessAction;
+  documentId?: string | null;
+  query?: string | null;
+  filters?: Record<string, unknown>;
+  resultCount?: number | null;
+};
+
+// The signed-in user behind a request (session or API token)
+export type Accessor = {
+  userId: string;
+  email: string;
+  // Decides which collections they can read (see collections.ts)
+  role: string;
+  apiTokenId: string | null;
+  // Set when an admin is viewing the app as this user
+  impersonatorEmail: string | null;
+  ipAddress: string | null;
+};
+
+export function accessorFromContext(c: Context): Accessor {
+  const payload = c.get('jwtPayload');
+  return {
+    userId: payload.sub,
+    email: payload.email,
+    role: payload.role,
+    apiTokenId: payload.apiTokenId ?? null,
+    impersonatorEmail: payload.impersonator?.email ?? null,
+    ipAddress: clientIp(c),
+  };
+}
+
+/**
+ * Record a document access. Like the audit log, a failed write is logged and
+ * swallowed so that a logging problem never hides a document from its reader.
+ */
+export async function logDocumentAccess(accessor: Accessor, entry: AccessEntry) {
+  // Drop empty filter values so the log shows only what was actually applied
+  const filters = entry.filters
+    ? Object.fromEntries(Object.entries(entry.filters).filter(([, v]) => v !== undefined && v !== null && v !== ''))
+    : {};
+
+  try {
+    await db.insert(rlcAccessLog).values({
+      userId: accessor.userId,
+      userEmail: accessor.email,
+      action: entry.action,
+      documentId: entry.documentId ?? null,
+      query: entry.query ?? null,
+      filters: Object.keys(filters).length > 0 ? filters : null,
+      resultCount: entry.resultCount ?? null,
+      apiTokenId: accessor.apiTokenId,
+      impersonatorEmail: accessor.impersonatorEmail,
+      ipAddress: accessor.ipAddress,
+    });
+  } catch (err) {
+    console.error(`Failed to log RLC ${entry.action}:`, err);
+  }
+}
+
+// --- Reports ---
+
+export type ReportRange = { from?: Date; to?: Date; limit: number };
+
+function rangeConditions(range: ReportRange) {
+  return [
+    range.from ? gte(rlcAccessLog.createdAt, range.from) : undefined,
+    range.to ? lt(rlcAccessLog.createdAt, range.to) : undefined,
+  ];
+}
+
+/**
+ * Everyone who opened a document (web view or chat), newest first, plus per-user totals.
+ */
+export async function documentAccessReport(documentId: string, range: ReportRange) {
+  const where = and(eq(rlcAccessLog.documentId, documentId), ...rangeConditions(range));
+
+  const [events, viewers] = await Promise.all([
+    db
+      .select({
+        id: rlcAccessLog.id,
+        userId: rlcAccessLog.userId,
+        userEmail: rlcAccessLog.userEmail,
+        action: rlcAccessLog.action,
+        apiTokenId: rlcAccessLog.apiTokenId,
+        impersonatorEmail: rlcAccessLog.impersonatorEmail,
+        ipAddress: rlcAccessLog.ipAddress,
+        createdAt: rlcAccessLog.createdAt,
+      })
+      .from(rlcAccessLog)
+      .where(where)
+      .orderBy(desc(rlcAccessLog.createdAt))
+      .limit(range.limit),
+    db
+      .select({
+        userId: rlcAccessLog.userId,
+        userEmail: rlcAccessLog.userEmail,
+        accessCount: sql<number>`count(*)::int`,
+        firstAccessAt: sql<Date>`min(${rlcAccessLog.createdAt})`.mapWith(rlcAccessLog.createdAt),
+        lastAccessAt: sql<Date>`max(${rlcAccessLog.createdAt})`.mapWith(rlcAccessLog.createdAt),
+      })
+      .from(rlcAccessLog)
+      .where(where)
+      .groupBy(rlcAccessLog.userId, rlcAccessLog.userEmail)
+      .orderBy(desc(sql`max(${rlcAccessLog.createdAt})`)),
+  ]);
+
+  return { events, viewers };
+}
+
+/**
+ * A user's searches and document views, newest first, with totals per action.
+ */
+export async function userActivityReport(userId: string, range: ReportRange) {
+  const where = and(eq(rlcAccessLog.userId, userId), ...rangeConditions(range));
+
+  const [events, totals] = await Promise.all([
+    db
+      .select({
+        id: rlcAccessLog.id,
+        action: rlcAccessLog.action,
+        documentId: rlcAccessLog.documentId,
+        fileName: rlcDocuments.fileName,
+        dropboxPath: rlcDocuments.dropboxPath,
+        query: rlcAccessLog.query,
+        filters: rlcAccessLog.filters,
+        resultCount: rlcAccessLog.resultCount,
+        apiTokenId: rlcAccessLog.apiTokenId,
+        impersonatorEmail: rlcAccessLog.impersonatorEmail,
+        ipAddress: rlcAccessLog.ipAddress,
+        createdAt: rlcAccessLog.createdAt,
+      })
+      .from(rlcAccessLog)
+      .leftJoin(rlcDocuments, eq(rlcAccessLog.documentId, rlcDocuments.id))
+      .where(where)
+      .orderBy(desc(rlcAccessLog.createdAt))
+      .limit(range.limit),
+    db
+      .select({
+        action: rlcAccessLog.action,
+        count: sql<number>`count(*)::int`,
+        documents: sql<number>`count(distinct ${rlcAccessLog.documentId})::int`,
+      })
+      .from(rlcAccessLog)
+      .where(where)
+      .groupBy(rlcAccessLog.action),
+  ]);
+
+  return { events, totals };
+}
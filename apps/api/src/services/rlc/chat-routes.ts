@@ -1,10 +1,19 @@
 import { Hono } from 'hono';
 import { streamSSE } from 'hono/streaming';
+import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 import Anthropic from '@anthropic-ai/sdk';
 import { db } from '../../db.js';
 import { env } from '../../env.js';
-import { sql } from 'drizzle-orm';
+import { sql, type SQL } from 'drizzle-orm';
+import { requireScope } from '../../middleware/require-scope.js';
+import { accessorFromContext, logDocumentAccess, type Accessor } from './access-log.js';
+import { readServiceSettings } from '../../service-settings.js';
+import { rlcManifest } from './manifest.js';
+import { rlcSettings } from './settings.js';
+import { collectionScope, inCollections } from './collections.js';
+import { parseSearchQuery, searchQuerySql } from './search-query.js';
+import { searchFiltersSchema, searchFiltersSql } from './search-filters.js';
 
 export const rlcChatRoutes = new Hono();
 
@@ -20,7 +29,10 @@ const TOOLS: Anthropic.Tool[] = [
       properties: {
         query: {
           type: 'string',
-          description: 'Search query (keywords or phrases). PostgreSQL full-text search with English stemming.',
+          description:
+            'Search query. Words are stemmed and all must match. Supports "exact phrases", -excluded words, ' +
+            'OR between words or phrases, prefix* matching, and the qualifiers filename:text, type:pdf,docx, ' +
+            'from:sender (emails), before:YYYY-MM-DD and after:YYYY-MM-DD (last modified).',
         },
         file_type: {
           type: 'string',
@@ -30,6 +42,20 @@ const TOOLS: Anthropic.Tool[] = [
           type: 'string',
           description: 'Optional directory path prefix to narrow search scope.',
         },
+        modified_from: {
+          type: 'string',
+          description: 'Optional earliest last-modified date, YYYY-MM-DD (inclusive).',
+        },
+        modified_to: {
+          type: 'string',
+          description: 'Optional latest last-modified date, YYYY-MM-DD (inclusive).',
+        },
+        min_pages: { type: 'number', description: 'Optional minimum page count (documents without one are excluded).' },
+        max_pages: { type: 'number', description: 'Optional maximum page count.' },
+        min_words: { type: 'number', description: 'Optional minimum word count.' },
+        max_words: { type: 'number', description: 'Optional maximum word count.' },
+        min_size_mb: { type: 'number', description: 'Optional minimum file size in megabytes.' },
+        max_size_mb: { type: 'number', description: 'Optional maximum file size in megabytes.' },
         limit: {
           type: 'number',
           description: 'Max results to return (default 10, max 50).',
@@ -80,51 +106,62 @@ const TOOLS: Anthropic.Tool[] = [
   },
 ];
 
-// --- System prompt ---
-
-const SYSTEM_PROMPT = `You are a document research assistant for the RL Controls / Hitachi Rail collaboration project. You have access to a corpus of approximately 12,500 documents (45 million words) from a shared Dropbox folder. The documents include PDFs, Word documents, Excel spreadsheets, emails (MSG/EML), and text files related to rail infrastructure engineering.
-
-Your job is to help users find specific documents, answer questions about the document corpus, and provide information extracted from the documents.
-
-When searching:
-- Start with broad keyword searches, then refine with more specific terms
-- Try multiple search strategies if the first attempt doesn't yield good results
-- Use directory filtering to narrow scope when you know the relevant area
-- Consider synonyms and alternative phrasings
-- For emails, search for subject lines, sender names, or key phrases
-- You can retrieve full document text to read and analyze content in detail
-
-When presenting results:
-- Cite specific documents by filename and path
-- Quote relevant passages when answering questions
-- Note the file type, date, and location for context
-- If results are ambiguous, present multiple options and ask for clarification
-
-The Dropbox folder structure starts with "/HITACHI RAIL COLLABORATION at RLC/" and contains engineering, project management, and correspondence directories.`;
-
 // --- Tool execution ---
 
-async function executeToolCall(toolName: string, input: Record<string, any>): Promise<any> {
+// Who is chatting, and the collections their tool calls may read
+type ToolContext = {
+  accessor: Accessor;
+  collectionId?: string;
+  scope: SQL;
+};
+
+async function executeToolCall(toolName: string, input: Record<string, any>, context: ToolContext): Promise<any> {
   switch (toolName) {
     case 'search_documents':
-      return executeSearch(input);
+      return executeSearch(input, context);
     case 'get_document':
-      return executeGetDocument(input);
+      return executeGetDocument(input, context);
     case 'list_directories':
-      return executeListDirectories(input);
+      return executeListDirectories(input, context);
     case 'get_corpus_stats':
-      return executeGetStats();
+      return executeGetStats(context);
     default:
       return { error: `Unknown tool: ${toolName}` };
   }
 }
 
-async function executeSearch(input: Record<string, any>) {
+async function executeSearch(input: Record<string, any>, { accessor, collectionId, scope }: ToolContext) {
   const query = input.query as string;
   const fileType = input.file_type as string | undefined;
   const directory = input.directory as string | undefined;
   const limit = Math.min(input.limit ?? 10, 50);
 
+  const megabytes = (mb: unknown) => (typeof mb === 'number' ? Math.round(mb * 1024 * 1024) : undefined);
+  const ranges = searchFiltersSchema.safeParse({
+    modifiedFrom: input.modified_from,
+    modifiedTo: input.modified_to,
+    minPages: input.min_pages,
+    maxPages: input.max_pages,
+    minWords: input.min_words,
+    maxWords: input.max_words,
+    minSizeBytes: megabytes(input.min_size_mb),
+    maxSizeBytes: megabytes(input.max_size_mb),
+  });
+  if (!ranges.success) {
+    const issue = ranges.error.issues[0];
+    return { error: `Invalid ${issue.path.join('.')}: ${issue.message}` };
+  }
+
+  // A malformed query or range goes back to the model, which can fix it and retry
+  let search: ReturnType<typeof searchQuerySql>;
+  let rangeFilter: SQL;
+  try {
+    search = searchQuerySql(parseSearchQuery(query));
+    rangeFilter = searchFiltersSql(ranges.data);
+  } catch (err) {
+    return { error: err instanceof Error ? err.message : 'Invalid search' };
+  }
+
   const typeFilter = fileType ? sql` AND file_type = ${fileType}` : sql``;
   const dirFilter = directory ? sql` AND directory_path LIKE ${directory + '%'}` : sql``;
 
@@ -132,17 +169,14 @@ async function executeSearch(input: Record<string, any>) {
     db.execute(sql`
       SELECT
         id, file_name, file_type, dropbox_path, directory_path,
-        word_count, page_count, dropbox_modified,
-        ts_rank(text_search, plainto_tsquery('english', ${query})) AS rank,
-        ts_headline(
-          'english',
-          coalesce(extracted_text, ''),
-          plainto_tsquery('english', ${query}),
-          'StartSel=**, StopSel=**, MaxWords=50, MinWords=25, MaxFragments=2, FragmentDelimiter= ... '
-        ) AS snippet
+        word_count, page_count, file_size_bytes, dropbox_modified,
+        ${search.rank} AS rank,
+        ${search.snippet('StartSel=**, StopSel=**, MaxWords=50, MinWords=25, MaxFragments=2, FragmentDelimiter= ... ')} AS snippet
       FROM rlc_documents
-      WHERE text_search @@ plainto_tsquery('english', ${query})
+      WHERE ${search.where}
         AND status = 'completed'
+        AND ${scope}
+        AND ${rangeFilter}
         ${typeFilter}
         ${dirFilter}
       ORDER BY rank DESC
@@ -151,13 +185,23 @@ async function executeSearch(input: Record<string, any>) {
     db.execute(sql`
       SELECT count(*)::int AS total
       FROM rlc_documents
-      WHERE text_search @@ plainto_tsquery('english', ${query})
+      WHERE ${search.where}
         AND status = 'completed'
+        AND ${scope}
+        AND ${rangeFilter}
         ${typeFilter}
         ${dirFilter}
     `),
   ]);
 
+  const totalMatches = (countResult as any[])[0]?.total ?? 0;
+  await logDocumentAccess(accessor, {
+    action: 'chat_search',
+    query,
+    filters: { collection: collectionId, type: fileType, directory, ...ranges.data },
+    resultCount: totalMatches,
+  });
+
   return {
     results: (results as any[]).map((r) => ({
       id: r.id,
@@ -167,16 +211,17 @@ async function executeSearch(input: Record<string, any>) {
       directoryPath: r.directory_path,
       wordCount: r.word_count,
       pageCount: r.page_count,
+      fileSizeBytes: r.file_size_bytes ? Number(r.file_size_bytes) : null,
       dropboxModified: r.dropbox_modified,
       rank: parseFloat(r.rank),
       snippet: r.snippet,
     })),
-    totalMatches: (countResult as any[])[0]?.total ?? 0,
+    totalMatches,
     query,
   };
 }
 
-async function executeGetDocument(input: Record<string, any>) {
+async function executeGetDocument(input: Record<string, any>, { accessor, scope }: ToolContext) {
   const id = input.document_id as string;
 
   const rows = await db.execute(sql`
@@ -185,13 +230,15 @@ async function executeGetDocument(input: Record<string, any>) {
       word_count, page_count, dropbox_modified, status,
       extracted_text, text_preview
     FROM rlc_documents
-    WHERE id = ${id}
+    WHERE id = ${id} AND ${scope}
     LIMIT 1
   `);
 
   const doc = (rows as any[])[0];
   if (!doc) return { error: 'Document not found' };
 
+  await logDocumentAccess(accessor, { action: 'chat_get_document', documentId: doc.id });
+
   // Truncate very long text to avoid blowing up context window
   const text = doc.extracted_text || '';
   const truncated =
@@ -210,7 +257,7 @@ async function executeGetDocument(input: Record<string, any>) {
   };
 }
 
-async function executeListDirectories(input: Record<string, any>) {
+async function executeListDirectories(input: Record<string, any>, { scope }: ToolContext) {
   const prefix = input.prefix as string | undefined;
   const prefixFilter = prefix ? sql` AND directory_path LIKE ${prefix + '%'}` : sql``;
 
@@ -219,7 +266,7 @@ async function executeListDirectories(input: Record<string, any>) {
       directory_path,
       count(*)::int AS doc_count
     FROM rlc_documents
-    WHERE status = 'completed' AND directory_path IS NOT NULL
+    WHERE status = 'completed' AND directory_path IS NOT NULL AND ${scope}
       ${prefixFilter}
     GROUP BY directory_path
     ORDER BY directory_path
@@ -233,7 +280,7 @@ async function executeListDirectories(input: Record<string, any>) {
   };
 }
 
-async function executeGetStats() {
+async function executeGetStats({ scope }: ToolContext) {
   const [mainStats, typeBreakdown] = await Promise.all([
     db.execute(sql`
       SELECT
@@ -241,10 +288,11 @@ async function executeGetStats() {
         count(*) FILTER (WHERE status = 'completed')::int AS indexed_documents,
         coalesce(sum(word_count) FILTER (WHERE status = 'completed'), 0)::bigint AS total_words
       FROM rlc_documents
+      WHERE ${scope}
     `),
     db.execute(sql`
       SELECT file_type, count(*)::int AS count
-      FROM rlc_documents WHERE status = 'completed'
+      FROM rlc_documents WHERE status = 'completed' AND ${scope}
       GROUP BY file_type ORDER BY count DESC
     `),
   ]);
@@ -264,6 +312,8 @@ async function executeGetStats() {
 // --- Chat endpoint ---
 
 const chatSchema = z.object({
+  // Without one the chat searches every collection the user can read
+  collectionId: z.string().uuid().optional(),
   messages: z
     .array(
       z.object({
@@ -274,11 +324,22 @@ const chatSchema = z.object({
     .min(1),
 });
 
-rlcChatRoutes.post('/chat', async (c) => {
+rlcChatRoutes.post('/chat', requireScope('chat'), async (c) => {
+  // Search and documents don't need the key, so only chat is off without it
+  if (!env.ANTHROPIC_API_KEY) {
+    throw new HTTPException(503, { message: 'Chat is not configured on this server' });
+  }
+
   const body = await c.req.json();
-  const { messages } = chatSchema.parse(body);
+  const { collectionId, messages } = chatSchema.parse(body);
 
   const anthropic = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
+  const accessor = accessorFromContext(c);
+  const settings = await readServiceSettings(db, rlcManifest.slug, rlcSettings);
+  const collections = await collectionScope(accessor, collectionId);
+  const context: ToolContext = { accessor, collectionId, scope: inCollections(collections) };
+  // A collection's own prompt wins when the chat is about that collection alone
+  const systemPrompt = (collectionId && collections[0].systemPrompt) || settings.systemPrompt;
 
   return streamSSE(c, async (stream) => {
     let conversationMessages = [...messages] as Anthropic.MessageParam[];
@@ -286,9 +347,9 @@ rlcChatRoutes.post('/chat', async (c) => {
 
     while (continueLoop) {
       const response = await anthropic.messages.create({
-        model: 'claude-sonnet-4-20250514',
+        model: settings.chatModel,
         max_tokens: 4096,
-        system: SYSTEM_PROMPT,
+        system: systemPrompt,
         tools: TOOLS,
         messages: conversationMessages,
       });
@@ -311,7 +372,7 @@ rlcChatRoutes.post('/chat', async (c) => {
         const toolResults: Anthropic.ToolResultBlockParam[] = [];
         for (const block of toolUseBlocks) {
           if (block.type === 'tool_use') {
-            const result = await executeToolCall(block.name, block.input as Record<string, any>);
+            const result = await executeToolCall(block.name, block.input as Record<string, any>, context);
             toolResults.push({
               type: 'tool_result',
               tool_use_id: block.id,
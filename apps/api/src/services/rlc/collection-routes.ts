@@ -0,0 +1,276 @@
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { HTTPException } from 'hono/http-exception';
+import { and, desc, eq, inArray, sql } from 'drizzle-orm';
+import { db } from '../../db.js';
+import { users, userGroups, organizations } from '../../schema.js';
+import { requireAdmin } from '../../middleware/require-admin.js';
+import { requireScope } from '../../middleware/require-scope.js';
+import { recordAuditEvent } from '../../audit.js';
+import { accessorFromContext } from './access-log.js';
+import { accessibleCollections, PRINCIPAL_TYPES, type PrincipalType } from './collections.js';
+import { rlcCollections, rlcCollectionGrants, rlcDocuments, rlcIngestionRuns } from './schema.js';
+
+export const rlcCollectionRoutes = new Hono();
+
+// ===================== COLLECTIONS =====================
+
+// GET /collections — the collections the caller can read, with their document
+// counts. Admins also get each one's prompt override, grant count and last
+// ingestion run.
+rlcCollectionRoutes.get('/collections', requireScope('search'), async (c) => {
+  const accessor = accessorFromContext(c);
+  const collections = await accessibleCollections(accessor);
+  const ids = collections.map((collection) => collection.id);
+
+  const counts = await db
+    .select({ collectionId: rlcDocuments.collectionId, count: sql<number>`count(*)::int` })
+    .from(rlcDocuments)
+    .where(and(inArray(rlcDocuments.collectionId, ids), eq(rlcDocuments.status, 'completed')))
+    .groupBy(rlcDocuments.collectionId);
+  const countMap = new Map(counts.map((r) => [r.collectionId, r.count]));
+
+  const isAdmin = accessor.role === 'admin';
+  const [grantCounts, lastRuns] = isAdmin
+    ? await Promise.all([
+        db
+          .select({ collectionId: rlcCollectionGrants.collectionId, count: sql<number>`count(*)::int` })
+          .from(rlcCollectionGrants)
+          .groupBy(rlcCollectionGrants.collectionId),
+        db
+          .selectDistinctOn([rlcIngestionRuns.collectionId])
+          .from(rlcIngestionRuns)
+          .orderBy(rlcIngestionRuns.collectionId, desc(rlcIngestionRuns.startedAt)),
+      ])
+    : [[], []];
+  const grantMap = new Map(grantCounts.map((r) => [r.collectionId, r.count]));
+  const runMap = new Map(lastRuns.map((run) => [run.collectionId, run]));
+
+  return c.json({
+    collections: collections.map(({ systemPrompt, ...collection }) => ({
+      ...collection,
+      documentCount: countMap.get(collection.id) ?? 0,
+      ...(isAdmin && {
+        systemPrompt,
+        grantCount: grantMap.get(collection.id) ?? 0,
+        lastRun: runMap.get(collection.id) ?? null,
+      }),
+    })),
+  });
+});
+
+const collectionSchema = z.object({
+  slug: z.string().regex(/^[a-z0-9-]+$/, 'Slug may only contain lowercase letters, digits and dashes').max(100),
+  name: z.string().trim().min(1, 'Name is required').max(255),
+  description: z.string().trim().max(2000).nullable().optional(),
+  sourceRoot: z.string().trim().regex(/^\/.+[^/]$/, 'Source folder must be a Dropbox path like /Client Documents'),
+  // Empty falls back to the service's chat prompt setting
+  systemPrompt: z.string().trim().max(20000).nullable().optional(),
+  restricted: z.boolean().default(false),
+});
+
+// POST /collections — add a collection; documents arrive with the next ingestion run
+rlcCollectionRoutes.post('/collections', requireAdmin, async (c) => {
+  const body = collectionSchema.parse(await c.req.json());
+
+  const [collection] = await db
+    .insert(rlcCollections)
+    .values({ ...body, description: body.description || null, systemPrompt: body.systemPrompt || null })
+    .onConflictDoNothing({ target: rlcCollections.slug })
+    .returning();
+
+  if (!collection) {
+    throw new HTTPException(409, { message: 'A collection with this slug already exists' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'collection.created',
+    targetType: 'collection',
+    targetId: collection.id,
+    targetLabel: collection.slug,
+    metadata: { name: collection.name, sourceRoot: collection.sourceRoot, restricted: collection.restricted },
+  });
+  return c.json({ collection }, 201);
+});
+
+// PATCH /collections/:collectionId — edit everything but the slug, which
+// ingestion scripts refer to
+rlcCollectionRoutes.patch('/collections/:collectionId', requireAdmin, async (c) => {
+  const id = z.string().uuid().parse(c.req.param('collectionId'));
+  const body = collectionSchema.omit({ slug: true }).partial().parse(await c.req.json());
+
+  const changes = {
+    ...body,
+    ...(body.description !== undefined && { description: body.description || null }),
+    ...(body.systemPrompt !== undefined && { systemPrompt: body.systemPrompt || null }),
+  };
+  if (Object.keys(changes).length === 0) {
+    throw new HTTPException(400, { message: 'Nothing to update' });
+  }
+
+  const [collection] = await db
+    .update(rlcCollections)
+    .set(changes)
+    .where(eq(rlcCollections.id, id))
+    .returning();
+
+  if (!collection) {
+    throw new HTTPException(404, { message: 'Collection not found' });
+  }
+
+  // The prompt can be long; record whether it's custom, not its text
+  const logged = {
+    ...changes,
+    ...(changes.systemPrompt !== undefined && { systemPrompt: changes.systemPrompt ? 'custom' : 'default' }),
+  };
+  await recordAuditEvent(c, {
+    action: 'collection.updated',
+    targetType: 'collection',
+    targetId: id,
+    targetLabel: collection.slug,
+    metadata: { changes: logged },
+  });
+  return c.json({ collection });
+});
+
+// DELETE /collections/:collectionId — remove a collection with all of its
+// documents, grants and ingestion history
+rlcCollectionRoutes.delete('/collections/:collectionId', requireAdmin, async (c) => {
+  const id = z.string().uuid().parse(c.req.param('collectionId'));
+
+  const [{ documentCount }] = await db
+    .select({ documentCount: sql<number>`count(*)::int` })
+    .from(rlcDocuments)
+    .where(eq(rlcDocuments.collectionId, id));
+
+  const [deleted] = await db
+    .delete(rlcCollections)
+    .where(eq(rlcCollections.id, id))
+    .returning({ id: rlcCollections.id, slug: rlcCollections.slug, name: rlcCollections.name });
+
+  if (!deleted) {
+    throw new HTTPException(404, { message: 'Collection not found' });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'collection.deleted',
+    targetType: 'collection',
+    targetId: id,
+    targetLabel: deleted.slug,
+    metadata: { name: deleted.name, removedDocuments: documentCount },
+  });
+  return c.json({ success: true });
+});
+
+// ===================== COLLECTION ACCESS =====================
+
+type Principal = { principalType: string; principalId: string };
+
+const principalKey = (principal: Principal) => `${principal.principalType}:${principal.principalId}`;
+
+// Display names for grant principals, which live in the platform's tables,
+// keyed by principalKey; principals that no longer exist are missing
+async function principalLabels(grants: Principal[]) {
+  const idsOf = (type: PrincipalType) => grants.filter((g) => g.principalType === type).map((g) => g.principalId);
+  const [userRows, groupRows, organizationRows] = await Promise.all([
+    db.select({ id: users.id, label: users.email }).from(users).where(inArray(users.id, idsOf('user'))),
+    db.select({ id: userGroups.id, label: userGroups.name }).from(userGroups).where(inArray(userGroups.id, idsOf('group'))),
+    db
+      .select({ id: organizations.id, label: organizations.name })
+      .from(organizations)
+      .where(inArray(organizations.id, idsOf('organization'))),
+  ]);
+  const rows = [
+    ...userRows.map((row) => ({ principalType: 'user', principalId: row.id, label: row.label })),
+    ...groupRows.map((row) => ({ principalType: 'group', principalId: row.id, label: row.label })),
+    ...organizationRows.map((row) => ({ principalType: 'organization', principalId: row.id, label: row.label })),
+  ];
+  return new Map(rows.map((row) => [principalKey(row), row.label]));
+}
+
+// GET /collections/:collectionId/access — who a restricted collection is granted to
+rlcCollectionRoutes.get('/collections/:collectionId/access', requireAdmin, async (c) => {
+  const id = z.string().uuid().parse(c.req.param('collectionId'));
+
+  const grants = await db
+    .select()
+    .from(rlcCollectionGrants)
+    .where(eq(rlcCollectionGrants.collectionId, id))
+    .orderBy(rlcCollectionGrants.principalType, rlcCollectionGrants.createdAt);
+  const labels = await principalLabels(grants);
+
+  return c.json({
+    // Deleting a principal removes its grants; this hides any that were missed
+    grants: grants
+      .filter((grant) => labels.has(principalKey(grant)))
+      .map((grant) => ({ ...grant, label: labels.get(principalKey(grant))! })),
+  });
+});
+
+const grantSchema = z.object({
+  principalType: z.enum(PRINCIPAL_TYPES),
+  principalId: z.string().uuid(),
+});
+
+// POST /collections/:collectionId/access — grant a user, group or organization
+rlcCollectionRoutes.post('/collections/:collectionId/access', requireAdmin, async (c) => {
+  const id = z.string().uuid().parse(c.req.param('collectionId'));
+  const body = grantSchema.parse(await c.req.json());
+
+  const [collection] = await db
+    .select({ slug: rlcCollections.slug })
+    .from(rlcCollections)
+    .where(eq(rlcCollections.id, id))
+    .limit(1);
+  if (!collection) {
+    throw new HTTPException(404, { message: 'Collection not found' });
+  }
+
+  const label = (await principalLabels([body])).get(principalKey(body));
+  if (!label) {
+    throw new HTTPException(404, { message: `That ${body.principalType} doesn't exist` });
+  }
+
+  const [grant] = await db
+    .insert(rlcCollectionGrants)
+    .values({ collectionId: id, ...body, grantedBy: c.get('jwtPayload').sub })
+    .onConflictDoNothing()
+    .returning();
+
+  if (!grant) {
+    throw new HTTPException(409, { message: `This ${body.principalType} already has access` });
+  }
+
+  await recordAuditEvent(c, {
+    action: 'collection.access_granted',
+    targetType: 'collection',
+    targetId: id,
+    targetLabel: collection.slug,
+    metadata: { principalType: body.principalType, principalId: body.principalId, principal: label },
+  });
+  return c.json({ grant: { ...grant, label } }, 201);
+});
+
+// DELETE /collections/:collectionId/access/:grantId — revoke a grant
+rlcCollectionRoutes.delete('/collections/:collectionId/access/:grantId', requireAdmin, async (c) => {
+  const id = z.string().uuid().parse(c.req.param('collectionId'));
+  const grantId = z.string().uuid().parse(c.req.param('grantId'));
+
+  const [deleted] = await db
+    .delete(rlcCollectionGrants)
+    .where(and(eq(rlcCollectionGrants.id, grantId), eq(rlcCollectionGrants.collectionId, id)))
+    .returning();
+
+  if (!deleted) {
+    throw new HTTPException(404, { message: 'Grant not found' });
+  }
+
+  const label = (await principalLabels([deleted])).get(principalKey(deleted));
+  await recordAuditEvent(c, {
+    action: 'collection.access_revoked',
+    targetType: 'collection',
+    targetId: id,
+    metadata: { principalType: deleted.principalType, principalId: deleted.principalId, principal: label ?? null },
+  });
+  return c.json({ success: true });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getTableColumns } from 'drizzle-orm';
+
+// Queries the code ran, and the rows to answer them with (in order)
+let queries: Array<{ sql: string; params: unknown[] }> = [];
+let results: any[][] = [];
+
+// The real query builder over a client that only records, so the visibility
+// rules can be checked in the SQL they produce
+vi.mock('../../db.js', async () => {
+  const { drizzle } = await import('drizzle-orm/postgres-js');
+  const client = {
+    options: { parsers: {}, serializers: {} },
+    unsafe: (sql: string, params: unknown[]) => {
+      queries.push({ sql, params });
+      const rows = results.shift() ?? [];
+      return Object.assign(Promise.resolve(rows), { values: async () => rows });
+    },
+  };
+  return { db: drizzle(client as any) };
+});
+
+const { accessibleCollections, collectionScope } = await import('./collections.js');
+const { rlcCollections } = await import('./schema.js');
+
+const userId = '123e4567-e89b-12d3-a456-426614174000';
+const collectionId = '55555555-5555-5555-5555-555555555555';
+
+// A row as the driver returns it for select() of the whole table
+function collectionRow(values: Record<string, unknown>) {
+  return Object.keys(getTableColumns(rlcCollections)).map((key) => values[key] ?? null);
+}
+
+beforeEach(() => {
+  queries = [];
+  results = [];
+});
+
+describe('accessibleCollections', () => {
+  it('shows unrestricted collections and restricted ones granted to the user, their orgs or their groups', async () => {
+    await accessibleCollections({ userId, role: 'user' });
+
+    expect(queries).toHaveLength(1);
+    const { sql, params } = queries[0];
+    expect(sql).toContain('where ("rlc_collections"."restricted" = $1 or exists (select "id" from "rlc_collection_grants"');
+    expect(sql).toContain('("rlc_collection_grants"."principal_type" = $2 and "rlc_collection_grants"."principal_id" = $3)');
+    expect(sql).toContain(
+      '("rlc_collection_grants"."principal_type" = $4 and "rlc_collection_grants"."principal_id" in ' +
+        '(select "organization_id" from "organization_members" where "organization_members"."user_id" = $5))',
+    );
+    expect(sql).toContain(
+      '("rlc_collection_grants"."principal_type" = $6 and "rlc_collection_grants"."principal_id" in ' +
+        '(select "group_id" from "user_group_members" where "user_group_members"."user_id" = $7))',
+    );
+    expect(params).toEqual([false, 'user', userId, 'organization', userId, 'group', userId]);
+  });
+
+  it('shows admins every collection', async () => {
+    await accessibleCollections({ userId, role: 'admin' });
+
+    expect(queries[0].sql).not.toContain('where');
+    expect(queries[0].params).toEqual([]);
+  });
+});
+
+describe('collectionScope', () => {
+  it('narrows to the requested collection when the user can see it', async () => {
+    results.push([collectionRow({ id: collectionId, slug: 'claims', name: 'Claims', restricted: true })]);
+
+    const scope = await collectionScope({ userId, role: 'user' }, collectionId);
+    expect(scope).toEqual([expect.objectContaining({ id: collectionId, slug: 'claims' })]);
+  });
+
+  it('reports a collection the user cannot see as missing', async () => {
+    results.push([collectionRow({ id: 'another-collection', slug: 'public', name: 'Public' })]);
+
+    await expect(collectionScope({ userId, role: 'user' }, collectionId)).rejects.toThrow('Collection not found');
+  });
+});
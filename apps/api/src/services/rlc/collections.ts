@@ -0,0 +1,78 @@
+import { HTTPException } from 'hono/http-exception';
+import { and, eq, exists, inArray, or } from 'drizzle-orm';
+import { db } from '../../db.js';
+import { organizationMembers, userGroupMembers } from '../../schema.js';
+import { rlcCollections, rlcCollectionGrants, rlcDocuments } from './schema.js';
+
+export const PRINCIPAL_TYPES = ['user', 'group', 'organization'] as const;
+
+export type PrincipalType = (typeof PRINCIPAL_TYPES)[number];
+
+// Who is asking; admins see every collection
+export type CollectionViewer = { userId: string; role: string };
+
+// A grant on the collection reaches the user directly or through one of their
+// organizations or groups
+function grantReaches(userId: string) {
+  return or(
+    and(eq(rlcCollectionGrants.principalType, 'user'), eq(rlcCollectionGrants.principalId, userId)),
+    and(
+      eq(rlcCollectionGrants.principalType, 'organization'),
+      inArray(
+        rlcCollectionGrants.principalId,
+        db.select({ id: organizationMembers.organizationId }).from(organizationMembers).where(eq(organizationMembers.userId, userId)),
+      ),
+    ),
+    and(
+      eq(rlcCollectionGrants.principalType, 'group'),
+      inArray(
+        rlcCollectionGrants.principalId,
+        db.select({ id: userGroupMembers.groupId }).from(userGroupMembers).where(eq(userGroupMembers.userId, userId)),
+      ),
+    ),
+  );
+}
+
+/**
+ * Collections the viewer can read: unrestricted ones, plus restricted ones
+ * granted to them. Admins get all of them.
+ */
+export async function accessibleCollections(viewer: CollectionViewer) {
+  const visible = or(
+    eq(rlcCollections.restricted, false),
+    exists(
+      db
+        .select({ id: rlcCollectionGrants.id })
+        .from(rlcCollectionGrants)
+        .where(and(eq(rlcCollectionGrants.collectionId, rlcCollections.id), grantReaches(viewer.userId))),
+    ),
+  );
+
+  return db
+    .select()
+    .from(rlcCollections)
+    .where(viewer.role === 'admin' ? undefined : visible)
+    .orderBy(rlcCollections.name);
+}
+
+/**
+ * The collection ids a request may read: just the one asked for (404 when it
+ * doesn't exist or the viewer can't see it), otherwise all they can see.
+ */
+export async function collectionScope(viewer: CollectionViewer, collectionId?: string) {
+  const visible = await accessibleCollections(viewer);
+  if (!collectionId) return visible;
+
+  const collection = visible.find((c) => c.id === collectionId);
+  if (!collection) {
+    throw new HTTPException(404, { message: 'Collection not found' });
+  }
+  return [collection];
+}
+
+/**
+ * Condition for raw queries over rlc_documents. An empty scope matches nothing.
+ */
+export function inCollections(collections: Array<{ id: string }>) {
+  return inArray(rlcDocuments.collectionId, collections.map((c) => c.id));
+}
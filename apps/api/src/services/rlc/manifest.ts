@@ -0,0 +1,23 @@
+import type { ServiceManifest } from '../registry.js';
+import { rlcSettings } from './settings.js';
+
+export const rlcManifest: ServiceManifest = {
+  slug: 'rlc-controls',
+  name: 'RL Controls',
+  description: 'Search 12,500+ indexed documents from the Hitachi Rail Dropbox',
+  icon: '🔍',
+  route: '/rlc',
+  apiPath: '/api/documents',
+  // ANTHROPIC_API_KEY is checked by POST /chat alone, so search keeps working without it
+  requiredEnv: [],
+  settings: rlcSettings,
+  // Collections go first so /collections isn't taken for a document id by GET /:id
+  loadRoutes: async () => {
+    const [{ rlcCollectionRoutes }, { rlcRoutes }, { rlcChatRoutes }] = await Promise.all([
+      import('./collection-routes.js'),
+      import('./routes.js'),
+      import('./chat-routes.js'),
+    ]);
+    return [rlcCollectionRoutes, rlcRoutes, rlcChatRoutes];
+  },
+};
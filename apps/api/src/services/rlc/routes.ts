@@ -1,7 +1,14 @@
 import { Hono } from 'hono';
 import { z } from 'zod';
 import { db } from '../../db.js';
-import { sql } from 'drizzle-orm';
+import { sql, type SQL } from 'drizzle-orm';
+import { requireAdmin } from '../../middleware/require-admin.js';
+import { requireScope } from '../../middleware/require-scope.js';
+import { csvCell } from '../../csv.js';
+import { accessorFromContext, logDocumentAccess, documentAccessReport, userActivityReport } from './access-log.js';
+import { collectionScope, inCollections } from './collections.js';
+import { parseSearchQuery, searchQuerySql } from './search-query.js';
+import { searchFiltersSchema, searchFiltersSql } from './search-filters.js';
 
 export const rlcRoutes = new Hono();
 
@@ -15,28 +22,95 @@ function buildDropboxUrl(dropboxPath: string, fileName: string): string {
   return `https://www.dropbox.com/home${encodedDir}?preview=${encodeURIComponent(fileName)}`;
 }
 
-// GET /search?q=...&type=...&directory=...&limit=...&page=...
-const searchSchema = z.object({
-  q: z.string().min(1),
+// Every listing takes an optional collection id; without it, it covers all the
+// collections the caller can read
+const collectionQuerySchema = z.object({
+  collection: z.string().uuid().optional(),
+});
+
+// GET /search?q=...&collection=...&type=...&directory=...&limit=...&page=...
+// plus the ranges in search-filters.ts (modifiedFrom=..., minPages=..., ...).
+// `q` uses the query language in search-query.ts
+const searchSchema = collectionQuerySchema.merge(searchFiltersSchema).extend({
+  q: z.string().min(1).max(1000),
   type: z.string().optional(),
   directory: z.string().optional(),
   limit: z.coerce.number().int().min(1).max(100).default(20),
   page: z.coerce.number().int().min(1).default(1),
 });
 
-rlcRoutes.get('/search', async (c) => {
+const FACET_LIMIT = 10;
+
+type FacetBucket = { value: string; count: number };
+
+// How the matches break down by file type, top-level folder (below the
+// collection's source folder, as the directory filter lists them), year
+// modified and email sender. One pass over the matches feeds every facet.
+async function searchFacets(matches: SQL) {
+  const rows = await db.execute(sql`
+    WITH matched AS (
+      SELECT
+        file_type,
+        extract(year FROM dropbox_modified)::int AS year,
+        email_from,
+        (
+          SELECT source_root || '/' || split_part(substr(directory_path, length(source_root) + 2), '/', 1)
+          FROM rlc_collections
+          WHERE rlc_collections.id = rlc_documents.collection_id
+            AND starts_with(directory_path, source_root || '/')
+        ) AS top_directory
+      FROM rlc_documents
+      WHERE ${matches}
+    )
+    (SELECT 'fileTypes' AS facet, file_type AS value, count(*)::int AS count
+      FROM matched GROUP BY file_type ORDER BY count DESC)
+    UNION ALL
+    (SELECT 'directories', top_directory, count(*)::int AS count
+      FROM matched WHERE top_directory IS NOT NULL GROUP BY top_directory ORDER BY count DESC LIMIT ${FACET_LIMIT})
+    UNION ALL
+    (SELECT 'years', year::text, count(*)::int
+      FROM matched WHERE year IS NOT NULL GROUP BY year ORDER BY year DESC)
+    UNION ALL
+    (SELECT 'senders', email_from, count(*)::int AS count
+      FROM matched WHERE email_from IS NOT NULL GROUP BY email_from ORDER BY count DESC LIMIT ${FACET_LIMIT})
+  `);
+
+  const facets: Record<'fileTypes' | 'directories' | 'years' | 'senders', FacetBucket[]> = {
+    fileTypes: [],
+    directories: [],
+    years: [],
+    senders: [],
+  };
+  for (const r of rows as any[]) {
+    facets[r.facet as keyof typeof facets].push({ value: r.value, count: r.count });
+  }
+  return facets;
+}
+
+rlcRoutes.get('/search', requireScope('search'), async (c) => {
   const parsed = searchSchema.parse(c.req.query());
-  const { q, type, directory, limit, page } = parsed;
+  const { q, collection, type, directory, limit, page, ...ranges } = parsed;
   const offset = (page - 1) * limit;
   const start = performance.now();
+  const accessor = accessorFromContext(c);
+  const search = searchQuerySql(parseSearchQuery(q));
+  const rangeFilter = searchFiltersSql(ranges);
+  const scope = inCollections(await collectionScope(accessor, collection));
 
   const typeFilter = type ? sql` AND file_type = ${type}` : sql``;
   const dirFilter = directory ? sql` AND directory_path LIKE ${directory + '%'}` : sql``;
+  const matches = sql`${search.where}
+    AND status = 'completed'
+    AND ${scope}
+    AND ${rangeFilter}
+    ${typeFilter}
+    ${dirFilter}`;
 
-  const [results, countResult] = await Promise.all([
+  const [results, countResult, facets] = await Promise.all([
     db.execute(sql`
       SELECT
         id,
+        collection_id,
         file_name,
         file_type,
         dropbox_path,
@@ -45,37 +119,35 @@ rlcRoutes.get('/search', async (c) => {
         file_size_bytes,
         page_count,
         dropbox_modified,
-        ts_rank(text_search, plainto_tsquery('english', ${q})) AS rank,
-        ts_headline(
-          'english',
-          coalesce(extracted_text, ''),
-          plainto_tsquery('english', ${q}),
-          'StartSel=<mark>, StopSel=</mark>, MaxWords=40, MinWords=20, MaxFragments=3, FragmentDelimiter= ... '
-        ) AS snippet
+        ${search.rank} AS rank,
+        ${search.snippet('StartSel=<mark>, StopSel=</mark>, MaxWords=40, MinWords=20, MaxFragments=3, FragmentDelimiter= ... ')} AS snippet
       FROM rlc_documents
-      WHERE text_search @@ plainto_tsquery('english', ${q})
-        AND status = 'completed'
-        ${typeFilter}
-        ${dirFilter}
+      WHERE ${matches}
       ORDER BY rank DESC
       LIMIT ${limit} OFFSET ${offset}
     `),
     db.execute(sql`
       SELECT count(*)::int AS total
       FROM rlc_documents
-      WHERE text_search @@ plainto_tsquery('english', ${q})
-        AND status = 'completed'
-        ${typeFilter}
-        ${dirFilter}
+      WHERE ${matches}
     `),
+    searchFacets(matches),
   ]);
 
   const searchTimeMs = Math.round(performance.now() - start);
   const total = (countResult as any[])[0]?.total ?? 0;
 
+  await logDocumentAccess(accessor, {
+    action: 'search',
+    query: q,
+    filters: { collection, type, directory, ...ranges, page },
+    resultCount: total,
+  });
+
   return c.json({
     results: (results as any[]).map((r) => ({
       id: r.id,
+      collectionId: r.collection_id,
       fileName: r.file_name,
       fileType: r.file_type,
       dropboxPath: r.dropbox_path,
@@ -89,6 +161,7 @@ rlcRoutes.get('/search', async (c) => {
       snippet: r.snippet,
     })),
     total,
+    facets,
     query: q,
     page,
     limit,
@@ -96,8 +169,11 @@ rlcRoutes.get('/search', async (c) => {
   });
 });
 
-// GET /stats — must be before /:id so "stats" isn't treated as a UUID
-rlcRoutes.get('/stats', async (c) => {
+// GET /stats?collection=... — must be before /:id so "stats" isn't treated as a UUID
+rlcRoutes.get('/stats', requireScope('search'), async (c) => {
+  const { collection } = collectionQuerySchema.parse(c.req.query());
+  const scope = inCollections(await collectionScope(accessorFromContext(c), collection));
+
   const [mainStats, typeBreakdown, statusBreakdown] = await Promise.all([
     db.execute(sql`
       SELECT
@@ -105,6 +181,7 @@ rlcRoutes.get('/stats', async (c) => {
         count(*) FILTER (WHERE status = 'completed')::int AS indexed_documents,
         coalesce(sum(word_count) FILTER (WHERE status = 'completed'), 0)::bigint AS total_words
       FROM rlc_documents
+      WHERE ${scope}
     `),
     db.execute(sql`
       SELECT
@@ -112,13 +189,14 @@ rlcRoutes.get('/stats', async (c) => {
         count(*)::int AS count,
         coalesce(sum(word_count), 0)::bigint AS total_words
       FROM rlc_documents
-      WHERE status = 'completed'
+      WHERE status = 'completed' AND ${scope}
       GROUP BY file_type
       ORDER BY count DESC
     `),
     db.execute(sql`
       SELECT status, count(*)::int AS count
       FROM rlc_documents
+      WHERE ${scope}
       GROUP BY status
       ORDER BY count DESC
     `),
@@ -142,14 +220,17 @@ rlcRoutes.get('/stats', async (c) => {
   });
 });
 
-// GET /directories — directory tree with document counts
-rlcRoutes.get('/directories', async (c) => {
+// GET /directories?collection=... — directory tree with document counts
+rlcRoutes.get('/directories', requireScope('search'), async (c) => {
+  const { collection } = collectionQuerySchema.parse(c.req.query());
+  const scope = inCollections(await collectionScope(accessorFromContext(c), collection));
+
   const rows = await db.execute(sql`
     SELECT
       directory_path,
       count(*)::int AS doc_count
     FROM rlc_documents
-    WHERE status = 'completed' AND directory_path IS NOT NULL
+    WHERE status = 'completed' AND directory_path IS NOT NULL AND ${scope}
     GROUP BY directory_path
     ORDER BY directory_path
   `);
@@ -162,18 +243,104 @@ rlcRoutes.get('/directories', async (c) => {
   });
 });
 
-// GET /:id — full document detail (after /search, /stats, /directories)
-rlcRoutes.get('/:id', async (c) => {
+// ===================== EXPORT =====================
+
+const EXPORT_LIMIT = 5000;
+const EXPORT_COLUMNS = ['fileName', 'fileType', 'directoryPath', 'dropboxUrl', 'wordCount', 'pageCount', 'dropboxModified', 'rank'] as const;
+
+const exportSchema = searchSchema.omit({ limit: true, page: true });
+
+// GET /export?q=...&collection=...&type=...&directory=... (and the search's
+// ranges) — every match (up to EXPORT_LIMIT) as CSV
+rlcRoutes.get('/export', requireScope('export'), async (c) => {
+  const { q, collection, type, directory, ...ranges } = exportSchema.parse(c.req.query());
+  const accessor = accessorFromContext(c);
+  const search = searchQuerySql(parseSearchQuery(q));
+  const rangeFilter = searchFiltersSql(ranges);
+  const scope = inCollections(await collectionScope(accessor, collection));
+
+  const typeFilter = type ? sql` AND file_type = ${type}` : sql``;
+  const dirFilter = directory ? sql` AND directory_path LIKE ${directory + '%'}` : sql``;
+
+  const rows = await db.execute(sql`
+    SELECT
+      file_name, file_type, dropbox_path, directory_path, word_count, page_count, dropbox_modified,
+      ${search.rank} AS rank
+    FROM rlc_documents
+    WHERE ${search.where}
+      AND status = 'completed'
+      AND ${scope}
+      AND ${rangeFilter}
+      ${typeFilter}
+      ${dirFilter}
+    ORDER BY rank DESC
+    LIMIT ${EXPORT_LIMIT}
+  `);
+
+  await logDocumentAccess(accessor, {
+    action: 'export',
+    query: q,
+    filters: { collection, type, directory, ...ranges },
+    resultCount: (rows as any[]).length,
+  });
+
+  const lines = [EXPORT_COLUMNS.join(',')];
+  for (const r of rows as any[]) {
+    const row = {
+      fileName: r.file_name,
+      fileType: r.file_type,
+      directoryPath: r.directory_path,
+      dropboxUrl: buildDropboxUrl(r.dropbox_path, r.file_name),
+      wordCount: r.word_count,
+      pageCount: r.page_count,
+      dropboxModified: r.dropbox_modified,
+      rank: parseFloat(r.rank).toFixed(4),
+    };
+    lines.push(EXPORT_COLUMNS.map((column) => csvCell(row[column])).join(','));
+  }
+
+  c.header('Content-Type', 'text/csv; charset=utf-8');
+  c.header('Content-Disposition', `attachment; filename="rlc-search-${new Date().toISOString().slice(0, 10)}.csv"`);
+  return c.body(`${lines.join('\r\n')}\r\n`);
+});
+
+// ===================== ACCESS LOG (admin) =====================
+
+const accessReportSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(1000).default(200),
+});
+
+// GET /access-log/users/:userId — one user's searches and document views
+rlcRoutes.get('/access-log/users/:userId', requireAdmin, async (c) => {
+  const userId = z.string().uuid().parse(c.req.param('userId'));
+  const range = accessReportSchema.parse(c.req.query());
+  return c.json(await userActivityReport(userId, range));
+});
+
+// GET /:id/access-log — who viewed this document, and when
+rlcRoutes.get('/:id/access-log', requireAdmin, async (c) => {
+  const id = z.string().uuid().parse(c.req.param('id'));
+  const range = accessReportSchema.parse(c.req.query());
+  return c.json(await documentAccessReport(id, range));
+});
+
+// GET /:id — full document detail (after /search, /stats, /directories, /export)
+rlcRoutes.get('/:id', requireScope('read'), async (c) => {
   const id = c.req.param('id');
+  const accessor = accessorFromContext(c);
+  // Documents in collections the caller can't read are reported as missing
+  const scope = inCollections(await collectionScope(accessor));
 
   const rows = await db.execute(sql`
     SELECT
-      id, file_name, file_type, dropbox_path, directory_path, word_count,
+      id, collection_id, file_name, file_type, dropbox_path, directory_path, word_count,
       file_size_bytes, page_count, dropbox_modified, status,
       extracted_text, text_preview, error_message,
       created_at, updated_at
     FROM rlc_documents
-    WHERE id = ${id}
+    WHERE id = ${id} AND ${scope}
     LIMIT 1
   `);
 
@@ -182,8 +349,11 @@ rlcRoutes.get('/:id', async (c) => {
     return c.json({ error: 'Document not found' }, 404);
   }
 
+  await logDocumentAccess(accessor, { action: 'view', documentId: doc.id });
+
   return c.json({
     id: doc.id,
+    collectionId: doc.collection_id,
     fileName: doc.file_name,
     fileType: doc.file_type,
     dropboxPath: doc.dropbox_path,
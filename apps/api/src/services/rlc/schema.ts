@@ -1,8 +1,58 @@
-import { pgTable, uuid, varchar, timestamp, text, bigint, integer } from 'drizzle-orm/pg-core';
+import { pgTable, uuid, varchar, timestamp, text, bigint, integer, boolean, jsonb, unique, index } from 'drizzle-orm/pg-core';
+
+// A client's document set: one Dropbox source folder, ingested and searched on its own
+export const rlcCollections = pgTable('rlc_collections', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  slug: varchar('slug', { length: 100 }).notNull().unique(),
+  name: varchar('name', { length: 255 }).notNull(),
+  description: text('description'),
+  // Dropbox folder the collection is ingested from; every document path starts with it
+  sourceRoot: text('source_root').notNull(),
+  // Overrides the service's chat system prompt setting when set
+  systemPrompt: text('system_prompt'),
+  // Restricted collections are only visible to the users, groups and
+  // organizations granted below; others to everyone with access to the service
+  restricted: boolean('restricted').notNull().default(false),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+});
+
+// No FKs to the platform's tables (services don't depend on its schema);
+// triggers on users, user_groups and organizations delete a principal's grants
+// along with it (drizzle/0031_rlc_collection_grant_cleanup.sql).
+export const rlcCollectionGrants = pgTable('rlc_collection_grants', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  collectionId: uuid('collection_id').notNull().references(() => rlcCollections.id, { onDelete: 'cascade' }),
+  // 'user' | 'group' | 'organization'
+  principalType: varchar('principal_type', { length: 20 }).notNull(),
+  principalId: uuid('principal_id').notNull(),
+  grantedBy: uuid('granted_by'),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  unique().on(table.collectionId, table.principalType, table.principalId),
+  index().on(table.principalId),
+]);
+
+// One run of scripts/ingest.ts against a collection
+export const rlcIngestionRuns = pgTable('rlc_ingestion_runs', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  collectionId: uuid('collection_id').notNull().references(() => rlcCollections.id, { onDelete: 'cascade' }),
+  // 'running' | 'completed' | 'failed'
+  status: varchar('status', { length: 20 }).notNull().default('running'),
+  filesInManifest: integer('files_in_manifest'),
+  documentsAdded: integer('documents_added'),
+  documentsCompleted: integer('documents_completed'),
+  documentsFailed: integer('documents_failed'),
+  errorMessage: text('error_message'),
+  startedAt: timestamp('started_at', { withTimezone: true }).defaultNow().notNull(),
+  finishedAt: timestamp('finished_at', { withTimezone: true }),
+}, (table) => [
+  index().on(table.collectionId, table.startedAt),
+]);
 
 export const rlcDocuments = pgTable('rlc_documents', {
   id: uuid('id').defaultRandom().primaryKey(),
-  dropboxPath: text('dropbox_path').notNull().unique(),
+  collectionId: uuid('collection_id').notNull().references(() => rlcCollections.id, { onDelete: 'cascade' }),
+  dropboxPath: text('dropbox_path').notNull(),
   fileName: text('file_name').notNull(),
   fileType: varchar('file_type', { length: 20 }).notNull(),
   fileSizeBytes: bigint('file_size_bytes', { mode: 'number' }),
@@ -14,6 +64,32 @@ export const rlcDocuments = pgTable('rlc_documents', {
   dropboxModified: timestamp('dropbox_modified', { withTimezone: true }),
   pageCount: integer('page_count'),
   wordCount: integer('word_count'),
+  // Sender of .msg/.eml files as "Name <address>", for from: searches
+  emailFrom: text('email_from'),
   createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp('updated_at', { withTimezone: true }).defaultNow().notNull(),
-});
+}, (table) => [
+  unique().on(table.collectionId, table.dropboxPath),
+]);
+
+// Who looked at what: document views, searches and chat tool calls, per user.
+// No FK to users — the log must outlive deleted accounts, so the email is snapshotted.
+export const rlcAccessLog = pgTable('rlc_access_log', {
+  id: uuid('id').defaultRandom().primaryKey(),
+  userId: uuid('user_id'),
+  userEmail: varchar('user_email', { length: 255 }).notNull(),
+  // 'view' | 'search' | 'export' | 'chat_search' | 'chat_get_document'
+  action: varchar('action', { length: 30 }).notNull(),
+  documentId: uuid('document_id').references(() => rlcDocuments.id, { onDelete: 'set null' }),
+  query: text('query'),
+  filters: jsonb('filters').$type<Record<string, unknown>>(),
+  resultCount: integer('result_count'),
+  apiTokenId: uuid('api_token_id'),
+  // The admin who made the request while viewing the app as this user
+  impersonatorEmail: varchar('impersonator_email', { length: 255 }),
+  ipAddress: varchar('ip_address', { length: 64 }),
+  createdAt: timestamp('created_at', { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index().on(table.documentId, table.createdAt),
+  index().on(table.userId, table.createdAt),
+]);
@@ -1,8 +1,10 @@
 import { Dropbox } from 'dropbox';
+import { drizzle } from 'drizzle-orm/postgres-js';
+import { eq } from 'drizzle-orm';
+import postgres from 'postgres';
 import { writeFileSync } from 'node:fs';
 import { extname, resolve } from 'node:path';
-
-const DEFAULT_ROOT = '/HITACHI RAIL COLLABORATION at RLC';
+import { rlcCollections } from '../schema.js';
 
 interface FileEntry {
   path: string;
@@ -235,8 +237,35 @@ function saveManifest(files: FileEntry[], outputPath: string) {
   console.log(`Contains ${files.length} file entries with path, name, extension, size, and modified date.`);
 }
 
+// The collection whose source folder to list, by slug
+async function loadCollection(slug: string) {
+  const url = process.env.DATABASE_URL;
+  if (!url) {
+    console.error('Missing DATABASE_URL env var');
+    process.exit(1);
+  }
+  const client = postgres(url);
+  try {
+    const [collection] = await drizzle(client).select().from(rlcCollections).where(eq(rlcCollections.slug, slug)).limit(1);
+    return collection;
+  } finally {
+    await client.end();
+  }
+}
+
 async function main() {
-  const rootPath = process.argv[2] || DEFAULT_ROOT;
+  const slug = process.argv[2];
+  if (!slug) {
+    console.log('Usage: explore.ts <collection-slug>');
+    console.log("Lists the collection's Dropbox source folder and saves a manifest for ingest.ts.");
+    process.exit(0);
+  }
+  const collection = await loadCollection(slug);
+  if (!collection) {
+    console.error(`No collection "${slug}". Create it under RL Controls → Collections first.`);
+    process.exit(1);
+  }
+  const rootPath = collection.sourceRoot;
   const dbx = createClient();
 
   const { files, folders } = await listAllEntries(dbx, rootPath);
@@ -251,7 +280,7 @@ async function main() {
   printSizeAnalysis(files);
   findIssues(files);
 
-  const manifestPath = resolve(import.meta.dirname, '..', 'dropbox-manifest.json');
+  const manifestPath = resolve(import.meta.dirname, '..', `dropbox-manifest.${collection.slug}.json`);
   saveManifest(files, manifestPath);
 }
 
@@ -260,7 +289,7 @@ main().catch((err) => {
   if (err.status === 401) {
     console.error('Authentication failed. Check your DROPBOX_APP_KEY, DROPBOX_APP_SECRET, and DROPBOX_REFRESH_TOKEN.');
   } else if (err.status === 409) {
-    console.error('Path not found. Check the folder path argument.');
+    console.error("Path not found. Check the collection's source folder.");
   }
   process.exit(1);
 });
@@ -1,10 +1,13 @@
 import { Dropbox } from 'dropbox';
 import { drizzle } from 'drizzle-orm/postgres-js';
-import { eq, sql } from 'drizzle-orm';
+import { and, eq, sql } from 'drizzle-orm';
 import postgres from 'postgres';
 import { readFileSync } from 'node:fs';
 import { resolve, extname } from 'node:path';
-import { rlcDocuments } from '../schema.js';
+import { rlcCollections, rlcDocuments, rlcIngestionRuns } from '../schema.js';
+import { rlcManifest } from '../manifest.js';
+import { rlcSettings } from '../settings.js';
+import { readServiceSettings } from '../../../service-settings.js';
 
 // --- Config ---
 
@@ -38,8 +41,6 @@ const SKIP_EXTENSIONS = new Set([
   '.ds_store', '.lic', '.tns', '.cdd', '.vsd', '.odg', '.xl2', '.xkt',
 ]);
 
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB cap for first pass
-
 // --- DB + Dropbox setup ---
 
 function createDb() {
@@ -104,7 +105,7 @@ async function extractXlsx(buffer: Buffer): Promise<{ text: string }> {
   return { text: parts.join('\n') };
 }
 
-async function extractMsg(buffer: Buffer): Promise<{ text: string }> {
+async function extractMsg(buffer: Buffer): Promise<{ text: string; emailFrom?: string }> {
   const { default: MsgReader } = await import('@kenjiuno/msgreader');
   const reader = new MsgReader(buffer);
   const msg = reader.getFileData();
@@ -117,10 +118,11 @@ async function extractMsg(buffer: Buffer): Promise<{ text: string }> {
   }
   if (msg.body) parts.push('', msg.body);
 
-  return { text: parts.join('\n') };
+  const emailFrom = msg.senderEmail ? `${msg.senderName ?? ''} <${msg.senderEmail}>`.trim() : msg.senderName;
+  return { text: parts.join('\n'), emailFrom };
 }
 
-async function extractEml(buffer: Buffer): Promise<{ text: string }> {
+async function extractEml(buffer: Buffer): Promise<{ text: string; emailFrom?: string }> {
   const { simpleParser } = await import('mailparser');
   const parsed = await simpleParser(buffer);
 
@@ -134,10 +136,13 @@ async function extractEml(buffer: Buffer): Promise<{ text: string }> {
   if (parsed.date) parts.push(`Date: ${parsed.date.toISOString()}`);
   if (parsed.text) parts.push('', parsed.text);
 
-  return { text: parts.join('\n') };
+  return { text: parts.join('\n'), emailFrom: parsed.from?.text };
 }
 
-async function extractText(buffer: Buffer, ext: string): Promise<{ text: string; pageCount?: number }> {
+async function extractText(
+  buffer: Buffer,
+  ext: string,
+): Promise<{ text: string; pageCount?: number; emailFrom?: string }> {
   switch (ext) {
     case '.pdf':
       return extractPdf(buffer);
@@ -173,21 +178,60 @@ interface ManifestEntry {
 function parseArgs() {
   const args = process.argv.slice(2);
   let limit = 0;
+  let collection = '';
   for (let i = 0; i < args.length; i++) {
     if (args[i] === '--limit' && args[i + 1]) {
       limit = parseInt(args[i + 1], 10);
+    } else if (args[i] === '--collection' && args[i + 1]) {
+      collection = args[i + 1];
     }
   }
-  return { limit };
+  if (!collection) {
+    console.log('Usage: ingest.ts --collection <slug> [--limit N]');
+    console.log('Reads the manifest saved by explore.ts for that collection.');
+    process.exit(0);
+  }
+  return { limit, collection };
 }
 
 async function main() {
-  const { limit } = parseArgs();
+  const { limit, collection: slug } = parseArgs();
   const { db, client } = createDb();
   const dbx = createDropboxClient();
 
-  // 1. Load manifest
-  const manifestPath = resolve(import.meta.dirname, '..', 'dropbox-manifest.json');
+  const [collection] = await db.select().from(rlcCollections).where(eq(rlcCollections.slug, slug)).limit(1);
+  if (!collection) {
+    console.error(`No collection "${slug}". Create it under RL Controls → Collections first.`);
+    process.exit(1);
+  }
+
+  // Each run is recorded so admins can see when a collection was last ingested
+  const [run] = await db.insert(rlcIngestionRuns).values({ collectionId: collection.id }).returning();
+  try {
+    await ingest(db, dbx, collection, run.id, limit);
+  } catch (err: any) {
+    await db.update(rlcIngestionRuns)
+      .set({ status: 'failed', errorMessage: String(err.message || err).slice(0, 1000), finishedAt: new Date() })
+      .where(eq(rlcIngestionRuns.id, run.id));
+    throw err;
+  } finally {
+    await client.end();
+  }
+}
+
+async function ingest(
+  db: ReturnType<typeof createDb>['db'],
+  dbx: Dropbox,
+  collection: typeof rlcCollections.$inferSelect,
+  runId: string,
+  limit: number,
+) {
+  // Size cap is a service setting (Admin → Services → RL Controls → Settings)
+  const { maxFileSizeMb } = await readServiceSettings(db, rlcManifest.slug, rlcSettings);
+  const maxFileSize = maxFileSizeMb * 1024 * 1024;
+
+  // 1. Load the manifest explore.ts saved for this collection
+  const manifestPath = resolve(import.meta.dirname, '..', `dropbox-manifest.${collection.slug}.json`);
   console.log(`Loading manifest from ${manifestPath}...`);
   const manifest: ManifestEntry[] = JSON.parse(readFileSync(manifestPath, 'utf-8'));
   console.log(`Manifest: ${manifest.length} total files`);
@@ -209,11 +253,12 @@ async function main() {
 
   for (const file of extractable) {
     const ext = file.extension.toLowerCase().replace('.', '');
-    const status = file.sizeBytes > MAX_FILE_SIZE ? 'skipped' : 'pending';
-    const errorMsg = file.sizeBytes > MAX_FILE_SIZE ? `File too large: ${(file.sizeBytes / 1024 / 1024).toFixed(1)}MB (max ${MAX_FILE_SIZE / 1024 / 1024}MB)` : null;
+    const status = file.sizeBytes > maxFileSize ? 'skipped' : 'pending';
+    const errorMsg = file.sizeBytes > maxFileSize ? `File too large: ${(file.sizeBytes / 1024 / 1024).toFixed(1)}MB (max ${maxFileSizeMb}MB)` : null;
 
     try {
       await db.insert(rlcDocuments).values({
+        collectionId: collection.id,
         dropboxPath: file.path,
         fileName: file.name,
         fileType: ext,
@@ -233,7 +278,7 @@ async function main() {
   // 4. Query pending rows
   const pendingRows = await db.select()
     .from(rlcDocuments)
-    .where(eq(rlcDocuments.status, 'pending'))
+    .where(and(eq(rlcDocuments.collectionId, collection.id), eq(rlcDocuments.status, 'pending')))
     .orderBy(rlcDocuments.fileSizeBytes);
 
   const toProcess = limit > 0 ? pendingRows.slice(0, limit) : pendingRows;
@@ -259,7 +304,7 @@ async function main() {
 
       // Extract text
       const ext = '.' + doc.fileType;
-      const { text: rawText, pageCount } = await extractText(buffer, ext);
+      const { text: rawText, pageCount, emailFrom } = await extractText(buffer, ext);
 
       // Free buffer
       buffer = null as any;
@@ -277,6 +322,7 @@ async function main() {
             status,
             pageCount: pageCount || null,
             wordCount: 0,
+            emailFrom: emailFrom || null,
             errorMessage: status === 'ocr_needed' ? 'No text extracted - may be scanned/image-based PDF' : null,
             updatedAt: new Date(),
           })
@@ -292,6 +338,7 @@ async function main() {
             status: 'completed',
             pageCount: pageCount || null,
             wordCount,
+            emailFrom: emailFrom || null,
             errorMessage: null,
             updatedAt: new Date(),
           })
@@ -332,16 +379,25 @@ async function main() {
   console.log(`Failed:    ${failed}`);
   console.log(`Time:      ${((Date.now() - startTime) / 1000).toFixed(1)}s`);
 
+  await db.update(rlcIngestionRuns)
+    .set({
+      status: 'completed',
+      filesInManifest: manifest.length,
+      documentsAdded: inserted,
+      documentsCompleted: completed,
+      documentsFailed: failed,
+      finishedAt: new Date(),
+    })
+    .where(eq(rlcIngestionRuns.id, runId));
+
   // Show status breakdown
   const statusCounts = await db.execute(
-    sql`SELECT status, count(*)::int as count FROM rlc_documents GROUP BY status ORDER BY count DESC`
+    sql`SELECT status, count(*)::int as count FROM rlc_documents WHERE collection_id = ${collection.id} GROUP BY status ORDER BY count DESC`
   );
-  console.log('\nDocument status breakdown:');
+  console.log(`\nDocument status breakdown for ${collection.name}:`);
   for (const row of statusCounts as any[]) {
     console.log(`  ${row.status}: ${row.count}`);
   }
-
-  await client.end();
 }
 
 main().catch((err) => {
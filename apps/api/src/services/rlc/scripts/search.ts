@@ -1,6 +1,7 @@
 import { drizzle } from 'drizzle-orm/postgres-js';
 import { sql } from 'drizzle-orm';
 import postgres from 'postgres';
+import { parseSearchQuery, searchQuerySql } from '../search-query.js';
 
 function createDb() {
   const url = process.env.DATABASE_URL;
@@ -16,6 +17,7 @@ function parseArgs() {
   const args = process.argv.slice(2);
   let query = '';
   let type = '';
+  let collection = '';
   let limit = 20;
 
   for (let i = 0; i < args.length; i++) {
@@ -25,32 +27,45 @@ function parseArgs() {
     } else if (args[i] === '--limit' && args[i + 1]) {
       limit = parseInt(args[i + 1], 10);
       i++;
+    } else if (args[i] === '--collection' && args[i + 1]) {
+      collection = args[i + 1];
+      i++;
     } else if (!args[i].startsWith('--')) {
       query = args[i];
     }
   }
 
   if (!query) {
-    console.log('Usage: search.ts <query> [--type pdf|docx|xlsx|msg|eml] [--limit N]');
+    console.log('Usage: search.ts <query> [--type pdf|docx|xlsx|msg|eml] [--collection slug] [--limit N]');
     console.log('\nExamples:');
     console.log('  search.ts "delay notice"');
     console.log('  search.ts "CDR review" --type pdf');
     console.log('  search.ts "site readiness" --limit 50');
     console.log('  search.ts "WCS installation" --type msg');
+    console.log('  search.ts "handover" --collection hitachi-rail');
+    console.log('  search.ts \'"site readiness" -draft from:smith after:2023-01\'');
+    console.log('  search.ts \'signal* OR interlock filename:minutes\'');
+    console.log('\nQueries support "phrases", -exclusions, OR, prefix*, and the qualifiers');
+    console.log('filename:, type:, from:, before: and after: (see search-query.ts).');
     process.exit(0);
   }
 
-  return { query, type, limit };
+  return { query, type, collection, limit };
 }
 
 async function main() {
-  const { query, type, limit } = parseArgs();
+  const { query, type, collection, limit } = parseArgs();
+  // Parse before connecting so a malformed query fails fast
+  const search = searchQuerySql(parseSearchQuery(query));
   const { db, client } = createDb();
 
-  console.log(`\nSearching for: "${query}"${type ? ` (type: ${type})` : ''} (limit: ${limit})\n`);
+  console.log(`\nSearching for: "${query}"${type ? ` (type: ${type})` : ''}${collection ? ` (collection: ${collection})` : ''} (limit: ${limit})\n`);
 
-  // Build query with optional type filter
+  // Build query with optional type and collection filters
   const typeFilter = type ? sql` AND file_type = ${type}` : sql``;
+  const collectionFilter = collection
+    ? sql` AND collection_id = (SELECT id FROM rlc_collections WHERE slug = ${collection})`
+    : sql``;
 
   const results = await db.execute(sql`
     SELECT
@@ -60,16 +75,12 @@ async function main() {
       dropbox_path,
       word_count,
       file_size_bytes,
-      ts_rank(text_search, plainto_tsquery('english', ${query})) AS rank,
-      ts_headline(
-        'english',
-        coalesce(extracted_text, ''),
-        plainto_tsquery('english', ${query}),
-        'StartSel=>>>, StopSel=<<<, MaxWords=40, MinWords=20, MaxFragments=2, FragmentDelimiter= ... '
-      ) AS snippet
+      ${search.rank} AS rank,
+      ${search.snippet('StartSel=>>>, StopSel=<<<, MaxWords=40, MinWords=20, MaxFragments=2, FragmentDelimiter= ... ')} AS snippet
     FROM rlc_documents
-    WHERE text_search @@ plainto_tsquery('english', ${query})
+    WHERE ${search.where}
     ${typeFilter}
+    ${collectionFilter}
     ORDER BY rank DESC
     LIMIT ${limit}
   `);
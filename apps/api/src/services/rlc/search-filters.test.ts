@@ -0,0 +1,24 @@
+import { describe, it, expect } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { searchFiltersSchema, searchFiltersSql } from './search-filters.js';
+
+const dialect = new PgDialect();
+
+describe('search range filters', () => {
+  it('includes both ends of the date range and bounds the counts', () => {
+    const filters = searchFiltersSchema.parse({ modifiedFrom: '2022-07-01', modifiedTo: '2022-09-30', minPages: '50' });
+    const query = dialect.sqlToQuery(searchFiltersSql(filters));
+    expect(query.sql).toBe('dropbox_modified >= $1::date AND dropbox_modified < $2::date + 1 AND page_count >= $3');
+    expect(query.params).toEqual(['2022-07-01', '2022-09-30', 50]);
+  });
+
+  it('matches everything without filters', () => {
+    expect(dialect.sqlToQuery(searchFiltersSql({})).sql).toBe('TRUE');
+  });
+
+  it('rejects malformed dates and ranges that end before they start', () => {
+    expect(searchFiltersSchema.safeParse({ modifiedFrom: '2022-13-01' }).success).toBe(false);
+    expect(() => searchFiltersSql({ minWords: 500, maxWords: 100 })).toThrow('The word count range starts after it ends');
+    expect(() => searchFiltersSql({ modifiedFrom: '2023-01-01', modifiedTo: '2022-12-31' })).toThrow('modified date');
+  });
+});
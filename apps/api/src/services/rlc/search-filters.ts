@@ -0,0 +1,58 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { sql, type SQL } from 'drizzle-orm';
+
+// Metadata ranges that narrow a document search alongside its query text.
+// The search and export routes take them as query parameters; the chat's
+// search_documents tool maps its own inputs onto them.
+
+const count = z.coerce.number().int().min(0);
+
+export const searchFiltersSchema = z.object({
+  // Last modified, YYYY-MM-DD; both ends are inclusive
+  modifiedFrom: z.string().date().optional(),
+  modifiedTo: z.string().date().optional(),
+  minPages: count.optional(),
+  maxPages: count.optional(),
+  minWords: count.optional(),
+  maxWords: count.optional(),
+  minSizeBytes: count.optional(),
+  maxSizeBytes: count.optional(),
+});
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+
+const RANGES = [
+  { label: 'modified date', min: 'modifiedFrom', max: 'modifiedTo' },
+  { label: 'page count', min: 'minPages', max: 'maxPages' },
+  { label: 'word count', min: 'minWords', max: 'maxWords' },
+  { label: 'file size', min: 'minSizeBytes', max: 'maxSizeBytes' },
+] as const;
+
+/**
+ * Condition over rlc_documents for the given filters (TRUE when there are
+ * none). Documents missing a value, such as spreadsheets without a page
+ * count, never fall inside a range on it. Throws a 400 for a range whose
+ * start is past its end.
+ */
+export function searchFiltersSql(filters: SearchFilters): SQL {
+  for (const range of RANGES) {
+    const min = filters[range.min];
+    const max = filters[range.max];
+    if (min !== undefined && max !== undefined && min > max) {
+      throw new HTTPException(400, { message: `The ${range.label} range starts after it ends (${min} to ${max})` });
+    }
+  }
+
+  const conditions: SQL[] = [];
+  if (filters.modifiedFrom) conditions.push(sql`dropbox_modified >= ${filters.modifiedFrom}::date`);
+  if (filters.modifiedTo) conditions.push(sql`dropbox_modified < ${filters.modifiedTo}::date + 1`);
+  if (filters.minPages !== undefined) conditions.push(sql`page_count >= ${filters.minPages}`);
+  if (filters.maxPages !== undefined) conditions.push(sql`page_count <= ${filters.maxPages}`);
+  if (filters.minWords !== undefined) conditions.push(sql`word_count >= ${filters.minWords}`);
+  if (filters.maxWords !== undefined) conditions.push(sql`word_count <= ${filters.maxWords}`);
+  if (filters.minSizeBytes !== undefined) conditions.push(sql`file_size_bytes >= ${filters.minSizeBytes}`);
+  if (filters.maxSizeBytes !== undefined) conditions.push(sql`file_size_bytes <= ${filters.maxSizeBytes}`);
+
+  return conditions.length > 0 ? sql.join(conditions, sql` AND `) : sql`TRUE`;
+}
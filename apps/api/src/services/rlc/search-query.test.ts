@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { parseSearchQuery, searchQuerySql } from './search-query.js';
+
+const dialect = new PgDialect();
+
+describe('search query parser', () => {
+  it('parses words, phrases, exclusions, prefixes and OR groups', () => {
+    expect(parseSearchQuery('"site readiness" -draft signal* OR interlock').text).toEqual([
+      [{ kind: 'phrase', value: 'site readiness', negated: false }],
+      [{ kind: 'word', value: 'draft', negated: true }],
+      [
+        { kind: 'prefix', value: 'signal', negated: false },
+        { kind: 'word', value: 'interlock', negated: false },
+      ],
+    ]);
+  });
+
+  it('parses qualifiers, with quoted values and dates as the start of the period', () => {
+    const { text, filters } = parseSearchQuery('filename:"site plan" type:PDF,.docx -from:smith before:2023-06 after:2022');
+    expect(text).toEqual([]);
+    expect(filters).toEqual([
+      { kind: 'filename', value: 'site plan', negated: false },
+      { kind: 'type', values: ['pdf', 'docx'], negated: false },
+      { kind: 'from', value: 'smith', negated: true },
+      { kind: 'before', date: new Date('2023-06-01T00:00:00Z') },
+      { kind: 'after', date: new Date('2022-01-01T00:00:00Z') },
+    ]);
+  });
+
+  it('searches unknown qualifiers and lowercase "or" as text', () => {
+    expect(parseSearchQuery('RE: meeting or 10:30').text.flat().map((term) => term.value)).toEqual([
+      'RE:',
+      'meeting',
+      'or',
+      '10:30',
+    ]);
+  });
+
+  it.each([
+    ['"site readiness', 'a quote is never closed'],
+    ['signal OR', 'OR needs a word or phrase on each side'],
+    ['OR signal', 'OR needs a word or phrase on each side'],
+    ['type:pdf OR type:docx', 'not type:'],
+    ['type:', 'type: needs a value'],
+    ['before:last-week', 'before: takes a date like 2023'],
+    ['after:2023-02-30', "isn't a real date"],
+    ['-before:2023', "before: can't be negated"],
+    ['sig-nal*', 'prefix search needs a single word'],
+    ['- draft', '"-" must be followed by the word to exclude'],
+    ['-draft', 'not only words to exclude'],
+    ['   ', 'the query is empty'],
+  ])('rejects %j', (input, message) => {
+    expect(() => parseSearchQuery(input)).toThrow(message);
+  });
+});
+
+describe('search query SQL', () => {
+  it('combines text terms into one tsquery and ANDs the filters', () => {
+    const { where } = searchQuerySql(parseSearchQuery('delay OR "site plan" -draft type:pdf -from:50%'));
+    const query = dialect.sqlToQuery(where);
+    expect(query.sql).toBe(
+      'text_search @@ ((plainto_tsquery(\'english\', $1) || phraseto_tsquery(\'english\', $2)) && (!!(plainto_tsquery(\'english\', $3)))) ' +
+        'AND file_type IN ($4) AND (email_from IS NULL OR NOT (email_from ILIKE $5))',
+    );
+    expect(query.params).toEqual(['delay', 'site plan', 'draft', 'pdf', '%50\\%%']);
+  });
+
+  it('matches prefixes with to_tsquery and ranks filter-only queries equally', () => {
+    expect(dialect.sqlToQuery(searchQuerySql(parseSearchQuery('signal*')).where).params).toEqual(['signal:*']);
+
+    const filtersOnly = searchQuerySql(parseSearchQuery('before:2023'));
+    expect(dialect.sqlToQuery(filtersOnly.where).sql).toBe('dropbox_modified < $1');
+    expect(dialect.sqlToQuery(filtersOnly.rank).sql).toBe('0');
+  });
+});
@@ -0,0 +1,242 @@
+import { HTTPException } from 'hono/http-exception';
+import { sql, type SQL } from 'drizzle-orm';
+
+// Query language for document search, shared by the search and export routes,
+// the chat's search_documents tool and scripts/search.ts:
+//
+//   delay notice           both words (stemmed, so "notices" matches too)
+//   "site readiness"       the exact phrase
+//   -draft                 without this word (or -"exact phrase")
+//   signal OR interlock    either word; binds tighter than the implicit AND
+//   signal*                words starting with "signal"
+//   filename:minutes       file name contains the text
+//   type:pdf,docx          file type is one of these
+//   from:smith             email sender contains the text
+//   before:2023-06         modified before the start of the date
+//   after:2023             modified on or after the start of the date
+//
+// Qualifier values can be quoted (filename:"site plan"), and qualifiers other
+// than before:/after: can be negated (-type:xlsx). A word with a colon that
+// isn't one of these qualifiers ("RE:", "10:30") is searched as text.
+
+export const QUALIFIERS = ['filename', 'type', 'from', 'before', 'after'] as const;
+
+export type Qualifier = (typeof QUALIFIERS)[number];
+
+export type TextTerm = { kind: 'word' | 'phrase' | 'prefix'; value: string; negated: boolean };
+
+export type FilterTerm =
+  | { kind: 'filename' | 'from'; value: string; negated: boolean }
+  | { kind: 'type'; values: string[]; negated: boolean }
+  | { kind: 'before' | 'after'; date: Date };
+
+/**
+ * A parsed query: text terms as an AND of OR-groups, plus filters that must
+ * all hold.
+ */
+export type SearchQuery = {
+  text: TextTerm[][];
+  filters: FilterTerm[];
+};
+
+const MAX_TERMS = 50;
+
+function syntaxError(message: string): never {
+  throw new HTTPException(400, { message: `Invalid search query: ${message}` });
+}
+
+// Dates are YYYY, YYYY-MM or YYYY-MM-DD, taken as the start of that period in UTC
+function parseDate(qualifier: string, value: string) {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?$/.exec(value);
+  if (!match) {
+    syntaxError(`${qualifier}: takes a date like 2023, 2023-06 or 2023-06-30, not "${value}"`);
+  }
+  const [, year, month = '01', day = '01'] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+    syntaxError(`"${value}" in ${qualifier}: isn't a real date`);
+  }
+  return date;
+}
+
+type Token = { type: 'or' } | { type: 'text'; term: TextTerm } | { type: 'filter'; term: FilterTerm; source: string };
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = [];
+  let pos = 0;
+
+  const readQuoted = () => {
+    const end = input.indexOf('"', pos + 1);
+    if (end === -1) syntaxError('a quote is never closed');
+    const value = input.slice(pos + 1, end).trim();
+    pos = end + 1;
+    return value;
+  };
+
+  while (pos < input.length) {
+    if (/\s/.test(input[pos])) {
+      pos++;
+      continue;
+    }
+
+    const negated = input[pos] === '-';
+    if (negated) {
+      pos++;
+      if (pos >= input.length || /\s/.test(input[pos])) syntaxError('"-" must be followed by the word to exclude');
+    }
+
+    if (input[pos] === '"') {
+      const value = readQuoted();
+      if (!value) syntaxError('"" is an empty phrase');
+      tokens.push({ type: 'text', term: { kind: 'phrase', value, negated } });
+      continue;
+    }
+
+    const start = pos;
+    while (pos < input.length && !/\s/.test(input[pos]) && input[pos] !== '"') pos++;
+    const bare = input.slice(start, pos);
+
+    const qualifier = /^([a-z]+):(.*)$/i.exec(bare);
+    const field = qualifier?.[1].toLowerCase() as Qualifier | undefined;
+    if (qualifier && field && QUALIFIERS.includes(field)) {
+      const value = qualifier[2] || (input[pos] === '"' ? readQuoted() : '');
+      if (!value) syntaxError(`${field}: needs a value, like ${field}:${field === 'before' || field === 'after' ? '2023-06-30' : 'report'}`);
+      const source = `${negated ? '-' : ''}${field}:`;
+
+      if (field === 'before' || field === 'after') {
+        if (negated) syntaxError(`${field}: can't be negated; use ${field === 'before' ? 'after' : 'before'}: instead`);
+        tokens.push({ type: 'filter', term: { kind: field, date: parseDate(field, value) }, source });
+      } else if (field === 'type') {
+        const values = value.split(',').map((t) => t.trim().toLowerCase().replace(/^\./, '')).filter(Boolean);
+        if (values.length === 0 || values.some((t) => !/^[a-z0-9]+$/.test(t))) {
+          syntaxError(`type: takes file extensions like type:pdf or type:pdf,docx, not "${value}"`);
+        }
+        tokens.push({ type: 'filter', term: { kind: 'type', values, negated }, source });
+      } else {
+        tokens.push({ type: 'filter', term: { kind: field, value, negated }, source });
+      }
+      continue;
+    }
+
+    if (bare === 'OR' && !negated) {
+      tokens.push({ type: 'or' });
+    } else if (bare.endsWith('*')) {
+      const value = bare.slice(0, -1);
+      if (!/^[\p{L}\p{N}]+$/u.test(value)) {
+        syntaxError(`prefix search needs a single word before the *, like signal*, not "${bare}"`);
+      }
+      tokens.push({ type: 'text', term: { kind: 'prefix', value, negated } });
+    } else {
+      tokens.push({ type: 'text', term: { kind: 'word', value: bare, negated } });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse a search box query. Throws a 400 HTTPException describing the first
+ * problem found; callers outside a request can show `err.message` as is.
+ */
+export function parseSearchQuery(input: string): SearchQuery {
+  const tokens = tokenize(input);
+  if (tokens.length > MAX_TERMS) syntaxError(`use at most ${MAX_TERMS} terms`);
+
+  const query: SearchQuery = { text: [], filters: [] };
+  tokens.forEach((token, i) => {
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    if (token.type === 'or') {
+      if (prev?.type !== 'text' || next?.type !== 'text') {
+        const neighbour = prev?.type === 'filter' ? prev : next?.type === 'filter' ? next : null;
+        syntaxError(
+          neighbour
+            ? `OR only joins search words and phrases, not ${neighbour.source} (list alternatives as type:pdf,docx)`
+            : 'OR needs a word or phrase on each side',
+        );
+      }
+      return;
+    }
+
+    if (token.type === 'filter') {
+      query.filters.push(token.term);
+    } else if (prev?.type === 'or') {
+      query.text[query.text.length - 1].push(token.term);
+    } else {
+      query.text.push([token.term]);
+    }
+  });
+
+  if (query.text.length === 0 && query.filters.length === 0) syntaxError('the query is empty');
+  const onlyExclusions = query.text.every((group) => group.every((term) => term.negated));
+  if (query.text.length > 0 && onlyExclusions && query.filters.length === 0) {
+    syntaxError('add at least one word to search for, not only words to exclude');
+  }
+  return query;
+}
+
+// ===================== SQL =====================
+
+function termTsquery(term: TextTerm): SQL {
+  const tsquery =
+    term.kind === 'phrase'
+      ? sql`phraseto_tsquery('english', ${term.value})`
+      : term.kind === 'prefix'
+        ? sql`to_tsquery('english', ${`${term.value}:*`})`
+        : sql`plainto_tsquery('english', ${term.value})`;
+  return term.negated ? sql`!!(${tsquery})` : tsquery;
+}
+
+// ILIKE pattern matching the value anywhere, with its own % and _ taken literally
+function containsPattern(value: string) {
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+function filterCondition(filter: FilterTerm): SQL {
+  switch (filter.kind) {
+    case 'before':
+      return sql`dropbox_modified < ${filter.date.toISOString()}`;
+    case 'after':
+      return sql`dropbox_modified >= ${filter.date.toISOString()}`;
+    case 'type': {
+      const condition = sql`file_type IN (${sql.join(filter.values.map((t) => sql`${t}`), sql`, `)})`;
+      return filter.negated ? sql`NOT (${condition})` : condition;
+    }
+    case 'filename':
+    case 'from': {
+      const column = sql.raw(filter.kind === 'filename' ? 'file_name' : 'email_from');
+      const condition = sql`${column} ILIKE ${containsPattern(filter.value)}`;
+      // Documents without a sender aren't "from" anyone, so -from: keeps them
+      return filter.negated ? sql`(${column} IS NULL OR NOT (${condition}))` : condition;
+    }
+  }
+}
+
+/**
+ * SQL pieces for a parsed query over rlc_documents: `where` to AND into the
+ * WHERE clause, `rank` to order by, and `snippet(options)` for a highlighted
+ * excerpt (`options` is the ts_headline option string). Queries made only of
+ * filters rank every match equally and use the document's preview as snippet.
+ */
+export function searchQuerySql(query: SearchQuery) {
+  const filters = query.filters.map(filterCondition);
+
+  if (query.text.length === 0) {
+    return {
+      where: sql.join(filters, sql` AND `),
+      rank: sql`0`,
+      snippet: (_options: string) => sql`coalesce(text_preview, '')`,
+    };
+  }
+
+  const tsquery = sql.join(
+    query.text.map((group) => sql`(${sql.join(group.map(termTsquery), sql` || `)})`),
+    sql` && `,
+  );
+  return {
+    where: sql.join([sql`text_search @@ (${tsquery})`, ...filters], sql` AND `),
+    rank: sql`ts_rank(text_search, ${tsquery})`,
+    snippet: (options: string) => sql`ts_headline('english', coalesce(extracted_text, ''), ${tsquery}, ${options})`,
+  };
+}
@@ -0,0 +1,52 @@
+import type { SettingDefinitions } from '../../service-settings.js';
+
+// Defaults describe the first client corpus (the Hitachi Rail collaboration
+// Dropbox); admins override them per deployment under Admin → Services.
+// Each collection's source folder and optional prompt live on the collection.
+
+const DEFAULT_SYSTEM_PROMPT = `You are a document research assistant for the RL Controls / Hitachi Rail collaboration project. You have access to a corpus of approximately 12,500 documents (45 million words) from a shared Dropbox folder. The documents include PDFs, Word documents, Excel spreadsheets, emails (MSG/EML), and text files related to rail infrastructure engineering.
+
+Your job is to help users find specific documents, answer questions about the document corpus, and provide information extracted from the documents.
+
+When searching:
+- Start with broad keyword searches, then refine with more specific terms
+- Try multiple search strategies if the first attempt doesn't yield good results
+- Use directory filtering to narrow scope when you know the relevant area
+- Consider synonyms and alternative phrasings
+- For emails, search for subject lines, sender names, or key phrases
+- You can retrieve full document text to read and analyze content in detail
+
+When presenting results:
+- Cite specific documents by filename and path
+- Quote relevant passages when answering questions
+- Note the file type, date, and location for context
+- If results are ambiguous, present multiple options and ask for clarification
+
+The Dropbox folder structure starts with "/HITACHI RAIL COLLABORATION at RLC/" and contains engineering, project management, and correspondence directories.`;
+
+export const rlcSettings = {
+  systemPrompt: {
+    type: 'text',
+    label: 'Chat system prompt',
+    description: 'Instructions given to the model at the start of a research chat, unless the collection has its own',
+    default: DEFAULT_SYSTEM_PROMPT,
+    multiline: true,
+  },
+  chatModel: {
+    type: 'text',
+    label: 'Chat model',
+    description: 'Anthropic model ID used by the research chat',
+    default: 'claude-sonnet-4-20250514',
+    maxLength: 100,
+  },
+  maxFileSizeMb: {
+    type: 'number',
+    label: 'Maximum file size',
+    description: 'Larger files are skipped by the ingestion script',
+    default: 50,
+    min: 1,
+    max: 1024,
+    integer: true,
+    unit: 'MB',
+  },
+} satisfies SettingDefinitions;
@@ -0,0 +1,211 @@
+import type { Context } from 'hono';
+import { sign } from 'hono/jwt';
+import { setCookie, getCookie, deleteCookie } from 'hono/cookie';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { eq, and, isNull, gt, desc } from 'drizzle-orm';
+import { db } from './db.js';
+import { sessions, users } from './schema.js';
+import { env } from './env.js';
+import { generateToken, hashToken } from './tokens.js';
+
+export const ACCESS_TOKEN_COOKIE = 'auth_token';
+export const REFRESH_TOKEN_COOKIE = 'refresh_token';
+
+const ACCESS_TOKEN_TTL_SECONDS = 60 * 15; // 15 minutes
+const SESSION_TTL_SECONDS = 60 * 60 * 24 * 7; // 7 days, extended on each refresh
+
+// The refresh cookie is only ever needed by /api/auth/refresh and /logout
+const REFRESH_COOKIE_PATH = '/api/auth';
+
+type SessionUser = { id: string; email: string; role: string };
+
+const proxyConfig = (env.TRUSTED_PROXIES ?? '').trim();
+const trustedHops = /^\d+$/.test(proxyConfig) ? Number(proxyConfig) : 0;
+const trustedProxies = new Set(
+  trustedHops > 0 ? [] : proxyConfig.split(',').map((address) => normalizeIp(address)).filter(Boolean),
+);
+
+// "::ffff:203.0.113.5" is how Node reports IPv4 peers on a dual-stack socket
+function normalizeIp(address: string) {
+  return address.trim().replace(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/, '$1');
+}
+
+function socketAddress(c: Context) {
+  try {
+    const address = getConnInfo(c).remote.address;
+    return address ? normalizeIp(address) : null;
+  } catch {
+    // Not served by @hono/node-server (e.g. app.request in tests)
+    return null;
+  }
+}
+
+/**
+ * The caller's address: the socket peer, unless it is one of our proxies
+ * (TRUSTED_PROXIES), in which case the X-Forwarded-For hop our outermost proxy
+ * saw. Hops further left are whatever the client claimed and are never used,
+ * and without trusted proxies the header is ignored altogether.
+ */
+export function clientIp(c: Context): string | null {
+  const peer = socketAddress(c);
+  const hops = (c.req.header('x-forwarded-for') ?? '').split(',').map(normalizeIp).filter(Boolean);
+
+  if (trustedHops > 0) {
+    return hops[Math.max(0, hops.length - trustedHops)] ?? peer;
+  }
+  if (!peer || !trustedProxies.has(peer)) return peer;
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trustedProxies.has(hops[i])) return hops[i];
+  }
+  return hops[0] ?? peer;
+}
+
+async function setSessionCookies(c: Context, sessionId: string, user: SessionUser, refreshToken: string) {
+  const now = Math.floor(Date.now() / 1000);
+  const payload = {
+    sub: user.id,
+    sid: sessionId,
+    email: user.email,
+    role: user.role,
+    iat: now,
+    exp: now + ACCESS_TOKEN_TTL_SECONDS,
+  };
+  const accessToken = await sign(payload, env.JWT_SECRET, 'HS256');
+  const secure = process.env.NODE_ENV === 'production';
+
+  setCookie(c, ACCESS_TOKEN_COOKIE, accessToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'Lax',
+    path: '/',
+    maxAge: ACCESS_TOKEN_TTL_SECONDS,
+  });
+  setCookie(c, REFRESH_TOKEN_COOKIE, refreshToken, {
+    httpOnly: true,
+    secure,
+    sameSite: 'Lax',
+    path: REFRESH_COOKIE_PATH,
+    maxAge: SESSION_TTL_SECONDS,
+  });
+}
+
+export function clearSessionCookies(c: Context) {
+  deleteCookie(c, ACCESS_TOKEN_COOKIE, { path: '/' });
+  deleteCookie(c, REFRESH_TOKEN_COOKIE, { path: REFRESH_COOKIE_PATH });
+}
+
+/**
+ * Create a session row for a freshly authenticated user and set both cookies.
+ */
+export async function startSession(c: Context, user: SessionUser) {
+  const refreshToken = generateToken();
+
+  const [session] = await db
+    .insert(sessions)
+    .values({
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      userAgent: c.req.header('user-agent') ?? null,
+      ipAddress: clientIp(c),
+      expiresAt: new Date(Date.now() + SESSION_TTL_SECONDS * 1000),
+    })
+    .returning({ id: sessions.id });
+
+  await setSessionCookies(c, session.id, user, refreshToken);
+}
+
+/**
+ * Exchange the refresh cookie for a new access token, rotating the refresh token.
+ * Returns false (and clears cookies) if the session is gone, revoked or expired.
+ */
+export async function refreshSession(c: Context) {
+  const refreshToken = getCookie(c, REFRESH_TOKEN_COOKIE);
+  if (!refreshToken) return false;
+
+  const nextRefreshToken = generateToken();
+  const now = new Date();
+
+  // Rotate in one statement so a refresh token can only be exchanged once
+  const [session] = await db
+    .update(sessions)
+    .set({
+      refreshTokenHash: hashToken(nextRefreshToken),
+      lastSeenAt: now,
+      expiresAt: new Date(now.getTime() + SESSION_TTL_SECONDS * 1000),
+      ipAddress: clientIp(c),
+    })
+    .where(
+      and(
+        eq(sessions.refreshTokenHash, hashToken(refreshToken)),
+        isNull(sessions.revokedAt),
+        gt(sessions.expiresAt, now),
+      ),
+    )
+    .returning({ id: sessions.id, userId: sessions.userId });
+
+  const [user] = session
+    ? await db
+        .select({ id: users.id, email: users.email, role: users.role })
+        .from(users)
+        .where(eq(users.id, session.userId))
+        .limit(1)
+    : [];
+
+  if (!session || !user) {
+    clearSessionCookies(c);
+    return false;
+  }
+
+  await setSessionCookies(c, session.id, user, nextRefreshToken);
+  return true;
+}
+
+/**
+ * Revoke the session behind the current refresh cookie (if any) and clear cookies.
+ */
+export async function endSession(c: Context) {
+  const refreshToken = getCookie(c, REFRESH_TOKEN_COOKIE);
+  if (refreshToken) {
+    await db
+      .update(sessions)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(sessions.refreshTokenHash, hashToken(refreshToken)), isNull(sessions.revokedAt)));
+  }
+  clearSessionCookies(c);
+}
+
+export async function revokeUserSessions(userId: string) {
+  await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt)));
+}
+
+/**
+ * Live (unrevoked, unexpired) sessions for a user, most recently active first.
+ */
+export async function listActiveSessions(userId: string) {
+  return db
+    .select({
+      id: sessions.id,
+      userAgent: sessions.userAgent,
+      ipAddress: sessions.ipAddress,
+      createdAt: sessions.createdAt,
+      lastSeenAt: sessions.lastSeenAt,
+    })
+    .from(sessions)
+    .where(and(eq(sessions.userId, userId), isNull(sessions.revokedAt), gt(sessions.expiresAt, new Date())))
+    .orderBy(desc(sessions.lastSeenAt));
+}
+
+/**
+ * Revoke one of a user's sessions. Returns false if it doesn't exist or is already revoked.
+ */
+export async function revokeSession(userId: string, sessionId: string) {
+  const [revoked] = await db
+    .update(sessions)
+    .set({ revokedAt: new Date() })
+    .where(and(eq(sessions.id, sessionId), eq(sessions.userId, userId), isNull(sessions.revokedAt)))
+    .returning({ id: sessions.id });
+  return !!revoked;
+}
@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import type { Context } from 'hono';
+import { sign, verify, verifyWithJwks } from 'hono/jwt';
+import { setCookie, getCookie, deleteCookie } from 'hono/cookie';
+import { HTTPException } from 'hono/http-exception';
+import { eq, and, arrayContains, sql } from 'drizzle-orm';
+import { db } from './db.js';
+import { users, userServices, ssoConnections, userIdentities, ssoDomainRules } from './schema.js';
+import { env } from './env.js';
+import { generateToken } from './tokens.js';
+
+// OpenID Connect authorization-code flow (with PKCE) against per-connection IdPs.
+// The state/nonce/verifier round-trip lives in a signed cookie scoped to /api/auth/sso.
+
+const STATE_COOKIE = 'sso_state';
+const STATE_COOKIE_PATH = '/api/auth/sso';
+const STATE_TTL_SECONDS = 60 * 10; // 10 minutes to finish signing in at the IdP
+const DISCOVERY_CACHE_MS = 60 * 60 * 1000;
+const ID_TOKEN_ALGORITHMS = ['RS256', 'RS384', 'RS512', 'PS256', 'PS384', 'PS512', 'ES256', 'ES384', 'ES512', 'EdDSA'] as const;
+
+type SsoConnection = typeof ssoConnections.$inferSelect;
+
+type OidcMetadata = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  jwks_uri: string;
+};
+
+export type SsoIdentity = { subject: string; email: string };
+
+export function emailDomain(email: string) {
+  return email.slice(email.lastIndexOf('@') + 1).toLowerCase();
+}
+
+function base64url(buf: Buffer) {
+  return buf.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function callbackUrl(connection: SsoConnection) {
+  return `${env.APP_URL}/api/auth/sso/${connection.slug}/callback`;
+}
+
+// --- Connections ---
+
+export async function findConnection(slug: string) {
+  const [connection] = await db
+    .select()
+    .from(ssoConnections)
+    .where(and(eq(ssoConnections.slug, slug), eq(ssoConnections.enabled, true)))
+    .limit(1);
+  return connection ?? null;
+}
+
+export async function findConnectionForEmail(email: string) {
+  const [connection] = await db
+    .select()
+    .from(ssoConnections)
+    .where(and(arrayContains(ssoConnections.domains, [emailDomain(email)]), eq(ssoConnections.enabled, true)))
+    .limit(1);
+  return connection ?? null;
+}
+
+// --- Discovery ---
+
+const discoveryCache = new Map<string, { metadata: OidcMetadata; fetchedAt: number }>();
+
+async function discover(issuer: string): Promise<OidcMetadata> {
+  const base = issuer.replace(/\/+$/, '');
+  const cached = discoveryCache.get(base);
+  if (cached && Date.now() - cached.fetchedAt < DISCOVERY_CACHE_MS) {
+    return cached.metadata;
+  }
+
+  const res = await fetch(`${base}/.well-known/openid-configuration`);
+  if (!res.ok) {
+    throw new HTTPException(502, { message: 'Identity provider is unavailable' });
+  }
+  const metadata = (await res.json()) as OidcMetadata;
+  if (metadata.issuer.replace(/\/+$/, '') !== base) {
+    throw new HTTPException(502, { message: 'Identity provider issuer mismatch' });
+  }
+
+  discoveryCache.set(base, { metadata, fetchedAt: Date.now() });
+  return metadata;
+}
+
+// --- Login flow ---
+
+/**
+ * Build the IdP authorization URL and remember state/nonce/PKCE verifier in a cookie.
+ */
+export async function beginSsoLogin(c: Context, connection: SsoConnection) {
+  const metadata = await discover(connection.issuer);
+  const state = generateToken(16);
+  const nonce = generateToken(16);
+  const verifier = generateToken(32);
+  const now = Math.floor(Date.now() / 1000);
+
+  const cookie = await sign(
+    { purpose: 'sso', connection: connection.slug, state, nonce, verifier, iat: now, exp: now + STATE_TTL_SECONDS },
+    env.JWT_SECRET,
+    'HS256',
+  );
+  setCookie(c, STATE_COOKIE, cookie, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    // Lax so the cookie survives the top-level redirect back from the IdP
+    sameSite: 'Lax',
+    path: STATE_COOKIE_PATH,
+    maxAge: STATE_TTL_SECONDS,
+  });
+
+  const url = new URL(metadata.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: connection.clientId,
+    redirect_uri: callbackUrl(connection),
+    scope: 'openid email profile',
+    state,
+    nonce,
+    code_challenge: base64url(crypto.createHash('sha256').update(verifier).digest()),
+    code_challenge_method: 'S256',
+  }).toString();
+  return url.toString();
+}
+
+async function readStateCookie(c: Context) {
+  const token = getCookie(c, STATE_COOKIE);
+  deleteCookie(c, STATE_COOKIE, { path: STATE_COOKIE_PATH });
+  if (!token) return null;
+  try {
+    const payload = await verify(token, env.JWT_SECRET, 'HS256');
+    return payload.purpose === 'sso' ? (payload as { connection: string; state: string; nonce: string; verifier: string }) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Handle the IdP redirect: check state, exchange the code and verify the ID token.
+ */
+export async function completeSsoLogin(c: Context, connection: SsoConnection): Promise<SsoIdentity> {
+  const saved = await readStateCookie(c);
+  const { code, state, error } = c.req.query();
+
+  if (error) {
+    throw new HTTPException(401, { message: `Identity provider returned an error: ${error}` });
+  }
+  if (!saved || saved.connection !== connection.slug || !state || state !== saved.state || !code) {
+    throw new HTTPException(400, { message: 'Sign-in attempt expired, please try again' });
+  }
+
+  const metadata = await discover(connection.issuer);
+  const credentials = `${encodeURIComponent(connection.clientId)}:${encodeURIComponent(connection.clientSecret)}`;
+  const res = await fetch(metadata.token_endpoint, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Authorization: `Basic ${Buffer.from(credentials).toString('base64')}`,
+    },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code,
+      redirect_uri: callbackUrl(connection),
+      code_verifier: saved.verifier,
+    }),
+  });
+  if (!res.ok) {
+    throw new HTTPException(401, { message: 'Identity provider rejected the sign-in' });
+  }
+
+  const { id_token: idToken } = (await res.json()) as { id_token?: string };
+  if (!idToken) {
+    throw new HTTPException(401, { message: 'Identity provider did not return an ID token' });
+  }
+
+  let claims: Record<string, unknown>;
+  try {
+    claims = await verifyWithJwks(idToken, {
+      jwks_uri: metadata.jwks_uri,
+      allowedAlgorithms: ID_TOKEN_ALGORITHMS,
+      verification: { iss: metadata.issuer, aud: connection.clientId },
+    });
+  } catch {
+    throw new HTTPException(401, { message: 'Invalid ID token' });
+  }
+
+  if (claims.nonce !== saved.nonce) {
+    throw new HTTPException(401, { message: 'Invalid ID token' });
+  }
+  if (typeof claims.sub !== 'string' || typeof claims.email !== 'string') {
+    throw new HTTPException(401, { message: 'Identity provider did not share an email address' });
+  }
+  if (claims.email_verified === false) {
+    throw new HTTPException(401, { message: 'Your email address is not verified with the identity provider' });
+  }
+
+  return { subject: claims.sub, email: claims.email.toLowerCase() };
+}
+
+// --- Account mapping ---
+
+/**
+ * Find the user for an IdP identity. First login links an existing account with the
+ * same email or provisions a new one, but only for domains the connection is trusted for.
+ */
+export async function resolveSsoUser(connection: SsoConnection, identity: SsoIdentity) {
+  const userColumns = { id: users.id, email: users.email, role: users.role, totpEnabledAt: users.totpEnabledAt, suspendedAt: users.suspendedAt };
+
+  const [linked] = await db
+    .select(userColumns)
+    .from(userIdentities)
+    .innerJoin(users, eq(userIdentities.userId, users.id))
+    .where(and(eq(userIdentities.connectionId, connection.id), eq(userIdentities.subject, identity.subject)))
+    .limit(1);
+
+  let user = linked;
+  if (user) {
+    await db
+      .update(userIdentities)
+      .set({ lastLoginAt: new Date() })
+      .where(and(eq(userIdentities.connectionId, connection.id), eq(userIdentities.subject, identity.subject)));
+  } else {
+    const domain = emailDomain(identity.email);
+    if (!connection.domains.includes(domain)) {
+      throw new HTTPException(403, { message: `${connection.name} is not allowed to sign in ${domain} accounts` });
+    }
+
+    // Emails are stored as typed at registration; the identity's is already lowercased
+    const [existing] = await db.select(userColumns).from(users).where(sql`lower(${users.email}) = ${identity.email}`).limit(1);
+    user = existing ?? (await db
+      .insert(users)
+      .values({ email: identity.email, passwordHash: null, role: 'user' })
+      .returning(userColumns))[0];
+
+    await db.insert(userIdentities).values({
+      userId: user.id,
+      connectionId: connection.id,
+      subject: identity.subject,
+    });
+    await applyDomainRules(user.id, user.email);
+  }
+
+  return user;
+}
+
+/**
+ * Grant every service the user's email domain is entitled to. Runs only when an identity
+ * is first linked: on later logins it would re-grant services an admin has since revoked
+ * or the expiry sweep has removed.
+ */
+async function applyDomainRules(userId: string, email: string) {
+  const rules = await db
+    .select({ serviceId: ssoDomainRules.serviceId, createdBy: ssoDomainRules.createdBy })
+    .from(ssoDomainRules)
+    .where(eq(ssoDomainRules.domain, emailDomain(email)));
+
+  if (rules.length === 0) return;
+
+  await db
+    .insert(userServices)
+    // A rule whose author has since been deleted grants in the user's own name
+    .values(rules.map((rule) => ({ userId, serviceId: rule.serviceId, grantedBy: rule.createdBy ?? userId })))
+    .onConflictDoNothing();
+}
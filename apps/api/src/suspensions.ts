@@ -0,0 +1,74 @@
+import { HTTPException } from 'hono/http-exception';
+import { eq, and, isNull, isNotNull, sql } from 'drizzle-orm';
+import { db } from './db.js';
+import { users } from './schema.js';
+import { revokeUserSessions } from './sessions.js';
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+/**
+ * Refuse sign-in or a request for a suspended account.
+ */
+export function assertNotSuspended(user: { suspendedAt: Date | null }) {
+  if (user.suspendedAt) {
+    throw new HTTPException(403, { message: 'This account has been suspended' });
+  }
+}
+
+/**
+ * Refuse to demote or suspend the only admin who isn't suspended, which would
+ * leave nobody able to administer the platform. Run it in the transaction that
+ * makes the change: the lock makes two admins acting on each other at once
+ * take turns, so the second sees the first's change.
+ */
+export async function assertNotLastActiveAdmin(tx: Transaction, userId: string, message: string) {
+  await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('admins:active'))`);
+  const admins = await tx
+    .select({ id: users.id })
+    .from(users)
+    .where(and(eq(users.role, 'admin'), isNull(users.suspendedAt)))
+    .limit(2);
+  if (admins.length === 1 && admins[0].id === userId) {
+    throw new HTTPException(400, { message });
+  }
+}
+
+/**
+ * Suspend an account and end its sessions. API tokens stay but are refused
+ * until the account is reactivated. Returns null if the user doesn't exist or
+ * is already suspended.
+ */
+export async function suspendUser(userId: string, suspendedBy: string, reason: string) {
+  const suspended = await db.transaction(async (tx) => {
+    await assertNotLastActiveAdmin(tx, userId, 'Cannot suspend the last active admin');
+    const [row] = await tx
+      .update(users)
+      .set({ suspendedAt: new Date(), suspendedReason: reason, suspendedBy })
+      .where(and(eq(users.id, userId), isNull(users.suspendedAt)))
+      .returning({ id: users.id, email: users.email, suspendedAt: users.suspendedAt });
+    return row;
+  });
+  if (!suspended) return null;
+
+  await revokeUserSessions(userId);
+  return suspended;
+}
+
+/**
+ * Lift a suspension. Returns the previous suspension, or null if the user
+ * doesn't exist or wasn't suspended.
+ */
+export async function reactivateUser(userId: string) {
+  const [previous] = await db
+    .select({ email: users.email, suspendedAt: users.suspendedAt, suspendedReason: users.suspendedReason })
+    .from(users)
+    .where(and(eq(users.id, userId), isNotNull(users.suspendedAt)))
+    .limit(1);
+  if (!previous) return null;
+
+  await db
+    .update(users)
+    .set({ suspendedAt: null, suspendedReason: null, suspendedBy: null })
+    .where(eq(users.id, userId));
+  return previous;
+}
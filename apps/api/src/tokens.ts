@@ -0,0 +1,12 @@
+import crypto from 'crypto';
+
+/**
+ * Random opaque token for links and cookies. Only its hash is ever stored.
+ */
+export function generateToken(bytes = 32) {
+  return crypto.randomBytes(bytes).toString('hex');
+}
+
+export function hashToken(token: string) {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { base32Encode, generateTotp, verifyTotp, currentTotpStep, buildOtpauthUrl } from './totp.js';
+
+// RFC 6238 Appendix B (SHA-1), truncated to 6 digits
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('totp', () => {
+  it('matches the RFC 6238 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, currentTotpStep(59 * 1000))).toBe('287082');
+    expect(generateTotp(RFC_SECRET, currentTotpStep(1111111109 * 1000))).toBe('081804');
+    expect(generateTotp(RFC_SECRET, currentTotpStep(1234567890 * 1000))).toBe('005924');
+  });
+
+  it('accepts codes within one step of clock drift', () => {
+    const now = 1111111109 * 1000;
+    const previous = generateTotp(RFC_SECRET, currentTotpStep(now) - 1);
+    expect(verifyTotp(RFC_SECRET, previous, { now })).toBe(currentTotpStep(now) - 1);
+    const stale = generateTotp(RFC_SECRET, currentTotpStep(now) - 3);
+    expect(verifyTotp(RFC_SECRET, stale, { now })).toBeNull();
+  });
+
+  it('rejects a code whose step has already been used', () => {
+    const now = 1111111109 * 1000;
+    const step = currentTotpStep(now);
+    const code = generateTotp(RFC_SECRET, step);
+    expect(verifyTotp(RFC_SECRET, code, { now, afterStep: step })).toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    expect(verifyTotp(RFC_SECRET, 'abcdef')).toBeNull();
+    expect(verifyTotp(RFC_SECRET, '12345')).toBeNull();
+  });
+
+  it('builds an otpauth provisioning URI', () => {
+    const url = buildOtpauthUrl('JBSWY3DPEHPK3PXP', 'test@example.com');
+    expect(url).toBe(
+      'otpauth://totp/vogt-ai%3Atest%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=vogt-ai&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import { sign, verify } from 'hono/jwt';
+import { eq, and, isNull, or, lt, sql } from 'drizzle-orm';
+import { db } from './db.js';
+import { users, recoveryCodes } from './schema.js';
+import { env } from './env.js';
+import { generateToken, hashToken } from './tokens.js';
+import { verifyTotp } from './totp.js';
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_SECONDS = 60 * 5; // 5 minutes to enter the code after the password
+
+type TwoFactorUser = {
+  id: string;
+  totpSecret: string | null;
+  totpLastUsedStep: number | null;
+};
+
+/**
+ * Short-lived token proving the password step succeeded. It carries no sid,
+ * so requireSession will never accept it as an access token.
+ */
+export async function signTwoFactorChallenge(userId: string) {
+  const now = Math.floor(Date.now() / 1000);
+  return sign(
+    { sub: userId, purpose: 'two_factor', iat: now, exp: now + CHALLENGE_TTL_SECONDS },
+    env.JWT_SECRET,
+    'HS256',
+  );
+}
+
+/**
+ * Returns the user id from a valid challenge token, or null if it's expired or forged.
+ */
+export async function verifyTwoFactorChallenge(token: string): Promise<string | null> {
+  try {
+    const payload = await verify(token, env.JWT_SECRET, 'HS256');
+    return payload.purpose === 'two_factor' && typeof payload.sub === 'string' ? payload.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check a TOTP code against the user's secret, recording the step so the same
+ * code can't be replayed. Returns false on mismatch or replay.
+ */
+export async function consumeTotp(user: TwoFactorUser, code: string) {
+  if (!user.totpSecret) return false;
+
+  const step = verifyTotp(user.totpSecret, code, { afterStep: user.totpLastUsedStep ?? -1 });
+  if (step === null) return false;
+
+  // Conditional update guards against two concurrent requests using the same code
+  const [updated] = await db
+    .update(users)
+    .set({ totpLastUsedStep: step })
+    .where(
+      and(
+        eq(users.id, user.id),
+        or(isNull(users.totpLastUsedStep), lt(users.totpLastUsedStep, step)),
+      ),
+    )
+    .returning({ id: users.id });
+
+  return !!updated;
+}
+
+function normalizeRecoveryCode(code: string) {
+  return code.toLowerCase().replace(/[^0-9a-f]/g, '');
+}
+
+/**
+ * Second factor for login and sensitive changes: a TOTP code or an unused recovery code.
+ */
+export async function verifySecondFactor(user: TwoFactorUser, code: string) {
+  if (await consumeTotp(user, code)) return true;
+
+  const [used] = await db
+    .update(recoveryCodes)
+    .set({ usedAt: new Date() })
+    .where(
+      and(
+        eq(recoveryCodes.userId, user.id),
+        eq(recoveryCodes.codeHash, hashToken(normalizeRecoveryCode(code))),
+        isNull(recoveryCodes.usedAt),
+      ),
+    )
+    .returning({ id: recoveryCodes.id });
+
+  return !!used;
+}
+
+/**
+ * Replace a user's recovery codes. The plaintext codes are only ever returned here.
+ */
+export async function createRecoveryCodes(userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = generateToken(5); // 10 hex chars
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+
+  await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+  await db.insert(recoveryCodes).values(
+    codes.map((code) => ({ userId, codeHash: hashToken(normalizeRecoveryCode(code)) })),
+  );
+
+  return codes;
+}
+
+export async function countUnusedRecoveryCodes(userId: string) {
+  const [{ remaining }] = await db
+    .select({ remaining: sql<number>`count(*)::int` })
+    .from(recoveryCodes)
+    .where(and(eq(recoveryCodes.userId, userId), isNull(recoveryCodes.usedAt)));
+  return remaining;
+}
+
+export async function clearTwoFactor(userId: string) {
+  await db
+    .update(users)
+    .set({ totpSecret: null, totpEnabledAt: null, totpLastUsedStep: null })
+    .where(eq(users.id, userId));
+  await db.delete(recoveryCodes).where(eq(recoveryCodes.userId, userId));
+}
@@ -1,21 +1,31 @@
 import { BrowserRouter, Routes, Route } from 'react-router';
 import { AuthProvider } from './components/AuthProvider';
+import { ImpersonationBanner } from './components/ImpersonationBanner';
 import { ProtectedRoute } from './components/ProtectedRoute';
 import { LoginPage } from './components/LoginPage';
 import { RegisterPage } from './components/RegisterPage';
+import { ForgotPasswordPage } from './components/ForgotPasswordPage';
+import { ResetPasswordPage } from './components/ResetPasswordPage';
 import { DashboardPage } from './components/DashboardPage';
 import { AdminPage } from './components/AdminPage';
+import { SessionsPage } from './components/SessionsPage';
+import { SecurityPage } from './components/SecurityPage';
+import { ApiTokensPage } from './components/ApiTokensPage';
+import { OrganizationPage } from './components/OrganizationPage';
 import { AdminRoute } from './components/AdminRoute';
 import { ServiceRoute } from './components/ServiceRoute';
-import { RLCPage } from './services/rlc/RLCPage';
+import { serviceApps } from './services/registry';
 
 export default function App() {
   return (
     <BrowserRouter basename="/app">
       <AuthProvider>
+        <ImpersonationBanner />
         <Routes>
           <Route path="/login" element={<LoginPage />} />
           <Route path="/register" element={<RegisterPage />} />
+          <Route path="/forgot-password" element={<ForgotPasswordPage />} />
+          <Route path="/reset-password" element={<ResetPasswordPage />} />
 
           {/* Dashboard — shows services user has access to */}
           <Route
@@ -27,18 +37,58 @@ export default function App() {
             }
           />
 
-          {/* Services — each wrapped with ServiceRoute for access control */}
           <Route
-            path="/rlc"
+            path="/sessions"
             element={
               <ProtectedRoute>
-                <ServiceRoute slug="rlc-controls">
-                  <RLCPage />
-                </ServiceRoute>
+                <SessionsPage />
               </ProtectedRoute>
             }
           />
 
+          <Route
+            path="/security"
+            element={
+              <ProtectedRoute>
+                <SecurityPage />
+              </ProtectedRoute>
+            }
+          />
+
+          <Route
+            path="/api-tokens"
+            element={
+              <ProtectedRoute>
+                <ApiTokensPage />
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Organization self-service; the API checks the user is an org admin */}
+          <Route
+            path="/orgs/:orgId"
+            element={
+              <ProtectedRoute>
+                <OrganizationPage />
+              </ProtectedRoute>
+            }
+          />
+
+          {/* Services — one per manifest in services/registry.ts, each wrapped with ServiceRoute for access control */}
+          {serviceApps.map(({ slug, path, Page }) => (
+            <Route
+              key={slug}
+              path={path}
+              element={
+                <ProtectedRoute>
+                  <ServiceRoute slug={slug}>
+                    <Page />
+                  </ServiceRoute>
+                </ProtectedRoute>
+              }
+            />
+          ))}
+
           {/* Admin panel */}
           <Route
             path="/admin"
@@ -1,3 +1,7 @@
+import { fetchWithRefresh } from './fetch-with-refresh';
+import type { ActiveSession } from './auth-client';
+import type { ServiceRole } from './services-client';
+
 // --- Types ---
 
 export type AdminUser = {
@@ -5,7 +9,68 @@ export type AdminUser = {
   email: string;
   role: 'admin' | 'user';
   createdAt: string;
-  services: Array<{ id: string; name: string; slug: string }>;
+  twoFactorEnabled: boolean;
+  lockedUntil: string | null;
+  // Suspended users can't sign in; their data and grants are kept
+  suspendedAt: string | null;
+  suspendedReason: string | null;
+  // Direct grants; a window bounds when the grant is honored
+  services: Array<{ id: string; name: string; slug: string; role: ServiceRole; startsAt: string | null; expiresAt: string | null }>;
+  organizations: Array<{ id: string; name: string; role: OrganizationRole }>;
+  groups: Array<{ id: string; name: string }>;
+  effectiveServices: EffectiveService[];
+};
+
+export type SortOrder = 'asc' | 'desc';
+
+// Pass nextCursor back to get the page after; null on the last page
+export type CursorPage = { nextCursor: string | null; total: number };
+
+export type UserFilters = {
+  q?: string;
+  role?: 'admin' | 'user';
+  serviceId?: string;
+  sort?: 'createdAt' | 'email';
+  order?: SortOrder;
+};
+
+export type ExpiringGrant = {
+  userId: string;
+  userEmail: string;
+  serviceId: string;
+  serviceName: string;
+  role: ServiceRole;
+  startsAt: string | null;
+  expiresAt: string;
+};
+
+export type AccessSource = { role: ServiceRole } & (
+  | { type: 'direct' }
+  | { type: 'organization'; id: string; name: string }
+  | { type: 'group'; id: string; name: string }
+);
+
+export type EffectiveService = {
+  id: string;
+  name: string;
+  slug: string;
+  enabled: boolean;
+  // The most capable role across all sources
+  role: ServiceRole;
+  sources: AccessSource[];
+};
+
+export type LoginLockout = {
+  id: string;
+  scope: 'account' | 'ip';
+  email: string | null;
+  userId: string | null;
+  ipAddress: string | null;
+  failedAttempts: number;
+  lockedUntil: string;
+  releasedAt: string | null;
+  releasedByEmail: string | null;
+  createdAt: string;
 };
 
 export type InviteCode = {
@@ -16,10 +81,52 @@ export type InviteCode = {
   usedBy: string | null;
   usedByEmail: string | null;
   usedAt: string | null;
+  useCount: number;
+  maxUses: number;
+  email: string | null;
+  role: string;
+  note: string | null;
+  organizationId: string | null;
+  organizationName: string | null;
+  groupId: string | null;
+  groupName: string | null;
+  services: Array<{ id: string; name: string; slug: string }>;
   expiresAt: string | null;
   createdAt: string;
 };
 
+export type InviteStatus = 'unused' | 'used' | 'expired';
+
+export type InviteCodeFilters = {
+  q?: string;
+  role?: 'admin' | 'user';
+  serviceId?: string;
+  status?: InviteStatus;
+  sort?: 'createdAt' | 'expiresAt';
+  order?: SortOrder;
+};
+
+export type CreateInviteCodeInput = {
+  expiresInDays?: number;
+  email?: string;
+  role?: 'admin' | 'user';
+  serviceIds?: string[];
+  maxUses?: number;
+  note?: string;
+  organizationId?: string;
+};
+
+export type InviteImportRow = {
+  line: number;
+  email: string;
+  role: 'admin' | 'user';
+  services: Array<{ id: string; slug: string; name: string }>;
+  group: { id: string; name: string } | null;
+  errors: string[];
+};
+
+export type InviteImportResult = InviteImportRow & { code: string | null };
+
 export type AdminService = {
   id: string;
   slug: string;
@@ -28,13 +135,136 @@ export type AdminService = {
   icon: string | null;
   route: string;
   enabled: boolean;
+  requireTwoFactor: boolean;
+  // Defined by a manifest in code: details are synced from it, only enabling is up to admins
+  registered: boolean;
+  // Its manifest declares settings admins can edit
+  hasSettings: boolean;
+  userCount: number;
+  createdAt: string;
+};
+
+type ServiceSettingBase = {
+  key: string;
+  label: string;
+  description?: string;
+  // null while the setting is on its default
+  updatedAt: string | null;
+};
+
+export type ServiceSetting =
+  | (ServiceSettingBase & { type: 'text'; value: string; default: string; multiline?: boolean; maxLength?: number })
+  | (ServiceSettingBase & {
+      type: 'number';
+      value: number;
+      default: number;
+      min?: number;
+      max?: number;
+      integer?: boolean;
+      unit?: string;
+    });
+
+export type ServiceInput = {
+  slug: string;
+  name: string;
+  description: string | null;
+  icon: string | null;
+  route: string;
+  enabled?: boolean;
+};
+
+export type OrganizationRole = 'admin' | 'member';
+
+export type Organization = {
+  id: string;
+  slug: string;
+  name: string;
+  createdAt: string;
+  members: Array<{ userId: string; email: string; role: OrganizationRole; joinedAt: string }>;
+  services: Array<{ id: string; slug: string; name: string; enabled: boolean; role: ServiceRole }>;
+};
+
+export type UserGroup = {
+  id: string;
+  name: string;
+  description: string | null;
+  createdAt: string;
+  members: Array<{ userId: string; email: string; addedAt: string }>;
+  services: Array<{ id: string; slug: string; name: string; enabled: boolean; role: ServiceRole }>;
+};
+
+export type AddGroupMembersResult = {
+  added: string[];
+  alreadyMembers: string[];
+  notFound: string[];
+};
+
+export type SecurityPolicy = {
+  roles: Array<{ role: 'admin' | 'user'; requireTwoFactor: boolean }>;
+  services: Array<{ id: string; name: string; slug: string; requireTwoFactor: boolean }>;
+};
+
+export type SsoConnection = {
+  id: string;
+  slug: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  domains: string[];
+  enabled: boolean;
+  createdAt: string;
+};
+
+export type SsoConnectionInput = {
+  slug: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  domains: string[];
+};
+
+export type SsoDomainRule = {
+  id: string;
+  domain: string;
+  serviceId: string;
+  serviceName: string;
   createdAt: string;
 };
 
+export type AuditEvent = {
+  id: string;
+  action: string;
+  actorId: string | null;
+  actorEmail: string | null;
+  targetType: string | null;
+  targetId: string | null;
+  targetLabel: string | null;
+  metadata: Record<string, unknown> | null;
+  ipAddress: string | null;
+  createdAt: string;
+};
+
+export type AuditFilters = {
+  action?: string;
+  actor?: string;
+  target?: string;
+  from?: string;
+  to?: string;
+};
+
+export type AuditPage = {
+  events: AuditEvent[];
+  total: number;
+  page: number;
+  pageSize: number;
+  actions: string[];
+};
+
 // --- Fetch helper ---
 
 async function adminFetch<T>(url: string, options?: RequestInit): Promise<T> {
-  const res = await fetch(url, {
+  const res = await fetchWithRefresh(url, {
     headers: { 'Content-Type': 'application/json' },
     ...options,
   });
@@ -56,10 +286,39 @@ async function adminFetch<T>(url: string, options?: RequestInit): Promise<T> {
   return res.json() as Promise<T>;
 }
 
+function queryString(filters: object, extra: Record<string, string> = {}) {
+  const params = new URLSearchParams(extra);
+  for (const [key, value] of Object.entries(filters)) {
+    if (value) params.set(key, String(value));
+  }
+  return params.toString();
+}
+
 // --- Users ---
 
-export function getUsers(): Promise<{ users: AdminUser[] }> {
-  return adminFetch('/api/admin/users');
+export function getUsers(
+  filters: UserFilters = {},
+  page: { cursor?: string | null; limit?: number } = {},
+): Promise<CursorPage & { users: AdminUser[] }> {
+  return adminFetch(`/api/admin/users?${queryString({ ...filters, ...page })}`);
+}
+
+/**
+ * Every user matching the filters, following the cursor (for pickers).
+ */
+export async function getAllUsers(filters: UserFilters = {}): Promise<AdminUser[]> {
+  const all: AdminUser[] = [];
+  let cursor: string | null = null;
+  do {
+    const page: CursorPage & { users: AdminUser[] } = await getUsers(filters, { cursor, limit: 200 });
+    all.push(...page.users);
+    cursor = page.nextCursor;
+  } while (cursor);
+  return all;
+}
+
+export function getExpiringGrants(days: number): Promise<{ grants: ExpiringGrant[] }> {
+  return adminFetch(`/api/admin/users/expiring-grants?days=${days}`);
 }
 
 export function deleteUser(userId: string): Promise<{ success: boolean }> {
@@ -75,16 +334,79 @@ export function updateUserRole(userId: string, role: 'admin' | 'user'): Promise<
   });
 }
 
+export function getUserSessions(userId: string): Promise<{ sessions: ActiveSession[] }> {
+  return adminFetch(`/api/admin/users/${userId}/sessions`);
+}
+
+export function revokeUserSession(userId: string, sessionId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/users/${userId}/sessions/${sessionId}`, {
+    method: 'DELETE',
+  });
+}
+
+export function revokeAllUserSessions(userId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/users/${userId}/sessions`, {
+    method: 'DELETE',
+  });
+}
+
+export function resetUserTwoFactor(userId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/users/${userId}/two-factor`, {
+    method: 'DELETE',
+  });
+}
+
+export function unlockUser(userId: string): Promise<{ success: boolean; wasLocked: boolean }> {
+  return adminFetch(`/api/admin/users/${userId}/unlock`, {
+    method: 'POST',
+  });
+}
+
+// The current session then acts as the user until stopImpersonation (auth-client)
+export function impersonateUser(userId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/users/${userId}/impersonate`, {
+    method: 'POST',
+  });
+}
+
+export function suspendUser(userId: string, reason: string): Promise<{ success: boolean; suspendedAt: string }> {
+  return adminFetch(`/api/admin/users/${userId}/suspend`, {
+    method: 'POST',
+    body: JSON.stringify({ reason }),
+  });
+}
+
+export function reactivateUser(userId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/users/${userId}/reactivate`, {
+    method: 'POST',
+  });
+}
+
+// --- Login Lockouts ---
+
+export function getLockouts(): Promise<{ lockouts: LoginLockout[] }> {
+  return adminFetch('/api/admin/lockouts');
+}
+
+export function releaseLockout(id: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/lockouts/${id}/release`, {
+    method: 'POST',
+  });
+}
+
 // --- Invite Codes ---
 
-export function getInviteCodes(): Promise<{ inviteCodes: InviteCode[] }> {
-  return adminFetch('/api/admin/invite-codes');
+export function getInviteCodes(
+  filters: InviteCodeFilters = {},
+  page: { cursor?: string | null; limit?: number } = {},
+): Promise<CursorPage & { inviteCodes: InviteCode[] }> {
+  return adminFetch(`/api/admin/invite-codes?${queryString({ ...filters, ...page })}`);
 }
 
-export function createInviteCode(expiresInDays?: number): Promise<{ inviteCode: InviteCode }> {
+export function createInviteCode(input: CreateInviteCodeInput = {}): Promise<{ inviteCode: InviteCode }> {
   return adminFetch('/api/admin/invite-codes', {
     method: 'POST',
-    body: JSON.stringify(expiresInDays ? { expiresInDays } : {}),
+    body: JSON.stringify(input),
   });
 }
 
@@ -94,15 +416,95 @@ export function deleteInviteCode(id: string): Promise<{ success: boolean }> {
   });
 }
 
+export function previewInviteImport(csv: string): Promise<{ rows: InviteImportRow[] }> {
+  return adminFetch('/api/admin/invite-codes/import/preview', {
+    method: 'POST',
+    body: JSON.stringify({ csv }),
+  });
+}
+
+export function importInvites(
+  csv: string,
+  options: { expiresInDays?: number; note?: string } = {},
+): Promise<{ results: InviteImportResult[]; created: number; skipped: number; csv: string }> {
+  return adminFetch('/api/admin/invite-codes/import', {
+    method: 'POST',
+    body: JSON.stringify({ csv, ...options }),
+  });
+}
+
 // --- Services ---
 
 export function getServices(): Promise<{ services: AdminService[] }> {
   return adminFetch('/api/admin/services');
 }
 
-export function grantServiceAccess(userId: string, serviceId: string): Promise<{ success: boolean }> {
+export function createService(input: ServiceInput): Promise<{ service: AdminService }> {
+  return adminFetch('/api/admin/services', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export function updateService(
+  id: string,
+  changes: Partial<Omit<ServiceInput, 'slug'>>,
+): Promise<{ service: AdminService }> {
+  return adminFetch(`/api/admin/services/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+}
+
+export function deleteService(id: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/services/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export function getServiceSettings(id: string): Promise<{ settings: ServiceSetting[] }> {
+  return adminFetch(`/api/admin/services/${id}/settings`);
+}
+
+// A null value resets that setting to its default
+export function updateServiceSettings(
+  id: string,
+  values: Record<string, string | number | null>,
+): Promise<{ settings: ServiceSetting[]; changed: string[] }> {
+  return adminFetch(`/api/admin/services/${id}/settings`, {
+    method: 'PUT',
+    body: JSON.stringify({ values }),
+  });
+}
+
+export type GrantWindow = {
+  startsAt?: string | null;
+  expiresAt?: string | null;
+};
+
+export function grantServiceAccess(
+  userId: string,
+  serviceId: string,
+  window: GrantWindow = {},
+  role: ServiceRole = 'analyst',
+): Promise<{ success: boolean }> {
   return adminFetch(`/api/admin/users/${userId}/services/${serviceId}`, {
     method: 'POST',
+    body: JSON.stringify({ ...window, role }),
+  });
+}
+
+export function setServiceRole(userId: string, serviceId: string, role: ServiceRole): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/users/${userId}/services/${serviceId}/role`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  });
+}
+
+export function setServiceGrantWindow(userId: string, serviceId: string, window: GrantWindow): Promise<{ grant: GrantWindow }> {
+  return adminFetch(`/api/admin/users/${userId}/services/${serviceId}/window`, {
+    method: 'PUT',
+    body: JSON.stringify(window),
   });
 }
 
@@ -111,3 +513,215 @@ export function revokeServiceAccess(userId: string, serviceId: string): Promise<
     method: 'DELETE',
   });
 }
+
+// --- Organizations ---
+
+export function getOrganizations(): Promise<{ organizations: Organization[] }> {
+  return adminFetch('/api/admin/organizations');
+}
+
+export function createOrganization(input: { slug: string; name: string }): Promise<{ organization: Organization }> {
+  return adminFetch('/api/admin/organizations', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export function renameOrganization(id: string, name: string): Promise<{ organization: Organization }> {
+  return adminFetch(`/api/admin/organizations/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ name }),
+  });
+}
+
+export function deleteOrganization(id: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/organizations/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export function setOrganizationMember(
+  organizationId: string,
+  userId: string,
+  role: OrganizationRole,
+): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/organizations/${organizationId}/members/${userId}`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  });
+}
+
+export function removeOrganizationMember(organizationId: string, userId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/organizations/${organizationId}/members/${userId}`, {
+    method: 'DELETE',
+  });
+}
+
+export function grantOrganizationService(organizationId: string, serviceId: string, role: ServiceRole = 'analyst'): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/organizations/${organizationId}/services/${serviceId}`, {
+    method: 'POST',
+    body: JSON.stringify({ role }),
+  });
+}
+
+export function setOrganizationServiceRole(organizationId: string, serviceId: string, role: ServiceRole): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/organizations/${organizationId}/services/${serviceId}/role`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  });
+}
+
+export function revokeOrganizationService(organizationId: string, serviceId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/organizations/${organizationId}/services/${serviceId}`, {
+    method: 'DELETE',
+  });
+}
+
+// --- Groups ---
+
+export function getGroups(): Promise<{ groups: UserGroup[] }> {
+  return adminFetch('/api/admin/groups');
+}
+
+export function createGroup(input: { name: string; description?: string | null }): Promise<{ group: UserGroup }> {
+  return adminFetch('/api/admin/groups', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export function updateGroup(
+  id: string,
+  input: { name?: string; description?: string | null },
+): Promise<{ group: UserGroup }> {
+  return adminFetch(`/api/admin/groups/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(input),
+  });
+}
+
+export function deleteGroup(id: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/groups/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export function addGroupMembers(groupId: string, emails: string[]): Promise<AddGroupMembersResult> {
+  return adminFetch(`/api/admin/groups/${groupId}/members`, {
+    method: 'POST',
+    body: JSON.stringify({ emails }),
+  });
+}
+
+export function removeGroupMember(groupId: string, userId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/groups/${groupId}/members/${userId}`, {
+    method: 'DELETE',
+  });
+}
+
+export function grantGroupService(groupId: string, serviceId: string, role: ServiceRole = 'analyst'): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/groups/${groupId}/services/${serviceId}`, {
+    method: 'POST',
+    body: JSON.stringify({ role }),
+  });
+}
+
+export function setGroupServiceRole(groupId: string, serviceId: string, role: ServiceRole): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/groups/${groupId}/services/${serviceId}/role`, {
+    method: 'PUT',
+    body: JSON.stringify({ role }),
+  });
+}
+
+export function revokeGroupService(groupId: string, serviceId: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/groups/${groupId}/services/${serviceId}`, {
+    method: 'DELETE',
+  });
+}
+
+// --- Security Policy ---
+
+export function getSecurityPolicy(): Promise<SecurityPolicy> {
+  return adminFetch('/api/admin/security-policy');
+}
+
+export function setRoleTwoFactor(
+  role: 'admin' | 'user',
+  required: boolean,
+): Promise<{ role: 'admin' | 'user'; requireTwoFactor: boolean }> {
+  return adminFetch(`/api/admin/roles/${role}/two-factor`, {
+    method: 'PUT',
+    body: JSON.stringify({ required }),
+  });
+}
+
+export function setServiceTwoFactor(
+  serviceId: string,
+  required: boolean,
+): Promise<{ service: { id: string; requireTwoFactor: boolean } }> {
+  return adminFetch(`/api/admin/services/${serviceId}/two-factor`, {
+    method: 'PATCH',
+    body: JSON.stringify({ required }),
+  });
+}
+
+// --- Single Sign-On ---
+
+export function getSsoConnections(): Promise<{ connections: SsoConnection[] }> {
+  return adminFetch('/api/admin/sso/connections');
+}
+
+export function createSsoConnection(input: SsoConnectionInput): Promise<{ connection: SsoConnection }> {
+  return adminFetch('/api/admin/sso/connections', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export function updateSsoConnection(
+  id: string,
+  changes: Partial<Omit<SsoConnectionInput, 'slug'>> & { enabled?: boolean },
+): Promise<{ connection: SsoConnection }> {
+  return adminFetch(`/api/admin/sso/connections/${id}`, {
+    method: 'PATCH',
+    body: JSON.stringify(changes),
+  });
+}
+
+export function deleteSsoConnection(id: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/sso/connections/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+export function getSsoDomainRules(): Promise<{ rules: SsoDomainRule[] }> {
+  return adminFetch('/api/admin/sso/domain-rules');
+}
+
+export function createSsoDomainRule(domain: string, serviceId: string): Promise<{ rule: { id: string } }> {
+  return adminFetch('/api/admin/sso/domain-rules', {
+    method: 'POST',
+    body: JSON.stringify({ domain, serviceId }),
+  });
+}
+
+export function deleteSsoDomainRule(id: string): Promise<{ success: boolean }> {
+  return adminFetch(`/api/admin/sso/domain-rules/${id}`, {
+    method: 'DELETE',
+  });
+}
+
+// --- Audit Log ---
+
+export function getAuditEvents(filters: AuditFilters, page = 1, pageSize = 50): Promise<AuditPage> {
+  return adminFetch(`/api/admin/audit?${queryString(filters, { page: String(page), pageSize: String(pageSize) })}`);
+}
+
+export async function exportAuditEvents(filters: AuditFilters): Promise<Blob> {
+  const res = await fetchWithRefresh(`/api/admin/audit/export?${queryString(filters)}`);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({ error: 'Export failed' }));
+    throw new Error((body as { error: string }).error || `Export failed: ${res.status}`);
+  }
+  return res.blob();
+}
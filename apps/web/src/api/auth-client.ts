@@ -1,19 +1,30 @@
+import { fetchWithRefresh } from './fetch-with-refresh';
+
 export type User = {
   id: string;
   email: string;
   role: 'admin' | 'user';
+  twoFactorEnabled?: boolean;
+  twoFactorRequired?: boolean;
+  organizations?: Array<{ id: string; slug: string; name: string; role: 'admin' | 'member' }>;
+  // The admin behind the session while they're viewing the app as this user
+  impersonator?: { id: string; email: string } | null;
 };
 
 type AuthResponse = {
   user: User;
 };
 
+// Login either starts a session or asks for a second factor
+export type LoginResponse = AuthResponse | { twoFactorRequired: true; challengeToken: string };
+
 type ErrorResponse = {
   error: string;
 };
 
-async function authFetch<T>(url: string, options?: RequestInit): Promise<T> {
-  const res = await fetch(url, {
+// Only session-protected calls should renew on 401 — a 401 from /login means bad credentials
+async function authFetch<T>(url: string, options?: RequestInit, renewSession = false): Promise<T> {
+  const res = await (renewSession ? fetchWithRefresh : fetch)(url, {
     headers: { 'Content-Type': 'application/json' },
     ...options,
   });
@@ -34,12 +45,19 @@ export function register(email: string, password: string, inviteCode: string) {
 }
 
 export function login(email: string, password: string) {
-  return authFetch<AuthResponse>('/api/auth/login', {
+  return authFetch<LoginResponse>('/api/auth/login', {
     method: 'POST',
     body: JSON.stringify({ email, password }),
   });
 }
 
+export function loginTwoFactor(challengeToken: string, code: string) {
+  return authFetch<AuthResponse>('/api/auth/login/2fa', {
+    method: 'POST',
+    body: JSON.stringify({ challengeToken, code }),
+  });
+}
+
 export function logout() {
   return authFetch<{ success: boolean }>('/api/auth/logout', {
     method: 'POST',
@@ -47,5 +65,137 @@ export function logout() {
 }
 
 export function getMe() {
-  return authFetch<AuthResponse>('/api/auth/me');
+  return authFetch<AuthResponse>('/api/auth/me', undefined, true);
+}
+
+export function forgotPassword(email: string) {
+  return authFetch<{ success: boolean }>('/api/auth/forgot-password', {
+    method: 'POST',
+    body: JSON.stringify({ email }),
+  });
+}
+
+export function resetPassword(token: string, password: string) {
+  return authFetch<{ success: boolean }>('/api/auth/reset-password', {
+    method: 'POST',
+    body: JSON.stringify({ token, password }),
+  });
+}
+
+// --- Single sign-on ---
+
+export type SsoConnectionInfo = { slug: string; name: string };
+
+export function discoverSso(email: string) {
+  return authFetch<{ connection: SsoConnectionInfo }>(
+    `/api/auth/sso/discover?email=${encodeURIComponent(email)}`,
+  );
+}
+
+/** Full-page navigation target — the API redirects on to the identity provider. */
+export function ssoStartUrl(slug: string) {
+  return `/api/auth/sso/${slug}/start`;
+}
+
+// --- Sessions ---
+
+export type ActiveSession = {
+  id: string;
+  userAgent: string | null;
+  ipAddress: string | null;
+  createdAt: string;
+  lastSeenAt: string;
+  current?: boolean;
+};
+
+export function getSessions() {
+  return authFetch<{ sessions: ActiveSession[] }>('/api/auth/sessions', undefined, true);
+}
+
+export function revokeSession(id: string) {
+  return authFetch<{ success: boolean }>(`/api/auth/sessions/${id}`, { method: 'DELETE' }, true);
+}
+
+export function revokeAllSessions() {
+  return authFetch<{ success: boolean }>('/api/auth/sessions', { method: 'DELETE' }, true);
+}
+
+// Ends "view as user" and returns the admin to their own account
+export function stopImpersonation() {
+  return authFetch<{ success: boolean }>('/api/auth/impersonation', { method: 'DELETE' }, true);
+}
+
+// --- API tokens ---
+
+export type ApiToken = {
+  id: string;
+  name: string;
+  tokenPrefix: string;
+  scopes: string[];
+  expiresAt: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+};
+
+export function getApiTokens() {
+  return authFetch<{ tokens: ApiToken[]; availableServices: string[] }>('/api/auth/tokens', undefined, true);
+}
+
+export function createApiToken(name: string, services: string[], expiresInDays: number) {
+  return authFetch<{ token: string; apiToken: ApiToken }>(
+    '/api/auth/tokens',
+    { method: 'POST', body: JSON.stringify({ name, services, expiresInDays }) },
+    true,
+  );
+}
+
+export function revokeApiToken(id: string) {
+  return authFetch<{ success: boolean }>(`/api/auth/tokens/${id}`, { method: 'DELETE' }, true);
+}
+
+// --- Two-factor ---
+
+export type TwoFactorStatus = {
+  enabled: boolean;
+  enabledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+};
+
+export type TwoFactorSetup = {
+  secret: string;
+  otpauthUrl: string;
+  qrCode: string; // data: URL
+};
+
+export function getTwoFactorStatus() {
+  return authFetch<TwoFactorStatus>('/api/auth/2fa', undefined, true);
+}
+
+export function setupTwoFactor() {
+  return authFetch<TwoFactorSetup>('/api/auth/2fa/setup', { method: 'POST' }, true);
+}
+
+export function enableTwoFactor(code: string) {
+  return authFetch<{ recoveryCodes: string[] }>(
+    '/api/auth/2fa/enable',
+    { method: 'POST', body: JSON.stringify({ code }) },
+    true,
+  );
+}
+
+export function regenerateRecoveryCodes(code: string) {
+  return authFetch<{ recoveryCodes: string[] }>(
+    '/api/auth/2fa/recovery-codes',
+    { method: 'POST', body: JSON.stringify({ code }) },
+    true,
+  );
+}
+
+export function disableTwoFactor(password: string, code: string) {
+  return authFetch<{ success: boolean }>(
+    '/api/auth/2fa/disable',
+    { method: 'POST', body: JSON.stringify({ password, code }) },
+    true,
+  );
 }
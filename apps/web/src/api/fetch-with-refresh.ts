@@ -0,0 +1,24 @@
+// Access tokens live for 15 minutes; the refresh cookie renews them.
+// Concurrent 401s share a single in-flight refresh so the rotated
+// refresh token is only exchanged once.
+let refreshing: Promise<boolean> | null = null;
+
+function refreshSession(): Promise<boolean> {
+  refreshing ??= fetch('/api/auth/refresh', { method: 'POST' })
+    .then((res) => res.ok)
+    .catch(() => false)
+    .finally(() => {
+      refreshing = null;
+    });
+  return refreshing;
+}
+
+/**
+ * fetch() that renews an expired access token once and retries on 401.
+ */
+export async function fetchWithRefresh(url: string, options?: RequestInit): Promise<Response> {
+  const res = await fetch(url, options);
+  if (res.status !== 401) return res;
+  if (!(await refreshSession())) return res;
+  return fetch(url, options);
+}
@@ -0,0 +1,77 @@
+import { fetchWithRefresh } from './fetch-with-refresh';
+import type { Organization, OrganizationRole } from './admin-client';
+
+// Organization self-service for org admins (platform admins can use it too)
+
+export type OrgInviteCode = {
+  id: string;
+  code: string;
+  useCount: number;
+  maxUses: number;
+  email: string | null;
+  note: string | null;
+  usedAt: string | null;
+  expiresAt: string | null;
+  createdAt: string;
+  createdByEmail: string | null;
+};
+
+export type CreateOrgInviteInput = {
+  email?: string;
+  maxUses?: number;
+  note?: string;
+  expiresInDays?: number;
+};
+
+async function orgFetch<T>(url: string, options?: RequestInit): Promise<T> {
+  const res = await fetchWithRefresh(url, {
+    headers: { 'Content-Type': 'application/json' },
+    ...options,
+  });
+
+  if (res.status === 401) {
+    window.location.href = '/app/login';
+    throw new Error('Unauthorized');
+  }
+
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({ error: 'Request failed' }));
+    throw new Error((body as { error: string }).error || `Request failed: ${res.status}`);
+  }
+
+  return res.json() as Promise<T>;
+}
+
+export function getOrganization(id: string): Promise<{ organization: Organization }> {
+  return orgFetch(`/api/orgs/${id}`);
+}
+
+export function setMemberRole(orgId: string, userId: string, role: OrganizationRole): Promise<{ success: boolean }> {
+  return orgFetch(`/api/orgs/${orgId}/members/${userId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ role }),
+  });
+}
+
+export function removeMember(orgId: string, userId: string): Promise<{ success: boolean }> {
+  return orgFetch(`/api/orgs/${orgId}/members/${userId}`, {
+    method: 'DELETE',
+  });
+}
+
+export function getOrgInviteCodes(orgId: string): Promise<{ inviteCodes: OrgInviteCode[] }> {
+  return orgFetch(`/api/orgs/${orgId}/invite-codes`);
+}
+
+export function createOrgInviteCode(orgId: string, input: CreateOrgInviteInput): Promise<{ inviteCode: OrgInviteCode }> {
+  return orgFetch(`/api/orgs/${orgId}/invite-codes`, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  });
+}
+
+export function revokeOrgInviteCode(orgId: string, id: string): Promise<{ success: boolean }> {
+  return orgFetch(`/api/orgs/${orgId}/invite-codes/${id}`, {
+    method: 'DELETE',
+  });
+}
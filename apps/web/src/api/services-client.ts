@@ -1,3 +1,10 @@
+import { fetchWithRefresh } from './fetch-with-refresh';
+
+export type ServiceRole = 'viewer' | 'reader' | 'analyst';
+
+// What a role allows on a service; the API checks the same scopes
+export type ServiceScope = 'search' | 'read' | 'chat' | 'export';
+
 export type Service = {
   id: string;
   slug: string;
@@ -5,10 +12,13 @@ export type Service = {
   description: string | null;
   icon: string | null;
   route: string;
+  requireTwoFactor: boolean;
+  role: ServiceRole;
+  scopes: ServiceScope[];
 };
 
 async function apiFetch<T>(url: string, options?: RequestInit): Promise<T> {
-  const res = await fetch(url, {
+  const res = await fetchWithRefresh(url, {
     headers: { 'Content-Type': 'application/json' },
     ...options,
   });
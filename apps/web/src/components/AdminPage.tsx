@@ -1,22 +1,95 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
 import { Link, useNavigate } from 'react-router';
 import { useAuth } from '../hooks/use-auth';
 import {
   getUsers,
+  getAllUsers,
+  getExpiringGrants,
   getInviteCodes,
   getServices,
+  createService,
+  updateService,
+  deleteService,
+  getServiceSettings,
+  updateServiceSettings,
   createInviteCode,
   deleteInviteCode,
+  previewInviteImport,
+  importInvites,
   deleteUser,
   updateUserRole,
   grantServiceAccess,
+  setServiceGrantWindow,
+  setServiceRole,
   revokeServiceAccess,
+  getUserSessions,
+  revokeUserSession,
+  revokeAllUserSessions,
+  resetUserTwoFactor,
+  unlockUser,
+  suspendUser,
+  impersonateUser,
+  reactivateUser,
+  getLockouts,
+  releaseLockout,
+  getSecurityPolicy,
+  setRoleTwoFactor,
+  setServiceTwoFactor,
+  getSsoConnections,
+  createSsoConnection,
+  updateSsoConnection,
+  deleteSsoConnection,
+  getSsoDomainRules,
+  createSsoDomainRule,
+  deleteSsoDomainRule,
+  getAuditEvents,
+  exportAuditEvents,
+  getOrganizations,
+  createOrganization,
+  renameOrganization,
+  deleteOrganization,
+  setOrganizationMember,
+  removeOrganizationMember,
+  grantOrganizationService,
+  setOrganizationServiceRole,
+  revokeOrganizationService,
+  getGroups,
+  createGroup,
+  updateGroup,
+  deleteGroup,
+  addGroupMembers,
+  removeGroupMember,
+  grantGroupService,
+  setGroupServiceRole,
+  revokeGroupService,
   type AdminUser,
+  type UserFilters,
+  type ExpiringGrant,
+  type AccessSource,
+  type Organization,
+  type UserGroup,
+  type AddGroupMembersResult,
   type InviteCode,
+  type InviteCodeFilters,
+  type InviteStatus,
+  type InviteImportRow,
+  type InviteImportResult,
   type AdminService,
+  type ServiceSetting,
+  type SecurityPolicy,
+  type LoginLockout,
+  type SsoConnection,
+  type SsoDomainRule,
+  type AuditEvent,
+  type AuditFilters,
+  type AuditPage,
 } from '../api/admin-client';
+import type { ActiveSession } from '../api/auth-client';
+import type { ServiceRole } from '../api/services-client';
+import { SessionList } from './SessionList';
+import { UserDocumentActivityDialog } from '../services/rlc/AccessLog';
 
-type Tab = 'users' | 'invites' | 'services';
+type Tab = 'users' | 'organizations' | 'groups' | 'invites' | 'services' | 'security' | 'sso' | 'audit';
 
 export function AdminPage() {
   const { user, logout } = useAuth();
@@ -62,7 +135,7 @@ export function AdminPage() {
       {/* Tabs */}
       <div className="border-b border-gray-200 bg-white">
         <div className="mx-auto flex max-w-6xl gap-6 px-6">
-          {(['users', 'invites', 'services'] as Tab[]).map((t) => (
+          {(['users', 'organizations', 'groups', 'invites', 'services', 'security', 'sso', 'audit'] as Tab[]).map((t) => (
             <button
               key={t}
               onClick={() => setTab(t)}
@@ -72,7 +145,7 @@ export function AdminPage() {
                   : 'border-transparent text-gray-500 hover:text-gray-700'
               }`}
             >
-              {t === 'invites' ? 'Invite Codes' : t}
+              {t === 'invites' ? 'Invite Codes' : t === 'sso' ? 'SSO' : t}
             </button>
           ))}
         </div>
@@ -81,8 +154,13 @@ export function AdminPage() {
       {/* Content */}
       <main className="mx-auto max-w-6xl px-6 py-6">
         {tab === 'users' && <UsersPanel />}
+        {tab === 'organizations' && <OrganizationsPanel />}
+        {tab === 'groups' && <GroupsPanel />}
         {tab === 'invites' && <InviteCodesPanel />}
         {tab === 'services' && <ServicesPanel />}
+        {tab === 'security' && <SecurityPolicyPanel />}
+        {tab === 'sso' && <SsoPanel />}
+        {tab === 'audit' && <AuditPanel />}
       </main>
     </div>
   );
@@ -136,36 +214,364 @@ function ConfirmDialog({
   );
 }
 
+// ===================== USER SESSIONS DIALOG =====================
+
+function UserSessionsDialog({ user, onClose }: { user: AdminUser; onClose: () => void }) {
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await getUserSessions(user.id);
+      setSessions(res.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user.id]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="w-full max-w-2xl rounded-xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-base font-semibold text-gray-900">Active sessions</h3>
+            <p className="mt-1 text-sm text-gray-500">{user.email}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>
+        )}
+
+        <div className="mt-4 max-h-96 overflow-y-auto">
+          {isLoading ? (
+            <div className="py-6 text-center text-sm text-gray-400">Loading sessions...</div>
+          ) : (
+            <SessionList
+              sessions={sessions}
+              onRevoke={(s) => run(() => revokeUserSession(user.id, s.id))}
+            />
+          )}
+        </div>
+
+        <div className="mt-5 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+          >
+            Close
+          </button>
+          <button
+            onClick={() => run(() => revokeAllUserSessions(user.id))}
+            disabled={sessions.length === 0}
+            className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            Sign out everywhere
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// ===================== SERVICE GRANT DIALOG =====================
+
+type GrantTarget = {
+  userId: string;
+  userEmail: string;
+  serviceId: string;
+  serviceName: string;
+  // Set when editing an existing grant's role or window
+  existing?: { role: ServiceRole; startsAt: string | null; expiresAt: string | null };
+};
+
+// What each role on a service allows; the API enforces the same split
+const SERVICE_ROLE_OPTIONS: Array<{ value: ServiceRole; label: string }> = [
+  { value: 'viewer', label: 'Viewer — search and snippets' },
+  { value: 'reader', label: 'Reader — full documents' },
+  { value: 'analyst', label: 'Analyst — AI chat and exports' },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const EXPIRY_WARNING_DAYS = 14;
+
+// <input type="date"> works in local dates: access starts at the beginning of the
+// start day and runs to the end of the expiry day
+function toDateInput(value: string | null) {
+  if (!value) return '';
+  const date = new Date(value);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function fromDateInput(value: string, endOfDay: boolean) {
+  if (!value) return null;
+  return new Date(`${value}T${endOfDay ? '23:59:59' : '00:00:00'}`).toISOString();
+}
+
+function ServiceGrantDialog({
+  target,
+  onSave,
+  onCancel,
+}: {
+  target: GrantTarget;
+  onSave: (window: { startsAt: string | null; expiresAt: string | null }, role: ServiceRole) => void;
+  onCancel: () => void;
+}) {
+  const [role, setRole] = useState<ServiceRole>(target.existing?.role ?? 'analyst');
+  const [startsAt, setStartsAt] = useState(toDateInput(target.existing?.startsAt ?? null));
+  const [expiresAt, setExpiresAt] = useState(toDateInput(target.existing?.expiresAt ?? null));
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({ startsAt: fromDateInput(startsAt, false), expiresAt: fromDateInput(expiresAt, true) }, role);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <form onSubmit={handleSubmit} className="w-full max-w-md rounded-xl bg-white p-6 shadow-xl">
+        <h3 className="text-base font-semibold text-gray-900">
+          {target.existing ? 'Change service access' : 'Grant service access'}
+        </h3>
+        <p className="mt-2 text-sm text-gray-600">
+          {target.serviceName} for {target.userEmail}. Leave the dates empty for open-ended access.
+        </p>
+        <div className="mt-4 grid gap-3 sm:grid-cols-2">
+          <label className="text-sm text-gray-600 sm:col-span-2">
+            Role
+            <select value={role} onChange={(e) => setRole(e.target.value as ServiceRole)} className={`${inputClass} mt-1`}>
+              {SERVICE_ROLE_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            From
+            <input type="date" value={startsAt} onChange={(e) => setStartsAt(e.target.value)} className={`${inputClass} mt-1`} />
+          </label>
+          <label className="text-sm text-gray-600">
+            Until (inclusive)
+            <input
+              type="date"
+              value={expiresAt}
+              min={startsAt || undefined}
+              onChange={(e) => setExpiresAt(e.target.value)}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+        </div>
+        <div className="mt-5 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button type="submit" className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+            {target.existing ? 'Save' : 'Grant'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+// "until Mar 3" / "from Apr 1" next to a time-boxed grant
+function describeGrantWindow(grant: { startsAt: string | null; expiresAt: string | null }) {
+  const parts: string[] = [];
+  if (grant.startsAt && new Date(grant.startsAt) > new Date()) {
+    parts.push(`from ${new Date(grant.startsAt).toLocaleDateString()}`);
+  }
+  if (grant.expiresAt) {
+    parts.push(`until ${new Date(grant.expiresAt).toLocaleDateString()}`);
+  }
+  return parts.join(' ');
+}
+
+// ===================== SUSPEND DIALOG =====================
+
+function SuspendUserDialog({
+  user,
+  onSuspend,
+  onCancel,
+}: {
+  user: AdminUser;
+  onSuspend: (reason: string) => void;
+  onCancel: () => void;
+}) {
+  const [reason, setReason] = useState('');
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (reason.trim()) onSuspend(reason.trim());
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <form onSubmit={handleSubmit} className="w-full max-w-md rounded-xl bg-white p-6 shadow-xl">
+        <h3 className="text-base font-semibold text-gray-900">Suspend {user.email}</h3>
+        <p className="mt-2 text-sm text-gray-600">
+          They are signed out everywhere and can't sign in or use API tokens until reactivated. Their account, grants and history are kept.
+        </p>
+        <textarea
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (shown to admins and recorded in the audit log)"
+          maxLength={500}
+          rows={3}
+          required
+          className="mt-4 w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+        />
+        <div className="mt-5 flex justify-end gap-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+          >
+            Cancel
+          </button>
+          <button
+            type="submit"
+            disabled={!reason.trim()}
+            className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50"
+          >
+            Suspend
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
 // ===================== USERS PANEL =====================
 
+const LIST_PAGE_SIZE = 50;
+
+// Sort pickers combine the sort key and order as "<sort>:<order>"
+const USER_SORT_OPTIONS = [
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'email:asc', label: 'Email A–Z' },
+  { value: 'email:desc', label: 'Email Z–A' },
+];
+
+const emptyUserFilters = { q: '', role: '', serviceId: '', sort: 'createdAt:asc' };
+
+function toUserFilters(form: typeof emptyUserFilters): UserFilters {
+  const [sort, order] = form.sort.split(':') as [UserFilters['sort'], UserFilters['order']];
+  return {
+    q: form.q.trim() || undefined,
+    role: (form.role || undefined) as UserFilters['role'],
+    serviceId: form.serviceId || undefined,
+    sort,
+    order,
+  };
+}
+
+// "Hitachi claim team (group), Acme (org)" — where inherited access comes from
+function describeAccessSources(sources: AccessSource[]) {
+  return sources
+    .filter((source) => source.type !== 'direct')
+    .map((source) => (source.type === 'group' ? `${source.name} (group)` : `${source.name} (org)`))
+    .join(', ');
+}
+
 type PendingAction =
   | { type: 'role'; userId: string; userEmail: string; currentRole: string }
   | { type: 'delete'; userId: string; userEmail: string }
-  | { type: 'grantService'; userId: string; userEmail: string; serviceId: string; serviceName: string }
+  | { type: 'resetTwoFactor'; userId: string; userEmail: string }
+  | { type: 'unlock'; userId: string; userEmail: string }
+  | { type: 'reactivate'; userId: string; userEmail: string }
+  | { type: 'impersonate'; userId: string; userEmail: string }
   | { type: 'revokeService'; userId: string; userEmail: string; serviceId: string; serviceName: string };
 
 function UsersPanel() {
   const { user: currentUser } = useAuth();
   const [users, setUsers] = useState<AdminUser[]>([]);
+  const [form, setForm] = useState(emptyUserFilters);
+  const [filters, setFilters] = useState<UserFilters>(() => toUserFilters(emptyUserFilters));
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [expiringGrants, setExpiringGrants] = useState<ExpiringGrant[]>([]);
   const [allServices, setAllServices] = useState<AdminService[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [sessionsUser, setSessionsUser] = useState<AdminUser | null>(null);
+  const [activityUser, setActivityUser] = useState<AdminUser | null>(null);
+  const [grantTarget, setGrantTarget] = useState<GrantTarget | null>(null);
+  const [suspendTarget, setSuspendTarget] = useState<AdminUser | null>(null);
 
   const load = useCallback(async () => {
     try {
-      const [usersRes, servicesRes] = await Promise.all([getUsers(), getServices()]);
+      const [usersRes, servicesRes, expiringRes] = await Promise.all([
+        getUsers(filters, { limit: LIST_PAGE_SIZE }),
+        getServices(),
+        getExpiringGrants(EXPIRY_WARNING_DAYS),
+      ]);
       setUsers(usersRes.users);
+      setNextCursor(usersRes.nextCursor);
+      setTotal(usersRes.total);
       setAllServices(servicesRes.services);
+      setExpiringGrants(expiringRes.grants);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [filters]);
 
   useEffect(() => { load(); }, [load]);
 
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
+    try {
+      const res = await getUsers(filters, { cursor: nextCursor, limit: LIST_PAGE_SIZE });
+      setUsers((prev) => [...prev, ...res.users]);
+      setNextCursor(res.nextCursor);
+      setTotal(res.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleFilter = (e: FormEvent) => {
+    e.preventDefault();
+    setFilters(toUserFilters(form));
+  };
+
+  const handleResetFilters = () => {
+    setForm(emptyUserFilters);
+    setFilters(toUserFilters(emptyUserFilters));
+  };
+
   const handleConfirm = async () => {
     if (!pendingAction) return;
     const action = pendingAction;
@@ -176,8 +582,17 @@ function UsersPanel() {
         await updateUserRole(action.userId, newRole);
       } else if (action.type === 'delete') {
         await deleteUser(action.userId);
-      } else if (action.type === 'grantService') {
-        await grantServiceAccess(action.userId, action.serviceId);
+      } else if (action.type === 'resetTwoFactor') {
+        await resetUserTwoFactor(action.userId);
+      } else if (action.type === 'unlock') {
+        await unlockUser(action.userId);
+      } else if (action.type === 'reactivate') {
+        await reactivateUser(action.userId);
+      } else if (action.type === 'impersonate') {
+        await impersonateUser(action.userId);
+        // Reload into the user's dashboard; the banner offers the way back
+        window.location.href = '/app/';
+        return;
       } else if (action.type === 'revokeService') {
         await revokeServiceAccess(action.userId, action.serviceId);
       }
@@ -187,29 +602,68 @@ function UsersPanel() {
     }
   };
 
+  const handleGrantSave = async (window: { startsAt: string | null; expiresAt: string | null }, role: ServiceRole) => {
+    const target = grantTarget;
+    setGrantTarget(null);
+    if (!target) return;
+    try {
+      if (target.existing) {
+        await setServiceGrantWindow(target.userId, target.serviceId, window);
+        if (role !== target.existing.role) {
+          await setServiceRole(target.userId, target.serviceId, role);
+        }
+      } else {
+        await grantServiceAccess(target.userId, target.serviceId, window, role);
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
+  const handleSuspend = async (reason: string) => {
+    const target = suspendTarget;
+    setSuspendTarget(null);
+    if (!target) return;
+    try {
+      await suspendUser(target.id, reason);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
   if (isLoading) return <div className="py-8 text-center text-gray-400">Loading users...</div>;
   if (error) return <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>;
 
   const confirmTitle = (() => {
     if (!pendingAction) return '';
     if (pendingAction.type === 'delete') return 'Delete user';
+    if (pendingAction.type === 'resetTwoFactor') return 'Reset two-factor authentication';
+    if (pendingAction.type === 'unlock') return 'Unlock account';
+    if (pendingAction.type === 'reactivate') return 'Reactivate account';
+    if (pendingAction.type === 'impersonate') return 'View as user';
     if (pendingAction.type === 'role') return pendingAction.currentRole === 'admin' ? 'Remove admin access' : 'Grant admin access';
-    if (pendingAction.type === 'grantService') return 'Grant service access';
     if (pendingAction.type === 'revokeService') return 'Revoke service access';
     return '';
   })();
 
   const confirmMessage = (() => {
     if (!pendingAction) return '';
-    if (pendingAction.type === 'delete') return `Permanently delete ${pendingAction.userEmail}? This cannot be undone.`;
+    if (pendingAction.type === 'delete') return `Permanently delete ${pendingAction.userEmail}? This cannot be undone — suspend them instead to keep their history.`;
+    if (pendingAction.type === 'unlock') return `Let ${pendingAction.userEmail} sign in again now and reset their failed attempts?`;
+    if (pendingAction.type === 'impersonate') return `See the app as ${pendingAction.userEmail} sees it, with their services and access, for up to an hour? This is recorded in the audit log, and their account settings stay out of reach.`;
+    if (pendingAction.type === 'reactivate') return `Lift the suspension on ${pendingAction.userEmail}? They can sign in again with their existing access.`;
+    if (pendingAction.type === 'resetTwoFactor') return `Remove the authenticator and recovery codes for ${pendingAction.userEmail}? They will need to enroll again if 2FA is required.`;
     if (pendingAction.type === 'role') return pendingAction.currentRole === 'admin'
       ? `Remove admin role from ${pendingAction.userEmail}?`
       : `Grant admin role to ${pendingAction.userEmail}?`;
-    if (pendingAction.type === 'grantService') return `Grant ${pendingAction.serviceName} access to ${pendingAction.userEmail}?`;
     if (pendingAction.type === 'revokeService') return `Remove ${pendingAction.serviceName} access from ${pendingAction.userEmail}?`;
     return '';
   })();
 
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
   return (
     <div className="space-y-4">
       <ConfirmDialog
@@ -217,12 +671,96 @@ function UsersPanel() {
         title={confirmTitle}
         message={confirmMessage}
         confirmLabel={pendingAction?.type === 'delete' ? 'Delete' : 'Confirm'}
-        danger={pendingAction?.type === 'delete' || pendingAction?.type === 'revokeService'}
+        danger={
+          pendingAction?.type === 'delete' ||
+          pendingAction?.type === 'revokeService' ||
+          pendingAction?.type === 'resetTwoFactor'
+        }
         onConfirm={handleConfirm}
         onCancel={() => setPendingAction(null)}
       />
 
-      <h3 className="text-lg font-semibold text-gray-900">Users ({users.length})</h3>
+      {suspendTarget && (
+        <SuspendUserDialog user={suspendTarget} onSuspend={handleSuspend} onCancel={() => setSuspendTarget(null)} />
+      )}
+
+      {sessionsUser && (
+        <UserSessionsDialog user={sessionsUser} onClose={() => setSessionsUser(null)} />
+      )}
+
+      {activityUser && (
+        <UserDocumentActivityDialog user={activityUser} onClose={() => setActivityUser(null)} />
+      )}
+
+      {grantTarget && (
+        <ServiceGrantDialog target={grantTarget} onSave={handleGrantSave} onCancel={() => setGrantTarget(null)} />
+      )}
+
+      {expiringGrants.length > 0 && (
+        <div className="rounded-xl border border-amber-200 bg-amber-50 p-4">
+          <h4 className="text-sm font-semibold text-amber-800">
+            Access expiring in the next {EXPIRY_WARNING_DAYS} days ({expiringGrants.length})
+          </h4>
+          <ul className="mt-2 space-y-1 text-sm text-amber-900">
+            {expiringGrants.map((grant) => (
+              <li key={`${grant.userId}-${grant.serviceId}`} className="flex items-center justify-between">
+                <span>
+                  {grant.userEmail} — {grant.serviceName}, {new Date(grant.expiresAt).toLocaleString()}
+                </span>
+                <button
+                  onClick={() =>
+                    setGrantTarget({
+                      userId: grant.userId,
+                      userEmail: grant.userEmail,
+                      serviceId: grant.serviceId,
+                      serviceName: grant.serviceName,
+                      existing: { role: grant.role, startsAt: grant.startsAt, expiresAt: grant.expiresAt },
+                    })
+                  }
+                  className="rounded px-2 py-1 text-xs font-medium text-amber-800 hover:bg-amber-100"
+                >
+                  Extend
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <h3 className="text-lg font-semibold text-gray-900">Users ({total})</h3>
+
+      <form onSubmit={handleFilter} className="grid gap-3 rounded-xl border border-gray-200 bg-white p-4 sm:grid-cols-2 lg:grid-cols-5">
+        <input placeholder="Email contains" value={form.q} onChange={(e) => setForm({ ...form, q: e.target.value })} className={inputClass} />
+        <select value={form.role} onChange={(e) => setForm({ ...form, role: e.target.value })} className={inputClass}>
+          <option value="">All roles</option>
+          <option value="admin">Admins</option>
+          <option value="user">Users</option>
+        </select>
+        <select value={form.serviceId} onChange={(e) => setForm({ ...form, serviceId: e.target.value })} className={inputClass}>
+          <option value="">Any service</option>
+          {allServices.map((service) => (
+            <option key={service.id} value={service.id}>Can use {service.name}</option>
+          ))}
+        </select>
+        <select value={form.sort} onChange={(e) => setForm({ ...form, sort: e.target.value })} className={inputClass}>
+          {USER_SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button type="submit" className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+            Filter
+          </button>
+          <button
+            type="button"
+            onClick={handleResetFilters}
+            className="rounded-lg border border-gray-200 px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
       <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
         <table className="w-full text-sm">
           <thead>
@@ -235,15 +773,30 @@ function UsersPanel() {
             </tr>
           </thead>
           <tbody>
+            {users.length === 0 && (
+              <tr>
+                <td colSpan={5} className="px-4 py-8 text-center text-gray-400">No users match these filters.</td>
+              </tr>
+            )}
             {users.map((u) => {
               const isSelf = u.id === currentUser?.id;
               return (
-                <tr key={u.id} className="border-b border-gray-50 last:border-0">
+                <tr key={u.id} className={`border-b border-gray-50 last:border-0 ${u.suspendedAt ? 'bg-gray-50' : ''}`}>
                   <td className="px-4 py-3 font-medium text-gray-900">
                     {u.email}
                     {isSelf && (
                       <span className="ml-2 text-xs text-gray-400">(you)</span>
                     )}
+                    {u.organizations.length > 0 && (
+                      <div className="mt-0.5 text-xs font-normal text-gray-500">
+                        {u.organizations.map((o) => (o.role === 'admin' ? `${o.name} (org admin)` : o.name)).join(', ')}
+                      </div>
+                    )}
+                    {u.groups.length > 0 && (
+                      <div className="mt-0.5 text-xs font-normal text-gray-400">
+                        Groups: {u.groups.map((g) => g.name).join(', ')}
+                      </div>
+                    )}
                   </td>
                   <td className="px-4 py-3">
                     <span
@@ -255,15 +808,59 @@ function UsersPanel() {
                     >
                       {u.role}
                     </span>
+                    {u.twoFactorEnabled && (
+                      <span className="ml-1.5 rounded-full bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700" title="Two-factor authentication enabled">
+                        2FA
+                      </span>
+                    )}
+                    {u.lockedUntil && (
+                      <span
+                        className="ml-1.5 rounded-full bg-red-50 px-2 py-0.5 text-xs font-medium text-red-600"
+                        title={`Too many failed sign-ins — locked until ${new Date(u.lockedUntil).toLocaleTimeString()}`}
+                      >
+                        Locked
+                      </span>
+                    )}
+                    {u.suspendedAt && (
+                      <div className="mt-1 text-xs text-red-600" title={u.suspendedReason ?? undefined}>
+                        <span className="rounded-full bg-red-50 px-2 py-0.5 font-medium">Suspended</span>
+                        <span className="ml-1.5 text-gray-500">
+                          {new Date(u.suspendedAt).toLocaleDateString()}
+                          {u.suspendedReason && ` — ${u.suspendedReason}`}
+                        </span>
+                      </div>
+                    )}
                   </td>
                   <td className="px-4 py-3">
                     <div className="flex flex-wrap items-center gap-1.5">
                       {u.services.map((s) => (
                         <span
                           key={s.id}
-                          className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700"
+                          className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${
+                            s.startsAt && new Date(s.startsAt) > new Date()
+                              ? 'bg-gray-100 text-gray-500'
+                              : s.expiresAt && new Date(s.expiresAt).getTime() < Date.now() + EXPIRY_WARNING_DAYS * DAY_MS
+                                ? 'bg-amber-50 text-amber-700'
+                                : 'bg-blue-50 text-blue-700'
+                          }`}
                         >
-                          {s.name}
+                          <button
+                            onClick={() =>
+                              setGrantTarget({
+                                userId: u.id,
+                                userEmail: u.email,
+                                serviceId: s.id,
+                                serviceName: s.name,
+                                existing: { role: s.role, startsAt: s.startsAt, expiresAt: s.expiresAt },
+                              })
+                            }
+                            className="hover:underline"
+                            title="Change role or access window"
+                          >
+                            {s.name}
+                            <span className="ml-1 opacity-75">{s.role}</span>
+                            {describeGrantWindow(s) && <span className="ml-1 opacity-75">{describeGrantWindow(s)}</span>}
+                          </button>
                           <button
                             onClick={() =>
                               setPendingAction({
@@ -281,6 +878,19 @@ function UsersPanel() {
                           </button>
                         </span>
                       ))}
+                      {u.effectiveServices
+                        .filter((s) => !s.sources.some((source) => source.type === 'direct'))
+                        .map((s) => (
+                          <span
+                            key={s.id}
+                            className="rounded-full border border-dashed border-blue-200 px-2 py-0.5 text-xs text-blue-700"
+                            title={`Inherited from ${describeAccessSources(s.sources)}`}
+                          >
+                            {s.name}
+                            <span className="ml-1 opacity-75">{s.role}</span>
+                            <span className="ml-1 text-blue-400">via {describeAccessSources(s.sources)}</span>
+                          </span>
+                        ))}
                       {allServices.filter((s) => !u.services.some((us) => us.id === s.id)).length > 0 && (
                         <select
                           className="rounded border border-gray-200 px-1.5 py-0.5 text-xs text-gray-500"
@@ -290,8 +900,7 @@ function UsersPanel() {
                             if (!serviceId) return;
                             const svc = allServices.find((s) => s.id === serviceId);
                             if (svc) {
-                              setPendingAction({
-                                type: 'grantService',
+                              setGrantTarget({
                                 userId: u.id,
                                 userEmail: u.email,
                                 serviceId: svc.id,
@@ -331,6 +940,76 @@ function UsersPanel() {
                       >
                         {u.role === 'admin' ? 'Demote' : 'Make Admin'}
                       </button>
+                      <button
+                        onClick={() => setSessionsUser(u)}
+                        className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                        title="View and sign out active sessions"
+                      >
+                        Sessions
+                      </button>
+                      {!isSelf && u.role !== 'admin' && !u.suspendedAt && (
+                        <button
+                          onClick={() => setPendingAction({ type: 'impersonate', userId: u.id, userEmail: u.email })}
+                          className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                          title="See what this user sees (support)"
+                        >
+                          View as
+                        </button>
+                      )}
+                      <button
+                        onClick={() => setActivityUser(u)}
+                        className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                        title="Documents viewed and searches run in RL Controls"
+                      >
+                        Activity
+                      </button>
+                      {u.lockedUntil && (
+                        <button
+                          onClick={() =>
+                            setPendingAction({
+                              type: 'unlock',
+                              userId: u.id,
+                              userEmail: u.email,
+                            })
+                          }
+                          className="rounded px-2 py-1 text-xs font-medium text-red-600 hover:bg-red-50"
+                          title="Lift the login lockout"
+                        >
+                          Unlock
+                        </button>
+                      )}
+                      {u.twoFactorEnabled && (
+                        <button
+                          onClick={() =>
+                            setPendingAction({
+                              type: 'resetTwoFactor',
+                              userId: u.id,
+                              userEmail: u.email,
+                            })
+                          }
+                          className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                          title="Remove this user's authenticator (lost device)"
+                        >
+                          Reset 2FA
+                        </button>
+                      )}
+                      {!isSelf && (u.suspendedAt ? (
+                        <button
+                          onClick={() => setPendingAction({ type: 'reactivate', userId: u.id, userEmail: u.email })}
+                          className="rounded px-2 py-1 text-xs font-medium text-green-700 hover:bg-green-50"
+                          title="Lift the suspension"
+                        >
+                          Reactivate
+                        </button>
+                      ) : (
+                        <button
+                          onClick={() => setSuspendTarget(u)}
+                          className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                          title="Block sign-in without deleting the account"
+                        >
+                          Suspend
+                        </button>
+                      ))}
                       {!isSelf && (
                         <button
                           onClick={() =>
@@ -353,40 +1032,171 @@ function UsersPanel() {
           </tbody>
         </table>
       </div>
+
+      <ListFooter shown={users.length} total={total} hasMore={nextCursor !== null} isLoading={isLoadingMore} onLoadMore={handleLoadMore} />
+    </div>
+  );
+}
+
+// "Showing 50 of 312" with a button for the next cursor page
+function ListFooter({
+  shown,
+  total,
+  hasMore,
+  isLoading,
+  onLoadMore,
+}: {
+  shown: number;
+  total: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}) {
+  if (total === 0) return null;
+  return (
+    <div className="flex items-center justify-between text-sm text-gray-500">
+      <span>
+        Showing {shown} of {total}
+      </span>
+      {hasMore && (
+        <button
+          onClick={onLoadMore}
+          disabled={isLoading}
+          className="rounded-lg border border-gray-200 px-3 py-1.5 font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isLoading ? 'Loading...' : 'Load more'}
+        </button>
+      )}
     </div>
   );
 }
 
 // ===================== INVITE CODES PANEL =====================
 
+const INVITE_SORT_OPTIONS = [
+  { value: 'createdAt:desc', label: 'Newest first' },
+  { value: 'createdAt:asc', label: 'Oldest first' },
+  { value: 'expiresAt:asc', label: 'Expiring soonest' },
+  { value: 'expiresAt:desc', label: 'Expiring last' },
+];
+
+const emptyInviteFilters = { q: '', role: '', serviceId: '', status: '', sort: 'createdAt:desc' };
+
+function toInviteFilters(form: typeof emptyInviteFilters): InviteCodeFilters {
+  const [sort, order] = form.sort.split(':') as [InviteCodeFilters['sort'], InviteCodeFilters['order']];
+  return {
+    q: form.q.trim() || undefined,
+    role: (form.role || undefined) as InviteCodeFilters['role'],
+    serviceId: form.serviceId || undefined,
+    status: (form.status || undefined) as InviteStatus | undefined,
+    sort,
+    order,
+  };
+}
+
+function inviteStatus(code: InviteCode): InviteStatus {
+  if (code.useCount >= code.maxUses) return 'used';
+  if (code.expiresAt && new Date(code.expiresAt) <= new Date()) return 'expired';
+  return 'unused';
+}
+
+const emptyInvite = { email: '', note: '', role: 'user' as 'admin' | 'user', serviceIds: [] as string[], maxUses: 1, expiresInDays: 30, organizationId: '' };
+
 function InviteCodesPanel() {
   const [codes, setCodes] = useState<InviteCode[]>([]);
+  const [filterForm, setFilterForm] = useState(emptyInviteFilters);
+  const [filters, setFilters] = useState<InviteCodeFilters>(() => toInviteFilters(emptyInviteFilters));
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const [allServices, setAllServices] = useState<AdminService[]>([]);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
   const [copiedId, setCopiedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [form, setForm] = useState(emptyInvite);
 
   const load = useCallback(async () => {
     try {
-      const res = await getInviteCodes();
-      setCodes(res.inviteCodes);
+      const [codesRes, servicesRes, orgsRes] = await Promise.all([
+        getInviteCodes(filters, { limit: LIST_PAGE_SIZE }),
+        getServices(),
+        getOrganizations(),
+      ]);
+      setCodes(codesRes.inviteCodes);
+      setNextCursor(codesRes.nextCursor);
+      setTotal(codesRes.total);
+      setAllServices(servicesRes.services);
+      setOrganizations(orgsRes.organizations);
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to load');
     } finally {
       setIsLoading(false);
     }
-  }, []);
+  }, [filters]);
 
   useEffect(() => { load(); }, [load]);
 
-  const handleCreate = async () => {
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setIsLoadingMore(true);
     try {
-      await createInviteCode(30); // 30 day expiry
+      const res = await getInviteCodes(filters, { cursor: nextCursor, limit: LIST_PAGE_SIZE });
+      setCodes((prev) => [...prev, ...res.inviteCodes]);
+      setNextCursor(res.nextCursor);
+      setTotal(res.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const handleFilter = (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setFilters(toInviteFilters(filterForm));
+  };
+
+  const handleResetFilters = () => {
+    setFilterForm(emptyInviteFilters);
+    setFilters(toInviteFilters(emptyInviteFilters));
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const email = form.email.trim();
+      await createInviteCode({
+        email: email || undefined,
+        note: form.note.trim() || undefined,
+        role: form.role,
+        serviceIds: form.serviceIds,
+        // Email-bound codes are single-use
+        maxUses: email ? 1 : form.maxUses,
+        expiresInDays: form.expiresInDays,
+        organizationId: form.organizationId || undefined,
+      });
+      setForm(emptyInvite);
+      setShowForm(false);
       await load();
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create code');
     }
   };
 
+  const toggleService = (serviceId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      serviceIds: prev.serviceIds.includes(serviceId)
+        ? prev.serviceIds.filter((id) => id !== serviceId)
+        : [...prev.serviceIds, serviceId],
+    }));
+  };
+
   const handleDelete = async (id: string) => {
     try {
       await deleteInviteCode(id);
@@ -404,155 +1214,2159 @@ function InviteCodesPanel() {
 
   if (isLoading) return <div className="py-8 text-center text-gray-400">Loading codes...</div>;
 
-  const availableCodes = codes.filter((c) => !c.usedBy);
-  const usedCodes = codes.filter((c) => c.usedBy);
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
 
   return (
     <div className="space-y-6">
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold text-gray-900">Invite Codes</h3>
-        <button
-          onClick={handleCreate}
-          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
-        >
-          Generate Code
-        </button>
+        {!showForm && !showImport && (
+          <div className="flex gap-2">
+            <button
+              onClick={() => setShowImport(true)}
+              className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+            >
+              Import CSV
+            </button>
+            <button
+              onClick={() => setShowForm(true)}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Generate Code
+            </button>
+          </div>
+        )}
       </div>
 
       {error && (
         <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>
       )}
 
-      {/* Available codes */}
-      <div>
-        <h4 className="mb-2 text-sm font-medium text-gray-600">
-          Available ({availableCodes.length})
-        </h4>
-        {availableCodes.length === 0 ? (
-          <p className="text-sm text-gray-400">No available invite codes. Generate one above.</p>
-        ) : (
-          <div className="space-y-2">
-            {availableCodes.map((code) => (
-              <div
-                key={code.id}
-                className="flex items-center justify-between rounded-lg border border-gray-200 bg-white px-4 py-3"
-              >
-                <div className="flex items-center gap-3">
-                  <code className="rounded bg-gray-100 px-2 py-1 text-sm font-mono font-bold text-gray-800">
-                    {code.code}
-                  </code>
-                  <button
-                    onClick={() => handleCopy(code.code, code.id)}
-                    className="text-xs text-blue-600 hover:text-blue-700"
-                  >
-                    {copiedId === code.id ? 'Copied!' : 'Copy'}
-                  </button>
+      {showImport && <InviteImport onImported={load} onClose={() => setShowImport(false)} />}
+
+      {showForm && (
+        <form onSubmit={handleCreate} className="grid gap-3 rounded-xl border border-gray-200 bg-white p-5 sm:grid-cols-2">
+          <input
+            placeholder="Note (who is this for?)"
+            value={form.note}
+            onChange={(e) => setForm({ ...form, note: e.target.value })}
+            maxLength={500}
+            className={`${inputClass} sm:col-span-2`}
+          />
+          <input
+            type="email"
+            placeholder="Restrict to email (optional)"
+            value={form.email}
+            onChange={(e) => setForm({ ...form, email: e.target.value })}
+            className={inputClass}
+          />
+          <select
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value as 'admin' | 'user' })}
+            className={inputClass}
+          >
+            <option value="user">Registers as user</option>
+            <option value="admin">Registers as admin</option>
+          </select>
+          <label className="text-sm text-gray-600">
+            Uses
+            <input
+              type="number"
+              min={1}
+              max={1000}
+              value={form.email.trim() ? 1 : form.maxUses}
+              disabled={!!form.email.trim()}
+              onChange={(e) => setForm({ ...form, maxUses: Number(e.target.value) || 1 })}
+              className={`${inputClass} mt-1 disabled:bg-gray-50 disabled:text-gray-400`}
+            />
+          </label>
+          <label className="text-sm text-gray-600">
+            Expires in (days)
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={form.expiresInDays}
+              onChange={(e) => setForm({ ...form, expiresInDays: Number(e.target.value) || 30 })}
+              className={`${inputClass} mt-1`}
+            />
+          </label>
+          {organizations.length > 0 && (
+            <select
+              value={form.organizationId}
+              onChange={(e) => setForm({ ...form, organizationId: e.target.value })}
+              className={`${inputClass} sm:col-span-2`}
+            >
+              <option value="">No organization</option>
+              {organizations.map((org) => (
+                <option key={org.id} value={org.id}>
+                  Joins {org.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {allServices.length > 0 && (
+            <div className="sm:col-span-2">
+              <p className="mb-1 text-sm text-gray-600">Grant on registration</p>
+              <div className="flex flex-wrap gap-3">
+                {allServices.map((service) => (
+                  <label key={service.id} className="flex items-center gap-1.5 text-sm text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={form.serviceIds.includes(service.id)}
+                      onChange={() => toggleService(service.id)}
+                    />
+                    {service.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="flex justify-end gap-3 sm:col-span-2">
+            <button
+              type="button"
+              onClick={() => {
+                setShowForm(false);
+                setForm(emptyInvite);
+              }}
+              className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button type="submit" className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+              Create
+            </button>
+          </div>
+        </form>
+      )}
+
+      <form onSubmit={handleFilter} className="grid gap-3 rounded-xl border border-gray-200 bg-white p-4 sm:grid-cols-3 lg:grid-cols-6">
+        <input
+          placeholder="Email contains"
+          value={filterForm.q}
+          onChange={(e) => setFilterForm({ ...filterForm, q: e.target.value })}
+          className={inputClass}
+        />
+        <select value={filterForm.status} onChange={(e) => setFilterForm({ ...filterForm, status: e.target.value })} className={inputClass}>
+          <option value="">Any status</option>
+          <option value="unused">Available</option>
+          <option value="used">Used</option>
+          <option value="expired">Expired</option>
+        </select>
+        <select value={filterForm.role} onChange={(e) => setFilterForm({ ...filterForm, role: e.target.value })} className={inputClass}>
+          <option value="">Any role</option>
+          <option value="user">Registers as user</option>
+          <option value="admin">Registers as admin</option>
+        </select>
+        <select value={filterForm.serviceId} onChange={(e) => setFilterForm({ ...filterForm, serviceId: e.target.value })} className={inputClass}>
+          <option value="">Any service</option>
+          {allServices.map((service) => (
+            <option key={service.id} value={service.id}>Grants {service.name}</option>
+          ))}
+        </select>
+        <select value={filterForm.sort} onChange={(e) => setFilterForm({ ...filterForm, sort: e.target.value })} className={inputClass}>
+          {INVITE_SORT_OPTIONS.map((option) => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        <div className="flex gap-2">
+          <button type="submit" className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+            Filter
+          </button>
+          <button
+            type="button"
+            onClick={handleResetFilters}
+            className="rounded-lg border border-gray-200 px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+          >
+            Reset
+          </button>
+        </div>
+      </form>
+
+      <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="border-b border-gray-100 bg-gray-50">
+              <th className="px-4 py-3 text-left font-medium text-gray-600">Code</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-600">Details</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-600">Status</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-600">Expires</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-600">Created</th>
+              <th className="px-4 py-3 text-left font-medium text-gray-600">Actions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {codes.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-4 py-8 text-center text-gray-400">No invite codes match these filters.</td>
+              </tr>
+            )}
+            {codes.map((code) => {
+              const status = inviteStatus(code);
+              return (
+                <tr key={code.id} className={`border-b border-gray-50 last:border-0 ${status === 'unused' ? '' : 'bg-gray-50'}`}>
+                  <td className="px-4 py-3">
+                    <div className="flex items-center gap-2">
+                      <code
+                        className={`rounded px-2 py-1 font-mono text-sm ${
+                          status === 'unused' ? 'bg-gray-100 font-bold text-gray-800' : 'text-gray-400 line-through'
+                        }`}
+                      >
+                        {code.code}
+                      </code>
+                      {status === 'unused' && (
+                        <button
+                          onClick={() => handleCopy(code.code, code.id)}
+                          className="text-xs text-blue-600 hover:text-blue-700"
+                        >
+                          {copiedId === code.id ? 'Copied!' : 'Copy'}
+                        </button>
+                      )}
+                    </div>
+                  </td>
+                  <td className="space-y-1 px-4 py-3">
+                    {code.note && <div className="text-sm text-gray-700">{code.note}</div>}
+                    <InviteCodeDetails code={code} />
+                  </td>
+                  <td className="px-4 py-3 text-xs">
+                    {status === 'unused' && (
+                      <span className="rounded-full bg-green-50 px-2 py-0.5 font-medium text-green-700">Available</span>
+                    )}
+                    {status === 'expired' && (
+                      <span className="rounded-full bg-gray-100 px-2 py-0.5 font-medium text-gray-500">Expired</span>
+                    )}
+                    {status === 'used' && (
+                      <span className="text-gray-500">
+                        {code.maxUses > 1
+                          ? `${code.useCount} registrations, last by ${code.usedByEmail || 'unknown'}`
+                          : `Used by ${code.usedByEmail || 'unknown'}`}
+                        {code.usedAt && ` on ${new Date(code.usedAt).toLocaleDateString()}`}
+                      </span>
+                    )}
+                    {status !== 'used' && code.maxUses > 1 && (
+                      <span className="ml-1.5 text-gray-500">
+                        {code.useCount}/{code.maxUses} used
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-500">
+                    {code.expiresAt ? new Date(code.expiresAt).toLocaleDateString() : 'Never'}
+                  </td>
+                  <td className="px-4 py-3 text-xs text-gray-500">
+                    {new Date(code.createdAt).toLocaleDateString()}
+                    {code.createdByEmail && <div className="text-gray-400">by {code.createdByEmail}</div>}
+                  </td>
+                  <td className="px-4 py-3">
+                    {status !== 'used' && (
+                      <button
+                        onClick={() => handleDelete(code.id)}
+                        className="text-xs text-red-500 hover:text-red-600"
+                      >
+                        Revoke
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      <ListFooter shown={codes.length} total={total} hasMore={nextCursor !== null} isLoading={isLoadingMore} onLoadMore={handleLoadMore} />
+    </div>
+  );
+}
+
+function InviteCodeDetails({ code }: { code: InviteCode }) {
+  if (!code.email && code.role === 'user' && code.services.length === 0 && !code.organizationName && !code.groupName) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5 text-xs">
+      {code.email && <span className="text-gray-500">For {code.email}</span>}
+      {code.organizationName && <span className="text-gray-500">Joins {code.organizationName}</span>}
+      {code.groupName && <span className="text-gray-500">Joins group {code.groupName}</span>}
+      {code.role === 'admin' && (
+        <span className="rounded-full bg-amber-50 px-2 py-0.5 font-medium text-amber-700">admin</span>
+      )}
+      {code.services.map((service) => (
+        <span key={service.id} className="rounded-full bg-blue-50 px-2 py-0.5 font-medium text-blue-700">
+          {service.name}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+function InviteImport({ onImported, onClose }: { onImported: () => Promise<void>; onClose: () => void }) {
+  const [csv, setCsv] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<InviteImportRow[] | null>(null);
+  const [results, setResults] = useState<InviteImportResult[] | null>(null);
+  const [resultsCsv, setResultsCsv] = useState('');
+  const [expiresInDays, setExpiresInDays] = useState(30);
+  const [note, setNote] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+  const handleFile = async (file: File | undefined) => {
+    setRows(null);
+    setResults(null);
+    setError('');
+    if (!file) return;
+    setFileName(file.name);
+    setIsWorking(true);
+    try {
+      const text = await file.text();
+      setCsv(text);
+      const res = await previewInviteImport(text);
+      setRows(res.rows);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    setIsWorking(true);
+    setError('');
+    try {
+      const res = await importInvites(csv, { expiresInDays, note: note.trim() || undefined });
+      setResults(res.results);
+      setResultsCsv(res.csv);
+      await onImported();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDownload = () => {
+    if (!resultsCsv) return;
+    const blob = new Blob([resultsCsv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `invite-import-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const shown = results ?? rows;
+  const validCount = rows?.filter((row) => row.errors.length === 0).length ?? 0;
+  const createdCount = results?.filter((row) => row.code).length ?? 0;
+
+  return (
+    <div className="space-y-4 rounded-xl border border-gray-200 bg-white p-5">
+      <div>
+        <p className="text-sm text-gray-700">
+          Upload a CSV with the columns <code className="text-xs">email, role, services, group</code>. Each valid row
+          gets a single-use invite code bound to its email. Separate several services with <code className="text-xs">;</code>{' '}
+          (slug or name); role is <code className="text-xs">user</code> unless set to <code className="text-xs">admin</code>.
+        </p>
+        {!results && (
+          <label className="mt-3 inline-flex cursor-pointer items-center gap-2 rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50">
+            {fileName ? 'Choose another file' : 'Choose CSV file'}
+            <input
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        )}
+        {fileName && <span className="ml-3 text-sm text-gray-500">{fileName}</span>}
+      </div>
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+      {shown && (
+        <div className="max-h-96 overflow-auto rounded-lg border border-gray-200">
+          <table className="w-full text-left text-sm">
+            <thead className="sticky top-0 bg-gray-50 text-xs uppercase text-gray-500">
+              <tr>
+                <th className="px-3 py-2">Line</th>
+                <th className="px-3 py-2">Email</th>
+                <th className="px-3 py-2">Role</th>
+                <th className="px-3 py-2">Services</th>
+                <th className="px-3 py-2">Group</th>
+                <th className="px-3 py-2">{results ? 'Result' : 'Check'}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {shown.map((row) => {
+                const code = results ? (row as InviteImportResult).code : null;
+                return (
+                  <tr key={row.line} className={row.errors.length > 0 ? 'bg-red-50/50' : ''}>
+                    <td className="px-3 py-2 text-gray-400">{row.line}</td>
+                    <td className="px-3 py-2 text-gray-900">{row.email || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600">{row.role}</td>
+                    <td className="px-3 py-2 text-gray-600">{row.services.map((s) => s.name).join(', ') || '—'}</td>
+                    <td className="px-3 py-2 text-gray-600">{row.group?.name ?? '—'}</td>
+                    <td className="px-3 py-2">
+                      {row.errors.length > 0 ? (
+                        <span className="text-red-600">{row.errors.join('; ')}</span>
+                      ) : code ? (
+                        <code className="rounded bg-gray-100 px-2 py-0.5 font-mono text-xs font-bold text-gray-800">{code}</code>
+                      ) : (
+                        <span className="text-green-700">Ready</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {rows && !results && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <input
+            placeholder="Note for these codes (optional)"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            maxLength={500}
+            className={inputClass}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Expires in (days)
+            <input
+              type="number"
+              min={1}
+              max={365}
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value) || 30)}
+              className={`${inputClass} w-24`}
+            />
+          </label>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        {rows && !results && (
+          <span className="mr-auto text-sm text-gray-500">
+            {validCount} of {rows.length} rows ready{validCount < rows.length ? '; rows with errors are skipped' : ''}
+          </span>
+        )}
+        {results && (
+          <span className="mr-auto text-sm text-gray-500">
+            Created {createdCount} invite{createdCount === 1 ? '' : 's'}, skipped {results.length - createdCount}
+          </span>
+        )}
+        <button
+          onClick={onClose}
+          className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+        >
+          {results ? 'Done' : 'Cancel'}
+        </button>
+        {results ? (
+          <button
+            onClick={handleDownload}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            Download results
+          </button>
+        ) : (
+          <button
+            onClick={handleImport}
+            disabled={isWorking || validCount === 0}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isWorking ? 'Working...' : `Create ${validCount} invite${validCount === 1 ? '' : 's'}`}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ===================== SERVICES PANEL =====================
+
+type ServiceForm = { slug: string; name: string; description: string; icon: string; route: string };
+
+const emptyService: ServiceForm = { slug: '', name: '', description: '', icon: '', route: '' };
+
+type ServiceAction =
+  | { type: 'disable'; service: AdminService }
+  | { type: 'delete'; service: AdminService };
+
+function ServiceEditor({
+  initial,
+  isNew,
+  onSave,
+  onCancel,
+}: {
+  initial: ServiceForm;
+  isNew: boolean;
+  onSave: (form: ServiceForm) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await onSave(form);
+    setIsSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 rounded-xl border border-gray-200 bg-white p-5 sm:grid-cols-2">
+      <input placeholder="Name (e.g. RL Controls)" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} required className={inputClass} />
+      {isNew ? (
+        <input placeholder="Slug (e.g. rlc-controls)" value={form.slug} onChange={(e) => setForm({ ...form, slug: e.target.value })} required className={inputClass} />
+      ) : (
+        <div className="flex items-center px-1 text-sm text-gray-400">Slug: {form.slug}</div>
+      )}
+      <input placeholder="Route (e.g. /rlc)" value={form.route} onChange={(e) => setForm({ ...form, route: e.target.value })} required className={inputClass} />
+      <input placeholder="Icon (emoji)" value={form.icon} onChange={(e) => setForm({ ...form, icon: e.target.value })} maxLength={50} className={inputClass} />
+      <textarea
+        placeholder="Description"
+        value={form.description}
+        onChange={(e) => setForm({ ...form, description: e.target.value })}
+        rows={2}
+        className={`${inputClass} sm:col-span-2`}
+      />
+      <div className="flex justify-end gap-3 sm:col-span-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isNew ? 'Create' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// Edits the settings a built-in service declares in its manifest. Fields hold
+// text while editing; a field cleared or set back to its default follows the
+// manifest again.
+function ServiceSettingsEditor({ service, onClose }: { service: AdminService; onClose: () => void }) {
+  const [settings, setSettings] = useState<ServiceSetting[]>([]);
+  const [form, setForm] = useState<Record<string, string>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+  const show = (loaded: ServiceSetting[]) => {
+    setSettings(loaded);
+    setForm(Object.fromEntries(loaded.map((setting) => [setting.key, String(setting.value)])));
+  };
+
+  useEffect(() => {
+    getServiceSettings(service.id)
+      .then((res) => show(res.settings))
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load settings'))
+      .finally(() => setIsLoading(false));
+  }, [service.id]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setNotice('');
+
+    const values: Record<string, string | number | null> = {};
+    for (const setting of settings) {
+      const raw = form[setting.key] ?? '';
+      if (raw === String(setting.value)) continue;
+      values[setting.key] = raw.trim() === '' ? null : setting.type === 'number' ? Number(raw) : raw;
+    }
+    if (Object.keys(values).length === 0) {
+      setNotice('No changes to save');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const res = await updateServiceSettings(service.id, values);
+      show(res.settings);
+      setNotice(res.changed.length === 1 ? 'Saved 1 setting' : `Saved ${res.changed.length} settings`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save settings');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4 rounded-xl border border-gray-200 bg-white p-5 sm:col-span-2">
+      <div className="flex items-center justify-between">
+        <h4 className="font-semibold text-gray-900">{service.name} settings</h4>
+        <span className="text-2xl">{service.icon || '⚡'}</span>
+      </div>
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+      {notice && <div className="rounded-lg bg-green-50 px-4 py-3 text-sm text-green-700">{notice}</div>}
+
+      {isLoading ? (
+        <div className="py-4 text-center text-sm text-gray-400">Loading settings...</div>
+      ) : (
+        settings.map((setting) => {
+          const value = form[setting.key] ?? '';
+          const isDefault = value === String(setting.default);
+          return (
+            <div key={setting.key}>
+              <div className="mb-1 flex items-center justify-between">
+                <label htmlFor={`setting-${setting.key}`} className="text-sm font-medium text-gray-700">
+                  {setting.label}
+                  {setting.type === 'number' && setting.unit && <span className="font-normal text-gray-400"> ({setting.unit})</span>}
+                </label>
+                {!isDefault && (
+                  <button
+                    type="button"
+                    onClick={() => setForm({ ...form, [setting.key]: String(setting.default) })}
+                    className="text-xs font-medium text-blue-600 hover:text-blue-700"
+                  >
+                    Reset to default
+                  </button>
+                )}
+              </div>
+              {setting.type === 'text' && setting.multiline ? (
+                <textarea
+                  id={`setting-${setting.key}`}
+                  value={value}
+                  onChange={(e) => setForm({ ...form, [setting.key]: e.target.value })}
+                  rows={10}
+                  maxLength={setting.maxLength}
+                  className={`${inputClass} font-mono text-xs`}
+                />
+              ) : setting.type === 'text' ? (
+                <input
+                  id={`setting-${setting.key}`}
+                  value={value}
+                  onChange={(e) => setForm({ ...form, [setting.key]: e.target.value })}
+                  maxLength={setting.maxLength}
+                  className={inputClass}
+                />
+              ) : (
+                <input
+                  id={`setting-${setting.key}`}
+                  type="number"
+                  value={value}
+                  onChange={(e) => setForm({ ...form, [setting.key]: e.target.value })}
+                  min={setting.min}
+                  max={setting.max}
+                  step={setting.integer ? 1 : 'any'}
+                  className={`${inputClass} sm:w-48`}
+                />
+              )}
+              <p className="mt-1 text-xs text-gray-400">
+                {setting.description}
+                {setting.updatedAt ? ` Changed ${new Date(setting.updatedAt).toLocaleString()}.` : ' Using the default.'}
+              </p>
+            </div>
+          );
+        })
+      )}
+
+      <div className="flex justify-end gap-3">
+        <button
+          type="button"
+          onClick={onClose}
+          className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+        >
+          Close
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving || isLoading}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSaving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function ServicesPanel() {
+  const [services, setServices] = useState<AdminService[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [pendingAction, setPendingAction] = useState<ServiceAction | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await getServices();
+      setServices(res.services);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+      return false;
+    }
+  };
+
+  const toInput = (form: ServiceForm) => ({
+    name: form.name,
+    description: form.description.trim() || null,
+    icon: form.icon.trim() || null,
+    route: form.route,
+  });
+
+  const handleCreate = async (form: ServiceForm) => {
+    const ok = await run(() => createService({ ...toInput(form), slug: form.slug }));
+    if (ok) setIsCreating(false);
+    return ok;
+  };
+
+  const handleUpdate = async (id: string, form: ServiceForm) => {
+    const ok = await run(() => updateService(id, toInput(form)));
+    if (ok) setEditingId(null);
+    return ok;
+  };
+
+  const handleConfirm = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (!action) return;
+    if (action.type === 'disable') {
+      await run(() => updateService(action.service.id, { enabled: false }));
+    } else {
+      await run(() => deleteService(action.service.id));
+    }
+  };
+
+  if (isLoading) return <div className="py-8 text-center text-gray-400">Loading services...</div>;
+
+  const usersText = (service: AdminService) =>
+    service.userCount === 1 ? '1 assigned user' : `${service.userCount} assigned users`;
+
+  return (
+    <div className="space-y-4">
+      <ConfirmDialog
+        isOpen={pendingAction !== null}
+        title={pendingAction?.type === 'delete' ? 'Delete service' : 'Disable service'}
+        message={
+          pendingAction?.type === 'delete'
+            ? `Delete ${pendingAction.service.name}? Its ${usersText(pendingAction.service)}, invite-code grants and SSO domain rules are removed too. This cannot be undone.`
+            : pendingAction
+              ? `Disable ${pendingAction.service.name}? It disappears from dashboards and its API stops accepting requests from its ${usersText(pendingAction.service)}. Assignments are kept, so you can re-enable it later.`
+              : ''
+        }
+        confirmLabel={pendingAction?.type === 'delete' ? 'Delete' : 'Disable'}
+        danger
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingAction(null)}
+      />
+
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold text-gray-900">Registered Services ({services.length})</h3>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            Add Service
+          </button>
+        )}
+      </div>
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+      {isCreating && (
+        <ServiceEditor initial={emptyService} isNew onSave={handleCreate} onCancel={() => setIsCreating(false)} />
+      )}
+
+      {services.length === 0 ? (
+        <p className="text-sm text-gray-400">No services registered. Add one above, or restart the server to sync built-in services.</p>
+      ) : (
+        <div className="grid gap-4 sm:grid-cols-2">
+          {services.map((s) =>
+            editingId === s.id ? (
+              <ServiceEditor
+                key={s.id}
+                initial={{ slug: s.slug, name: s.name, description: s.description ?? '', icon: s.icon ?? '', route: s.route }}
+                isNew={false}
+                onSave={(form) => handleUpdate(s.id, form)}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : settingsId === s.id ? (
+              <ServiceSettingsEditor key={s.id} service={s} onClose={() => setSettingsId(null)} />
+            ) : (
+              <div
+                key={s.id}
+                className="rounded-xl border border-gray-200 bg-white p-5"
+              >
+                <div className="flex items-start justify-between">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <h4 className="font-semibold text-gray-900">{s.name}</h4>
+                      <span
+                        className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                          s.enabled ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-500'
+                        }`}
+                      >
+                        {s.enabled ? 'Active' : 'Disabled'}
+                      </span>
+                      {s.registered && (
+                        <span
+                          className="rounded-full bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-700"
+                          title="Defined by a service manifest; name, description, icon and route come from code"
+                        >
+                          Built-in
+                        </span>
+                      )}
+                    </div>
+                    {s.description && (
+                      <p className="mt-1 text-sm text-gray-500">{s.description}</p>
+                    )}
+                  </div>
+                  <span className="text-2xl">{s.icon || '⚡'}</span>
+                </div>
+                <div className="mt-3 flex items-center gap-4 text-xs text-gray-400">
+                  <span>Slug: {s.slug}</span>
+                  <span>Route: {s.route}</span>
+                  <span>{usersText(s)}</span>
+                  {s.requireTwoFactor && <span className="text-amber-600">Requires 2FA</span>}
+                </div>
+                <div className="mt-3 flex gap-1 border-t border-gray-100 pt-3">
+                  {!s.registered && (
+                    <button
+                      onClick={() => setEditingId(s.id)}
+                      className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                    >
+                      Edit
+                    </button>
+                  )}
+                  {s.hasSettings && (
+                    <button
+                      onClick={() => setSettingsId(s.id)}
+                      className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                    >
+                      Settings
+                    </button>
+                  )}
+                  <button
+                    onClick={() =>
+                      s.enabled
+                        ? setPendingAction({ type: 'disable', service: s })
+                        : run(() => updateService(s.id, { enabled: true }))
+                    }
+                    className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                  >
+                    {s.enabled ? 'Disable' : 'Enable'}
+                  </button>
+                  {!s.registered && (
+                    <button
+                      onClick={() => setPendingAction({ type: 'delete', service: s })}
+                      className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  )}
+                </div>
+              </div>
+            ),
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ===================== ORGANIZATIONS PANEL =====================
+
+type OrganizationAction =
+  | { type: 'delete'; organization: Organization }
+  | { type: 'revokeService'; organization: Organization; serviceId: string; serviceName: string }
+  | { type: 'removeMember'; organization: Organization; userId: string; email: string };
+
+function OrganizationsPanel() {
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [allServices, setAllServices] = useState<AdminService[]>([]);
+  const [allUsers, setAllUsers] = useState<AdminUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState({ name: '', slug: '' });
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [pendingAction, setPendingAction] = useState<OrganizationAction | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [orgsRes, servicesRes, usersRes] = await Promise.all([getOrganizations(), getServices(), getAllUsers()]);
+      setOrganizations(orgsRes.organizations);
+      setAllServices(servicesRes.services);
+      setAllUsers(usersRes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const ok = await run(() => createOrganization({ name: form.name.trim(), slug: form.slug.trim() }));
+    if (ok) setForm({ name: '', slug: '' });
+  };
+
+  const handleRename = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!renaming) return;
+    const ok = await run(() => renameOrganization(renaming.id, renaming.name.trim()));
+    if (ok) setRenaming(null);
+  };
+
+  const handleConfirm = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (!action) return;
+    if (action.type === 'delete') {
+      await run(() => deleteOrganization(action.organization.id));
+    } else if (action.type === 'revokeService') {
+      await run(() => revokeOrganizationService(action.organization.id, action.serviceId));
+    } else {
+      await run(() => removeOrganizationMember(action.organization.id, action.userId));
+    }
+  };
+
+  if (isLoading) return <div className="py-8 text-center text-gray-400">Loading organizations...</div>;
+
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+  const confirmMessage = (() => {
+    if (!pendingAction) return '';
+    const { organization } = pendingAction;
+    if (pendingAction.type === 'delete') {
+      return `Delete ${organization.name}? Its ${organization.members.length} members keep their accounts but lose the organization's services, and its invite codes stop working.`;
+    }
+    if (pendingAction.type === 'revokeService') {
+      return `Remove ${pendingAction.serviceName} from ${organization.name}? Members keep it only if it was also granted to them directly.`;
+    }
+    return `Remove ${pendingAction.email} from ${organization.name}?`;
+  })();
+
+  return (
+    <div className="space-y-4">
+      <ConfirmDialog
+        isOpen={pendingAction !== null}
+        title={
+          pendingAction?.type === 'delete'
+            ? 'Delete organization'
+            : pendingAction?.type === 'revokeService'
+              ? 'Revoke service'
+              : 'Remove member'
+        }
+        message={confirmMessage}
+        confirmLabel={pendingAction?.type === 'delete' ? 'Delete' : 'Confirm'}
+        danger
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingAction(null)}
+      />
+
+      <h3 className="text-lg font-semibold text-gray-900">Organizations ({organizations.length})</h3>
+      <p className="text-sm text-gray-500">
+        Members get every service assigned to their organization. Org admins manage members and invite codes from their
+        organization page.
+      </p>
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+      <form onSubmit={handleCreate} className="flex gap-3 rounded-xl border border-gray-200 bg-white p-4">
+        <input
+          placeholder="Name (e.g. Acme Corp)"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          required
+          className={inputClass}
+        />
+        <input
+          placeholder="Slug (e.g. acme)"
+          value={form.slug}
+          onChange={(e) => setForm({ ...form, slug: e.target.value })}
+          required
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          className="shrink-0 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          Add Organization
+        </button>
+      </form>
+
+      {organizations.length === 0 ? (
+        <p className="text-sm text-gray-400">No organizations yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {organizations.map((org) => {
+            const unassignedServices = allServices.filter((s) => !org.services.some((os) => os.id === s.id));
+            const nonMembers = allUsers.filter((u) => !org.members.some((m) => m.userId === u.id));
+            return (
+              <div key={org.id} className="rounded-xl border border-gray-200 bg-white p-5">
+                <div className="flex items-start justify-between">
+                  {renaming?.id === org.id ? (
+                    <form onSubmit={handleRename} className="flex gap-2">
+                      <input
+                        value={renaming.name}
+                        onChange={(e) => setRenaming({ id: org.id, name: e.target.value })}
+                        required
+                        className={inputClass}
+                      />
+                      <button type="submit" className="text-xs font-medium text-blue-600 hover:text-blue-700">Save</button>
+                      <button type="button" onClick={() => setRenaming(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <div>
+                      <h4 className="font-semibold text-gray-900">{org.name}</h4>
+                      <p className="text-xs text-gray-400">Slug: {org.slug}</p>
+                    </div>
+                  )}
+                  <div className="flex gap-1">
+                    <Link
+                      to={`/orgs/${org.id}`}
+                      className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                      title="The org admin's view: members and invite codes"
+                    >
+                      Open
+                    </Link>
+                    <button
+                      onClick={() => setRenaming({ id: org.id, name: org.name })}
+                      className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                    >
+                      Rename
+                    </button>
+                    <button
+                      onClick={() => setPendingAction({ type: 'delete', organization: org })}
+                      className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-400">Services</p>
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    {org.services.map((s) => (
+                      <span
+                        key={s.id}
+                        className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700"
+                      >
+                        {s.name}
+                        <select
+                          value={s.role}
+                          onChange={(e) => run(() => setOrganizationServiceRole(org.id, s.id, e.target.value as ServiceRole))}
+                          className="bg-transparent text-xs opacity-75 focus:outline-none"
+                          title="Role members get"
+                        >
+                          {SERVICE_ROLE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.value}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() =>
+                            setPendingAction({ type: 'revokeService', organization: org, serviceId: s.id, serviceName: s.name })
+                          }
+                          className="ml-0.5 text-blue-400 hover:text-red-500"
+                          title="Revoke from organization"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    {unassignedServices.length > 0 && (
+                      <select
+                        className="rounded border border-gray-200 px-1.5 py-0.5 text-xs text-gray-500"
+                        value=""
+                        onChange={(e) => e.target.value && run(() => grantOrganizationService(org.id, e.target.value))}
+                      >
+                        <option value="">+ Add</option>
+                        {unassignedServices.map((s) => (
+                          <option key={s.id} value={s.id}>
+                            {s.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-400">
+                    Members ({org.members.length})
+                  </p>
+                  <div className="divide-y divide-gray-50">
+                    {org.members.map((m) => (
+                      <div key={m.userId} className="flex items-center justify-between py-1.5 text-sm">
+                        <span className="text-gray-900">
+                          {m.email}
+                          {m.role === 'admin' && (
+                            <span className="ml-2 rounded-full bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700">
+                              org admin
+                            </span>
+                          )}
+                        </span>
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => run(() => setOrganizationMember(org.id, m.userId, m.role === 'admin' ? 'member' : 'admin'))}
+                            className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                          >
+                            {m.role === 'admin' ? 'Make member' : 'Make org admin'}
+                          </button>
+                          <button
+                            onClick={() => setPendingAction({ type: 'removeMember', organization: org, userId: m.userId, email: m.email })}
+                            className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                  {nonMembers.length > 0 && (
+                    <select
+                      className="mt-2 rounded border border-gray-200 px-1.5 py-0.5 text-xs text-gray-500"
+                      value=""
+                      onChange={(e) => e.target.value && run(() => setOrganizationMember(org.id, e.target.value, 'member'))}
+                    >
+                      <option value="">+ Add existing user</option>
+                      {nonMembers.map((u) => (
+                        <option key={u.id} value={u.id}>
+                          {u.email}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ===================== GROUPS PANEL =====================
+
+type GroupAction =
+  | { type: 'delete'; group: UserGroup }
+  | { type: 'revokeService'; group: UserGroup; serviceId: string; serviceName: string }
+  | { type: 'removeMember'; group: UserGroup; userId: string; email: string };
+
+function parseEmails(value: string) {
+  return value.split(/[\s,;]+/).map((e) => e.trim()).filter(Boolean);
+}
+
+function GroupsPanel() {
+  const [groups, setGroups] = useState<UserGroup[]>([]);
+  const [allServices, setAllServices] = useState<AdminService[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [notice, setNotice] = useState('');
+  const [form, setForm] = useState({ name: '', description: '' });
+  const [editing, setEditing] = useState<{ id: string; name: string; description: string } | null>(null);
+  const [memberInput, setMemberInput] = useState<Record<string, string>>({});
+  const [pendingAction, setPendingAction] = useState<GroupAction | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const [groupsRes, servicesRes] = await Promise.all([getGroups(), getServices()]);
+      setGroups(groupsRes.groups);
+      setAllServices(servicesRes.services);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    setNotice('');
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const ok = await run(() => createGroup({ name: form.name.trim(), description: form.description.trim() || null }));
+    if (ok) setForm({ name: '', description: '' });
+  };
+
+  const handleUpdate = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!editing) return;
+    const ok = await run(() =>
+      updateGroup(editing.id, { name: editing.name.trim(), description: editing.description.trim() || null }),
+    );
+    if (ok) setEditing(null);
+  };
+
+  const handleAddMembers = async (group: UserGroup) => {
+    const emails = parseEmails(memberInput[group.id] ?? '');
+    if (emails.length === 0) return;
+    setError('');
+    setNotice('');
+    let result: AddGroupMembersResult;
+    try {
+      result = await addGroupMembers(group.id, emails);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add members');
+      return;
+    }
+    const { added, alreadyMembers, notFound } = result;
+    setMemberInput((prev) => ({ ...prev, [group.id]: notFound.join('\n') }));
+    setNotice(
+      [
+        `Added ${added.length} to ${group.name}.`,
+        alreadyMembers.length > 0 && `${alreadyMembers.length} already in the group.`,
+        notFound.length > 0 && `No account for: ${notFound.join(', ')}.`,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    );
+  };
+
+  const handleConfirm = async () => {
+    const action = pendingAction;
+    setPendingAction(null);
+    if (!action) return;
+    if (action.type === 'delete') {
+      await run(() => deleteGroup(action.group.id));
+    } else if (action.type === 'revokeService') {
+      await run(() => revokeGroupService(action.group.id, action.serviceId));
+    } else {
+      await run(() => removeGroupMember(action.group.id, action.userId));
+    }
+  };
+
+  if (isLoading) return <div className="py-8 text-center text-gray-400">Loading groups...</div>;
+
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+  const confirmMessage = (() => {
+    if (!pendingAction) return '';
+    const { group } = pendingAction;
+    if (pendingAction.type === 'delete') {
+      return `Delete ${group.name}? Its ${group.members.length} members lose the services granted through it, unless they have them another way.`;
+    }
+    if (pendingAction.type === 'revokeService') {
+      return `Remove ${pendingAction.serviceName} from ${group.name}? Members keep it only if they have it another way.`;
+    }
+    return `Remove ${pendingAction.email} from ${group.name}?`;
+  })();
+
+  return (
+    <div className="space-y-4">
+      <ConfirmDialog
+        isOpen={pendingAction !== null}
+        title={
+          pendingAction?.type === 'delete'
+            ? 'Delete group'
+            : pendingAction?.type === 'revokeService'
+              ? 'Revoke service'
+              : 'Remove member'
+        }
+        message={confirmMessage}
+        confirmLabel={pendingAction?.type === 'delete' ? 'Delete' : 'Confirm'}
+        danger
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingAction(null)}
+      />
+
+      <h3 className="text-lg font-semibold text-gray-900">Groups ({groups.length})</h3>
+      <p className="text-sm text-gray-500">
+        Grant services to a group once instead of to each user. Members inherit the group's services for as long as
+        they're in it.
+      </p>
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+      {notice && <div className="rounded-lg bg-green-50 px-4 py-3 text-sm text-green-700">{notice}</div>}
+
+      <form onSubmit={handleCreate} className="flex gap-3 rounded-xl border border-gray-200 bg-white p-4">
+        <input
+          placeholder="Name (e.g. Hitachi claim team)"
+          value={form.name}
+          onChange={(e) => setForm({ ...form, name: e.target.value })}
+          required
+          className={inputClass}
+        />
+        <input
+          placeholder="Description (optional)"
+          value={form.description}
+          onChange={(e) => setForm({ ...form, description: e.target.value })}
+          className={inputClass}
+        />
+        <button
+          type="submit"
+          className="shrink-0 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          Add Group
+        </button>
+      </form>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-gray-400">No groups yet.</p>
+      ) : (
+        <div className="space-y-4">
+          {groups.map((group) => {
+            const unassignedServices = allServices.filter((s) => !group.services.some((gs) => gs.id === s.id));
+            return (
+              <div key={group.id} className="rounded-xl border border-gray-200 bg-white p-5">
+                <div className="flex items-start justify-between">
+                  {editing?.id === group.id ? (
+                    <form onSubmit={handleUpdate} className="flex flex-1 gap-2 pr-4">
+                      <input
+                        value={editing.name}
+                        onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                        required
+                        className={inputClass}
+                      />
+                      <input
+                        value={editing.description}
+                        placeholder="Description"
+                        onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                        className={inputClass}
+                      />
+                      <button type="submit" className="text-xs font-medium text-blue-600 hover:text-blue-700">Save</button>
+                      <button type="button" onClick={() => setEditing(null)} className="text-xs text-gray-500 hover:text-gray-700">
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <div>
+                      <h4 className="font-semibold text-gray-900">{group.name}</h4>
+                      {group.description && <p className="text-sm text-gray-500">{group.description}</p>}
+                    </div>
+                  )}
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => setEditing({ id: group.id, name: group.name, description: group.description ?? '' })}
+                      className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                    >
+                      Edit
+                    </button>
+                    <button
+                      onClick={() => setPendingAction({ type: 'delete', group })}
+                      className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+
+                <div className="mt-4">
+                  <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-400">Services</p>
+                  <div className="flex flex-wrap items-center gap-1.5">
+                    {group.services.map((s) => (
+                      <span
+                        key={s.id}
+                        className="inline-flex items-center gap-1 rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700"
+                      >
+                        {s.name}
+                        <select
+                          value={s.role}
+                          onChange={(e) => run(() => setGroupServiceRole(group.id, s.id, e.target.value as ServiceRole))}
+                          className="bg-transparent text-xs opacity-75 focus:outline-none"
+                          title="Role members get"
+                        >
+                          {SERVICE_ROLE_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.value}
+                            </option>
+                          ))}
+                        </select>
+                        <button
+                          onClick={() => setPendingAction({ type: 'revokeService', group, serviceId: s.id, serviceName: s.name })}
+                          className="ml-0.5 text-blue-400 hover:text-red-500"
+                          title="Revoke from group"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                    {unassignedServices.length > 0 && (
+                      <select
+                        className="rounded border border-gray-200 px-1.5 py-0.5 text-xs text-gray-500"
+                        value=""
+                        onChange={(e) => e.target.value && run(() => grantGroupService(group.id, e.target.value))}
+                      >
+                        <option value="">+ Add</option>
+                        {unassignedServices.map((s) => (
+                          <option key={s.id} value={s.id}>
+                            {s.name}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                  </div>
                 </div>
-                <div className="flex items-center gap-4">
-                  {code.expiresAt && (
-                    <span className="text-xs text-gray-400">
-                      Expires {new Date(code.expiresAt).toLocaleDateString()}
-                    </span>
-                  )}
-                  <button
-                    onClick={() => handleDelete(code.id)}
-                    className="text-xs text-red-500 hover:text-red-600"
-                  >
-                    Revoke
-                  </button>
+
+                <div className="mt-4">
+                  <p className="mb-1 text-xs font-medium uppercase tracking-wide text-gray-400">
+                    Members ({group.members.length})
+                  </p>
+                  <div className="flex flex-wrap gap-1.5">
+                    {group.members.map((m) => (
+                      <span
+                        key={m.userId}
+                        className="inline-flex items-center gap-1 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-700"
+                      >
+                        {m.email}
+                        <button
+                          onClick={() => setPendingAction({ type: 'removeMember', group, userId: m.userId, email: m.email })}
+                          className="ml-0.5 text-gray-400 hover:text-red-500"
+                          title="Remove from group"
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                  <div className="mt-2 flex items-start gap-2">
+                    <textarea
+                      placeholder="Add members by email — one per line, or comma-separated"
+                      value={memberInput[group.id] ?? ''}
+                      onChange={(e) => setMemberInput((prev) => ({ ...prev, [group.id]: e.target.value }))}
+                      rows={2}
+                      className={inputClass}
+                    />
+                    <button
+                      onClick={() => handleAddMembers(group)}
+                      disabled={parseEmails(memberInput[group.id] ?? '').length === 0}
+                      className="shrink-0 rounded-lg border border-gray-200 px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                    >
+                      Add
+                    </button>
+                  </div>
                 </div>
               </div>
-            ))}
-          </div>
-        )}
-      </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// ===================== SECURITY POLICY PANEL =====================
+
+type PolicyChange =
+  | { type: 'role'; role: 'admin' | 'user'; required: boolean }
+  | { type: 'service'; serviceId: string; serviceName: string; required: boolean };
+
+function SecurityPolicyPanel() {
+  const [policy, setPolicy] = useState<SecurityPolicy | null>(null);
+  const [error, setError] = useState('');
+  const [pendingChange, setPendingChange] = useState<PolicyChange | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      setPolicy(await getSecurityPolicy());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleConfirm = async () => {
+    if (!pendingChange) return;
+    const change = pendingChange;
+    setPendingChange(null);
+    try {
+      if (change.type === 'role') {
+        await setRoleTwoFactor(change.role, change.required);
+      } else {
+        await setServiceTwoFactor(change.serviceId, change.required);
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
 
-      {/* Used codes */}
-      {usedCodes.length > 0 && (
+  if (error) return <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>;
+  if (!policy) return <div className="py-8 text-center text-gray-400">Loading security policy...</div>;
+
+  const confirmMessage = (() => {
+    if (!pendingChange) return '';
+    const target = pendingChange.type === 'role'
+      ? `every ${pendingChange.role} account`
+      : `${pendingChange.serviceName}`;
+    return pendingChange.required
+      ? `Require two-factor authentication for ${target}? Users without it will be sent to set it up.`
+      : `Stop requiring two-factor authentication for ${target}?`;
+  })();
+
+  const toggleClass = (on: boolean) =>
+    `rounded-lg px-3 py-1.5 text-xs font-medium ${
+      on
+        ? 'border border-gray-200 text-gray-600 hover:bg-gray-50'
+        : 'bg-blue-600 text-white hover:bg-blue-700'
+    }`;
+
+  return (
+    <div className="space-y-8">
+      <ConfirmDialog
+        isOpen={pendingChange !== null}
+        title="Change two-factor policy"
+        message={confirmMessage}
+        confirmLabel="Confirm"
+        danger={pendingChange?.required === false}
+        onConfirm={handleConfirm}
+        onCancel={() => setPendingChange(null)}
+      />
+
+      <div className="space-y-3">
         <div>
-          <h4 className="mb-2 text-sm font-medium text-gray-600">
-            Used ({usedCodes.length})
-          </h4>
-          <div className="space-y-2">
-            {usedCodes.map((code) => (
-              <div
-                key={code.id}
-                className="flex items-center justify-between rounded-lg border border-gray-100 bg-gray-50 px-4 py-3"
+          <h3 className="text-lg font-semibold text-gray-900">Two-factor by role</h3>
+          <p className="text-sm text-gray-500">Accounts with a required role can't use the app until they enroll.</p>
+        </div>
+        <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+          {policy.roles.map((r) => (
+            <div key={r.role} className="flex items-center justify-between border-b border-gray-50 px-4 py-3 last:border-0">
+              <div className="flex items-center gap-3 text-sm">
+                <span className="font-medium capitalize text-gray-900">{r.role}</span>
+                <span className={r.requireTwoFactor ? 'text-green-700' : 'text-gray-400'}>
+                  {r.requireTwoFactor ? 'Required' : 'Optional'}
+                </span>
+              </div>
+              <button
+                onClick={() => setPendingChange({ type: 'role', role: r.role, required: !r.requireTwoFactor })}
+                className={toggleClass(r.requireTwoFactor)}
               >
-                <div className="flex items-center gap-3">
-                  <code className="text-sm font-mono text-gray-400 line-through">
-                    {code.code}
-                  </code>
-                  <span className="text-xs text-gray-400">
-                    Used by {code.usedByEmail || 'unknown'}
+                {r.requireTwoFactor ? 'Make optional' : 'Require'}
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Two-factor by service</h3>
+          <p className="text-sm text-gray-500">Applies to everyone opening the service, admins included.</p>
+        </div>
+        {policy.services.length === 0 ? (
+          <p className="text-sm text-gray-400">No services registered.</p>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+            {policy.services.map((s) => (
+              <div key={s.id} className="flex items-center justify-between border-b border-gray-50 px-4 py-3 last:border-0">
+                <div className="flex items-center gap-3 text-sm">
+                  <span className="font-medium text-gray-900">{s.name}</span>
+                  <span className="text-xs text-gray-400">{s.slug}</span>
+                  <span className={s.requireTwoFactor ? 'text-green-700' : 'text-gray-400'}>
+                    {s.requireTwoFactor ? 'Required' : 'Optional'}
                   </span>
                 </div>
-                <span className="text-xs text-gray-400">
-                  {code.usedAt ? new Date(code.usedAt).toLocaleDateString() : ''}
-                </span>
+                <button
+                  onClick={() =>
+                    setPendingChange({
+                      type: 'service',
+                      serviceId: s.id,
+                      serviceName: s.name,
+                      required: !s.requireTwoFactor,
+                    })
+                  }
+                  className={toggleClass(s.requireTwoFactor)}
+                >
+                  {s.requireTwoFactor ? 'Make optional' : 'Require'}
+                </button>
               </div>
             ))}
           </div>
+        )}
+      </div>
+
+      <LoginLockoutsSection />
+    </div>
+  );
+}
+
+function LoginLockoutsSection() {
+  const [lockouts, setLockouts] = useState<LoginLockout[] | null>(null);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      setLockouts((await getLockouts()).lockouts);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleRelease = async (id: string) => {
+    try {
+      await releaseLockout(id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    }
+  };
+
+  const now = new Date();
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900">Login lockouts</h3>
+        <p className="text-sm text-gray-500">
+          Accounts and IP addresses temporarily blocked after repeated failed sign-ins.
+        </p>
+      </div>
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+      {lockouts === null ? (
+        <div className="py-4 text-center text-gray-400">Loading lockouts...</div>
+      ) : lockouts.length === 0 ? (
+        <p className="text-sm text-gray-400">No lockouts recorded.</p>
+      ) : (
+        <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="border-b border-gray-100 bg-gray-50">
+                <th className="px-4 py-3 text-left font-medium text-gray-600">Locked</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-600">Failures</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-600">When</th>
+                <th className="px-4 py-3 text-left font-medium text-gray-600">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lockouts.map((l) => {
+                const active = !l.releasedAt && new Date(l.lockedUntil) > now;
+                return (
+                  <tr key={l.id} className="border-b border-gray-50 last:border-0">
+                    <td className="px-4 py-3">
+                      <span className="font-medium text-gray-900">
+                        {l.scope === 'account' ? l.email : l.ipAddress}
+                      </span>
+                      <span className="ml-2 text-xs text-gray-400">
+                        {l.scope === 'account' ? (l.ipAddress ? `from ${l.ipAddress}` : 'account') : 'IP address'}
+                      </span>
+                    </td>
+                    <td className="px-4 py-3 text-gray-500">{l.failedAttempts}</td>
+                    <td className="px-4 py-3 text-gray-500">{new Date(l.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-3">
+                      {active ? (
+                        <div className="flex items-center gap-2">
+                          <span className="text-red-600">
+                            Until {new Date(l.lockedUntil).toLocaleTimeString()}
+                          </span>
+                          <button
+                            onClick={() => handleRelease(l.id)}
+                            className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                          >
+                            Release
+                          </button>
+                        </div>
+                      ) : l.releasedAt ? (
+                        <span className="text-gray-400">Released by {l.releasedByEmail ?? 'admin'}</span>
+                      ) : (
+                        <span className="text-gray-400">Expired</span>
+                      )}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
         </div>
       )}
     </div>
   );
 }
 
-// ===================== SERVICES PANEL =====================
+// ===================== SSO PANEL =====================
 
-function ServicesPanel() {
-  const [services, setServices] = useState<AdminService[]>([]);
+const emptyConnection = { name: '', slug: '', issuer: '', clientId: '', clientSecret: '', domains: '' };
+
+function parseDomains(value: string) {
+  return value.split(/[\s,]+/).map((d) => d.trim().toLowerCase()).filter(Boolean);
+}
+
+function SsoPanel() {
+  const [connections, setConnections] = useState<SsoConnection[]>([]);
+  const [rules, setRules] = useState<SsoDomainRule[]>([]);
+  const [allServices, setAllServices] = useState<AdminService[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState('');
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(emptyConnection);
+  const [ruleDomain, setRuleDomain] = useState('');
+  const [ruleServiceId, setRuleServiceId] = useState('');
+  const [pendingDelete, setPendingDelete] = useState<SsoConnection | null>(null);
 
-  useEffect(() => {
-    getServices()
-      .then((res) => setServices(res.services))
-      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load'))
-      .finally(() => setIsLoading(false));
+  const load = useCallback(async () => {
+    try {
+      const [connectionsRes, rulesRes, servicesRes] = await Promise.all([
+        getSsoConnections(),
+        getSsoDomainRules(),
+        getServices(),
+      ]);
+      setConnections(connectionsRes.connections);
+      setRules(rulesRes.rules);
+      setAllServices(servicesRes.services);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    } finally {
+      setIsLoading(false);
+    }
   }, []);
 
-  if (isLoading) return <div className="py-8 text-center text-gray-400">Loading services...</div>;
-  if (error) return <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>;
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+      return false;
+    }
+  };
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    const ok = await run(() => createSsoConnection({ ...form, domains: parseDomains(form.domains) }));
+    if (ok) {
+      setForm(emptyConnection);
+      setShowForm(false);
+    }
+  };
+
+  const handleAddRule = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!ruleServiceId) return;
+    const ok = await run(() => createSsoDomainRule(ruleDomain, ruleServiceId));
+    if (ok) setRuleDomain('');
+  };
+
+  if (isLoading) return <div className="py-8 text-center text-gray-400">Loading SSO settings...</div>;
+
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
 
   return (
-    <div className="space-y-4">
-      <h3 className="text-lg font-semibold text-gray-900">Registered Services ({services.length})</h3>
-      {services.length === 0 ? (
-        <p className="text-sm text-gray-400">No services registered. Run the bootstrap script to seed services.</p>
-      ) : (
-        <div className="grid gap-4 sm:grid-cols-2">
-          {services.map((s) => (
-            <div
-              key={s.id}
-              className="rounded-xl border border-gray-200 bg-white p-5"
+    <div className="space-y-8">
+      <ConfirmDialog
+        isOpen={pendingDelete !== null}
+        title="Delete SSO connection"
+        message={`Delete ${pendingDelete?.name}? Users linked through it will need another way to sign in.`}
+        confirmLabel="Delete"
+        danger
+        onConfirm={async () => {
+          const connection = pendingDelete;
+          setPendingDelete(null);
+          if (connection) await run(() => deleteSsoConnection(connection.id));
+        }}
+        onCancel={() => setPendingDelete(null)}
+      />
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+      {/* Connections */}
+      <div className="space-y-3">
+        <div className="flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">Identity Providers</h3>
+            <p className="text-sm text-gray-500">OpenID Connect connections, matched to users by email domain.</p>
+          </div>
+          {!showForm && (
+            <button
+              onClick={() => setShowForm(true)}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
             >
-              <div className="flex items-start justify-between">
-                <div>
+              Add Connection
+            </button>
+          )}
+        </div>
+
+        {showForm && (
+          <form onSubmit={handleCreate} className="grid gap-3 rounded-xl border border-gray-200 bg-white p-5 sm:grid-cols-2">
+            <input placeholder="Name (e.g. Acme Okta)" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} required className={inputClass} />
+            <input placeholder="Slug (e.g. acme)" value={form.slug} onChange={(e) => setForm({ ...form, slug: e.target.value })} required className={inputClass} />
+            <input placeholder="Issuer URL" type="url" value={form.issuer} onChange={(e) => setForm({ ...form, issuer: e.target.value })} required className={`${inputClass} sm:col-span-2`} />
+            <input placeholder="Client ID" value={form.clientId} onChange={(e) => setForm({ ...form, clientId: e.target.value })} required className={inputClass} />
+            <input placeholder="Client secret" type="password" value={form.clientSecret} onChange={(e) => setForm({ ...form, clientSecret: e.target.value })} required className={inputClass} />
+            <input placeholder="Email domains (comma-separated)" value={form.domains} onChange={(e) => setForm({ ...form, domains: e.target.value })} className={`${inputClass} sm:col-span-2`} />
+            <div className="flex justify-end gap-3 sm:col-span-2">
+              <button
+                type="button"
+                onClick={() => {
+                  setShowForm(false);
+                  setForm(emptyConnection);
+                }}
+                className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+              <button type="submit" className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+                Create
+              </button>
+            </div>
+          </form>
+        )}
+
+        {connections.length === 0 ? (
+          <p className="text-sm text-gray-400">No identity providers configured. Everyone signs in with a password.</p>
+        ) : (
+          <div className="grid gap-4 sm:grid-cols-2">
+            {connections.map((conn) => (
+              <div key={conn.id} className="rounded-xl border border-gray-200 bg-white p-5">
+                <div className="flex items-start justify-between">
                   <div className="flex items-center gap-2">
-                    <h4 className="font-semibold text-gray-900">{s.name}</h4>
+                    <h4 className="font-semibold text-gray-900">{conn.name}</h4>
                     <span
                       className={`rounded-full px-2 py-0.5 text-xs font-medium ${
-                        s.enabled ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-500'
+                        conn.enabled ? 'bg-green-50 text-green-700' : 'bg-gray-100 text-gray-500'
                       }`}
                     >
-                      {s.enabled ? 'Active' : 'Disabled'}
+                      {conn.enabled ? 'Active' : 'Disabled'}
                     </span>
                   </div>
-                  {s.description && (
-                    <p className="mt-1 text-sm text-gray-500">{s.description}</p>
-                  )}
+                  <div className="flex gap-1">
+                    <button
+                      onClick={() => run(() => updateSsoConnection(conn.id, { enabled: !conn.enabled }))}
+                      className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                    >
+                      {conn.enabled ? 'Disable' : 'Enable'}
+                    </button>
+                    <button
+                      onClick={() => setPendingDelete(conn)}
+                      className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-1.5">
+                  {conn.domains.map((d) => (
+                    <span key={d} className="rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700">{d}</span>
+                  ))}
+                </div>
+                <div className="mt-3 space-y-1 text-xs text-gray-400">
+                  <div className="truncate">Issuer: {conn.issuer}</div>
+                  <div>Client ID: {conn.clientId}</div>
+                  <div className="truncate" title="Register this redirect URI with the identity provider">
+                    Callback: {`${window.location.origin}/api/auth/sso/${conn.slug}/callback`}
+                  </div>
                 </div>
-                <span className="text-2xl">{s.icon || '⚡'}</span>
-              </div>
-              <div className="mt-3 flex items-center gap-4 text-xs text-gray-400">
-                <span>Slug: {s.slug}</span>
-                <span>Route: {s.route}</span>
               </div>
-            </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Domain rules */}
+      <div className="space-y-3">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Automatic Service Access</h3>
+          <p className="text-sm text-gray-500">Services granted to users with a matching email domain the first time they sign in via SSO.</p>
+        </div>
+
+        <form onSubmit={handleAddRule} className="flex gap-2">
+          <input
+            placeholder="Domain (e.g. acme.com)"
+            value={ruleDomain}
+            onChange={(e) => setRuleDomain(e.target.value)}
+            required
+            className={`${inputClass} max-w-xs`}
+          />
+          <select
+            value={ruleServiceId}
+            onChange={(e) => setRuleServiceId(e.target.value)}
+            required
+            className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700"
+          >
+            <option value="">Select service</option>
+            {allServices.map((s) => (
+              <option key={s.id} value={s.id}>{s.name}</option>
+            ))}
+          </select>
+          <button type="submit" className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+            Add Rule
+          </button>
+        </form>
+
+        {rules.length > 0 && (
+          <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100 bg-gray-50">
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Domain</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Service</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Added</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {rules.map((rule) => (
+                  <tr key={rule.id} className="border-b border-gray-50 last:border-0">
+                    <td className="px-4 py-3 font-medium text-gray-900">{rule.domain}</td>
+                    <td className="px-4 py-3 text-gray-600">{rule.serviceName}</td>
+                    <td className="px-4 py-3 text-gray-500">{new Date(rule.createdAt).toLocaleDateString()}</td>
+                    <td className="px-4 py-3 text-right">
+                      <button
+                        onClick={() => run(() => deleteSsoDomainRule(rule.id))}
+                        className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// ===================== AUDIT PANEL =====================
+
+const AUDIT_PAGE_SIZE = 50;
+const emptyAuditFilters = { action: '', actor: '', target: '', from: '', to: '' };
+
+// Date inputs give whole days; make "to" inclusive by querying up to the next midnight
+function toAuditFilters(form: typeof emptyAuditFilters): AuditFilters {
+  const to = form.to ? new Date(`${form.to}T00:00:00`) : null;
+  if (to) to.setDate(to.getDate() + 1);
+  return {
+    action: form.action || undefined,
+    actor: form.actor.trim() || undefined,
+    target: form.target.trim() || undefined,
+    from: form.from ? new Date(`${form.from}T00:00:00`).toISOString() : undefined,
+    to: to ? to.toISOString() : undefined,
+  };
+}
+
+function formatAuditDetails(event: AuditEvent) {
+  if (!event.metadata) return '';
+  return Object.entries(event.metadata)
+    .filter(([, value]) => value !== null && value !== undefined)
+    .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+    .join(', ');
+}
+
+function AuditPanel() {
+  const [form, setForm] = useState(emptyAuditFilters);
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [page, setPage] = useState(1);
+  const [data, setData] = useState<AuditPage | null>(null);
+  const [error, setError] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  useEffect(() => {
+    getAuditEvents(filters, page, AUDIT_PAGE_SIZE)
+      .then(setData)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load'));
+  }, [filters, page]);
+
+  const handleApply = (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setPage(1);
+    setFilters(toAuditFilters(form));
+  };
+
+  const handleReset = () => {
+    setForm(emptyAuditFilters);
+    setPage(1);
+    setFilters({});
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError('');
+    try {
+      const blob = await exportAuditEvents(filters);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+  const actions = data?.actions ?? [];
+  const categories = [...new Set(actions.map((a) => `${a.split('.')[0]}.`))];
+  const firstRow = data && data.total > 0 ? (data.page - 1) * data.pageSize + 1 : 0;
+  const lastRow = data ? Math.min(data.page * data.pageSize, data.total) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Audit Log</h3>
+          <p className="text-sm text-gray-500">Administrative changes and sign-in activity, newest first.</p>
+        </div>
+        <button
+          onClick={handleExport}
+          disabled={isExporting || !data || data.total === 0}
+          className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+        >
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      <form onSubmit={handleApply} className="grid gap-3 rounded-xl border border-gray-200 bg-white p-4 sm:grid-cols-3 lg:grid-cols-6">
+        <select value={form.action} onChange={(e) => setForm({ ...form, action: e.target.value })} className={inputClass}>
+          <option value="">All actions</option>
+          {categories.map((category) => (
+            <option key={category} value={category}>All {category.slice(0, -1)} events</option>
           ))}
+          {actions.map((action) => (
+            <option key={action} value={action}>{action}</option>
+          ))}
+        </select>
+        <input placeholder="Actor email" value={form.actor} onChange={(e) => setForm({ ...form, actor: e.target.value })} className={inputClass} />
+        <input placeholder="Target (email, code, id)" value={form.target} onChange={(e) => setForm({ ...form, target: e.target.value })} className={inputClass} />
+        <input type="date" title="From" value={form.from} onChange={(e) => setForm({ ...form, from: e.target.value })} className={inputClass} />
+        <input type="date" title="To" value={form.to} onChange={(e) => setForm({ ...form, to: e.target.value })} className={inputClass} />
+        <div className="flex gap-2">
+          <button type="submit" className="flex-1 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+            Filter
+          </button>
+          <button
+            type="button"
+            onClick={handleReset}
+            className="rounded-lg border border-gray-200 px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+          >
+            Reset
+          </button>
         </div>
+      </form>
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+      {data === null ? (
+        <div className="py-8 text-center text-gray-400">Loading audit log...</div>
+      ) : data.events.length === 0 ? (
+        <p className="text-sm text-gray-400">No events match these filters.</p>
+      ) : (
+        <>
+          <div className="overflow-x-auto rounded-xl border border-gray-200 bg-white">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-gray-100 bg-gray-50">
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">When</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Action</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Actor</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Target</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">Details</th>
+                  <th className="px-4 py-3 text-left font-medium text-gray-600">IP</th>
+                </tr>
+              </thead>
+              <tbody>
+                {data.events.map((event) => (
+                  <tr key={event.id} className="border-b border-gray-50 align-top last:border-0">
+                    <td className="whitespace-nowrap px-4 py-3 text-gray-500">{new Date(event.createdAt).toLocaleString()}</td>
+                    <td className="px-4 py-3">
+                      <code className="rounded bg-gray-100 px-1.5 py-0.5 text-xs text-gray-700">{event.action}</code>
+                    </td>
+                    <td className="px-4 py-3 text-gray-900">{event.actorEmail ?? <span className="text-gray-400">system</span>}</td>
+                    <td className="px-4 py-3 text-gray-700">
+                      {event.targetLabel ?? event.targetId ?? ''}
+                      {event.targetType && <span className="ml-1.5 text-xs text-gray-400">{event.targetType}</span>}
+                    </td>
+                    <td className="max-w-xs break-words px-4 py-3 text-xs text-gray-500">{formatAuditDetails(event)}</td>
+                    <td className="px-4 py-3 text-xs text-gray-400">{event.ipAddress ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center justify-between text-sm text-gray-500">
+            <span>
+              {firstRow}–{lastRow} of {data.total}
+            </span>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setPage((p) => p - 1)}
+                disabled={page <= 1}
+                className="rounded-lg border border-gray-200 px-3 py-1.5 font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <button
+                onClick={() => setPage((p) => p + 1)}
+                disabled={lastRow >= data.total}
+                className="rounded-lg border border-gray-200 px-3 py-1.5 font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+          </div>
+        </>
       )}
     </div>
   );
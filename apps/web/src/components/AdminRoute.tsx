@@ -17,6 +17,11 @@ export function AdminRoute({ children }: { children: ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
+  // Same as ProtectedRoute: an admin the policy requires 2FA of sets it up first
+  if (user.twoFactorRequired && !user.twoFactorEnabled) {
+    return <Navigate to="/security" replace />;
+  }
+
   if (user.role !== 'admin') {
     return <Navigate to="/" replace />;
   }
@@ -0,0 +1,211 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Link } from 'react-router';
+import { useAuth } from '../hooks/use-auth';
+import { getApiTokens, createApiToken, revokeApiToken, type ApiToken } from '../api/auth-client';
+
+const EXPIRY_OPTIONS = [7, 30, 90, 365];
+
+export function ApiTokensPage() {
+  const { user } = useAuth();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [availableServices, setAvailableServices] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [name, setName] = useState('');
+  const [scopes, setScopes] = useState<string[]>([]);
+  const [expiresInDays, setExpiresInDays] = useState(90);
+  const [newToken, setNewToken] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await getApiTokens();
+      setTokens(res.tokens);
+      setAvailableServices(res.availableServices);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load tokens');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleCreate = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      const res = await createApiToken(name, scopes, expiresInDays);
+      setNewToken(res.token);
+      setName('');
+      setScopes([]);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create token');
+    }
+  };
+
+  const handleRevoke = async (token: ApiToken) => {
+    if (!window.confirm(`Revoke "${token.name}"? Scripts using it will stop working immediately.`)) return;
+    try {
+      await revokeApiToken(token.id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke token');
+    }
+  };
+
+  const handleCopy = () => {
+    if (!newToken) return;
+    navigator.clipboard.writeText(newToken);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const toggleScope = (slug: string) => {
+    setScopes((prev) => (prev.includes(slug) ? prev.filter((s) => s !== slug) : [...prev, slug]));
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <Link to="/" className="text-xl font-bold text-gray-900 hover:text-blue-600">
+            Vogt AI
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link
+              to="/"
+              className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50"
+            >
+              Dashboard
+            </Link>
+            <span className="text-sm text-gray-500">{user?.email}</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-8 px-6 py-8">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">API tokens</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Use a token from scripts and notebooks with{' '}
+            <code className="rounded bg-gray-100 px-1 py-0.5 text-xs">Authorization: Bearer &lt;token&gt;</code>.
+            Tokens only work for the services you pick.
+          </p>
+        </div>
+
+        {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+        {newToken && (
+          <div className="space-y-3 rounded-xl border border-green-200 bg-green-50 p-5">
+            <p className="text-sm text-green-800">
+              Copy your new token now — it won't be shown again.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 break-all rounded bg-white px-3 py-2 font-mono text-sm text-gray-800">
+                {newToken}
+              </code>
+              <button
+                onClick={handleCopy}
+                className="rounded-lg border border-gray-200 bg-white px-3 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+              >
+                {copied ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <button onClick={() => setNewToken(null)} className="text-sm text-green-700 hover:text-green-800">
+              Done
+            </button>
+          </div>
+        )}
+
+        {/* Create */}
+        <form onSubmit={handleCreate} className="space-y-4 rounded-xl border border-gray-200 bg-white p-6">
+          <h3 className="text-base font-semibold text-gray-900">New token</h3>
+          <div className="flex gap-3">
+            <input
+              placeholder="Name (e.g. analysis notebook)"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+              maxLength={100}
+              className="flex-1 rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+            />
+            <select
+              value={expiresInDays}
+              onChange={(e) => setExpiresInDays(Number(e.target.value))}
+              className="rounded-lg border border-gray-300 px-3 py-2 text-sm text-gray-700"
+            >
+              {EXPIRY_OPTIONS.map((days) => (
+                <option key={days} value={days}>
+                  Expires in {days} days
+                </option>
+              ))}
+            </select>
+          </div>
+          {availableServices.length === 0 ? (
+            <p className="text-sm text-gray-400">You don't have access to any services yet.</p>
+          ) : (
+            <div className="flex flex-wrap gap-4">
+              {availableServices.map((slug) => (
+                <label key={slug} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={scopes.includes(slug)} onChange={() => toggleScope(slug)} />
+                  {slug}
+                </label>
+              ))}
+            </div>
+          )}
+          <button
+            type="submit"
+            disabled={scopes.length === 0}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Create token
+          </button>
+        </form>
+
+        {/* List */}
+        {isLoading ? (
+          <div className="py-8 text-center text-gray-400">Loading tokens...</div>
+        ) : tokens.length === 0 ? (
+          <p className="text-sm text-gray-400">No API tokens yet.</p>
+        ) : (
+          <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+            {tokens.map((token) => {
+              const expired = new Date(token.expiresAt) < new Date();
+              return (
+                <div key={token.id} className="flex items-center justify-between border-b border-gray-50 px-4 py-3 last:border-0">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-sm">
+                      <span className="font-medium text-gray-900">{token.name}</span>
+                      <code className="text-xs text-gray-400">{token.tokenPrefix}…</code>
+                      {token.scopes.map((s) => (
+                        <span key={s} className="rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700">{s}</span>
+                      ))}
+                    </div>
+                    <div className="mt-0.5 text-xs text-gray-500">
+                      {expired ? (
+                        <span className="text-red-500">Expired {new Date(token.expiresAt).toLocaleDateString()}</span>
+                      ) : (
+                        <>Expires {new Date(token.expiresAt).toLocaleDateString()}</>
+                      )}
+                      {' · '}
+                      {token.lastUsedAt ? `Last used ${new Date(token.lastUsedAt).toLocaleString()}` : 'Never used'}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => handleRevoke(token)}
+                    className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { AuthContext } from '../hooks/use-auth';
 import {
   getMe,
   login as apiLogin,
+  loginTwoFactor as apiLoginTwoFactor,
   register as apiRegister,
   logout as apiLogout,
   type User,
@@ -12,22 +13,38 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
-  useEffect(() => {
-    getMe()
-      .then((res) => setUser(res.user))
-      .catch(() => setUser(null))
-      .finally(() => setIsLoading(false));
+  const refreshUser = useCallback(async () => {
+    try {
+      const res = await getMe();
+      setUser(res.user);
+    } catch {
+      setUser(null);
+    }
   }, []);
 
+  useEffect(() => {
+    refreshUser().finally(() => setIsLoading(false));
+  }, [refreshUser]);
+
   const login = useCallback(async (email: string, password: string) => {
     const res = await apiLogin(email, password);
-    setUser(res.user);
-  }, []);
+    if ('twoFactorRequired' in res) {
+      return res.challengeToken;
+    }
+    // Fetch /me for the full profile (2FA status etc.)
+    await refreshUser();
+    return null;
+  }, [refreshUser]);
+
+  const verifyTwoFactor = useCallback(async (challengeToken: string, code: string) => {
+    await apiLoginTwoFactor(challengeToken, code);
+    await refreshUser();
+  }, [refreshUser]);
 
   const register = useCallback(async (email: string, password: string, inviteCode: string) => {
-    const res = await apiRegister(email, password, inviteCode);
-    setUser(res.user);
-  }, []);
+    await apiRegister(email, password, inviteCode);
+    await refreshUser();
+  }, [refreshUser]);
 
   const logout = useCallback(async () => {
     await apiLogout();
@@ -35,7 +52,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   }, []);
 
   return (
-    <AuthContext value={{ user, isLoading, login, register, logout }}>
+    <AuthContext value={{ user, isLoading, login, verifyTwoFactor, refreshUser, register, logout }}>
       {children}
     </AuthContext>
   );
@@ -38,6 +38,18 @@ export function DashboardPage() {
             </span>
           </div>
           <div className="flex items-center gap-4">
+            {user?.organizations
+              ?.filter((org) => org.role === 'admin')
+              .map((org) => (
+                <Link
+                  key={org.id}
+                  to={`/orgs/${org.id}`}
+                  className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50"
+                  title="Manage your organization's members and invites"
+                >
+                  {org.name}
+                </Link>
+              ))}
             {user?.role === 'admin' && (
               <Link
                 to="/admin"
@@ -46,7 +58,9 @@ export function DashboardPage() {
                 Admin
               </Link>
             )}
-            <span className="text-sm text-gray-500">{user?.email}</span>
+            <Link to="/security" className="text-sm text-gray-500 hover:text-gray-700" title="Account security">
+              {user?.email}
+            </Link>
             <button
               onClick={handleLogout}
               className="rounded-lg px-3 py-1.5 text-sm font-medium text-gray-500 hover:bg-gray-100"
@@ -107,9 +121,15 @@ export function DashboardPage() {
                     {service.description}
                   </p>
                 )}
-                <div className="mt-4 flex items-center text-sm font-medium text-blue-600 opacity-0 transition-opacity group-hover:opacity-100">
-                  Open →
-                </div>
+                {service.requireTwoFactor && !user?.twoFactorEnabled ? (
+                  <div className="mt-4 text-sm font-medium text-amber-600">
+                    Requires two-factor authentication
+                  </div>
+                ) : (
+                  <div className="mt-4 flex items-center text-sm font-medium text-blue-600 opacity-0 transition-opacity group-hover:opacity-100">
+                    Open →
+                  </div>
+                )}
               </Link>
             ))}
           </div>
@@ -0,0 +1,84 @@
+import { useState, type FormEvent } from 'react';
+import { Link } from 'react-router';
+import { forgotPassword } from '../api/auth-client';
+
+export function ForgotPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSent, setIsSent] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await forgotPassword(email);
+      setIsSent(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-gray-50">
+      <div className="w-full max-w-sm rounded-xl border border-gray-200 bg-white p-8 shadow-sm">
+        <h1 className="mb-6 text-center text-xl font-semibold text-gray-900">
+          Reset your password
+        </h1>
+
+        {error && (
+          <div className="mb-4 rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">
+            {error}
+          </div>
+        )}
+
+        {isSent ? (
+          <div className="rounded-lg bg-green-50 px-4 py-3 text-sm text-green-700">
+            If an account exists for <span className="font-medium">{email}</span>, we've sent a
+            link to reset your password. The link expires in one hour.
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Enter your account email and we'll send you a link to choose a new password.
+            </p>
+
+            <div>
+              <label htmlFor="email" className="mb-1 block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                autoFocus
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Sending...' : 'Send reset link'}
+            </button>
+          </form>
+        )}
+
+        <p className="mt-4 text-center text-sm text-gray-500">
+          Remembered it?{' '}
+          <Link to="/login" className="text-blue-600 hover:text-blue-700">
+            Sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import { useState } from 'react';
+import { useAuth } from '../hooks/use-auth';
+import { stopImpersonation } from '../api/auth-client';
+
+// Shown on every page while an admin is viewing the app as another user
+export function ImpersonationBanner() {
+  const { user } = useAuth();
+  const [isReturning, setIsReturning] = useState(false);
+  const [error, setError] = useState('');
+
+  if (!user?.impersonator) return null;
+
+  const handleReturn = async () => {
+    setIsReturning(true);
+    setError('');
+    try {
+      await stopImpersonation();
+      // Full reload so nothing cached from the user's view survives
+      window.location.href = '/app/admin';
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to return to your account');
+      setIsReturning(false);
+    }
+  };
+
+  return (
+    <div className="sticky top-0 z-40 flex items-center justify-center gap-4 bg-amber-500 px-4 py-2 text-sm text-white">
+      <span>
+        Viewing as <span className="font-semibold">{user.email}</span> — signed in as {user.impersonator.email}
+      </span>
+      {error && <span className="text-amber-100">{error}</span>}
+      <button
+        onClick={handleReturn}
+        disabled={isReturning}
+        className="rounded-lg bg-white px-3 py-1 text-xs font-medium text-amber-700 hover:bg-amber-50 disabled:opacity-50"
+      >
+        {isReturning ? 'Returning...' : 'Return to my account'}
+      </button>
+    </div>
+  );
+}
@@ -1,22 +1,46 @@
-import { useState, type FormEvent } from 'react';
-import { Link, useNavigate } from 'react-router';
+import { useState, useEffect, type FormEvent } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router';
 import { useAuth } from '../hooks/use-auth';
+import { discoverSso, ssoStartUrl } from '../api/auth-client';
+
+// After SSO the API redirects back with either ?sso_error=... or #challenge=... (2FA still needed)
+function readSsoRedirect(search: string, hash: string) {
+  const error = new URLSearchParams(search).get('sso_error');
+  const challenge = new URLSearchParams(hash.replace(/^#/, '')).get('challenge');
+  return { error, challenge };
+}
 
 export function LoginPage() {
-  const { login } = useAuth();
+  const { login, verifyTwoFactor } = useAuth();
   const navigate = useNavigate();
+  const location = useLocation();
+  const passwordReset = (location.state as { passwordReset?: boolean } | null)?.passwordReset;
+  const [ssoRedirect] = useState(() => readSsoRedirect(location.search, location.hash));
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const [error, setError] = useState('');
+  const [challengeToken, setChallengeToken] = useState<string | null>(ssoRedirect.challenge);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState(ssoRedirect.error ?? '');
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // Don't leave the challenge token or error sitting in the address bar
+  useEffect(() => {
+    if (ssoRedirect.error || ssoRedirect.challenge) {
+      navigate('/login', { replace: true });
+    }
+  }, [ssoRedirect, navigate]);
+
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setError('');
     setIsSubmitting(true);
 
     try {
-      await login(email, password);
+      const challenge = await login(email, password);
+      if (challenge) {
+        setChallengeToken(challenge);
+        return;
+      }
       navigate('/', { replace: true });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Login failed');
@@ -25,6 +49,44 @@ export function LoginPage() {
     }
   };
 
+  const handleSso = async () => {
+    setError('');
+    if (!email) {
+      setError('Enter your work email to sign in with SSO');
+      return;
+    }
+    setIsSubmitting(true);
+
+    try {
+      const { connection } = await discoverSso(email);
+      window.location.href = ssoStartUrl(connection.slug);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Single sign-on is unavailable');
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!challengeToken) return;
+    setError('');
+    setIsSubmitting(true);
+
+    try {
+      await verifyTwoFactor(challengeToken, code);
+      navigate('/', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+      // The challenge expires after a few minutes — start over from the password step
+      if (err instanceof Error && err.message.includes('sign in again')) {
+        setChallengeToken(null);
+        setCode('');
+      }
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   return (
     <div className="flex h-screen items-center justify-center bg-gray-50">
       <div className="w-full max-w-sm rounded-xl border border-gray-200 bg-white p-8 shadow-sm">
@@ -32,50 +94,121 @@ export function LoginPage() {
           Sign in to vogt-ai
         </h1>
 
+        {passwordReset && !error && (
+          <div className="mb-4 rounded-lg bg-green-50 px-4 py-3 text-sm text-green-700">
+            Your password has been reset. Sign in with your new password.
+          </div>
+        )}
+
         {error && (
           <div className="mb-4 rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">
             {error}
           </div>
         )}
 
-        <form onSubmit={handleSubmit} className="space-y-4">
-          <div>
-            <label htmlFor="email" className="mb-1 block text-sm font-medium text-gray-700">
-              Email
-            </label>
-            <input
-              id="email"
-              type="email"
-              value={email}
-              onChange={(e) => setEmail(e.target.value)}
-              required
-              autoFocus
-              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
-            />
-          </div>
+        {challengeToken ? (
+          <form onSubmit={handleVerify} className="space-y-4">
+            <p className="text-sm text-gray-500">
+              Enter the 6-digit code from your authenticator app, or one of your recovery codes.
+            </p>
 
-          <div>
-            <label htmlFor="password" className="mb-1 block text-sm font-medium text-gray-700">
-              Password
-            </label>
-            <input
-              id="password"
-              type="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              required
-              className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
-            />
-          </div>
+            <div>
+              <label htmlFor="code" className="mb-1 block text-sm font-medium text-gray-700">
+                Authentication code
+              </label>
+              <input
+                id="code"
+                type="text"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                required
+                autoFocus
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm font-mono tracking-widest focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Verifying...' : 'Verify'}
+            </button>
+
+            <button
+              type="button"
+              onClick={() => {
+                setChallengeToken(null);
+                setCode('');
+                setError('');
+              }}
+              className="w-full text-center text-sm text-gray-500 hover:text-gray-700"
+            >
+              Back
+            </button>
+          </form>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div>
+              <label htmlFor="email" className="mb-1 block text-sm font-medium text-gray-700">
+                Email
+              </label>
+              <input
+                id="email"
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                required
+                autoFocus
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              />
+            </div>
 
-          <button
-            type="submit"
-            disabled={isSubmitting}
-            className="w-full rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
-          >
-            {isSubmitting ? 'Signing in...' : 'Sign in'}
-          </button>
-        </form>
+            <div>
+              <div className="mb-1 flex items-center justify-between">
+                <label htmlFor="password" className="block text-sm font-medium text-gray-700">
+                  Password
+                </label>
+                <Link to="/forgot-password" className="text-xs text-blue-600 hover:text-blue-700">
+                  Forgot password?
+                </Link>
+              </div>
+              <input
+                id="password"
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                required
+                className="w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none"
+              />
+            </div>
+
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="w-full rounded-lg bg-blue-600 px-4 py-2.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Signing in...' : 'Sign in'}
+            </button>
+
+            <div className="flex items-center gap-3 text-xs text-gray-400">
+              <div className="h-px flex-1 bg-gray-200" />
+              or
+              <div className="h-px flex-1 bg-gray-200" />
+            </div>
+
+            <button
+              type="button"
+              onClick={handleSso}
+              disabled={isSubmitting}
+              className="w-full rounded-lg border border-gray-300 px-4 py-2.5 text-sm font-medium text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              Sign in with SSO
+            </button>
+          </form>
+        )}
 
         <p className="mt-4 text-center text-sm text-gray-500">
           Don't have an account?{' '}
@@ -0,0 +1,250 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Link, useParams } from 'react-router';
+import { useAuth } from '../hooks/use-auth';
+import type { Organization } from '../api/admin-client';
+import {
+  getOrganization,
+  setMemberRole,
+  removeMember,
+  getOrgInviteCodes,
+  createOrgInviteCode,
+  revokeOrgInviteCode,
+  type OrgInviteCode,
+} from '../api/org-client';
+
+const emptyInvite = { email: '', note: '', maxUses: 1, expiresInDays: 30 };
+
+export function OrganizationPage() {
+  const { orgId } = useParams<{ orgId: string }>();
+  const { user } = useAuth();
+  const [organization, setOrganization] = useState<Organization | null>(null);
+  const [codes, setCodes] = useState<OrgInviteCode[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [form, setForm] = useState(emptyInvite);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    if (!orgId) return;
+    try {
+      const [orgRes, codesRes] = await Promise.all([getOrganization(orgId), getOrgInviteCodes(orgId)]);
+      setOrganization(orgRes.organization);
+      setCodes(codesRes.inviteCodes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load organization');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [orgId]);
+
+  useEffect(() => { load(); }, [load]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+      return false;
+    }
+  };
+
+  const handleInvite = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!orgId) return;
+    const email = form.email.trim();
+    const ok = await run(() =>
+      createOrgInviteCode(orgId, {
+        email: email || undefined,
+        note: form.note.trim() || undefined,
+        // Email-bound codes are single-use
+        maxUses: email ? 1 : form.maxUses,
+        expiresInDays: form.expiresInDays,
+      }),
+    );
+    if (ok) setForm(emptyInvite);
+  };
+
+  const handleCopy = (code: string, id: string) => {
+    navigator.clipboard.writeText(code);
+    setCopiedId(id);
+    setTimeout(() => setCopiedId(null), 2000);
+  };
+
+  const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+  const availableCodes = codes.filter((c) => c.useCount < c.maxUses);
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <Link to="/" className="text-xl font-bold text-gray-900 hover:text-blue-600">
+            Vogt AI
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link
+              to="/"
+              className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50"
+            >
+              Dashboard
+            </Link>
+            <span className="text-sm text-gray-500">{user?.email}</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-8 px-6 py-8">
+        {isLoading && <div className="py-8 text-center text-gray-400">Loading organization...</div>}
+
+        {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+        {organization && orgId && (
+          <>
+            <div>
+              <h2 className="text-2xl font-semibold text-gray-900">{organization.name}</h2>
+              <div className="mt-2 flex flex-wrap items-center gap-1.5 text-sm text-gray-500">
+                Members get:
+                {organization.services.length === 0 ? (
+                  <span className="text-gray-400">no services yet — ask a platform admin</span>
+                ) : (
+                  organization.services.map((s) => (
+                    <span key={s.id} className="rounded-full bg-blue-50 px-2 py-0.5 text-xs text-blue-700">
+                      {s.name}
+                      <span className="ml-1 opacity-75">{s.role}</span>
+                    </span>
+                  ))
+                )}
+              </div>
+            </div>
+
+            {/* Members */}
+            <div className="space-y-3">
+              <h3 className="text-base font-semibold text-gray-900">Members ({organization.members.length})</h3>
+              <div className="overflow-hidden rounded-xl border border-gray-200 bg-white">
+                {organization.members.map((member) => {
+                  const isSelf = member.userId === user?.id;
+                  return (
+                    <div key={member.userId} className="flex items-center justify-between border-b border-gray-50 px-4 py-3 last:border-0">
+                      <div className="text-sm">
+                        <span className="font-medium text-gray-900">{member.email}</span>
+                        {isSelf && <span className="ml-2 text-xs text-gray-400">(you)</span>}
+                        {member.role === 'admin' && (
+                          <span className="ml-2 rounded-full bg-amber-50 px-2 py-0.5 text-xs font-medium text-amber-700">org admin</span>
+                        )}
+                        <div className="text-xs text-gray-400">Joined {new Date(member.joinedAt).toLocaleDateString()}</div>
+                      </div>
+                      {!isSelf && (
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => run(() => setMemberRole(orgId, member.userId, member.role === 'admin' ? 'member' : 'admin'))}
+                            className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+                          >
+                            {member.role === 'admin' ? 'Make member' : 'Make org admin'}
+                          </button>
+                          <button
+                            onClick={() => {
+                              if (!window.confirm(`Remove ${member.email} from ${organization.name}? They lose the organization's services.`)) return;
+                              run(() => removeMember(orgId, member.userId));
+                            }}
+                            className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+                          >
+                            Remove
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            {/* Invite codes */}
+            <div className="space-y-3">
+              <h3 className="text-base font-semibold text-gray-900">Invite people</h3>
+              <form onSubmit={handleInvite} className="grid gap-3 rounded-xl border border-gray-200 bg-white p-5 sm:grid-cols-2">
+                <input
+                  placeholder="Note (who is this for?)"
+                  value={form.note}
+                  onChange={(e) => setForm({ ...form, note: e.target.value })}
+                  maxLength={500}
+                  className={`${inputClass} sm:col-span-2`}
+                />
+                <input
+                  type="email"
+                  placeholder="Restrict to email (optional)"
+                  value={form.email}
+                  onChange={(e) => setForm({ ...form, email: e.target.value })}
+                  className={`${inputClass} sm:col-span-2`}
+                />
+                <label className="text-sm text-gray-600">
+                  Uses
+                  <input
+                    type="number"
+                    min={1}
+                    max={1000}
+                    value={form.email.trim() ? 1 : form.maxUses}
+                    disabled={!!form.email.trim()}
+                    onChange={(e) => setForm({ ...form, maxUses: Number(e.target.value) || 1 })}
+                    className={`${inputClass} mt-1 disabled:bg-gray-50 disabled:text-gray-400`}
+                  />
+                </label>
+                <label className="text-sm text-gray-600">
+                  Expires in (days)
+                  <input
+                    type="number"
+                    min={1}
+                    max={365}
+                    value={form.expiresInDays}
+                    onChange={(e) => setForm({ ...form, expiresInDays: Number(e.target.value) || 30 })}
+                    className={`${inputClass} mt-1`}
+                  />
+                </label>
+                <div className="flex justify-end sm:col-span-2">
+                  <button type="submit" className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700">
+                    Generate Code
+                  </button>
+                </div>
+              </form>
+
+              {availableCodes.length === 0 ? (
+                <p className="text-sm text-gray-400">No open invite codes.</p>
+              ) : (
+                <div className="space-y-2">
+                  {availableCodes.map((code) => (
+                    <div key={code.id} className="flex items-center justify-between rounded-lg border border-gray-200 bg-white px-4 py-3">
+                      <div className="flex items-center gap-3">
+                        <code className="rounded bg-gray-100 px-2 py-1 font-mono text-sm font-bold text-gray-800">{code.code}</code>
+                        <button onClick={() => handleCopy(code.code, code.id)} className="text-xs text-blue-600 hover:text-blue-700">
+                          {copiedId === code.id ? 'Copied!' : 'Copy'}
+                        </button>
+                        {code.note && <span className="text-sm text-gray-700">{code.note}</span>}
+                        {code.email && <span className="text-xs text-gray-500">For {code.email}</span>}
+                      </div>
+                      <div className="flex items-center gap-4">
+                        {code.maxUses > 1 && (
+                          <span className="text-xs text-gray-500">{code.useCount}/{code.maxUses} used</span>
+                        )}
+                        {code.expiresAt && (
+                          <span className="text-xs text-gray-400">Expires {new Date(code.expiresAt).toLocaleDateString()}</span>
+                        )}
+                        <button
+                          onClick={() => run(() => revokeOrgInviteCode(orgId, code.id))}
+                          className="text-xs text-red-500 hover:text-red-600"
+                        >
+                          Revoke
+                        </button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
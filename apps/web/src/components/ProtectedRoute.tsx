@@ -1,8 +1,9 @@
-import { Navigate } from 'react-router';
+import { Navigate, useLocation } from 'react-router';
 import { useAuth } from '../hooks/use-auth';
 
 export function ProtectedRoute({ children }: { children: React.ReactNode }) {
   const { user, isLoading } = useAuth();
+  const location = useLocation();
 
   if (isLoading) {
     return (
@@ -16,5 +17,10 @@ export function ProtectedRoute({ children }: { children: React.ReactNode }) {
     return <Navigate to="/login" replace />;
   }
 
+  // Role policy requires 2FA — nothing else is usable until it's set up
+  if (user.twoFactorRequired && !user.twoFactorEnabled && location.pathname !== '/security') {
+    return <Navigate to="/security" replace />;
+  }
+
   return children;
 }
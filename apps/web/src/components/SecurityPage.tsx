@@ -0,0 +1,351 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { Link } from 'react-router';
+import { useAuth } from '../hooks/use-auth';
+import {
+  getTwoFactorStatus,
+  setupTwoFactor,
+  enableTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+  type TwoFactorStatus,
+  type TwoFactorSetup,
+} from '../api/auth-client';
+
+const inputClass =
+  'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+// --- Recovery codes ---
+
+function RecoveryCodes({ codes, onDone }: { codes: string[]; onDone: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(codes.join('\n'));
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="rounded-lg bg-amber-50 px-4 py-3 text-sm text-amber-800">
+        Save these recovery codes somewhere safe. Each one can be used once to sign in if you lose
+        access to your authenticator app. They won't be shown again.
+      </div>
+      <div className="grid grid-cols-2 gap-2 rounded-lg border border-gray-200 bg-gray-50 p-4 font-mono text-sm text-gray-800">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-3">
+        <button
+          onClick={handleCopy}
+          className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+        >
+          {copied ? 'Copied!' : 'Copy codes'}
+        </button>
+        <button
+          onClick={onDone}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          I've saved them
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// --- Enrollment ---
+
+function EnrollTwoFactor({ onEnabled }: { onEnabled: (recoveryCodes: string[]) => void }) {
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [code, setCode] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleStart = async () => {
+    setError('');
+    try {
+      setSetup(await setupTwoFactor());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start setup');
+    }
+  };
+
+  const handleVerify = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      const res = await enableTwoFactor(code);
+      onEnabled(res.recoveryCodes);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Verification failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (!setup) {
+    return (
+      <div className="space-y-3">
+        {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+        <button
+          onClick={handleStart}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+        >
+          Set up two-factor authentication
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">
+        Scan this QR code with an authenticator app (1Password, Google Authenticator, Authy...), then
+        enter the 6-digit code it shows.
+      </p>
+      <div className="flex items-start gap-6">
+        <img src={setup.qrCode} alt="Two-factor QR code" className="h-40 w-40 rounded border border-gray-200" />
+        <div className="min-w-0 text-xs text-gray-500">
+          <div className="font-medium text-gray-700">Can't scan it?</div>
+          <div className="mt-1">Enter this key manually:</div>
+          <code className="mt-1 block break-all rounded bg-gray-100 px-2 py-1 font-mono text-sm text-gray-800">
+            {setup.secret}
+          </code>
+        </div>
+      </div>
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+      <form onSubmit={handleVerify} className="flex gap-2">
+        <input
+          type="text"
+          inputMode="numeric"
+          autoComplete="one-time-code"
+          placeholder="123456"
+          value={code}
+          onChange={(e) => setCode(e.target.value)}
+          required
+          autoFocus
+          className={`${inputClass} max-w-40 font-mono tracking-widest`}
+        />
+        <button
+          type="submit"
+          disabled={isSubmitting}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSubmitting ? 'Verifying...' : 'Verify and enable'}
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// --- Manage (already enabled) ---
+
+function ManageTwoFactor({
+  status,
+  onRecoveryCodes,
+  onDisabled,
+}: {
+  status: TwoFactorStatus;
+  onRecoveryCodes: (codes: string[]) => void;
+  onDisabled: () => void;
+}) {
+  const [action, setAction] = useState<'regenerate' | 'disable' | null>(null);
+  const [code, setCode] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setIsSubmitting(true);
+    try {
+      if (action === 'regenerate') {
+        const res = await regenerateRecoveryCodes(code);
+        onRecoveryCodes(res.recoveryCodes);
+      } else if (action === 'disable') {
+        await disableTwoFactor(password, code);
+        onDisabled();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="rounded-full bg-green-50 px-2.5 py-0.5 text-xs font-medium text-green-700">Enabled</span>
+        {status.enabledAt && (
+          <span className="text-gray-500">since {new Date(status.enabledAt).toLocaleDateString()}</span>
+        )}
+        <span className="text-gray-400">·</span>
+        <span className={status.recoveryCodesRemaining <= 2 ? 'text-amber-600' : 'text-gray-500'}>
+          {status.recoveryCodesRemaining} recovery codes left
+        </span>
+      </div>
+
+      {action === null ? (
+        <div className="flex gap-3">
+          <button
+            onClick={() => setAction('regenerate')}
+            className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50"
+          >
+            New recovery codes
+          </button>
+          {!status.required && (
+            <button
+              onClick={() => setAction('disable')}
+              className="rounded-lg border border-red-200 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50"
+            >
+              Disable
+            </button>
+          )}
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="max-w-sm space-y-3">
+          {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+          {action === 'disable' && (
+            <input
+              type="password"
+              placeholder="Current password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              required
+              className={inputClass}
+            />
+          )}
+          <input
+            type="text"
+            placeholder={action === 'disable' ? 'Authentication or recovery code' : 'Authentication code'}
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            required
+            autoFocus
+            className={`${inputClass} font-mono`}
+          />
+          <div className="flex gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                setAction(null);
+                setCode('');
+                setPassword('');
+                setError('');
+              }}
+              className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className={`rounded-lg px-4 py-2 text-sm font-medium text-white disabled:opacity-50 ${
+                action === 'disable' ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {action === 'disable' ? 'Disable 2FA' : 'Generate codes'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
+
+// --- Page ---
+
+export function SecurityPage() {
+  const { user, refreshUser } = useAuth();
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      setStatus(await getTwoFactorStatus());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load');
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleChanged = async () => {
+    setRecoveryCodes(null);
+    await Promise.all([load(), refreshUser()]);
+  };
+
+  const mustEnroll = user?.twoFactorRequired && !user.twoFactorEnabled;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <Link to="/" className="text-xl font-bold text-gray-900 hover:text-blue-600">
+            Vogt AI
+          </Link>
+          <div className="flex items-center gap-4">
+            {!mustEnroll && (
+              <Link
+                to="/"
+                className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50"
+              >
+                Dashboard
+              </Link>
+            )}
+            <span className="text-sm text-gray-500">{user?.email}</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl space-y-8 px-6 py-8">
+        <div>
+          <h2 className="text-2xl font-semibold text-gray-900">Security</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            Protect your account with a second factor.{' '}
+            <Link to="/sessions" className="text-blue-600 hover:text-blue-700">
+              Manage active sessions
+            </Link>
+            {' · '}
+            <Link to="/api-tokens" className="text-blue-600 hover:text-blue-700">
+              API tokens
+            </Link>
+          </p>
+        </div>
+
+        {mustEnroll && (
+          <div className="rounded-lg bg-amber-50 px-4 py-3 text-sm text-amber-800">
+            Your administrator requires two-factor authentication. Set it up to continue using vogt-ai.
+          </div>
+        )}
+
+        {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+        <section className="rounded-xl border border-gray-200 bg-white p-6">
+          <h3 className="text-base font-semibold text-gray-900">Two-factor authentication</h3>
+          <p className="mt-1 mb-4 text-sm text-gray-500">
+            After your password, you'll be asked for a code from your authenticator app.
+          </p>
+
+          {recoveryCodes ? (
+            <RecoveryCodes codes={recoveryCodes} onDone={handleChanged} />
+          ) : !status ? (
+            <div className="text-sm text-gray-400">Loading...</div>
+          ) : status.enabled ? (
+            <ManageTwoFactor status={status} onRecoveryCodes={setRecoveryCodes} onDisabled={handleChanged} />
+          ) : (
+            <EnrollTwoFactor onEnabled={setRecoveryCodes} />
+          )}
+        </section>
+      </main>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { Navigate } from 'react-router';
 import { useAuth } from '../hooks/use-auth';
-import { getMyServices } from '../api/services-client';
+import { ServiceAccessContext } from '../hooks/use-service-access';
+import { getMyServices, type Service } from '../api/services-client';
 import type { ReactNode } from 'react';
 
 interface ServiceRouteProps {
@@ -11,25 +12,29 @@ interface ServiceRouteProps {
 
 export function ServiceRoute({ slug, children }: ServiceRouteProps) {
   const { user, isLoading: authLoading } = useAuth();
-  const [hasAccess, setHasAccess] = useState<boolean | null>(null);
+  const [access, setAccess] = useState<'granted' | 'denied' | 'two-factor' | null>(null);
+  const [service, setService] = useState<Service | null>(null);
 
   useEffect(() => {
     if (!user) return;
 
-    // Admins always have access
-    if (user.role === 'admin') {
-      setHasAccess(true);
-      return;
-    }
-
+    // Admins get every enabled service back, so the 2FA check below covers them too
     getMyServices()
       .then(({ services }) => {
-        setHasAccess(services.some((s) => s.slug === slug));
+        const service = services.find((s) => s.slug === slug);
+        if (!service) {
+          setAccess('denied');
+        } else if (service.requireTwoFactor && !user.twoFactorEnabled) {
+          setAccess('two-factor');
+        } else {
+          setService(service);
+          setAccess('granted');
+        }
       })
-      .catch(() => setHasAccess(false));
+      .catch(() => setAccess('denied'));
   }, [user, slug]);
 
-  if (authLoading || (user && hasAccess === null)) {
+  if (authLoading || (user && access === null)) {
     return (
       <div className="flex h-screen items-center justify-center">
         <p className="text-gray-400">Loading...</p>
@@ -41,9 +46,14 @@ export function ServiceRoute({ slug, children }: ServiceRouteProps) {
     return <Navigate to="/login" replace />;
   }
 
-  if (!hasAccess) {
+  if (access === 'two-factor') {
+    return <Navigate to="/security" replace />;
+  }
+
+  if (access !== 'granted' || !service) {
     return <Navigate to="/" replace />;
   }
 
-  return <>{children}</>;
+  // Pages read the user's role from this to hide what it doesn't allow
+  return <ServiceAccessContext.Provider value={service}>{children}</ServiceAccessContext.Provider>;
 }
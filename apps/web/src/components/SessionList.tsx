@@ -0,0 +1,77 @@
+import type { ActiveSession } from '../api/auth-client';
+
+// Good-enough "Chrome on macOS" labelling — we only need to tell devices apart
+function describeUserAgent(ua: string | null): string {
+  if (!ua) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(ua) ? 'Edge'
+    : /OPR\//.test(ua) ? 'Opera'
+    : /Firefox\//.test(ua) ? 'Firefox'
+    : /Chrome\//.test(ua) ? 'Chrome'
+    : /Safari\//.test(ua) ? 'Safari'
+    : null;
+
+  const os =
+    /iPhone|iPad/.test(ua) ? 'iOS'
+    : /Android/.test(ua) ? 'Android'
+    : /Mac OS X/.test(ua) ? 'macOS'
+    : /Windows/.test(ua) ? 'Windows'
+    : /Linux/.test(ua) ? 'Linux'
+    : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser || os || ua.slice(0, 60);
+}
+
+function formatDateTime(iso: string): string {
+  return new Date(iso).toLocaleString('en-US', {
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+type SessionListProps = {
+  sessions: ActiveSession[];
+  onRevoke: (session: ActiveSession) => void;
+};
+
+export function SessionList({ sessions, onRevoke }: SessionListProps) {
+  if (sessions.length === 0) {
+    return <p className="text-sm text-gray-400">No active sessions.</p>;
+  }
+
+  return (
+    <div className="divide-y divide-gray-100 overflow-hidden rounded-xl border border-gray-200 bg-white">
+      {sessions.map((s) => (
+        <div key={s.id} className="flex items-center justify-between px-4 py-3">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="text-sm font-medium text-gray-900" title={s.userAgent ?? undefined}>
+                {describeUserAgent(s.userAgent)}
+              </span>
+              {s.current && (
+                <span className="rounded-full bg-green-50 px-2 py-0.5 text-xs font-medium text-green-700">
+                  This device
+                </span>
+              )}
+            </div>
+            <div className="mt-0.5 text-xs text-gray-400">
+              {s.ipAddress ?? 'Unknown IP'} · Last seen {formatDateTime(s.lastSeenAt)} · Signed in{' '}
+              {formatDateTime(s.createdAt)}
+            </div>
+          </div>
+          <button
+            onClick={() => onRevoke(s)}
+            className="ml-4 shrink-0 rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+          >
+            Sign out
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router';
+import { useAuth } from '../hooks/use-auth';
+import { getSessions, revokeSession, revokeAllSessions, type ActiveSession } from '../api/auth-client';
+import { SessionList } from './SessionList';
+
+export function SessionsPage() {
+  const { user, logout } = useAuth();
+  const navigate = useNavigate();
+  const [sessions, setSessions] = useState<ActiveSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await getSessions();
+      setSessions(res.sessions);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load sessions');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => { load(); }, [load]);
+
+  const handleRevoke = async (session: ActiveSession) => {
+    try {
+      await revokeSession(session.id);
+      if (session.current) {
+        await logout();
+        navigate('/login', { replace: true });
+        return;
+      }
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out session');
+    }
+  };
+
+  const handleRevokeAll = async () => {
+    if (!window.confirm('Sign out of every device, including this one?')) return;
+    try {
+      await revokeAllSessions();
+      await logout();
+      navigate('/login', { replace: true });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to sign out');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="border-b border-gray-200 bg-white">
+        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
+          <Link to="/" className="text-xl font-bold text-gray-900 hover:text-blue-600">
+            Vogt AI
+          </Link>
+          <div className="flex items-center gap-4">
+            <Link
+              to="/"
+              className="rounded-lg border border-gray-200 px-3 py-1.5 text-sm font-medium text-gray-600 hover:bg-gray-50"
+            >
+              Dashboard
+            </Link>
+            <span className="text-sm text-gray-500">{user?.email}</span>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-3xl px-6 py-8">
+        <div className="mb-6 flex items-end justify-between">
+          <div>
+            <h2 className="text-2xl font-semibold text-gray-900">Active sessions</h2>
+            <p className="mt-1 text-sm text-gray-500">
+              Devices currently signed in to your account. Sign out any you don't recognise.
+            </p>
+          </div>
+          {sessions.length > 0 && (
+            <button
+              onClick={handleRevokeAll}
+              className="rounded-lg border border-red-200 px-3 py-1.5 text-sm font-medium text-red-600 hover:bg-red-50"
+            >
+              Sign out everywhere
+            </button>
+          )}
+        </div>
+
+        {error && (
+          <div className="mb-4 rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>
+        )}
+
+        {isLoading ? (
+          <div className="py-8 text-center text-gray-400">Loading sessions...</div>
+        ) : (
+          <SessionList sessions={sessions} onRevoke={handleRevoke} />
+        )}
+      </main>
+    </div>
+  );
+}
@@ -4,7 +4,10 @@ import type { User } from '../api/auth-client';
 export type AuthContextValue = {
   user: User | null;
   isLoading: boolean;
-  login: (email: string, password: string) => Promise<void>;
+  /** Resolves to a challenge token when a second factor is needed, otherwise null. */
+  login: (email: string, password: string) => Promise<string | null>;
+  verifyTwoFactor: (challengeToken: string, code: string) => Promise<void>;
+  refreshUser: () => Promise<void>;
   register: (email: string, password: string, inviteCode: string) => Promise<void>;
   logout: () => Promise<void>;
 };
@@ -0,0 +1,14 @@
+import { createContext, useContext } from 'react';
+import type { Service, ServiceScope } from '../api/services-client';
+
+// The service being viewed, with the user's role on it; provided by ServiceRoute
+export const ServiceAccessContext = createContext<Service | null>(null);
+
+export function useServiceAccess() {
+  const service = useContext(ServiceAccessContext);
+  if (!service) throw new Error('useServiceAccess must be used within ServiceRoute');
+  return {
+    role: service.role,
+    can: (scope: ServiceScope) => service.scopes.includes(scope),
+  };
+}
@@ -0,0 +1,16 @@
+import type { ComponentType } from 'react';
+import { rlcManifest } from './rlc/manifest';
+
+/**
+ * The frontend half of a service manifest (the API half lives in
+ * apps/api/src/services/registry.ts). App.tsx mounts `Page` at `path`, wrapped
+ * in ServiceRoute so only users with access to `slug` get in.
+ */
+export type ServiceAppManifest = {
+  slug: string;
+  // Must match the manifest's route on the API side
+  path: string;
+  Page: ComponentType;
+};
+
+export const serviceApps: ServiceAppManifest[] = [rlcManifest];
@@ -0,0 +1,174 @@
+import { useState, useEffect } from 'react';
+import {
+  getDocumentAccessLog,
+  getUserDocumentActivity,
+  type AccessAction,
+  type DocumentAccessReport,
+  type UserActivityReport,
+} from './api';
+
+// Admin-only views over the RLC access log
+
+const ACTION_LABELS: Record<AccessAction, string> = {
+  view: 'Viewed',
+  search: 'Searched',
+  export: 'Exported',
+  chat_search: 'Chat search',
+  chat_get_document: 'Read in chat',
+};
+
+// --- Per-document: who viewed this ---
+
+export function DocumentViewers({ documentId }: { documentId: string }) {
+  const [report, setReport] = useState<DocumentAccessReport | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    setReport(null);
+    setError('');
+    getDocumentAccessLog(documentId)
+      .then(setReport)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load access log'));
+  }, [documentId]);
+
+  if (error) return <div className="text-xs text-red-500">{error}</div>;
+  if (!report) return <div className="text-xs text-gray-400">Loading access log...</div>;
+  if (report.viewers.length === 0) return <div className="text-xs text-gray-400">Nobody has opened this document yet.</div>;
+
+  return (
+    <table className="w-full text-xs">
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-1 pr-3 font-medium">User</th>
+          <th className="py-1 pr-3 font-medium">Opened</th>
+          <th className="py-1 pr-3 font-medium">First</th>
+          <th className="py-1 font-medium">Last</th>
+        </tr>
+      </thead>
+      <tbody>
+        {report.viewers.map((viewer) => (
+          <tr key={`${viewer.userId}-${viewer.userEmail}`} className="border-t border-gray-100">
+            <td className="py-1 pr-3 text-gray-900">{viewer.userEmail}</td>
+            <td className="py-1 pr-3 text-gray-500">{viewer.accessCount}×</td>
+            <td className="py-1 pr-3 text-gray-500">{new Date(viewer.firstAccessAt).toLocaleString()}</td>
+            <td className="py-1 text-gray-500">{new Date(viewer.lastAccessAt).toLocaleString()}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// --- Per-user: activity report ---
+
+function describeFilters(filters: Record<string, unknown> | null) {
+  if (!filters) return '';
+  return Object.entries(filters)
+    .filter(([key]) => key !== 'page')
+    .map(([key, value]) => `${key}: ${String(value)}`)
+    .join(', ');
+}
+
+export function UserDocumentActivityDialog({
+  user,
+  onClose,
+}: {
+  user: { id: string; email: string };
+  onClose: () => void;
+}) {
+  const [report, setReport] = useState<UserActivityReport | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    getUserDocumentActivity(user.id)
+      .then(setReport)
+      .catch((err) => setError(err instanceof Error ? err.message : 'Failed to load activity'));
+  }, [user.id]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/40">
+      <div className="flex max-h-[85vh] w-full max-w-3xl flex-col rounded-xl bg-white p-6 shadow-xl">
+        <div className="flex items-start justify-between">
+          <div>
+            <h3 className="text-base font-semibold text-gray-900">RL Controls activity</h3>
+            <p className="mt-1 text-sm text-gray-500">{user.email}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded p-1 text-gray-400 hover:bg-gray-100 hover:text-gray-600"
+          >
+            ×
+          </button>
+        </div>
+
+        {error && (
+          <div className="mt-4 rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>
+        )}
+
+        {!report && !error && <div className="py-8 text-center text-sm text-gray-400">Loading activity...</div>}
+
+        {report && (
+          <>
+            <div className="mt-4 flex flex-wrap gap-2">
+              {report.totals.length === 0 ? (
+                <span className="text-sm text-gray-400">No document activity recorded.</span>
+              ) : (
+                report.totals.map((t) => (
+                  <span key={t.action} className="rounded-full bg-gray-100 px-2.5 py-0.5 text-xs font-medium text-gray-600">
+                    {ACTION_LABELS[t.action] ?? t.action}: {t.count}
+                    {t.documents > 0 && ` (${t.documents} docs)`}
+                  </span>
+                ))
+              )}
+            </div>
+
+            {report.events.length > 0 && (
+              <div className="mt-4 flex-1 overflow-y-auto rounded-lg border border-gray-200">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0">
+                    <tr className="border-b border-gray-100 bg-gray-50">
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">When</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Action</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-600">Document / query</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.events.map((event) => (
+                      <tr key={event.id} className="border-b border-gray-50 align-top last:border-0">
+                        <td className="whitespace-nowrap px-3 py-2 text-xs text-gray-500">
+                          {new Date(event.createdAt).toLocaleString()}
+                        </td>
+                        <td className="whitespace-nowrap px-3 py-2 text-xs text-gray-700">
+                          {ACTION_LABELS[event.action] ?? event.action}
+                          {event.apiTokenId && <span className="ml-1 text-gray-400">(API token)</span>}
+                          {event.impersonatorEmail && (
+                            <span className="ml-1 text-amber-600">(by {event.impersonatorEmail}, viewing as user)</span>
+                          )}
+                        </td>
+                        <td className="px-3 py-2 text-xs">
+                          {event.documentId ? (
+                            <span className="break-all text-gray-900" title={event.dropboxPath ?? undefined}>
+                              {event.fileName ?? event.documentId}
+                            </span>
+                          ) : (
+                            <>
+                              <span className="font-medium text-gray-900">"{event.query}"</span>
+                              <span className="ml-2 text-gray-400">
+                                {event.resultCount ?? 0} results
+                                {describeFilters(event.filters) && ` · ${describeFilters(event.filters)}`}
+                              </span>
+                            </>
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
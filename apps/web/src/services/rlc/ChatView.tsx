@@ -89,7 +89,7 @@ function ChatMessageBubble({ message }: { message: DisplayMessage }) {
   );
 }
 
-export function ChatView({ stats }: { stats: DocumentStats | null }) {
+export function ChatView({ stats, collectionId }: { stats: DocumentStats | null; collectionId?: string }) {
   const [messages, setMessages] = useState<DisplayMessage[]>([]);
   const [input, setInput] = useState('');
   const [isStreaming, setIsStreaming] = useState(false);
@@ -121,7 +121,7 @@ export function ChatView({ stats }: { stats: DocumentStats | null }) {
     ]);
 
     try {
-      for await (const event of streamChat(apiMessages)) {
+      for await (const event of streamChat(apiMessages, collectionId)) {
         if (event.event === 'text') {
           setMessages((prev) => {
             const last = prev[prev.length - 1];
@@ -0,0 +1,386 @@
+import { useState, useEffect, useCallback, type FormEvent } from 'react';
+import { getAllUsers, getGroups, getOrganizations } from '../../api/admin-client';
+import {
+  createCollection,
+  updateCollection,
+  deleteCollection,
+  getCollectionAccess,
+  grantCollectionAccess,
+  revokeCollectionAccess,
+  type Collection,
+  type CollectionGrant,
+  type CollectionInput,
+  type PrincipalType,
+} from './api';
+
+// Admin-only management of document collections and who can read them
+
+const inputClass = 'w-full rounded-lg border border-gray-300 px-3 py-2 text-sm focus:border-blue-500 focus:outline-none';
+
+const PRINCIPAL_LABELS: Record<PrincipalType, string> = {
+  user: 'User',
+  group: 'Group',
+  organization: 'Organization',
+};
+
+type CollectionForm = {
+  slug: string;
+  name: string;
+  description: string;
+  sourceRoot: string;
+  systemPrompt: string;
+  restricted: boolean;
+};
+
+const emptyCollection: CollectionForm = {
+  slug: '',
+  name: '',
+  description: '',
+  sourceRoot: '',
+  systemPrompt: '',
+  restricted: false,
+};
+
+function toInput(form: CollectionForm): CollectionInput {
+  return {
+    slug: form.slug,
+    name: form.name,
+    description: form.description.trim() || null,
+    sourceRoot: form.sourceRoot.trim(),
+    systemPrompt: form.systemPrompt.trim() || null,
+    restricted: form.restricted,
+  };
+}
+
+function CollectionEditor({
+  initial,
+  isNew,
+  onSave,
+  onCancel,
+}: {
+  initial: CollectionForm;
+  isNew: boolean;
+  onSave: (form: CollectionForm) => Promise<boolean>;
+  onCancel: () => void;
+}) {
+  const [form, setForm] = useState(initial);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    await onSave(form);
+    setIsSaving(false);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="grid gap-3 rounded-xl border border-gray-200 bg-white p-5 sm:grid-cols-2">
+      <input placeholder="Name (e.g. Hitachi Rail collaboration)" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} required className={inputClass} />
+      {isNew ? (
+        <input placeholder="Slug (e.g. hitachi-rail)" value={form.slug} onChange={(e) => setForm({ ...form, slug: e.target.value })} required className={inputClass} />
+      ) : (
+        <div className="flex items-center px-1 text-sm text-gray-400">Slug: {form.slug}</div>
+      )}
+      <input
+        placeholder="Dropbox source folder (e.g. /Client Documents)"
+        value={form.sourceRoot}
+        onChange={(e) => setForm({ ...form, sourceRoot: e.target.value })}
+        required
+        className={`${inputClass} sm:col-span-2`}
+      />
+      <textarea
+        placeholder="Description"
+        value={form.description}
+        onChange={(e) => setForm({ ...form, description: e.target.value })}
+        rows={2}
+        className={`${inputClass} sm:col-span-2`}
+      />
+      <textarea
+        placeholder="Chat system prompt (leave empty to use the service's default prompt)"
+        value={form.systemPrompt}
+        onChange={(e) => setForm({ ...form, systemPrompt: e.target.value })}
+        rows={6}
+        className={`${inputClass} font-mono text-xs sm:col-span-2`}
+      />
+      <label className="flex items-center gap-2 text-sm text-gray-700 sm:col-span-2">
+        <input type="checkbox" checked={form.restricted} onChange={(e) => setForm({ ...form, restricted: e.target.checked })} />
+        Restricted: only users, groups and organizations granted access can read it
+      </label>
+      <div className="flex justify-end gap-3 sm:col-span-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="rounded-lg border border-gray-200 px-4 py-2 text-sm font-medium text-gray-600 hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={isSaving}
+          className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isNew ? 'Create' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+// --- Who can read a restricted collection ---
+
+type PrincipalOption = { id: string; label: string };
+
+function CollectionAccess({ collection }: { collection: Collection }) {
+  const [grants, setGrants] = useState<CollectionGrant[]>([]);
+  const [options, setOptions] = useState<Record<PrincipalType, PrincipalOption[]>>({ user: [], group: [], organization: [] });
+  const [principalType, setPrincipalType] = useState<PrincipalType>('organization');
+  const [principalId, setPrincipalId] = useState('');
+  const [error, setError] = useState('');
+
+  const load = useCallback(async () => {
+    try {
+      const res = await getCollectionAccess(collection.id);
+      setGrants(res.grants);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load access');
+    }
+  }, [collection.id]);
+
+  useEffect(() => { load(); }, [load]);
+
+  useEffect(() => {
+    Promise.all([getAllUsers(), getGroups(), getOrganizations()])
+      .then(([users, groupRes, organizationRes]) =>
+        setOptions({
+          user: users.map((u) => ({ id: u.id, label: u.email })),
+          group: groupRes.groups.map((g) => ({ id: g.id, label: g.name })),
+          organization: organizationRes.organizations.map((o) => ({ id: o.id, label: o.name })),
+        }),
+      )
+      .catch(() => {});
+  }, []);
+
+  const granted = new Set(grants.map((g) => g.principalId));
+  const available = options[principalType].filter((option) => !granted.has(option.id));
+
+  const handleGrant = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!principalId) return;
+    setError('');
+    try {
+      await grantCollectionAccess(collection.id, principalType, principalId);
+      setPrincipalId('');
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to grant access');
+    }
+  };
+
+  const handleRevoke = async (grant: CollectionGrant) => {
+    if (!window.confirm(`Revoke ${grant.label}'s access to ${collection.name}?`)) return;
+    setError('');
+    try {
+      await revokeCollectionAccess(collection.id, grant.id);
+      await load();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to revoke access');
+    }
+  };
+
+  return (
+    <div className="mt-3 space-y-2 border-t border-gray-100 pt-3">
+      {!collection.restricted && (
+        <p className="text-xs text-amber-600">
+          This collection isn't restricted, so everyone with access to RL Controls can read it. Grants apply once it is.
+        </p>
+      )}
+      {error && <div className="rounded-lg bg-red-50 px-3 py-2 text-xs text-red-600">{error}</div>}
+      {grants.length === 0 ? (
+        <p className="text-xs text-gray-400">Not granted to anyone yet.</p>
+      ) : (
+        <ul className="space-y-1">
+          {grants.map((grant) => (
+            <li key={grant.id} className="flex items-center justify-between text-sm">
+              <span>
+                <span className="mr-2 rounded-full bg-gray-100 px-2 py-0.5 text-xs text-gray-600">{PRINCIPAL_LABELS[grant.principalType]}</span>
+                {grant.label}
+              </span>
+              <button onClick={() => handleRevoke(grant)} className="text-xs font-medium text-red-500 hover:text-red-600">
+                Revoke
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <form onSubmit={handleGrant} className="flex gap-2">
+        <select
+          value={principalType}
+          onChange={(e) => {
+            setPrincipalType(e.target.value as PrincipalType);
+            setPrincipalId('');
+          }}
+          className="rounded-lg border border-gray-300 px-2 py-1.5 text-sm"
+        >
+          {(Object.keys(PRINCIPAL_LABELS) as PrincipalType[]).map((type) => (
+            <option key={type} value={type}>{PRINCIPAL_LABELS[type]}</option>
+          ))}
+        </select>
+        <select value={principalId} onChange={(e) => setPrincipalId(e.target.value)} className="flex-1 rounded-lg border border-gray-300 px-2 py-1.5 text-sm">
+          <option value="">Choose…</option>
+          {available.map((option) => (
+            <option key={option.id} value={option.id}>{option.label}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!principalId}
+          className="rounded-lg bg-blue-600 px-3 py-1.5 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+        >
+          Grant
+        </button>
+      </form>
+    </div>
+  );
+}
+
+// --- Collections list ---
+
+function describeRun(collection: Collection) {
+  const run = collection.lastRun;
+  if (!run) return 'Never ingested';
+  const when = new Date(run.startedAt).toLocaleString();
+  if (run.status === 'running') return `Ingestion running since ${when}`;
+  if (run.status === 'failed') return `Last ingestion failed ${when}: ${run.errorMessage ?? 'unknown error'}`;
+  return `Last ingested ${when}: ${run.documentsCompleted ?? 0} extracted, ${run.documentsFailed ?? 0} failed`;
+}
+
+export function CollectionsManager({ collections, onChange }: { collections: Collection[]; onChange: () => void }) {
+  const [isCreating, setIsCreating] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [accessId, setAccessId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError('');
+    try {
+      await action();
+      onChange();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed');
+      return false;
+    }
+  };
+
+  const handleCreate = async (form: CollectionForm) => {
+    const ok = await run(() => createCollection(toInput(form)));
+    if (ok) setIsCreating(false);
+    return ok;
+  };
+
+  const handleUpdate = async (id: string, form: CollectionForm) => {
+    const { slug: _slug, ...changes } = toInput(form);
+    const ok = await run(() => updateCollection(id, changes));
+    if (ok) setEditingId(null);
+    return ok;
+  };
+
+  const handleDelete = (collection: Collection) => {
+    const message =
+      `Delete ${collection.name}? Its ${collection.documentCount.toLocaleString()} indexed documents, ` +
+      'access grants and ingestion history are removed too. This cannot be undone.';
+    if (!window.confirm(message)) return;
+    run(() => deleteCollection(collection.id));
+  };
+
+  return (
+    <div className="mx-auto w-full max-w-5xl space-y-4 px-4 py-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">Document Collections ({collections.length})</h2>
+          <p className="text-sm text-gray-500">
+            Each collection is ingested from its own Dropbox folder with <code>explore.ts &lt;slug&gt;</code> and{' '}
+            <code>ingest.ts --collection &lt;slug&gt;</code>.
+          </p>
+        </div>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+          >
+            Add Collection
+          </button>
+        )}
+      </div>
+
+      {error && <div className="rounded-lg bg-red-50 px-4 py-3 text-sm text-red-600">{error}</div>}
+
+      {isCreating && (
+        <CollectionEditor initial={emptyCollection} isNew onSave={handleCreate} onCancel={() => setIsCreating(false)} />
+      )}
+
+      {collections.map((collection) =>
+        editingId === collection.id ? (
+          <CollectionEditor
+            key={collection.id}
+            initial={{
+              slug: collection.slug,
+              name: collection.name,
+              description: collection.description ?? '',
+              sourceRoot: collection.sourceRoot,
+              systemPrompt: collection.systemPrompt ?? '',
+              restricted: collection.restricted,
+            }}
+            isNew={false}
+            onSave={(form) => handleUpdate(collection.id, form)}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <div key={collection.id} className="rounded-xl border border-gray-200 bg-white p-5">
+            <div className="flex items-center gap-2">
+              <h3 className="font-semibold text-gray-900">{collection.name}</h3>
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                  collection.restricted ? 'bg-amber-50 text-amber-700' : 'bg-green-50 text-green-700'
+                }`}
+              >
+                {collection.restricted ? `Restricted (${collection.grantCount ?? 0} grants)` : 'Everyone with access'}
+              </span>
+              {collection.systemPrompt && (
+                <span className="rounded-full bg-blue-50 px-2 py-0.5 text-xs font-medium text-blue-700">Custom prompt</span>
+              )}
+            </div>
+            {collection.description && <p className="mt-1 text-sm text-gray-500">{collection.description}</p>}
+            <div className="mt-3 flex flex-wrap items-center gap-4 text-xs text-gray-400">
+              <span>Slug: {collection.slug}</span>
+              <span>Folder: {collection.sourceRoot}</span>
+              <span>{collection.documentCount.toLocaleString()} indexed documents</span>
+              <span className={collection.lastRun?.status === 'failed' ? 'text-red-500' : ''}>{describeRun(collection)}</span>
+            </div>
+            <div className="mt-3 flex gap-1 border-t border-gray-100 pt-3">
+              <button
+                onClick={() => setEditingId(collection.id)}
+                className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+              >
+                Edit
+              </button>
+              <button
+                onClick={() => setAccessId(accessId === collection.id ? null : collection.id)}
+                className="rounded px-2 py-1 text-xs font-medium text-gray-600 hover:bg-gray-100"
+              >
+                {accessId === collection.id ? 'Hide access' : 'Access'}
+              </button>
+              <button
+                onClick={() => handleDelete(collection)}
+                className="rounded px-2 py-1 text-xs font-medium text-red-500 hover:bg-red-50"
+              >
+                Delete
+              </button>
+            </div>
+            {accessId === collection.id && <CollectionAccess collection={collection} />}
+          </div>
+        ),
+      )}
+    </div>
+  );
+}
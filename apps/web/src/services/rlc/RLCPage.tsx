@@ -1,18 +1,27 @@
-import { useState, useEffect, useRef, useMemo, type FormEvent } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo, type FormEvent } from 'react';
 import { Link } from 'react-router';
 import { useAuth } from '../../hooks/use-auth';
+import { useServiceAccess } from '../../hooks/use-service-access';
 import {
   searchDocuments,
   getDocumentStats,
   getDocument,
   getDirectories,
+  getCollections,
+  exportSearchResults,
   type DocumentSearchResult,
   type DocumentStats,
   type DocumentDetail,
   type SearchResponse,
+  type SearchFacets,
+  type FacetBucket,
+  type SearchFilters,
   type DirectoryEntry,
+  type Collection,
 } from './api';
 import { ChatView } from './ChatView';
+import { CollectionsManager } from './Collections';
+import { DocumentViewers } from './AccessLog';
 
 const FILE_TYPE_COLORS: Record<string, string> = {
   pdf: 'bg-red-100 text-red-700',
@@ -27,8 +36,6 @@ const FILE_TYPE_COLORS: Record<string, string> = {
   csv: 'bg-gray-100 text-gray-700',
 };
 
-const ROOT_PREFIX = '/HITACHI RAIL COLLABORATION at RLC';
-
 function formatBytes(bytes: number | null): string {
   if (bytes === null || bytes === undefined) return '';
   if (bytes < 1024) return `${bytes} B`;
@@ -127,7 +134,8 @@ function ResultCard({
   result: DocumentSearchResult;
   index: number;
   isSelected: boolean;
-  onClick: () => void;
+  // Omitted when the user's role doesn't allow opening documents
+  onClick?: () => void;
 }) {
   const relevance = Math.min(result.rank * 100, 100);
 
@@ -135,7 +143,8 @@ function ResultCard({
     <button
       type="button"
       onClick={onClick}
-      className={`w-full rounded-lg border p-4 text-left transition-colors ${
+      disabled={!onClick}
+      className={`w-full rounded-lg border p-4 text-left transition-colors disabled:cursor-default ${
         isSelected
           ? 'border-blue-400 bg-blue-50 ring-1 ring-blue-400'
           : 'border-gray-200 bg-white hover:border-gray-300'
@@ -202,14 +211,17 @@ function DocumentDetailPanel({
   doc,
   isLoading,
   searchQuery,
+  showAccessLog,
   onClose,
 }: {
   doc: DocumentDetail | null;
   isLoading: boolean;
   searchQuery: string;
+  showAccessLog: boolean;
   onClose: () => void;
 }) {
   const textRef = useRef<HTMLDivElement>(null);
+  const [isAccessLogOpen, setIsAccessLogOpen] = useState(false);
 
   const { highlightedHtml, highlightCount } = useMemo(() => {
     const fullText = doc?.extractedText || '';
@@ -297,8 +309,22 @@ function DocumentDetailPanel({
         >
           Open in Dropbox
         </a>
+        {showAccessLog && (
+          <button
+            onClick={() => setIsAccessLogOpen((open) => !open)}
+            className="rounded px-2 py-0.5 font-medium text-gray-600 hover:bg-gray-100"
+          >
+            {isAccessLogOpen ? 'Hide viewers' : 'Who viewed this'}
+          </button>
+        )}
       </div>
 
+      {showAccessLog && isAccessLogOpen && (
+        <div className="max-h-48 overflow-y-auto border-b border-gray-100 px-4 py-2">
+          <DocumentViewers documentId={doc.id} />
+        </div>
+      )}
+
       {/* Full Text */}
       {doc.extractedText ? (
         <div
@@ -367,25 +393,27 @@ function Pagination({
 
 function DirectoryFilter({
   directories,
+  rootPrefix,
   value,
   onChange,
 }: {
   directories: DirectoryEntry[];
+  rootPrefix: string;
   value: string;
   onChange: (dir: string) => void;
 }) {
   const topLevel = useMemo(() => {
     const seen = new Map<string, number>();
     for (const dir of directories) {
-      const relative = dir.path.replace(ROOT_PREFIX, '');
-      const parts = relative.split('/').filter(Boolean);
+      const base = dir.path.startsWith(rootPrefix) ? rootPrefix : '';
+      const parts = dir.path.slice(base.length).split('/').filter(Boolean);
       if (parts.length >= 1) {
-        const top = ROOT_PREFIX + '/' + parts[0];
+        const top = base + '/' + parts[0];
         seen.set(top, (seen.get(top) || 0) + dir.docCount);
       }
     }
     return [...seen.entries()].sort((a, b) => a[0].localeCompare(b[0]));
-  }, [directories]);
+  }, [directories, rootPrefix]);
 
   if (topLevel.length === 0) return null;
 
@@ -398,19 +426,269 @@ function DirectoryFilter({
       <option value="">All Folders</option>
       {topLevel.map(([path, count]) => (
         <option key={path} value={path}>
-          {path.replace(ROOT_PREFIX + '/', '')} ({count})
+          {path.slice(path.lastIndexOf('/') + 1)} ({count})
         </option>
       ))}
     </select>
   );
 }
 
+// --- Search Syntax Help ---
+
+const SEARCH_SYNTAX: Array<[string, string]> = [
+  ['delay notice', 'Both words, in any form (notices, delayed)'],
+  ['"site readiness"', 'The exact phrase'],
+  ['-draft', 'Without this word or "phrase"'],
+  ['signal OR interlock', 'Either word or phrase'],
+  ['signal*', 'Words starting with signal'],
+  ['filename:minutes', 'File name contains the text ("quote" spaces)'],
+  ['type:pdf,docx', 'Only these file types'],
+  ['from:smith', 'Emails whose sender contains the text'],
+  ['before:2023-06-30', 'Last modified before the date (also 2023 or 2023-06)'],
+  ['after:2023-01', 'Last modified on or after the date'],
+];
+
+function SearchSyntaxHelp() {
+  return (
+    <div className="mt-2 rounded-lg border border-gray-200 bg-white p-3">
+      <table className="w-full text-xs">
+        <tbody>
+          {SEARCH_SYNTAX.map(([example, meaning]) => (
+            <tr key={example}>
+              <td className="py-0.5 pr-4 font-mono whitespace-nowrap text-gray-900">{example}</td>
+              <td className="py-0.5 text-gray-500">{meaning}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-gray-400">Combine them freely; -type:xlsx and -from:smith exclude instead.</p>
+    </div>
+  );
+}
+
+// --- Range Filters ---
+
+// As typed into the inputs; sizes are in MB here and bytes in the API
+type RangeForm = {
+  modifiedFrom: string;
+  modifiedTo: string;
+  minPages: string;
+  maxPages: string;
+  minWords: string;
+  maxWords: string;
+  minSizeMb: string;
+  maxSizeMb: string;
+};
+
+const emptyRanges: RangeForm = {
+  modifiedFrom: '',
+  modifiedTo: '',
+  minPages: '',
+  maxPages: '',
+  minWords: '',
+  maxWords: '',
+  minSizeMb: '',
+  maxSizeMb: '',
+};
+
+function toSearchFilters(form: RangeForm): SearchFilters {
+  const number = (value: string) => (value.trim() === '' ? undefined : Number(value));
+  const bytes = (mb: string) => (mb.trim() === '' ? undefined : Math.round(Number(mb) * 1024 * 1024));
+  return {
+    modifiedFrom: form.modifiedFrom || undefined,
+    modifiedTo: form.modifiedTo || undefined,
+    minPages: number(form.minPages),
+    maxPages: number(form.maxPages),
+    minWords: number(form.minWords),
+    maxWords: number(form.maxWords),
+    minSizeBytes: bytes(form.minSizeMb),
+    maxSizeBytes: bytes(form.maxSizeMb),
+  };
+}
+
+function RangeFilters({ value, onChange }: { value: RangeForm; onChange: (value: RangeForm) => void }) {
+  const rangeInput =
+    'w-24 rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none';
+  const numberRange = (label: string, min: keyof RangeForm, max: keyof RangeForm, step = '1') => (
+    <div>
+      <div className="text-xs font-medium text-gray-500">{label}</div>
+      <div className="mt-1 flex items-center gap-1">
+        <input
+          type="number"
+          min="0"
+          step={step}
+          placeholder="Min"
+          value={value[min]}
+          onChange={(e) => onChange({ ...value, [min]: e.target.value })}
+          className={rangeInput}
+        />
+        <span className="text-gray-400">–</span>
+        <input
+          type="number"
+          min="0"
+          step={step}
+          placeholder="Max"
+          value={value[max]}
+          onChange={(e) => onChange({ ...value, [max]: e.target.value })}
+          className={rangeInput}
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mt-2 flex flex-wrap items-end gap-4 rounded-lg border border-gray-200 bg-white p-3">
+      <div>
+        <div className="text-xs font-medium text-gray-500">Modified</div>
+        <div className="mt-1 flex items-center gap-1">
+          <input
+            type="date"
+            value={value.modifiedFrom}
+            onChange={(e) => onChange({ ...value, modifiedFrom: e.target.value })}
+            className="rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none"
+          />
+          <span className="text-gray-400">–</span>
+          <input
+            type="date"
+            value={value.modifiedTo}
+            onChange={(e) => onChange({ ...value, modifiedTo: e.target.value })}
+            className="rounded-lg border border-gray-300 bg-white px-2 py-1.5 text-sm focus:border-blue-500 focus:outline-none"
+          />
+        </div>
+      </div>
+      {numberRange('Pages', 'minPages', 'maxPages')}
+      {numberRange('Words', 'minWords', 'maxWords')}
+      {numberRange('Size (MB)', 'minSizeMb', 'maxSizeMb', 'any')}
+      <button
+        type="button"
+        onClick={() => onChange(emptyRanges)}
+        className="pb-1.5 text-xs text-gray-400 hover:text-blue-600"
+      >
+        Clear
+      </button>
+    </div>
+  );
+}
+
+// --- Facets ---
+
+// What a search runs with; clicking a facet changes one of these and searches again
+type SearchInputs = { query: string; fileType: string; directory: string; ranges: RangeForm };
+
+// from: term for a sender like "Jane Smith <jane@example.com>": the address when
+// there is one, quoted when it has spaces
+function senderTerm(sender: string) {
+  const value = (/<([^>]+)>/.exec(sender)?.[1] ?? sender).replace(/"/g, '').trim();
+  return /\s/.test(value) ? `from:"${value}"` : `from:${value}`;
+}
+
+function senderLabel(sender: string) {
+  return sender.replace(/<[^>]*>/, '').replace(/"/g, '').trim() || sender;
+}
+
+function FacetGroup({
+  title,
+  buckets,
+  label,
+  isActive,
+  onSelect,
+}: {
+  title: string;
+  buckets: FacetBucket[];
+  label: (value: string) => string;
+  isActive: (value: string) => boolean;
+  onSelect: (value: string) => void;
+}) {
+  if (buckets.length === 0) return null;
+  return (
+    <div className="min-w-0">
+      <div className="text-xs font-medium text-gray-500 uppercase">{title}</div>
+      <div className="mt-1 space-y-0.5">
+        {buckets.map((bucket) => (
+          <button
+            key={bucket.value}
+            onClick={() => onSelect(bucket.value)}
+            title={bucket.value}
+            className={`flex w-full items-center justify-between gap-2 rounded px-1.5 py-0.5 text-left text-xs ${
+              isActive(bucket.value) ? 'bg-blue-50 font-medium text-blue-700' : 'text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            <span className="truncate">{label(bucket.value)}</span>
+            <span className="text-gray-400">{bucket.count.toLocaleString()}</span>
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function FacetPanel({
+  facets,
+  inputs,
+  onRefine,
+}: {
+  facets: SearchFacets;
+  inputs: SearchInputs;
+  onRefine: (changes: Partial<SearchInputs>) => void;
+}) {
+  const yearRange = (year: string) => ({ modifiedFrom: `${year}-01-01`, modifiedTo: `${year}-12-31` });
+  const isYear = (year: string) =>
+    inputs.ranges.modifiedFrom === `${year}-01-01` && inputs.ranges.modifiedTo === `${year}-12-31`;
+
+  return (
+    <div className="mb-4 grid grid-cols-2 gap-4 rounded-lg border border-gray-200 bg-white p-3 sm:grid-cols-4">
+      <FacetGroup
+        title="Type"
+        buckets={facets.fileTypes}
+        label={(value) => value.toUpperCase()}
+        isActive={(value) => inputs.fileType === value}
+        onSelect={(value) => onRefine({ fileType: inputs.fileType === value ? '' : value })}
+      />
+      <FacetGroup
+        title="Folder"
+        buckets={facets.directories}
+        label={(value) => value.slice(value.lastIndexOf('/') + 1)}
+        isActive={(value) => inputs.directory === value}
+        onSelect={(value) => onRefine({ directory: inputs.directory === value ? '' : value })}
+      />
+      <FacetGroup
+        title="Year"
+        buckets={facets.years}
+        label={(value) => value}
+        isActive={isYear}
+        onSelect={(value) =>
+          onRefine({
+            ranges: { ...inputs.ranges, ...(isYear(value) ? { modifiedFrom: '', modifiedTo: '' } : yearRange(value)) },
+          })
+        }
+      />
+      <FacetGroup
+        title="Sender"
+        buckets={facets.senders}
+        label={senderLabel}
+        isActive={(value) => inputs.query.includes(senderTerm(value))}
+        onSelect={(value) => {
+          const term = senderTerm(value);
+          const query = inputs.query.includes(term)
+            ? inputs.query.replace(term, '').replace(/\s+/g, ' ').trim()
+            : `${inputs.query} ${term}`;
+          onRefine({ query });
+        }}
+      />
+    </div>
+  );
+}
+
 // --- Main Page ---
 
 export function RLCPage() {
   const { user, logout } = useAuth();
+  const { can } = useServiceAccess();
+  const isAdmin = user?.role === 'admin';
 
-  const [mode, setMode] = useState<'search' | 'chat'>('search');
+  const [mode, setMode] = useState<'search' | 'chat' | 'collections'>('search');
+  const [collections, setCollections] = useState<Collection[] | null>(null);
+  const [collectionId, setCollectionId] = useState('');
   const [stats, setStats] = useState<DocumentStats | null>(null);
   const [directories, setDirectories] = useState<DirectoryEntry[]>([]);
   const [query, setQuery] = useState('');
@@ -419,6 +697,10 @@ export function RLCPage() {
   const [searchResponse, setSearchResponse] = useState<SearchResponse | null>(null);
   const [page, setPage] = useState(1);
   const [isSearching, setIsSearching] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [showSyntax, setShowSyntax] = useState(false);
+  const [ranges, setRanges] = useState<RangeForm>(emptyRanges);
+  const [showRanges, setShowRanges] = useState(false);
   const [error, setError] = useState('');
 
   // Document detail state
@@ -426,26 +708,46 @@ export function RLCPage() {
   const [selectedDoc, setSelectedDoc] = useState<DocumentDetail | null>(null);
   const [isLoadingDoc, setIsLoadingDoc] = useState(false);
 
-  useEffect(() => {
-    getDocumentStats().then(setStats).catch(() => {});
-    getDirectories().then((res) => setDirectories(res.directories)).catch(() => {});
+  const loadCollections = useCallback(() => {
+    getCollections()
+      .then((res) => setCollections(res.collections))
+      .catch(() => setCollections([]));
   }, []);
 
-  const handleSearch = async (e?: FormEvent, overridePage?: number) => {
-    if (e) e.preventDefault();
-    if (!query.trim()) return;
+  useEffect(() => { loadCollections(); }, [loadCollections]);
+
+  const activeRanges = Object.values(ranges).filter((v) => v !== '').length;
+
+  // The chosen collection, or the first one the user can read
+  const collection = collections?.find((c) => c.id === collectionId) ?? collections?.[0] ?? null;
+
+  useEffect(() => {
+    if (!collection) return;
+    setStats(null);
+    setDirectories([]);
+    setSelectedDirectory('');
+    setSearchResponse(null);
+    setSelectedDocId(null);
+    setSelectedDoc(null);
+    getDocumentStats(collection.id).then(setStats).catch(() => {});
+    getDirectories(collection.id).then((res) => setDirectories(res.directories)).catch(() => {});
+  }, [collection?.id]);
+
+  const runSearch = async (inputs: SearchInputs, targetPage: number) => {
+    if (!inputs.query.trim()) return;
 
     setIsSearching(true);
     setError('');
     setSelectedDocId(null);
     setSelectedDoc(null);
-    const targetPage = overridePage ?? 1;
 
     try {
       const res = await searchDocuments({
-        q: query.trim(),
-        type: fileType || undefined,
-        directory: selectedDirectory || undefined,
+        q: inputs.query.trim(),
+        collection: collection?.id,
+        type: inputs.fileType || undefined,
+        directory: inputs.directory || undefined,
+        filters: toSearchFilters(inputs.ranges),
         limit: 20,
         page: targetPage,
       });
@@ -458,11 +760,52 @@ export function RLCPage() {
     }
   };
 
+  const searchInputs: SearchInputs = { query, fileType, directory: selectedDirectory, ranges };
+
+  const handleSearch = (e?: FormEvent, overridePage?: number) => {
+    if (e) e.preventDefault();
+    runSearch(searchInputs, overridePage ?? 1);
+  };
+
+  const handleRefine = (changes: Partial<SearchInputs>) => {
+    const inputs = { ...searchInputs, ...changes };
+    setQuery(inputs.query);
+    setFileType(inputs.fileType);
+    setSelectedDirectory(inputs.directory);
+    setRanges(inputs.ranges);
+    runSearch(inputs, 1);
+  };
+
   const handlePageChange = (newPage: number) => {
     handleSearch(undefined, newPage);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
+  const handleExport = async () => {
+    if (!searchResponse) return;
+    setIsExporting(true);
+    setError('');
+    try {
+      const blob = await exportSearchResults({
+        q: searchResponse.query,
+        collection: collection?.id,
+        type: fileType || undefined,
+        directory: selectedDirectory || undefined,
+        filters: toSearchFilters(ranges),
+      });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `rlc-search-${new Date().toISOString().slice(0, 10)}.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Export failed');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
   const handleSelectDoc = async (docId: string) => {
     if (docId === selectedDocId) {
       setSelectedDocId(null);
@@ -527,22 +870,61 @@ export function RLCPage() {
             >
               Search
             </button>
-            <button
-              onClick={() => setMode('chat')}
-              className={`border-b-2 py-3 text-sm font-medium transition-colors ${
-                mode === 'chat'
-                  ? 'border-blue-500 text-blue-600'
-                  : 'border-transparent text-gray-500 hover:text-gray-700'
-              }`}
-            >
-              AI Search
-            </button>
+            {can('chat') && (
+              <button
+                onClick={() => setMode('chat')}
+                className={`border-b-2 py-3 text-sm font-medium transition-colors ${
+                  mode === 'chat'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                AI Search
+              </button>
+            )}
+            {isAdmin && (
+              <button
+                onClick={() => setMode('collections')}
+                className={`border-b-2 py-3 text-sm font-medium transition-colors ${
+                  mode === 'collections'
+                    ? 'border-blue-500 text-blue-600'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                Collections
+              </button>
+            )}
+            {collections && collections.length > 1 && mode !== 'collections' && (
+              <select
+                value={collection?.id ?? ''}
+                onChange={(e) => setCollectionId(e.target.value)}
+                aria-label="Collection"
+                className="my-2 ml-auto rounded-lg border border-gray-300 bg-white px-3 py-1.5 text-sm text-gray-700 focus:border-blue-500 focus:outline-none"
+              >
+                {collections.map((c) => (
+                  <option key={c.id} value={c.id}>
+                    {c.name} ({c.documentCount.toLocaleString()})
+                  </option>
+                ))}
+              </select>
+            )}
           </nav>
         </div>
       </div>
 
-      {mode === 'chat' ? (
-        <ChatView stats={stats} />
+      {mode === 'collections' && isAdmin ? (
+        <CollectionsManager collections={collections ?? []} onChange={loadCollections} />
+      ) : collections && collections.length === 0 ? (
+        <div className="mt-16 text-center">
+          <h2 className="text-lg font-semibold text-gray-900">No document collections</h2>
+          <p className="mt-1 text-sm text-gray-500">
+            {isAdmin
+              ? 'Add a collection under Collections, then run the ingestion scripts for it.'
+              : "You don't have access to any document collections yet. Ask an administrator."}
+          </p>
+        </div>
+      ) : mode === 'chat' && can('chat') ? (
+        <ChatView key={collection?.id} stats={stats} collectionId={collection?.id} />
       ) : (
         /* Search mode */
         <div className="flex flex-1 overflow-hidden">
@@ -579,6 +961,7 @@ export function RLCPage() {
                   </div>
                   <DirectoryFilter
                     directories={directories}
+                    rootPrefix={collection?.sourceRoot ?? ''}
                     value={selectedDirectory}
                     onChange={setSelectedDirectory}
                   />
@@ -604,6 +987,25 @@ export function RLCPage() {
                     {isSearching ? 'Searching...' : 'Search'}
                   </button>
                 </div>
+                <div className="mt-1.5 flex gap-4">
+                  <button
+                    type="button"
+                    onClick={() => setShowRanges(!showRanges)}
+                    className={`text-xs hover:text-blue-600 ${activeRanges > 0 ? 'font-medium text-blue-600' : 'text-gray-400'}`}
+                  >
+                    {showRanges ? 'Hide filters' : 'More filters'}
+                    {activeRanges > 0 && ` (${activeRanges})`}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setShowSyntax(!showSyntax)}
+                    className="text-xs text-gray-400 hover:text-blue-600"
+                  >
+                    {showSyntax ? 'Hide search syntax' : 'Search syntax'}
+                  </button>
+                </div>
+                {showRanges && <RangeFilters value={ranges} onChange={setRanges} />}
+                {showSyntax && <SearchSyntaxHelp />}
               </form>
 
               {/* Error */}
@@ -628,6 +1030,15 @@ export function RLCPage() {
                       )}
                     </div>
                     <div className="flex items-center gap-2 text-xs text-gray-400">
+                      {can('export') && searchResponse.total > 0 && (
+                        <button
+                          onClick={handleExport}
+                          disabled={isExporting}
+                          className="mr-2 rounded border border-gray-200 bg-white px-2 py-0.5 font-medium text-gray-600 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {isExporting ? 'Exporting...' : 'Export CSV'}
+                        </button>
+                      )}
                       <span className="rounded bg-gray-100 px-1.5 py-0.5 font-mono">
                         {searchResponse.searchTimeMs}ms
                       </span>
@@ -635,6 +1046,16 @@ export function RLCPage() {
                     </div>
                   </div>
 
+                  {!can('read') && (
+                    <p className="mb-3 text-xs text-gray-400">
+                      Your role shows search snippets only. Ask an admin for reader access to open full documents.
+                    </p>
+                  )}
+
+                  {searchResponse.total > 0 && (
+                    <FacetPanel facets={searchResponse.facets} inputs={searchInputs} onRefine={handleRefine} />
+                  )}
+
                   {/* Results List */}
                   {searchResponse.results.length > 0 ? (
                     <div className="space-y-3">
@@ -644,7 +1065,7 @@ export function RLCPage() {
                           result={result}
                           index={(searchResponse.page - 1) * searchResponse.limit + i}
                           isSelected={result.id === selectedDocId}
-                          onClick={() => handleSelectDoc(result.id)}
+                          onClick={can('read') ? () => handleSelectDoc(result.id) : undefined}
                         />
                       ))}
                     </div>
@@ -652,7 +1073,7 @@ export function RLCPage() {
                     <div className="rounded-lg border border-gray-200 bg-white py-12 text-center">
                       <div className="text-gray-400">No results found</div>
                       <div className="mt-1 text-sm text-gray-400">
-                        Try simpler terms or remove the file type filter
+                        Try simpler terms or remove some filters
                       </div>
                     </div>
                   )}
@@ -674,18 +1095,25 @@ export function RLCPage() {
                   <h2 className="mt-3 text-lg font-semibold text-gray-900">Search the Document Corpus</h2>
                   <p className="mt-1 text-sm text-gray-500">
                     Full-text search across {stats?.indexedDocuments.toLocaleString() ?? '...'} indexed documents
-                    ({stats ? formatNumber(stats.totalWords) : '...'} words) from the Hitachi Rail Dropbox.
+                    ({stats ? formatNumber(stats.totalWords) : '...'} words) in {collection?.name ?? 'this collection'}.
                   </p>
                   <div className="mx-auto mt-4 max-w-md text-left">
                     <div className="text-xs font-medium text-gray-500 uppercase">Try searching for:</div>
                     <div className="mt-2 flex flex-wrap gap-2">
-                      {['delay notice', 'change order', 'site readiness', 'WCS installation', 'CDR review', 'liquidated damages'].map((term) => (
+                      {[
+                        'delay notice',
+                        'change order',
+                        '"site readiness" -draft',
+                        'WCS installation',
+                        'CDR review OR design review',
+                        'liquidated damages type:pdf',
+                      ].map((term) => (
                         <button
                           key={term}
                           onClick={() => {
                             setQuery(term);
                             setTimeout(() => {
-                              searchDocuments({ q: term, limit: 20, page: 1 }).then((res) => {
+                              searchDocuments({ q: term, collection: collection?.id, limit: 20, page: 1 }).then((res) => {
                                 setSearchResponse(res);
                                 setPage(1);
                               });
@@ -710,6 +1138,7 @@ export function RLCPage() {
                 doc={selectedDoc}
                 isLoading={isLoadingDoc}
                 searchQuery={searchResponse?.query ?? ''}
+                showAccessLog={isAdmin}
                 onClose={() => {
                   setSelectedDocId(null);
                   setSelectedDoc(null);
@@ -1,7 +1,10 @@
+import { fetchWithRefresh } from '../../api/fetch-with-refresh';
+
 // --- Types ---
 
 export type DocumentSearchResult = {
   id: string;
+  collectionId: string;
   fileName: string;
   fileType: string;
   dropboxPath: string;
@@ -15,9 +18,32 @@ export type DocumentSearchResult = {
   snippet: string;
 };
 
+// Ranges that narrow a search; dates are YYYY-MM-DD and both ends are inclusive
+export type SearchFilters = {
+  modifiedFrom?: string;
+  modifiedTo?: string;
+  minPages?: number;
+  maxPages?: number;
+  minWords?: number;
+  maxWords?: number;
+  minSizeBytes?: number;
+  maxSizeBytes?: number;
+};
+
+export type FacetBucket = { value: string; count: number };
+
+// How all matches (not just this page) break down; years are strings like "2023"
+export type SearchFacets = {
+  fileTypes: FacetBucket[];
+  directories: FacetBucket[];
+  years: FacetBucket[];
+  senders: FacetBucket[];
+};
+
 export type SearchResponse = {
   results: DocumentSearchResult[];
   total: number;
+  facets: SearchFacets;
   query: string;
   page: number;
   limit: number;
@@ -26,6 +52,7 @@ export type SearchResponse = {
 
 export type DocumentDetail = {
   id: string;
+  collectionId: string;
   fileName: string;
   fileType: string;
   dropboxPath: string;
@@ -60,6 +87,97 @@ export type DirectoriesResponse = {
   directories: DirectoryEntry[];
 };
 
+// --- Collection types ---
+
+export type IngestionRun = {
+  id: string;
+  status: 'running' | 'completed' | 'failed';
+  filesInManifest: number | null;
+  documentsAdded: number | null;
+  documentsCompleted: number | null;
+  documentsFailed: number | null;
+  errorMessage: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+};
+
+export type Collection = {
+  id: string;
+  slug: string;
+  name: string;
+  description: string | null;
+  // Dropbox folder every document path in the collection starts with
+  sourceRoot: string;
+  restricted: boolean;
+  documentCount: number;
+  createdAt: string;
+  // Admins only
+  systemPrompt?: string | null;
+  grantCount?: number;
+  lastRun?: IngestionRun | null;
+};
+
+export type CollectionInput = {
+  slug: string;
+  name: string;
+  description: string | null;
+  sourceRoot: string;
+  systemPrompt: string | null;
+  restricted: boolean;
+};
+
+export type PrincipalType = 'user' | 'group' | 'organization';
+
+export type CollectionGrant = {
+  id: string;
+  principalType: PrincipalType;
+  principalId: string;
+  label: string;
+  createdAt: string;
+};
+
+// --- Access log types (admin) ---
+
+export type AccessAction = 'view' | 'search' | 'export' | 'chat_search' | 'chat_get_document';
+
+export type DocumentAccessReport = {
+  events: Array<{
+    id: string;
+    userId: string | null;
+    userEmail: string;
+    action: AccessAction;
+    apiTokenId: string | null;
+    impersonatorEmail: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+  }>;
+  viewers: Array<{
+    userId: string | null;
+    userEmail: string;
+    accessCount: number;
+    firstAccessAt: string;
+    lastAccessAt: string;
+  }>;
+};
+
+export type UserActivityReport = {
+  events: Array<{
+    id: string;
+    action: AccessAction;
+    documentId: string | null;
+    fileName: string | null;
+    dropboxPath: string | null;
+    query: string | null;
+    filters: Record<string, unknown> | null;
+    resultCount: number | null;
+    apiTokenId: string | null;
+    impersonatorEmail: string | null;
+    ipAddress: string | null;
+    createdAt: string;
+  }>;
+  totals: Array<{ action: AccessAction; count: number; documents: number }>;
+};
+
 // --- Chat types ---
 
 export type ChatMessage = {
@@ -74,8 +192,8 @@ export type ChatSSEEvent =
 
 // --- Fetch helper ---
 
-async function apiFetch<T>(url: string): Promise<T> {
-  const res = await fetch(url);
+async function apiFetch<T>(url: string, init?: RequestInit): Promise<T> {
+  const res = await fetchWithRefresh(url, init);
 
   if (res.status === 401) {
     window.location.href = '/app/login';
@@ -92,41 +210,131 @@ async function apiFetch<T>(url: string): Promise<T> {
 
 // --- API functions ---
 
+// Without a collection the API covers every collection the user can read
+function collectionQuery(collection?: string) {
+  return collection ? `?${new URLSearchParams({ collection }).toString()}` : '';
+}
+
+function setFilters(qs: URLSearchParams, filters: SearchFilters = {}) {
+  for (const [key, value] of Object.entries(filters)) {
+    if (value !== undefined && value !== '') qs.set(key, String(value));
+  }
+}
+
 export function searchDocuments(params: {
   q: string;
+  collection?: string;
   type?: string;
   directory?: string;
+  filters?: SearchFilters;
   limit?: number;
   page?: number;
 }): Promise<SearchResponse> {
   const qs = new URLSearchParams();
   qs.set('q', params.q);
+  if (params.collection) qs.set('collection', params.collection);
   if (params.type) qs.set('type', params.type);
   if (params.directory) qs.set('directory', params.directory);
+  setFilters(qs, params.filters);
   if (params.limit) qs.set('limit', String(params.limit));
   if (params.page) qs.set('page', String(params.page));
   return apiFetch(`/api/documents/search?${qs.toString()}`);
 }
 
+// Every match for a search as CSV (analysts only)
+export async function exportSearchResults(params: {
+  q: string;
+  collection?: string;
+  type?: string;
+  directory?: string;
+  filters?: SearchFilters;
+}): Promise<Blob> {
+  const qs = new URLSearchParams();
+  qs.set('q', params.q);
+  if (params.collection) qs.set('collection', params.collection);
+  if (params.type) qs.set('type', params.type);
+  if (params.directory) qs.set('directory', params.directory);
+  setFilters(qs, params.filters);
+  const res = await fetchWithRefresh(`/api/documents/export?${qs.toString()}`);
+  if (!res.ok) {
+    const body = await res.json().catch(() => ({ error: 'Export failed' }));
+    throw new Error((body as { error: string }).error || `Export failed: ${res.status}`);
+  }
+  return res.blob();
+}
+
 export function getDocument(id: string): Promise<DocumentDetail> {
   return apiFetch(`/api/documents/${id}`);
 }
 
-export function getDocumentStats(): Promise<DocumentStats> {
-  return apiFetch('/api/documents/stats');
+export function getDocumentStats(collection?: string): Promise<DocumentStats> {
+  return apiFetch(`/api/documents/stats${collectionQuery(collection)}`);
+}
+
+export function getDirectories(collection?: string): Promise<DirectoriesResponse> {
+  return apiFetch(`/api/documents/directories${collectionQuery(collection)}`);
+}
+
+// --- Collections ---
+
+export function getCollections(): Promise<{ collections: Collection[] }> {
+  return apiFetch('/api/documents/collections');
+}
+
+export function createCollection(input: CollectionInput): Promise<{ collection: Collection }> {
+  return apiFetch('/api/documents/collections', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(input),
+  });
+}
+
+export function updateCollection(id: string, changes: Partial<Omit<CollectionInput, 'slug'>>): Promise<{ collection: Collection }> {
+  return apiFetch(`/api/documents/collections/${id}`, {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(changes),
+  });
+}
+
+export function deleteCollection(id: string): Promise<{ success: boolean }> {
+  return apiFetch(`/api/documents/collections/${id}`, { method: 'DELETE' });
+}
+
+export function getCollectionAccess(id: string): Promise<{ grants: CollectionGrant[] }> {
+  return apiFetch(`/api/documents/collections/${id}/access`);
+}
+
+export function grantCollectionAccess(id: string, principalType: PrincipalType, principalId: string): Promise<{ grant: CollectionGrant }> {
+  return apiFetch(`/api/documents/collections/${id}/access`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ principalType, principalId }),
+  });
 }
 
-export function getDirectories(): Promise<DirectoriesResponse> {
-  return apiFetch('/api/documents/directories');
+export function revokeCollectionAccess(id: string, grantId: string): Promise<{ success: boolean }> {
+  return apiFetch(`/api/documents/collections/${id}/access/${grantId}`, { method: 'DELETE' });
+}
+
+export function getDocumentAccessLog(id: string): Promise<DocumentAccessReport> {
+  return apiFetch(`/api/documents/${id}/access-log`);
+}
+
+export function getUserDocumentActivity(userId: string, range: { from?: string; to?: string } = {}): Promise<UserActivityReport> {
+  const qs = new URLSearchParams();
+  if (range.from) qs.set('from', range.from);
+  if (range.to) qs.set('to', range.to);
+  return apiFetch(`/api/documents/access-log/users/${userId}?${qs.toString()}`);
 }
 
 // --- Chat SSE consumer ---
 
-export async function* streamChat(messages: ChatMessage[]): AsyncGenerator<ChatSSEEvent> {
-  const res = await fetch('/api/documents/chat', {
+export async function* streamChat(messages: ChatMessage[], collectionId?: string): AsyncGenerator<ChatSSEEvent> {
+  const res = await fetchWithRefresh('/api/documents/chat', {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ messages }),
+    body: JSON.stringify({ collectionId, messages }),
   });
 
   if (res.status === 401) {
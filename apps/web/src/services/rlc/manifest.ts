@@ -0,0 +1,8 @@
+import type { ServiceAppManifest } from '../registry';
+import { RLCPage } from './RLCPage';
+
+export const rlcManifest: ServiceAppManifest = {
+  slug: 'rlc-controls',
+  path: '/rlc',
+  Page: RLCPage,
+};